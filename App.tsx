@@ -1,18 +1,14 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   format, 
-  addMonths, 
-  subMonths, 
+  addDays, 
   startOfMonth, 
   endOfMonth, 
   eachDayOfInterval, 
-  isSameDay, 
   parseISO,
   startOfWeek,
-  endOfWeek,
-  isToday as isDateToday
+  endOfWeek
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -20,8 +16,6 @@ import {
   Clock, 
   Sparkles, 
   Trash2, 
-  CheckCircle, 
-  XCircle,
   Share2,
   Calendar as CalendarIcon,
   Save,
@@ -30,181 +24,609 @@ import {
   Download,
   Upload,
   Settings,
-  Info
+  Info,
+  Wallet,
+  BarChart3,
+  History,
+  FileSpreadsheet,
+  Search,
+  Bell,
+  RefreshCw,
+  ScrollText,
+  WifiOff,
+  AlertTriangle,
+  LayoutTemplate,
+  CalendarPlus,
+  Copy
 } from 'lucide-react';
-import { AppData, DayPlan, GameEntry } from './types';
-import { analyzeDayPicks } from './services/geminiService';
-
-const STORAGE_KEY = 'bet_planner_pro_data';
-
-const createNewGame = (): GameEntry => ({
-  id: crypto.randomUUID(),
-  time: '',
-  league: '',
-  match: '',
-  status: 'pending'
-});
-
-const App: React.FC = () => {
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [appData, setAppData] = useState<AppData>(() => {
+import {
+  AIAnalysisResponse,
+  AppData,
+  AppSettings,
+  Bankroll,
+  BetSlip,
+  CsvPreviewRow,
+  GameEntry,
+  ImportMode,
+  ImportReport,
+  Fixture,
+  SavedFilter,
+  SavedReview,
+  QueuedAIRequest,
+  StatsFilter,
+  TemplateLibrary,
+  ViewRoute
+} from './types';
+import { AIAnalysisError, DEFAULT_AI_SETTINGS } from './services/analysisProvider';
+import { analyzeWithCache, createAnalysisProvider } from './services/aiService';
+import { BANKROLL_KEY, formatCurrency, loadBankroll, summarizeBankroll } from './services/bankroll';
+import StatsDashboard from './components/StatsDashboard';
+import SearchDialog from './components/SearchDialog';
+import ShareDialog from './components/ShareDialog';
+import SyncDialog from './components/SyncDialog';
+import RetrospectiveDialog from './components/RetrospectiveDialog';
+import { SAVED_FILTERS_KEY, loadSavedFilters } from './services/search';
+import { distinctValues } from './services/stats';
+import SettingsModal from './components/SettingsModal';
+import ImportDialog from './components/ImportDialog';
+import SnapshotsDialog from './components/SnapshotsDialog';
+import { mergeAppData, parseBackupFile, serializeAppData } from './services/storage';
+import { applyCsvRows, buildGamesCsv, parseCsv } from './services/csv';
+import { downloadFile } from './services/download';
+import CsvImportDialog from './components/CsvImportDialog';
+import HistoryMenu from './components/HistoryMenu';
+import BetSlipPanel from './components/BetSlipPanel';
+import GameCard from './components/GameCard';
+import MonthView from './components/MonthView';
+import WeekView from './components/WeekView';
+import AgendaView from './components/AgendaView';
+import TodayView from './components/TodayView';
+import { CALENDAR_VIEWS, formatViewHash, parseViewHash, routeForView, shiftRoute, weekDays } from './services/calendarViews';
+import TemplatesDialog from './components/TemplatesDialog';
+import CopyDayDialog from './components/CopyDayDialog';
+import FixturePickerDialog from './components/FixturePickerDialog';
+import { FIXTURES_KEY, addFixtureToPlan, formatMatch, loadFixtures } from './services/fixtures';
+import { REVIEWS_KEY, addReview, createReview, loadReviews } from './services/reviews';
+import { isOfflineFailure } from './services/aiQueue';
+import { TEMPLATES_KEY, applyRecurringRules, applyTemplate, copyDayTo, loadTemplateLibrary } from './services/templates';
+import {
+  EditableGameField,
+  GamePatch,
+  PlannerAction,
+  emptyDayPlan,
+  findGameDate,
+  isBlankGame,
+  plannerReducer
+} from './services/planner';
+import {
+  DEFAULT_TIME_SETTINGS,
+  placeByKickoff,
+} from './services/kickoff';
+import { usePlannerHistory } from './hooks/usePlannerHistory';
+import { useReminders } from './hooks/useReminders';
+import { useSync } from './hooks/useSync';
+import { useAiQueue } from './hooks/useAiQueue';
+import { useInstallPrompt } from './hooks/useInstallPrompt';
+import { ProfilesApi } from './hooks/useProfiles';
+import { profileKey } from './services/profiles';
+import ProfileMenu from './components/ProfileMenu';
+import ProfileComparisonDialog from './components/ProfileComparisonDialog';
+import { DEFAULT_REMINDER_SETTINGS } from './services/reminders';
+import { DEFAULT_STAKING_SETTINGS, checkGuardrails, currentLossStreak, suggestStake } from './services/staking';
+import { DEFAULT_SYNC_SETTINGS } from './services/sync';
+import { dateLocale, detectLanguage, formatDayMonth, isLanguage, selectLanguage, t, weekStartsOn } from './services/i18n';
+import { TranslationKey } from './services/locales/ptBR';
+import {
+  StorageQuotaError,
+  createSnapshot,
+  isIndexedDbAvailable,
+  loadPlannerData,
+  maybeAutoSnapshot,
+  persistChanges
+} from './services/idbStore';
+
+const SETTINGS_KEY = 'bet_planner_pro_settings';
+
+const FIELD_LABELS: Partial<Record<keyof GameEntry, TranslationKey>> = {
+  time: 'field.time',
+  league: 'field.league',
+  match: 'field.match',
+  market: 'field.market',
+  selection: 'field.selection',
+  bookmaker: 'field.bookmaker',
+  stake: 'field.stake',
+  odds: 'field.odds',
+  notes: 'field.notes',
+  probability: 'field.probability',
+  tipster: 'field.tipster',
+  tags: 'field.tags',
+  confidence: 'field.confidence',
+  closingOdds: 'field.closingOdds'
+};
+
+interface AppProps {
+  profiles: ProfilesApi;
+}
+
+const App: React.FC<AppProps> = ({ profiles }) => {
+  const profileId = profiles.active.id;
+  // Visão do calendário espelhada no hash da URL (ex.: #/week/2025-03-10)
+  const [route, setRoute] = useState<ViewRoute>(() => parseViewHash(window.location.hash));
+  const currentDate = useMemo(() => parseISO(route.date), [route.date]);
+  const history = usePlannerHistory();
+  const { data: appData, commit } = history;
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [bankroll, setBankroll] = useState<Bankroll>(() => loadBankroll(profileKey(BANKROLL_KEY, profileId)));
+  const [settings, setSettings] = useState<AppSettings>(() => {
     try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : {};
+      const saved = localStorage.getItem(profileKey(SETTINGS_KEY, profileId));
+      const parsed = saved ? JSON.parse(saved) : {};
+      return {
+        // Configurações gravadas antes da escolha de idioma continuam em português
+        language: isLanguage(parsed.language) ? parsed.language : saved ? 'pt-BR' : detectLanguage(),
+        ai: { ...DEFAULT_AI_SETTINGS, ...parsed.ai },
+        time: { ...DEFAULT_TIME_SETTINGS, ...parsed.time },
+        reminders: { ...DEFAULT_REMINDER_SETTINGS, ...parsed.reminders },
+        staking: { ...DEFAULT_STAKING_SETTINGS, ...parsed.staking },
+        sync: { ...DEFAULT_SYNC_SETTINGS, ...parsed.sync }
+      };
     } catch (e) {
-      console.warn("Falha ao carregar dados do LocalStorage", e);
-      return {};
+      console.warn("Falha ao carregar configurações do LocalStorage", e);
+      return { language: detectLanguage(), ai: DEFAULT_AI_SETTINGS, time: DEFAULT_TIME_SETTINGS, reminders: DEFAULT_REMINDER_SETTINGS, staking: DEFAULT_STAKING_SETTINGS, sync: DEFAULT_SYNC_SETTINGS };
     }
   });
+  // Antes de qualquer texto ser formatado neste render (inclusive pelos filhos)
+  selectLanguage(settings.language);
   const [selectedDate, setSelectedDate] = useState<string | null>(format(new Date(), 'yyyy-MM-dd'));
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [aiAnalysis, setAiAnalysis] = useState<AIAnalysisResponse | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [aiFromCache, setAiFromCache] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  // Filtro inicial do painel de desempenho; null = painel fechado
+  const [statsFilter, setStatsFilter] = useState<StatsFilter | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [reviews, setReviews] = useState<SavedReview[]>(() => loadReviews(profileKey(REVIEWS_KEY, profileId)));
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(loadSavedFilters);
+  const [showSettings, setShowSettings] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; report: ImportReport } | null>(null);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  // Jogos selecionados para o próximo bilhete múltiplo (podem ser de dias diferentes)
+  const [slipDraft, setSlipDraft] = useState<string[]>([]);
+  const [library, setLibrary] = useState<TemplateLibrary>(() => loadTemplateLibrary(profileKey(TEMPLATES_KEY, profileId)));
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showCopyDay, setShowCopyDay] = useState(false);
+  const [fixtures, setFixtures] = useState<Fixture[]>(loadFixtures);
+  const [showFixtures, setShowFixtures] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Último estado gravado; base para salvar apenas os dias alterados
+  const persistedRef = useRef<AppData>({});
+
+  useEffect(() => {
+    loadPlannerData()
+      .then(data => {
+        persistedRef.current = data;
+        history.reset(data);
+      })
+      .catch(e => console.warn("Falha ao carregar dados salvos", e))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  const persistAppData = async (data: AppData) => {
+    await persistChanges(persistedRef.current, data);
+    persistedRef.current = data;
+    await maybeAutoSnapshot(data);
+  };
 
   // Auto-save robusto
   useEffect(() => {
+    if (!isLoaded) return;
     const timer = setTimeout(() => {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(appData));
-      } catch (e) {
-        console.error("Erro ao salvar no LocalStorage (provavelmente cheio)", e);
-      }
+      persistAppData(appData).catch(e => {
+        console.error("Erro ao salvar dados", e);
+        if (e instanceof StorageQuotaError) alert(e.message);
+      });
     }, 500);
     return () => clearTimeout(timer);
-  }, [appData]);
+  }, [appData, isLoaded]);
+
+  // Ao ir para segundo plano ou fechar a aba, grava na hora: o debounce acima
+  // pode não chegar a rodar e a última edição se perderia
+  const latestDataRef = useRef(appData);
+  latestDataRef.current = appData;
+  useEffect(() => {
+    if (!isLoaded) return;
+    const flush = () => {
+      const data = latestDataRef.current;
+      if (data === persistedRef.current) return;
+      persistChanges(persistedRef.current, data)
+        .then(() => { persistedRef.current = data; })
+        .catch(e => console.error("Erro ao salvar dados", e));
+    };
+    const onVisibilityChange = () => document.visibilityState === 'hidden' && flush();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [isLoaded]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(profileKey(BANKROLL_KEY, profileId), JSON.stringify(bankroll));
+    } catch (e) {
+      console.error("Erro ao salvar banca no LocalStorage", e);
+    }
+  }, [bankroll]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(profileKey(SETTINGS_KEY, profileId), JSON.stringify(settings));
+    } catch (e) {
+      console.error("Erro ao salvar configurações no LocalStorage", e);
+    }
+  }, [settings]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(profileKey(TEMPLATES_KEY, profileId), JSON.stringify(library));
+    } catch (e) {
+      console.error("Erro ao salvar modelos no LocalStorage", e);
+    }
+  }, [library]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(profileKey(REVIEWS_KEY, profileId), JSON.stringify(reviews));
+    } catch (e) {
+      console.error("Erro ao salvar revisões no LocalStorage", e);
+    }
+  }, [reviews]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(FIXTURES_KEY, JSON.stringify(fixtures));
+    } catch (e) {
+      console.error("Erro ao salvar jogos importados no LocalStorage", e);
+    }
+  }, [fixtures]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(savedFilters));
+    } catch (e) {
+      console.error("Erro ao salvar filtros no LocalStorage", e);
+    }
+  }, [savedFilters]);
+
+  // Ctrl/Cmd+K abre a busca global
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const analysisProvider = useMemo(() => createAnalysisProvider(settings.ai), [settings.ai]);
+
+  const bankrollSummary = useMemo(() => summarizeBankroll(appData, bankroll), [appData, bankroll]);
 
   const currentMonthDays = useMemo(() => {
-    const start = startOfWeek(startOfMonth(currentDate), { weekStartsOn: 0 });
-    const end = endOfWeek(endOfMonth(currentDate), { weekStartsOn: 0 });
+    const start = startOfWeek(startOfMonth(currentDate), { weekStartsOn: weekStartsOn() });
+    const end = endOfWeek(endOfMonth(currentDate), { weekStartsOn: weekStartsOn() });
     return eachDayOfInterval({ start, end });
-  }, [currentDate]);
+  }, [currentDate, settings.language]);
+
+  const visibleDates = useMemo(() => {
+    switch (route.view) {
+      case 'month':
+        return currentMonthDays.map(day => format(day, 'yyyy-MM-dd'));
+      case 'week':
+        return weekDays(route.date).map(day => format(day, 'yyyy-MM-dd'));
+      case 'agenda':
+        return eachDayOfInterval({ start: currentDate, end: parseISO(route.to!) }).map(day => format(day, 'yyyy-MM-dd'));
+      case 'today':
+        return [route.date, format(addDays(currentDate, 1), 'yyyy-MM-dd')];
+    }
+  }, [route, currentMonthDays, currentDate]);
+
+  useEffect(() => {
+    const hash = formatViewHash(route);
+    if (window.location.hash !== hash) window.history.replaceState(null, '', hash);
+  }, [route]);
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseViewHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Pré-popula os dias visíveis a partir de hoje; sem alterações, o commit não gera histórico
+  useEffect(() => {
+    if (!isLoaded) return;
+    const today = format(new Date(), 'yyyy-MM-dd');
+    commit(t('history.recurring'), prev => applyRecurringRules(prev, library, visibleDates, today));
+  }, [visibleDates, library, isLoaded]);
+
+  // Trocar o fuso de exibição pode mudar o dia de jogos perto da meia-noite
+  useEffect(() => {
+    if (!isLoaded) return;
+    commit(t('history.adjustTimeZone'), prev => placeByKickoff(prev, settings.time));
+  }, [settings.time, isLoaded]);
 
   const selectedDayPlan = useMemo(() => {
     if (!selectedDate) return null;
-    return appData[selectedDate] || {
-      date: selectedDate,
-      games: [createNewGame()]
-    };
+    return appData[selectedDate] || emptyDayPlan(selectedDate);
   }, [selectedDate, appData]);
 
-  const handleUpdateGame = (index: number, field: keyof GameEntry, value: string) => {
-    if (!selectedDate) return;
-    
-    const currentPlan = selectedDayPlan || {
-      date: selectedDate,
-      games: [createNewGame()]
-    };
+  // Plano de stake e limites de disciplina do dia selecionado
+  const lossStreak = useMemo(() => currentLossStreak(appData), [appData]);
+  const stakeSuggestions = useMemo(
+    () => new Map((selectedDayPlan?.games ?? []).map(g => [
+      g.id,
+      suggestStake(g, settings.staking, bankrollSummary.current, lossStreak, bankroll.currency)
+    ])),
+    [selectedDayPlan, settings.staking, bankrollSummary.current, lossStreak, bankroll.currency]
+  );
+  const guardrails = useMemo(
+    () => checkGuardrails(selectedDayPlan ?? undefined, settings.staking, bankrollSummary.current, lossStreak, bankroll.currency),
+    [selectedDayPlan, settings.staking, bankrollSummary.current, lossStreak, bankroll.currency]
+  );
+
+  const handleSelectDate = (date: string) => {
+    setSelectedDate(date);
+    setAiAnalysis(null);
+    setAiError(null);
+  };
+
+  const handleSearchJump = (date: string) => {
+    setRoute(routeForView(route.view === 'today' ? 'month' : route.view, date));
+    handleSelectDate(date);
+    setShowSearch(false);
+  };
 
-    const newGames = [...currentPlan.games];
-    newGames[index] = { ...newGames[index], [field]: value } as any;
-    
-    const newPlan: DayPlan = { ...currentPlan, games: newGames };
-    
-    setAppData(prev => ({
-      ...prev,
-      [selectedDate]: newPlan
-    }));
+  // Jogos de dias anteriores ainda pendentes (contador do topo e lembrete diário)
+  const unsettled = useReminders(appData, settings, isLoaded, handleSearchJump);
+  const sync = useSync(appData, settings, isLoaded, commit, history.absorb);
+
+  // Pedidos de IA feitos sem conexão rodam quando a internet voltar
+  const runQueuedAi = async (request: QueuedAIRequest) => {
+    if (request.kind === 'review') {
+      const review = await createReview(analysisProvider, appData, request.from, request.to, bankroll.initial);
+      setReviews(prev => addReview(prev, review));
+      return;
+    }
+    const plan = appData[request.date];
+    if (!plan) return;
+    const { result } = await analyzeWithCache(analysisProvider, plan);
+    if (request.date === selectedDate) {
+      setAiAnalysis(result);
+      setAiFromCache(false);
+      setAiError(null);
+    }
+  };
+  const aiQueue = useAiQueue(profileId, isLoaded, runQueuedAi);
+  const installPrompt = useInstallPrompt();
+  const isDayQueued = aiQueue.queue.some(q => q.kind === 'day' && q.date === selectedDate);
+
+  const handleSaveFilter = (name: string, filter: StatsFilter) => {
+    setSavedFilters(prev => [...prev, { id: crypto.randomUUID(), name, filter }]);
+  };
+
+  const routeLabel = () => {
+    switch (route.view) {
+      case 'month':
+        return format(currentDate, 'MMMM yyyy', { locale: dateLocale() });
+      case 'week': {
+        const days = weekDays(route.date);
+        return `${formatDayMonth(days[0])} – ${formatDayMonth(days[6])}`;
+      }
+      case 'agenda':
+        return `${formatDayMonth(currentDate)} – ${formatDayMonth(route.to!)}`;
+      case 'today':
+        return t('calendar.todayLabel', { date: formatDayMonth(currentDate) });
+    }
+  };
+
+  const tipsterOptions = useMemo(
+    () => Array.from(new Set([...profiles.profiles.map(p => p.name), ...distinctValues(appData, 'tipster')])),
+    [profiles.profiles, appData]
+  );
+  const tagOptions = useMemo(() => distinctValues(appData, 'tags'), [appData]);
+
+  // Edições do dia passam pelo reducer do planner, aplicado sobre o estado mais recente
+  const dispatch = (label: string, action: PlannerAction, coalesceKey?: string) =>
+    commit(label, prev => plannerReducer(prev, action), coalesceKey);
+
+  const gameLabel = (game: GameEntry, index: number) => game.match || t('game.number', { number: index + 1 });
+
+  const handleUpdateGame = (index: number, patch: GamePatch) => {
+    if (!selectedDate || !selectedDayPlan) return;
+    const game = selectedDayPlan.games[index];
+    const field = Object.keys(patch)[0] as EditableGameField;
+    const fieldLabel = FIELD_LABELS[field];
+    const label = patch.status
+      ? t('history.setStatus', { game: gameLabel(game, index), status: t(`status.${patch.status}`) })
+      : t('history.editField', { field: fieldLabel ? t(fieldLabel) : field, game: gameLabel(game, index) });
+    dispatch(label, { type: 'updateGame', date: selectedDate, gameId: game.id, patch }, patch.status ? undefined : `${game.id}:${field}`);
+  };
+
+  /**
+   * Confirma horário/fuso de um jogo: normaliza o texto, recalcula o início,
+   * reordena o dia e, se o jogo cruzar a meia-noite no fuso do usuário, o move
+   * para o dia certo (a seleção acompanha o jogo).
+   */
+  const handleConfirmKickoff = (index: number, patch?: GamePatch) => {
+    if (!selectedDate || !selectedDayPlan) return;
+    const game = selectedDayPlan.games[index];
+    if (!game) return;
+
+    const action: PlannerAction = { type: 'confirmKickoff', date: selectedDate, gameId: game.id, settings: settings.time, patch };
+    const next = plannerReducer(appData, action);
+    if (next === appData) return;
+    dispatch(t(patch && 'timeZone' in patch ? 'history.editTimeZone' : 'history.confirmKickoff', { game: gameLabel(game, index) }), action);
+
+    const localDate = findGameDate(next, game.id);
+    if (localDate && localDate !== selectedDate) setSelectedDate(localDate);
   };
 
   const handleAddGame = () => {
     if (!selectedDate) return;
-    const currentPlan = selectedDayPlan || { date: selectedDate, games: [] };
-    const newPlan: DayPlan = {
-      ...currentPlan,
-      games: [...currentPlan.games, createNewGame()]
-    };
-    setAppData(prev => ({ ...prev, [selectedDate]: newPlan }));
+    dispatch(t('history.addGame', { day: formatDayMonth(selectedDate) }), { type: 'addGame', date: selectedDate });
   };
 
   const handleRemoveGame = (id: string) => {
     if (!selectedDate || !selectedDayPlan) return;
-    const newGames = selectedDayPlan.games.filter(g => g.id !== id);
-    const finalGames = newGames.length === 0 ? [createNewGame()] : newGames;
-    
-    setAppData(prev => ({
-      ...prev,
-      [selectedDate]: { ...selectedDayPlan, games: finalGames }
-    }));
+    const removed = selectedDayPlan.games.find(g => g.id === id);
+    dispatch(t('history.removeGame', { game: removed?.match || t('game.fallback') }), { type: 'removeGame', date: selectedDate, gameId: id });
   };
 
   const handleClearDay = () => {
     if (!selectedDate) return;
-    if (window.confirm("Limpar todos os jogos deste dia?")) {
-      const newPlan: DayPlan = {
-        date: selectedDate,
-        games: [createNewGame()]
-      };
-      setAppData(prev => ({ ...prev, [selectedDate]: newPlan }));
+    if (window.confirm(t('app.clearDayConfirm'))) {
+      dispatch(t('history.clearDay', { day: formatDayMonth(selectedDate) }), { type: 'clearDay', date: selectedDate });
       setAiAnalysis(null);
+      setAiError(null);
     }
   };
 
+  const toggleSlipLeg = (id: string) => {
+    setSlipDraft(prev => (prev.includes(id) ? prev.filter(l => l !== id) : [...prev, id]));
+  };
+
+  const handleCreateSlip = (slip: BetSlip) => {
+    if (!selectedDate) return;
+    dispatch(t('history.createSlip', { name: slip.name }), { type: 'addSlip', date: selectedDate, slip });
+    setSlipDraft([]);
+  };
+
+  const handleRemoveSlip = (id: string) => {
+    if (!selectedDate) return;
+    const slip = selectedDayPlan?.slips?.find(s => s.id === id);
+    dispatch(t('history.removeSlip', { name: slip?.name ?? '' }).trim(), { type: 'removeSlip', date: selectedDate, slipId: id });
+  };
+
+  const handleUpdateSlipStake = (id: string, stake: number) => {
+    if (!selectedDate) return;
+    const slip = selectedDayPlan?.slips?.find(s => s.id === id);
+    dispatch(
+      t('history.editSlipStake', { name: slip?.name ?? t('slip.fallback') }),
+      { type: 'updateSlipStake', date: selectedDate, slipId: id, stake },
+      `${id}:stake`
+    );
+  };
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = library.templates.find(t => t.id === templateId);
+    if (!selectedDate || !template) return;
+    commit(t('history.applyTemplate', { name: template.name, day: formatDayMonth(selectedDate) }), prev => applyTemplate(prev, selectedDate, template));
+    setShowTemplates(false);
+  };
+
+  const handleCopyDay = (targetDates: string[]) => {
+    if (!selectedDate) return;
+    commit(
+      t('history.copyDay', { day: formatDayMonth(selectedDate), count: targetDates.length }),
+      prev => copyDayTo(prev, selectedDate, targetDates)
+    );
+    setShowCopyDay(false);
+  };
+
+  const handlePickFixture = (fixture: Fixture) => {
+    commit(t('history.addFixture', { match: formatMatch(fixture.home, fixture.away) }), prev => addFixtureToPlan(prev, fixture, settings.time));
+  };
+
   const handleAiAnalyze = async () => {
     if (!selectedDayPlan) return;
     setIsAnalyzing(true);
     setAiAnalysis(null);
+    setAiError(null);
     try {
-      const result = await analyzeDayPicks(selectedDayPlan);
+      const { result, cached } = await analyzeWithCache(analysisProvider, selectedDayPlan);
       setAiAnalysis(result);
+      setAiFromCache(cached);
     } catch (err) {
-      setAiAnalysis("Falha na análise. Verifique sua conexão.");
+      if (isOfflineFailure(err)) {
+        aiQueue.enqueue({ kind: 'day', date: selectedDayPlan.date });
+      } else if (err instanceof AIAnalysisError) {
+        console.warn(`Análise de IA falhou (${err.code})`, err);
+        setAiError(err.message);
+      } else {
+        setAiError(t('ai.failed'));
+      }
     } finally {
       setIsAnalyzing(false);
     }
   };
 
-  const handleManualSave = () => {
+  const handleEditBankroll = () => {
+    const input = window.prompt(t('app.bankrollPrompt'), String(bankroll.initial));
+    if (input === null) return;
+    const value = parseFloat(input.replace(',', '.'));
+    if (isNaN(value) || value < 0) return alert(t('app.bankrollInvalid'));
+    setBankroll(prev => ({ ...prev, initial: value }));
+  };
+
+  // Grava o que estiver pendente antes de trocar; o planner do outro perfil é remontado
+  const handleSwitchProfile = async (id: string) => {
+    try {
+      if (isLoaded) await persistAppData(appData);
+    } catch (e) {
+      console.error("Erro ao salvar dados antes de trocar de perfil", e);
+      alert(e instanceof StorageQuotaError ? t('app.saveErrorDetail', { message: e.message }) : t('app.switchProfileError'));
+      return;
+    }
+    profiles.switchTo(id);
+  };
+
+  const handleManualSave = async () => {
     setSaveStatus('saving');
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(appData));
+      await persistAppData(appData);
       setTimeout(() => {
         setSaveStatus('saved');
         setTimeout(() => setSaveStatus('idle'), 2000);
       }, 600);
     } catch (e) {
-      alert("Erro ao salvar: Espaço em disco insuficiente.");
+      console.error("Erro ao salvar dados", e);
+      alert(e instanceof StorageQuotaError ? t('app.saveErrorDetail', { message: e.message }) : t('app.saveError'));
       setSaveStatus('idle');
     }
   };
 
-  const handleShare = () => {
-    if (!selectedDayPlan) return;
-    const activeGames = selectedDayPlan.games.filter(g => g.match);
-    if (activeGames.length === 0) return alert("Adicione jogos primeiro!");
-
-    const text = `🏆 *BetMaster Planner* - ${format(parseISO(selectedDayPlan.date), 'dd/MM/yyyy')}\n\n` +
-      activeGames.map(g => `⏰ ${g.time || 'A def.'} | ${g.league}\n⚽ ${g.match}\n`).join('\n') +
-      `🚀 Boa sorte!`;
-    
-    navigator.clipboard.writeText(text).then(() => {
-      alert("Resumo profissional copiado para o WhatsApp!");
-    });
-  };
-
   // FUNÇÃO DE EXPORTAÇÃO CORRIGIDA (USANDO BLOB API)
   const exportData = () => {
     try {
-      const dataStr = JSON.stringify(appData, null, 2);
-      const blob = new Blob([dataStr], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
       const filename = `betmaster-backup-${format(new Date(), 'yyyyMMdd-HHmm')}.json`;
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      
-      // Limpeza necessária para evitar vazamento de memória
-      setTimeout(() => {
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      }, 0);
+      downloadFile(serializeAppData(appData, true), filename, 'application/json');
     } catch (e) {
       console.error("Erro na exportação", e);
-      alert("Falha ao gerar arquivo de exportação.");
+      alert(t('app.exportError'));
+    }
+  };
+
+  const exportCsv = (filter: StatsFilter = {}) => {
+    try {
+      const filename = `betmaster-jogos-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`;
+      // BOM para o Excel reconhecer UTF-8 (acentos)
+      downloadFile('\uFEFF' + buildGamesCsv(appData, filter), filename, 'text/csv;charset=utf-8');
+    } catch (e) {
+      console.error("Erro na exportação CSV", e);
+      alert(t('app.csvExportError'));
     }
   };
 
@@ -215,19 +637,62 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const json = JSON.parse(e.target?.result as string);
-        if (json && typeof json === 'object') {
-          setAppData(json);
-          alert("Backup restaurado com sucesso!");
+        const text = e.target?.result as string;
+        if (file.name.toLowerCase().endsWith('.csv')) {
+          const rows = parseCsv(text);
+          if (rows.length < 2) return alert(t('app.csvEmpty'));
+          setPendingCsv({ fileName: file.name, rows });
+          return;
         }
+        const report = parseBackupFile(text);
+        setPendingImport({ fileName: file.name, report });
       } catch (err) {
-        alert("Arquivo de backup inválido.");
+        alert(err instanceof Error ? err.message : t('app.backupInvalid'));
       }
     };
     reader.readAsText(file);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Guarda o estado atual antes de qualquer import; retorna false se o usuário desistir
+  const snapshotBeforeImport = async () => {
+    if (!isIndexedDbAvailable()) return true;
+    try {
+      await createSnapshot(appData, 'pre-import');
+      return true;
+    } catch (e) {
+      console.error("Erro ao criar snapshot antes do import", e);
+      return window.confirm(t('app.snapshotFailedConfirm'));
+    }
+  };
+
+  const confirmImport = async (mode: ImportMode) => {
+    if (!pendingImport || !(await snapshotBeforeImport())) return;
+    const incoming = pendingImport.report.data;
+    commit(
+      t(mode === 'replace' ? 'history.replaceBackup' : 'history.mergeBackup', { file: pendingImport.fileName }),
+      prev => (mode === 'replace' ? incoming : mergeAppData(prev, incoming))
+    );
+    setPendingImport(null);
+    setAiAnalysis(null);
+    alert(t(mode === 'replace' ? 'app.backupRestored' : 'app.backupMerged'));
+  };
+
+  const confirmCsvImport = async (rows: CsvPreviewRow[], includeDuplicates: boolean) => {
+    if (!(await snapshotBeforeImport())) return;
+    commit(t('history.importCsv', { file: pendingCsv?.fileName ?? '' }).trim(), prev => applyCsvRows(prev, rows, includeDuplicates));
+    setPendingCsv(null);
+    setAiAnalysis(null);
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-sky-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen p-4 md:p-8 max-w-[1600px] mx-auto flex flex-col gap-6 pb-32">
       <header className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
@@ -239,49 +704,156 @@ const App: React.FC = () => {
             </h1>
           </div>
           <p className="text-slate-500 text-xs font-bold uppercase tracking-widest mt-2 ml-1">
-            Gestão Profissional e Inteligência de Dados
+            {t('app.tagline')}
           </p>
         </div>
 
         <div className="flex flex-wrap items-center gap-4">
+          <button
+            onClick={handleEditBankroll}
+            title={t('app.bankrollTitle')}
+            className="flex items-center gap-3 bg-white shadow-sm border border-slate-200 px-4 py-2.5 rounded-2xl hover:bg-slate-50 transition-all active:scale-95"
+          >
+            <Wallet size={20} className="text-sky-600" />
+            <div className="flex flex-col items-start leading-tight">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{t('app.bankroll')}</span>
+              <span className="font-black text-slate-900">{formatCurrency(bankrollSummary.current, bankroll.currency)}</span>
+            </div>
+            <span className={`text-xs font-black ${bankrollSummary.profit >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+              {bankrollSummary.profit >= 0 ? '+' : ''}{formatCurrency(bankrollSummary.profit, bankroll.currency)}
+            </span>
+          </button>
+
+          {unsettled.length > 0 && (
+            <button
+              onClick={() => handleSearchJump(unsettled[0].date)}
+              title={t('app.unsettled', { count: unsettled.length })}
+              className="relative p-3 bg-white shadow-sm border border-slate-200 rounded-2xl text-amber-500 hover:bg-slate-50 transition-all active:scale-95"
+            >
+              <Bell size={20} />
+              <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-500 text-white text-[10px] font-black flex items-center justify-center">
+                {unsettled.length}
+              </span>
+            </button>
+          )}
+
+          {!aiQueue.online && (
+            <span
+              title={aiQueue.queue.length > 0 ? t('app.offlineQueued', { count: aiQueue.queue.length }) : t('app.offlineSaved')}
+              className="flex items-center gap-2 px-4 py-3 bg-amber-50 border border-amber-200 rounded-2xl text-amber-600 text-xs font-black"
+            >
+              <WifiOff size={16} /> {t('app.offline')}{aiQueue.queue.length > 0 && ` · ${aiQueue.queue.length}`}
+            </span>
+          )}
+
+          {installPrompt.canInstall && (
+            <button
+              onClick={installPrompt.install}
+              title={t('app.installTitle')}
+              className="flex items-center gap-2 bg-white shadow-sm border border-slate-200 px-4 py-3 rounded-2xl text-sky-600 hover:bg-slate-50 transition-all active:scale-95 text-xs font-black"
+            >
+              <Download size={16} /> {t('app.install')}
+            </button>
+          )}
+
+          {settings.sync.enabled && (
+            <button
+              onClick={() => setShowSync(true)}
+              title={sync.status === 'error' ? sync.error ?? t('app.syncFailed') : t('app.sync')}
+              className={`relative p-3 bg-white shadow-sm border border-slate-200 rounded-2xl hover:bg-slate-50 transition-all active:scale-95 ${sync.status === 'error' ? 'text-red-500' : 'text-sky-600'}`}
+            >
+              <RefreshCw size={20} className={sync.status === 'syncing' ? 'animate-spin' : ''} />
+              {sync.conflicts.length > 0 && (
+                <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-500 text-white text-[10px] font-black flex items-center justify-center">
+                  {sync.conflicts.length}
+                </span>
+              )}
+            </button>
+          )}
+
+          <ProfileMenu
+            profiles={profiles.profiles}
+            activeId={profileId}
+            onSwitch={handleSwitchProfile}
+            onAdd={(name) => profiles.add(name)}
+            onRename={profiles.rename}
+            onRemove={(id) => profiles.remove(id).catch(e => {
+              console.error("Erro ao excluir perfil", e);
+              alert(t('app.removeProfileError'));
+            })}
+            onCompare={() => setShowCompare(true)}
+          />
+
+          <HistoryMenu past={history.past} future={history.future} onUndo={history.undo} onRedo={history.redo} />
+
           <div className="flex items-center gap-2 bg-white shadow-sm border border-slate-200 p-1.5 rounded-2xl">
             <button 
-              onClick={() => setCurrentDate(subMonths(currentDate, 1))}
-              className="p-2.5 hover:bg-slate-50 rounded-xl transition-all text-slate-600 active:scale-90"
+              onClick={() => setRoute(shiftRoute(route, -1))}
+              disabled={route.view === 'today'}
+              className="p-2.5 hover:bg-slate-50 rounded-xl transition-all text-slate-600 active:scale-90 disabled:opacity-30"
             >
               <ChevronLeft size={22} />
             </button>
             <span className="font-bold min-w-[150px] text-center capitalize text-slate-900 text-lg">
-              {format(currentDate, 'MMMM yyyy', { locale: ptBR })}
+              {routeLabel()}
             </span>
             <button 
-              onClick={() => setCurrentDate(addMonths(currentDate, 1))}
-              className="p-2.5 hover:bg-slate-50 rounded-xl transition-all text-slate-600 active:scale-90"
+              onClick={() => setRoute(shiftRoute(route, 1))}
+              disabled={route.view === 'today'}
+              className="p-2.5 hover:bg-slate-50 rounded-xl transition-all text-slate-600 active:scale-90 disabled:opacity-30"
             >
               <ChevronRight size={22} />
             </button>
           </div>
 
           <div className="flex items-center gap-2">
+            <button 
+              onClick={() => setShowSearch(true)}
+              title={t('app.searchTitle')}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all shadow-sm active:scale-95"
+            >
+              <Search size={18} /> <span className="hidden sm:inline">{t('app.search')}</span>
+            </button>
+            <button 
+              onClick={() => setStatsFilter({})}
+              title={t('app.statsTitle')}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all shadow-sm active:scale-95"
+            >
+              <BarChart3 size={18} /> <span className="hidden sm:inline">{t('app.stats')}</span>
+            </button>
             <button 
               onClick={exportData}
-              title="Exportar Backup JSON"
+              title={t('app.exportTitle')}
               className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all shadow-sm active:scale-95"
             >
-              <Download size={18} /> <span className="hidden sm:inline">Exportar</span>
+              <Download size={18} /> <span className="hidden sm:inline">{t('app.export')}</span>
+            </button>
+            <button 
+              onClick={() => exportCsv()}
+              title={t('app.csvTitle')}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all shadow-sm active:scale-95"
+            >
+              <FileSpreadsheet size={18} /> <span className="hidden sm:inline">{t('app.csv')}</span>
             </button>
             <button 
               onClick={() => fileInputRef.current?.click()}
-              title="Importar Backup JSON"
+              title={t('app.importTitle')}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all shadow-sm active:scale-95"
+            >
+              <Upload size={18} /> <span className="hidden sm:inline">{t('app.import')}</span>
+            </button>
+            <button 
+              onClick={() => setShowSnapshots(true)}
+              title={t('app.snapshotsTitle')}
               className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all shadow-sm active:scale-95"
             >
-              <Upload size={18} /> <span className="hidden sm:inline">Importar</span>
+              <History size={18} /> <span className="hidden sm:inline">{t('app.snapshots')}</span>
             </button>
             <input 
               type="file" 
               ref={fileInputRef} 
               onChange={importData} 
-              accept=".json" 
+              accept=".json,.csv" 
               className="hidden" 
             />
           </div>
@@ -291,88 +863,53 @@ const App: React.FC = () => {
       <main className="grid grid-cols-1 lg:grid-cols-12 gap-6">
         {/* Calendário */}
         <section className="lg:col-span-9 bg-[#0f172a] rounded-[2.5rem] overflow-hidden shadow-2xl border border-slate-800 flex flex-col">
-          <div className="hidden md:grid grid-cols-7 border-b border-slate-800 bg-slate-900/50">
-            {['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'].map(day => (
-              <div key={day} className="py-4 text-center text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
-                {day}
-              </div>
+          <div className="flex items-center gap-1 p-3 border-b border-slate-800 bg-slate-900/50">
+            {CALENDAR_VIEWS.map(v => (
+              <button
+                key={v.id}
+                onClick={() => setRoute(routeForView(v.id, selectedDate || format(new Date(), 'yyyy-MM-dd')))}
+                className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${route.view === v.id ? 'bg-sky-600 text-white' : 'text-slate-500 hover:text-white'}`}
+              >
+                {t(v.labelKey)}
+              </button>
             ))}
           </div>
 
-          <div className="hidden md:grid grid-cols-7 flex-1 min-h-[650px]">
-            {currentMonthDays.map((day) => {
-              const dayStr = format(day, 'yyyy-MM-dd');
-              const isSelected = selectedDate === dayStr;
-              const isToday = isSameDay(day, new Date());
-              const dayData = appData[dayStr];
-              const games = dayData?.games.filter(g => g.match !== '') || [];
-              const isOtherMonth = format(day, 'MM') !== format(currentDate, 'MM');
+          {route.view === 'month' && (
+            <MonthView
+              appData={appData}
+              month={currentDate}
+              days={currentMonthDays}
+              timeSettings={settings.time}
+              selectedDate={selectedDate}
+              onSelectDate={handleSelectDate}
+            />
+          )}
 
-              return (
-                <button
-                  key={dayStr}
-                  onClick={() => {
-                    setSelectedDate(dayStr);
-                    setAiAnalysis(null);
-                  }}
-                  className={`
-                    relative p-5 text-left border-r border-b border-slate-800/50 transition-all flex flex-col group
-                    ${isSelected ? 'bg-sky-500/10 ring-2 ring-inset ring-sky-500/40 z-10' : 'hover:bg-white/5'}
-                    ${isOtherMonth ? 'opacity-20' : ''}
-                  `}
-                >
-                  <span className={`text-sm font-black mb-3 ${isToday ? 'text-white bg-sky-600 px-3 py-1 rounded-lg inline-block' : 'text-slate-500'}`}>
-                    {format(day, 'd')}
-                  </span>
-                  
-                  {games.length > 0 && (
-                    <div className="mt-auto space-y-1.5 w-full">
-                      {games.slice(0, 3).map((g, idx) => (
-                        <div key={idx} className={`text-[10px] truncate border px-2 py-1 rounded-md font-bold w-full ${g.status === 'win' ? 'bg-emerald-900/40 border-emerald-500/30 text-emerald-400' : g.status === 'loss' ? 'bg-red-900/40 border-red-500/30 text-red-400' : 'bg-slate-800 border-slate-700 text-slate-300'}`}>
-                          {g.match}
-                        </div>
-                      ))}
-                      {games.length > 3 && (
-                        <div className="text-[9px] text-sky-400 font-black text-center pt-1">+ {games.length - 3} MAIS</div>
-                      )}
-                    </div>
-                  )}
-                  {isSelected && <div className="absolute top-5 right-5 w-2 h-2 bg-sky-500 rounded-full shadow-[0_0_10px_#0ea5e9]" />}
-                </button>
-              );
-            })}
-          </div>
+          {route.view === 'week' && (
+            <WeekView
+              appData={appData}
+              date={route.date}
+              timeSettings={settings.time}
+              selectedDate={selectedDate}
+              onSelectDate={handleSelectDate}
+            />
+          )}
 
-          {/* Mobile View */}
-          <div className="md:hidden flex flex-col divide-y divide-slate-800 max-h-[60vh] overflow-y-auto bg-slate-900">
-            {currentMonthDays.filter(day => format(day, 'MM') === format(currentDate, 'MM')).map((day) => {
-              const dayStr = format(day, 'yyyy-MM-dd');
-              const isSelected = selectedDate === dayStr;
-              const isToday = isDateToday(day);
-              const games = appData[dayStr]?.games.filter(g => g.match) || [];
-
-              return (
-                <div
-                  key={dayStr}
-                  onClick={() => setSelectedDate(dayStr)}
-                  className={`p-5 transition-all ${isSelected ? 'bg-sky-500/10' : ''}`}
-                >
-                  <div className="flex items-center gap-4">
-                    <div className={`w-12 h-12 rounded-2xl flex flex-col items-center justify-center font-black ${isToday ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-500'}`}>
-                      <span className="text-[10px] uppercase opacity-60">{format(day, 'EEE', { locale: ptBR })}</span>
-                      <span className="text-lg">{format(day, 'd')}</span>
-                    </div>
-                    <div>
-                      <span className={`font-bold block ${isSelected ? 'text-sky-400' : 'text-slate-300'}`}>
-                        {format(day, "EEEE", { locale: ptBR })}
-                      </span>
-                      {games.length > 0 && <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{games.length} Jogos</span>}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+          {route.view === 'agenda' && (
+            <AgendaView
+              appData={appData}
+              from={route.date}
+              to={route.to!}
+              timeSettings={settings.time}
+              onChangeRange={(from, to) => setRoute({ view: 'agenda', date: from, to })}
+              onSelectDate={handleSelectDate}
+            />
+          )}
+
+          {route.view === 'today' && (
+            <TodayView appData={appData} timeSettings={settings.time} onSelectDate={handleSelectDate} />
+          )}
         </section>
 
         {/* Painel Lateral */}
@@ -382,79 +919,69 @@ const App: React.FC = () => {
               <div>
                 <h2 className="font-black text-2xl text-slate-900 flex items-center gap-2">
                   <CalendarIcon size={24} className="text-sky-600" />
-                  {selectedDate ? format(parseISO(selectedDate), "dd/MM", { locale: ptBR }) : 'Pauta'}
+                  {selectedDate ? formatDayMonth(selectedDate) : t('day.agenda')}
                 </h2>
-                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mt-1">Planejador Diário</p>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mt-1">{t('day.planner')}</p>
               </div>
               <div className="flex gap-2">
-                <button onClick={handleShare} className="p-2 hover:bg-slate-50 rounded-xl text-sky-600 transition-all">
+                <button onClick={() => setShowFixtures(true)} title={t('day.fixtures')} className="p-2 hover:bg-slate-50 rounded-xl text-sky-600 transition-all">
+                  <CalendarPlus size={20} />
+                </button>
+                <button onClick={() => setShowTemplates(true)} title={t('day.templates')} className="p-2 hover:bg-slate-50 rounded-xl text-sky-600 transition-all">
+                  <LayoutTemplate size={20} />
+                </button>
+                <button
+                  onClick={() => setShowCopyDay(true)}
+                  disabled={!selectedDayPlan?.games.some(g => !isBlankGame(g))}
+                  title={t('day.copy')}
+                  className="p-2 hover:bg-slate-50 rounded-xl text-sky-600 transition-all disabled:opacity-30"
+                >
+                  <Copy size={20} />
+                </button>
+                <button onClick={() => setShowShare(true)} title={t('day.share')} className="p-2 hover:bg-slate-50 rounded-xl text-sky-600 transition-all">
                   <Share2 size={20} />
                 </button>
-                <button onClick={handleClearDay} className="p-2 hover:bg-red-50 rounded-xl text-slate-300 hover:text-red-500 transition-all">
+                <button onClick={handleClearDay} title={t('day.clear')} className="p-2 hover:bg-red-50 rounded-xl text-slate-300 hover:text-red-500 transition-all">
                   <Trash2 size={20} />
                 </button>
               </div>
             </div>
 
             <div className="space-y-6 flex-1 overflow-y-auto custom-scrollbar pr-2 mb-8">
-              {selectedDayPlan?.games.map((game, index) => (
-                <div key={game.id} className="p-5 rounded-3xl bg-slate-950 border border-slate-800 shadow-xl group transition-all hover:border-sky-500/30">
-                  <div className="flex items-center justify-between mb-5">
-                    <span className="text-[10px] font-black text-sky-400 bg-sky-900/40 px-3 py-1 rounded-full">JOGO #{index + 1}</span>
-                    <div className="flex gap-2">
-                      <button 
-                        onClick={() => handleUpdateGame(index, 'status', game.status === 'win' ? 'pending' : 'win')}
-                        className={`p-1.5 rounded-lg border ${game.status === 'win' ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:text-emerald-500'}`}
-                      >
-                        <CheckCircle size={18} />
-                      </button>
-                      <button 
-                        onClick={() => handleUpdateGame(index, 'status', game.status === 'loss' ? 'pending' : 'loss')}
-                        className={`p-1.5 rounded-lg border ${game.status === 'loss' ? 'bg-red-600 border-red-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:text-red-500'}`}
-                      >
-                        <XCircle size={18} />
-                      </button>
-                      <button onClick={() => handleRemoveGame(game.id)} className="p-1.5 text-slate-700 hover:text-red-400">
-                        <Trash2 size={16} />
-                      </button>
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-1">
-                        <label className="text-[9px] font-black text-slate-500 uppercase ml-1">Horário</label>
-                        <input 
-                          type="text" 
-                          placeholder="12:00"
-                          value={game.time}
-                          onChange={(e) => handleUpdateGame(index, 'time', e.target.value)}
-                          className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
-                        />
-                      </div>
-                      <div className="space-y-1">
-                        <label className="text-[9px] font-black text-slate-500 uppercase ml-1">Liga</label>
-                        <input 
-                          type="text" 
-                          placeholder="Camp."
-                          value={game.league}
-                          onChange={(e) => handleUpdateGame(index, 'league', e.target.value)}
-                          className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
-                        />
-                      </div>
-                    </div>
-                    <div className="space-y-1">
-                      <label className="text-[9px] font-black text-slate-500 uppercase ml-1">Confronto</label>
-                      <input 
-                        type="text" 
-                        placeholder="Time A vs Time B"
-                        value={game.match}
-                        onChange={(e) => handleUpdateGame(index, 'match', e.target.value)}
-                        className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
-                      />
-                    </div>
-                  </div>
+              <datalist id="tipster-options">
+                {tipsterOptions.map(name => <option key={name} value={name} />)}
+              </datalist>
+              {guardrails.length > 0 && (
+                <div className="p-4 rounded-3xl bg-amber-500/10 border border-amber-500/30 space-y-1.5">
+                  <span className="text-[10px] font-black text-amber-400 uppercase tracking-widest flex items-center gap-2">
+                    <AlertTriangle size={14} /> {t('day.riskLimits')}
+                  </span>
+                  {guardrails.map((w, i) => (
+                    <p key={`${w.kind}-${w.gameId ?? i}`} className="text-xs font-bold text-amber-200">{w.message}</p>
+                  ))}
                 </div>
+              )}
+              {selectedDayPlan?.games.map((game, index) => (
+                <GameCard
+                  key={game.id}
+                  game={game}
+                  index={index}
+                  planDate={selectedDayPlan.date}
+                  timeSettings={settings.time}
+                  showProbability={settings.staking.method === 'kelly'}
+                  suggestion={stakeSuggestions.get(game.id) ?? null}
+                  warned={guardrails.some(w => w.gameId === game.id)}
+                  analysis={aiAnalysis?.games.find(a => a.gameId === game.id)}
+                  bankroll={bankrollSummary.current}
+                  currency={bankroll.currency}
+                  inSlipDraft={slipDraft.includes(game.id)}
+                  tipsterPlaceholder={profiles.active.name}
+                  tagOptions={tagOptions}
+                  onUpdate={patch => handleUpdateGame(index, patch)}
+                  onConfirmKickoff={patch => handleConfirmKickoff(index, patch)}
+                  onRemove={() => handleRemoveGame(game.id)}
+                  onToggleSlipLeg={() => toggleSlipLeg(game.id)}
+                />
               ))}
 
               <button 
@@ -462,18 +989,45 @@ const App: React.FC = () => {
                 className="w-full py-5 border-2 border-dashed border-slate-200 rounded-[2rem] text-slate-400 hover:text-sky-500 hover:border-sky-200 hover:bg-sky-50 transition-all flex items-center justify-center gap-3 font-black text-xs group"
               >
                 <Plus size={24} className="group-hover:rotate-90 transition-transform" />
-                ADICIONAR NOVO JOGO
+                {t('day.addGame')}
               </button>
+
+              <BetSlipPanel
+                appData={appData}
+                slips={selectedDayPlan?.slips || []}
+                draftLegIds={slipDraft}
+                currency={bankroll.currency}
+                onRemoveDraftLeg={toggleSlipLeg}
+                onClearDraft={() => setSlipDraft([])}
+                onCreateSlip={handleCreateSlip}
+                onRemoveSlip={handleRemoveSlip}
+                onUpdateSlipStake={handleUpdateSlipStake}
+              />
             </div>
 
             <div className="mt-auto space-y-4">
               {aiAnalysis && (
                 <div className="bg-slate-50 border border-slate-200 rounded-3xl p-5 shadow-sm animate-in fade-in slide-in-from-bottom-2">
-                  <div className="flex items-center gap-2 mb-2 text-sky-600">
-                    <Sparkles size={18} />
-                    <span className="text-[10px] font-black uppercase tracking-widest">Insights BetMaster AI</span>
+                  <div className="flex items-center justify-between mb-2 text-sky-600">
+                    <div className="flex items-center gap-2">
+                      <Sparkles size={18} />
+                      <span className="text-[10px] font-black uppercase tracking-widest">{t('ai.insights')}</span>
+                      {aiFromCache && <span className="text-[9px] font-bold text-slate-400">{t('ai.cached')}</span>}
+                    </div>
+                    <span className="text-[10px] font-black bg-sky-100 px-2 py-0.5 rounded-full">{Math.round(aiAnalysis.confidence)}%</span>
                   </div>
-                  <p className="text-xs text-slate-700 leading-relaxed font-medium italic">{aiAnalysis}</p>
+                  <p className="text-xs text-slate-700 leading-relaxed font-medium">{aiAnalysis.summary}</p>
+                  <p className="text-xs text-slate-900 leading-relaxed font-bold mt-2">💡 {aiAnalysis.advice}</p>
+                </div>
+              )}
+              {aiError && (
+                <div className="bg-red-50 border border-red-200 rounded-3xl p-5 text-xs text-red-600 font-bold">
+                  {aiError}
+                </div>
+              )}
+              {isDayQueued && (
+                <div className="bg-amber-50 border border-amber-200 rounded-3xl p-5 text-xs text-amber-700 font-bold flex items-center gap-2">
+                  <WifiOff size={16} className="shrink-0" /> {t('ai.queued')}
                 </div>
               )}
               
@@ -482,7 +1036,13 @@ const App: React.FC = () => {
                 disabled={isAnalyzing || !selectedDayPlan?.games.some(g => g.match)}
                 className="w-full bg-slate-950 text-white font-black py-5 rounded-3xl flex items-center justify-center gap-3 shadow-2xl transition-all active:scale-95 disabled:opacity-20 group border border-slate-800"
               >
-                {isAnalyzing ? <div className="w-5 h-5 border-2 border-sky-500 border-t-transparent rounded-full animate-spin" /> : <><Sparkles size={20} className="text-sky-400 group-hover:scale-125 transition-transform" /> ANALISAR COM IA</>}
+                {isAnalyzing ? <div className="w-5 h-5 border-2 border-sky-500 border-t-transparent rounded-full animate-spin" /> : <><Sparkles size={20} className="text-sky-400 group-hover:scale-125 transition-transform" /> {t('ai.analyze')}</>}
+              </button>
+              <button
+                onClick={() => setShowReview(true)}
+                className="w-full bg-white text-slate-900 font-black py-3 rounded-3xl flex items-center justify-center gap-2 border border-slate-200 hover:bg-slate-50 transition-all active:scale-95 text-xs uppercase tracking-widest"
+              >
+                <ScrollText size={16} className="text-sky-600" /> {t('ai.review')}
               </button>
             </div>
           </div>
@@ -500,19 +1060,168 @@ const App: React.FC = () => {
           `}
         >
           {saveStatus === 'idle' ? (
-            <><Save size={24} /> <span>Salvar Planner</span></>
+            <><Save size={24} /> <span>{t('app.save')}</span></>
           ) : saveStatus === 'saving' ? (
-            <span>Sincronizando...</span>
+            <span>{t('app.saving')}</span>
           ) : (
-            <><Check size={24} /> <span>Salvo!</span></>
+            <><Check size={24} /> <span>{t('app.saved')}</span></>
           )}
         </button>
       </div>
 
+      {statsFilter && (
+        <StatsDashboard
+          appData={appData}
+          bankroll={bankroll}
+          ownerName={profiles.active.name}
+          initialFilter={statsFilter}
+          savedFilters={savedFilters}
+          onSaveFilter={handleSaveFilter}
+          onExportCsv={exportCsv}
+          onClose={() => setStatsFilter(null)}
+        />
+      )}
+
+      {showReview && selectedDate && (
+        <RetrospectiveDialog
+          appData={appData}
+          provider={analysisProvider}
+          date={selectedDate}
+          initialBankroll={bankroll.initial}
+          currency={bankroll.currency}
+          reviews={reviews}
+          onSave={(review) => setReviews(prev => addReview(prev, review))}
+          onQueue={(from, to) => aiQueue.enqueue({ kind: 'review', from, to })}
+          queued={aiQueue.queue.filter(q => q.kind === 'review').length}
+          onDelete={(id) => setReviews(prev => prev.filter(r => r.id !== id))}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
+      {showSync && (
+        <SyncDialog
+          status={sync.status}
+          error={sync.error}
+          lastSyncedAt={sync.lastSyncedAt}
+          conflicts={sync.conflicts}
+          currency={bankroll.currency}
+          onSyncNow={sync.syncNow}
+          onResolve={sync.resolve}
+          onClose={() => setShowSync(false)}
+        />
+      )}
+
+      {showCompare && (
+        <ProfileComparisonDialog
+          profiles={profiles.profiles}
+          activeId={profileId}
+          activeData={appData}
+          activeBankroll={bankroll}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {showShare && selectedDate && (
+        <ShareDialog
+          appData={appData}
+          bankroll={bankroll}
+          timeSettings={settings.time}
+          date={selectedDate}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchDialog
+          appData={appData}
+          timeSettings={settings.time}
+          savedFilters={savedFilters}
+          onSaveFilter={handleSaveFilter}
+          onDeleteFilter={(id) => setSavedFilters(prev => prev.filter(f => f.id !== id))}
+          onJump={handleSearchJump}
+          onOpenStats={(filter) => {
+            setShowSearch(false);
+            setStatsFilter(filter);
+          }}
+          onExportCsv={exportCsv}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          report={pendingImport.report}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingCsv && (
+        <CsvImportDialog
+          fileName={pendingCsv.fileName}
+          rows={pendingCsv.rows}
+          existing={appData}
+          onConfirm={confirmCsvImport}
+          onCancel={() => setPendingCsv(null)}
+        />
+      )}
+
+      {showSnapshots && (
+        <SnapshotsDialog
+          appData={appData}
+          onRestore={(data) => {
+            commit(t('history.restoreSnapshot'), () => data);
+            setAiAnalysis(null);
+            setShowSnapshots(false);
+          }}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
+      {showTemplates && (
+        <TemplatesDialog
+          library={library}
+          selectedPlan={selectedDayPlan}
+          onChange={setLibrary}
+          onApplyTemplate={handleApplyTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {showFixtures && (
+        <FixturePickerDialog
+          fixtures={fixtures}
+          appData={appData}
+          timeSettings={settings.time}
+          selectedDate={selectedDate}
+          onChangeFixtures={setFixtures}
+          onPick={handlePickFixture}
+          onClose={() => setShowFixtures(false)}
+        />
+      )}
+
+      {showCopyDay && selectedDate && (
+        <CopyDayDialog
+          sourceDate={selectedDate}
+          gameCount={selectedDayPlan?.games.filter(g => !isBlankGame(g)).length || 0}
+          onConfirm={handleCopyDay}
+          onCancel={() => setShowCopyDay(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsModal settings={settings} onChange={setSettings} onClose={() => setShowSettings(false)} />
+      )}
+
       <footer className="mt-16 text-center text-slate-400 pb-16">
         <p className="text-[10px] font-black uppercase tracking-[0.3em] mb-2 opacity-50">BetMaster Planner Pro — Enterprise Grade</p>
         <div className="flex items-center justify-center gap-6 opacity-40">
-           <Info size={14} /> <Settings size={14} /> <Share2 size={14} />
+           <Info size={14} />
+           <button onClick={() => setShowSettings(true)} title={t('app.settings')} className="hover:text-sky-600 transition-all">
+             <Settings size={14} />
+           </button>
+           <Share2 size={14} />
         </div>
       </footer>
     </div>
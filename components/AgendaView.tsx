@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AppData, TimeSettings } from '../types';
+import { collectAgenda } from '../services/calendarViews';
+import { dateLocale, t } from '../services/i18n';
+import GameChip from './GameChip';
+
+interface AgendaViewProps {
+  appData: AppData;
+  from: string;
+  to: string;
+  timeSettings: TimeSettings;
+  onChangeRange: (from: string, to: string) => void;
+  onSelectDate: (date: string) => void;
+}
+
+/** Lista cronológica dos palpites de um intervalo livre; por padrão só os pendentes. */
+const AgendaView: React.FC<AgendaViewProps> = ({ appData, from, to, timeSettings, onChangeRange, onSelectDate }) => {
+  const [pendingOnly, setPendingOnly] = useState(true);
+
+  const groups = useMemo(() => {
+    const byDate = new Map<string, ReturnType<typeof collectAgenda>>();
+    collectAgenda(appData, from, to, timeSettings, pendingOnly).forEach(entry =>
+      byDate.set(entry.date, [...(byDate.get(entry.date) || []), entry])
+    );
+    return Array.from(byDate.entries());
+  }, [appData, from, to, timeSettings, pendingOnly]);
+
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="flex-1 min-h-[650px] p-6 flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => e.target.value && onChangeRange(e.target.value, e.target.value > to ? e.target.value : to)}
+          className={inputClass}
+        />
+        <span className="text-slate-500 font-black text-xs">{t('calendar.until')}</span>
+        <input
+          type="date"
+          value={to}
+          min={from}
+          onChange={(e) => e.target.value && onChangeRange(from, e.target.value < from ? from : e.target.value)}
+          className={inputClass}
+        />
+        <label className="flex items-center gap-2 text-xs font-black text-slate-400 ml-auto cursor-pointer">
+          <input type="checkbox" checked={pendingOnly} onChange={(e) => setPendingOnly(e.target.checked)} className="accent-sky-500" />
+          {t('agenda.pendingOnly')}
+        </label>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm font-bold text-slate-500">{t(pendingOnly ? 'agenda.emptyPending' : 'agenda.empty')}</p>
+      ) : (
+        <div className="space-y-5 overflow-y-auto custom-scrollbar pr-2 max-h-[70vh]">
+          {groups.map(([date, entries]) => (
+            <button key={date} onClick={() => onSelectDate(date)} className="w-full text-left space-y-2 group">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest group-hover:text-sky-400">
+                {format(parseISO(date), t('agenda.dayHeader'), { locale: dateLocale() })} · {t('agenda.dayGames', { count: entries.length })}
+              </span>
+              {entries.map(entry => (
+                <GameChip key={entry.game.id} game={entry.game} time={entry.time} detailed />
+              ))}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgendaView;
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, X, Trash2, CheckCircle, XCircle, Ban, Clock } from 'lucide-react';
+import { AppData, BetSlip, GameEntry } from '../types';
+import { indexGames, presetName, presetsForLegs, settleSlip } from '../services/betSlips';
+import { formatCurrency } from '../services/bankroll';
+import { formatDayMonth, t } from '../services/i18n';
+
+interface BetSlipPanelProps {
+  appData: AppData;
+  slips: BetSlip[];
+  draftLegIds: string[];
+  currency: string;
+  onRemoveDraftLeg: (id: string) => void;
+  onClearDraft: () => void;
+  onCreateSlip: (slip: BetSlip) => void;
+  onRemoveSlip: (id: string) => void;
+  onUpdateSlipStake: (id: string, stake: number) => void;
+}
+
+const LegStatusIcon: React.FC<{ game?: GameEntry }> = ({ game }) => {
+  if (!game) return <Ban size={12} className="text-slate-600" />;
+  if (game.status === 'win' || game.status === 'half_win') return <CheckCircle size={12} className="text-emerald-400" />;
+  if (game.status === 'loss' || game.status === 'half_loss') return <XCircle size={12} className="text-red-400" />;
+  if (game.status === 'void') return <Ban size={12} className="text-slate-400" />;
+  return <Clock size={12} className="text-slate-500" />;
+};
+
+const BetSlipPanel: React.FC<BetSlipPanelProps> = ({
+  appData,
+  slips,
+  draftLegIds,
+  currency,
+  onRemoveDraftLeg,
+  onClearDraft,
+  onCreateSlip,
+  onRemoveSlip,
+  onUpdateSlipStake
+}) => {
+  const games = useMemo(() => indexGames(appData), [appData]);
+  const presets = presetsForLegs(draftLegIds.length);
+  const [presetId, setPresetId] = useState('acca');
+  const [stake, setStake] = useState(0);
+
+  const preset = presets.find(p => p.id === presetId) || presets[0];
+
+  const handleCreate = () => {
+    if (!preset) return;
+    onCreateSlip({
+      id: crypto.randomUUID(),
+      name: presetName(preset, draftLegIds.length),
+      legIds: draftLegIds,
+      sizes: preset.sizes(draftLegIds.length),
+      stake
+    });
+    setStake(0);
+    setPresetId('acca');
+  };
+
+  const draftPreview = preset
+    ? settleSlip({ id: 'draft', name: '', legIds: draftLegIds, sizes: preset.sizes(draftLegIds.length), stake }, games)
+    : null;
+
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  if (draftLegIds.length === 0 && slips.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {draftLegIds.length > 0 && (
+        <div className="p-5 rounded-3xl bg-sky-950 border border-sky-500/40 shadow-xl space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black text-sky-400 uppercase tracking-widest flex items-center gap-2">
+              <Layers size={14} /> {t('slip.building', { count: draftLegIds.length })}
+            </span>
+            <button onClick={onClearDraft} className="text-slate-500 hover:text-white"><X size={16} /></button>
+          </div>
+          <ul className="space-y-1">
+            {draftLegIds.map(id => {
+              const entry = games.get(id);
+              return (
+                <li key={id} className="flex items-center justify-between text-xs font-bold text-slate-300 gap-2">
+                  <span className="truncate">
+                    {entry ? `${formatDayMonth(entry.date)} · ${entry.game.match}` : t('slip.removedGame')}
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {entry && entry.game.odds > 0 && <span className="text-sky-400">{entry.game.odds.toFixed(2)}</span>}
+                    <button onClick={() => onRemoveDraftLeg(id)} className="text-slate-600 hover:text-red-400"><X size={12} /></button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          {presets.length > 0 ? (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <select value={preset?.id} onChange={(e) => setPresetId(e.target.value)} className={inputClass}>
+                  {presets.map(p => <option key={p.id} value={p.id}>{presetName(p, draftLegIds.length)}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={t('slip.totalStake')}
+                  value={stake || ''}
+                  onChange={(e) => setStake(parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              {draftPreview && (
+                <p className="text-[11px] font-bold text-slate-400">
+                  {t('slip.draftSummary', { bets: draftPreview.bets, odds: draftPreview.combinedOdds.toFixed(2) })}
+                  {stake > 0 && t('slip.draftReturn', { value: formatCurrency(draftPreview.potentialReturn, currency) })}
+                </p>
+              )}
+              <button
+                onClick={handleCreate}
+                className="w-full py-2.5 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all"
+              >
+                {t('slip.create')}
+              </button>
+            </>
+          ) : (
+            <p className="text-[11px] font-bold text-slate-500">{t('slip.needTwoGames')}</p>
+          )}
+        </div>
+      )}
+
+      {slips.map(slip => {
+        const settlement = settleSlip(slip, games);
+        return (
+          <div key={slip.id} className="p-5 rounded-3xl bg-slate-950 border border-slate-800 shadow-xl space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-sky-400 bg-sky-900/40 px-3 py-1 rounded-full flex items-center gap-1.5">
+                <Layers size={12} /> {slip.name.toUpperCase()}
+              </span>
+              <button onClick={() => onRemoveSlip(slip.id)} className="p-1.5 text-slate-700 hover:text-red-400">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <ul className="space-y-1">
+              {slip.legIds.map(id => {
+                const entry = games.get(id);
+                return (
+                  <li key={id} className="flex items-center gap-2 text-xs font-bold text-slate-300">
+                    <LegStatusIcon game={entry?.game} />
+                    <span className="truncate flex-1">{entry ? entry.game.match : t('slip.removedGame')}</span>
+                    {entry && entry.game.odds > 0 && <span className="text-slate-500">{entry.game.odds.toFixed(2)}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex items-center justify-between gap-3">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={t('game.stake')}
+                value={slip.stake || ''}
+                onChange={(e) => onUpdateSlipStake(slip.id, parseFloat(e.target.value) || 0)}
+                className={`w-24 ${inputClass}`}
+              />
+              <span className="text-[11px] font-bold text-slate-500 text-right">
+                {t('slip.summary', { bets: settlement.bets, odds: settlement.combinedOdds.toFixed(2) })}
+              </span>
+            </div>
+            {settlement.profit !== null ? (
+              <div className={`flex items-center justify-between text-xs font-black px-1 ${settlement.profit > 0 ? 'text-emerald-400' : settlement.profit < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                <span className="text-[9px] uppercase text-slate-500">{t('game.result')}</span>
+                <span>{settlement.profit > 0 ? '+' : ''}{formatCurrency(settlement.profit, currency)}</span>
+              </div>
+            ) : slip.stake > 0 && (
+              <div className="flex items-center justify-between text-xs font-black px-1 text-slate-400">
+                <span className="text-[9px] uppercase text-slate-500">{t('slip.maxReturn')}</span>
+                <span>{formatCurrency(settlement.potentialReturn, currency)}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BetSlipPanel;
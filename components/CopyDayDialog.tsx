@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { addDays, addWeeks, format, parseISO } from 'date-fns';
+import { Copy, X, Plus } from 'lucide-react';
+import { dateLocale, formatDayMonth, t } from '../services/i18n';
+
+interface CopyDayDialogProps {
+  sourceDate: string;
+  gameCount: number;
+  onConfirm: (targetDates: string[]) => void;
+  onCancel: () => void;
+}
+
+const CopyDayDialog: React.FC<CopyDayDialogProps> = ({ sourceDate, gameCount, onConfirm, onCancel }) => {
+  const [targets, setTargets] = useState<string[]>([]);
+  const [pickedDate, setPickedDate] = useState('');
+
+  const source = parseISO(sourceDate);
+  const addTargets = (dates: Date[]) => {
+    const next = new Set(targets);
+    dates.map(d => format(d, 'yyyy-MM-dd')).filter(d => d !== sourceDate).forEach(d => next.add(d));
+    setTargets(Array.from(next).sort());
+  };
+
+  const quickPicks = [
+    { label: t('copy.tomorrow'), dates: () => [addDays(source, 1)] },
+    { label: t('copy.nextWeek'), dates: () => [addWeeks(source, 1)] },
+    { label: t('copy.nextFourWeeks'), dates: () => [1, 2, 3, 4].map(n => addWeeks(source, n)) }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[#0f172a] w-full max-w-md rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-8 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-xl text-white flex items-center gap-3">
+            <Copy size={22} className="text-sky-500" /> {t('copy.title', { date: formatDayMonth(source) })}
+          </h2>
+          <button onClick={onCancel} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-xs font-bold text-slate-400">
+          {t('copy.summary', { count: gameCount })}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {quickPicks.map(pick => (
+            <button
+              key={pick.label}
+              onClick={() => addTargets(pick.dates())}
+              className="px-3 py-1.5 rounded-xl text-xs font-black bg-slate-800 text-slate-300 hover:text-white transition-all"
+            >
+              {pick.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={pickedDate}
+            onChange={(e) => setPickedDate(e.target.value)}
+            className="flex-1 bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+          <button
+            onClick={() => { if (pickedDate) addTargets([parseISO(pickedDate)]); setPickedDate(''); }}
+            className="p-2 bg-slate-800 text-slate-300 hover:text-white rounded-xl"
+          >
+            <Plus size={18} />
+          </button>
+        </div>
+
+        {targets.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {targets.map(d => (
+              <button
+                key={d}
+                onClick={() => setTargets(targets.filter(x => x !== d))}
+                className="text-[10px] font-black bg-sky-900/40 text-sky-300 px-2 py-1 rounded-lg hover:text-red-400"
+              >
+                {format(parseISO(d), `EEE ${t('date.short')}`, { locale: dateLocale() })} ×
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-400 hover:text-white font-black text-xs uppercase tracking-widest">{t('common.cancel')}</button>
+          <button
+            onClick={() => onConfirm(targets)}
+            disabled={targets.length === 0 || gameCount === 0}
+            className="px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30"
+          >
+            {t('copy.confirm', { count: targets.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CopyDayDialog;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, X, AlertTriangle, Copy, CheckCircle } from 'lucide-react';
+import { AppData, CsvColumnMapping, CsvField, CsvPreviewRow } from '../types';
+import {
+  CSV_FIELDS,
+  DATE_FORMATS,
+  TIME_FORMATS,
+  buildCsvPreview,
+  detectDateFormat,
+  detectTimeFormat,
+  guessColumnMapping
+} from '../services/csv';
+import { t } from '../services/i18n';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  rows: string[][];
+  existing: AppData;
+  onConfirm: (rows: CsvPreviewRow[], includeDuplicates: boolean) => void;
+  onCancel: () => void;
+}
+
+const MAX_PREVIEW_ROWS = 100;
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ fileName, rows, existing, onConfirm, onCancel }) => {
+  const headers = rows[0] || [];
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(headers));
+  const [dateFormat, setDateFormat] = useState(() => detectDateFormat(rows, mapping));
+  const [timeFormat, setTimeFormat] = useState(() => detectTimeFormat(rows, mapping));
+  const [step, setStep] = useState<'mapping' | 'preview'>('mapping');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const missingRequired = CSV_FIELDS.filter(f => f.required && mapping[f.field] === null);
+
+  const preview = useMemo(
+    () => (step === 'preview' ? buildCsvPreview(rows, mapping, dateFormat, timeFormat, existing) : []),
+    [step, rows, mapping, dateFormat, timeFormat, existing]
+  );
+  const valid = preview.filter(r => !r.error && !r.duplicate).length;
+  const duplicates = preview.filter(r => r.duplicate).length;
+  const errors = preview.filter(r => r.error).length;
+  const toImport = valid + (includeDuplicates ? duplicates : 0);
+
+  const updateMapping = (field: CsvField, value: string) => {
+    const next = { ...mapping, [field]: value === '' ? null : Number(value) };
+    setMapping(next);
+    // Ao trocar a coluna de data/horário, refaz a detecção de formato
+    if (field === 'date') setDateFormat(detectDateFormat(rows, next));
+    if (field === 'date' || field === 'time') setTimeFormat(detectTimeFormat(rows, next));
+  };
+
+  const selectClass = "w-full bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-4xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <FileSpreadsheet size={26} className="text-sky-500" /> {t('csv.title')}
+          </h2>
+          <button onClick={onCancel} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+        <p className="text-xs font-bold text-slate-400 -mt-4">{t('csv.lines', { file: fileName, count: rows.length - 1 })}</p>
+
+        {step === 'mapping' ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {CSV_FIELDS.map(({ field, labelKey, required }) => (
+                <div key={field} className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-500 uppercase ml-1">
+                    {t(labelKey)}{required && <span className="text-sky-400"> *</span>}
+                  </label>
+                  <select value={mapping[field] ?? ''} onChange={(e) => updateMapping(field, e.target.value)} className={selectClass}>
+                    <option value="">—</option>
+                    {headers.map((h, i) => <option key={i} value={i}>{h || t('csv.column', { number: i + 1 })}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('csv.dateFormat')}</label>
+                <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value)} className={selectClass}>
+                  {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('csv.timeFormat')}</label>
+                <select value={timeFormat} onChange={(e) => setTimeFormat(e.target.value)} className={selectClass}>
+                  {TIME_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                className="px-6 py-3 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30"
+              >
+                {missingRequired.length > 0 ? t('csv.mapMissing', { fields: missingRequired.map(f => t(f.labelKey)).join(', ') }) : t('csv.preview')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 text-xs font-black">
+              <span className="flex items-center gap-1.5 text-emerald-400"><CheckCircle size={14} /> {t('csv.new', { count: valid })}</span>
+              <span className="flex items-center gap-1.5 text-amber-400"><Copy size={14} /> {t('csv.duplicates', { count: duplicates })}</span>
+              <span className="flex items-center gap-1.5 text-red-400"><AlertTriangle size={14} /> {t('csv.errors', { count: errors })}</span>
+            </div>
+
+            <div className="overflow-x-auto max-h-[45vh] overflow-y-auto custom-scrollbar border border-slate-800 rounded-3xl">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-slate-900">
+                  <tr className="text-[9px] font-black text-slate-500 uppercase tracking-widest text-left">
+                    <th className="p-3">{t('csv.line')}</th>
+                    <th className="p-3">{t('csv.field.date')}</th>
+                    <th className="p-3">{t('csv.hour')}</th>
+                    <th className="p-3">{t('game.league')}</th>
+                    <th className="p-3">{t('game.match')}</th>
+                    <th className="p-3">{t('game.odds')}</th>
+                    <th className="p-3">{t('game.stake')}</th>
+                    <th className="p-3">{t('csv.state')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 font-bold text-slate-300">
+                  {preview.slice(0, MAX_PREVIEW_ROWS).map(row => (
+                    <tr key={row.line} className={row.error ? 'text-red-400/80' : row.duplicate ? 'text-amber-400/80' : ''}>
+                      <td className="p-3">{row.line}</td>
+                      <td className="p-3">{row.date}</td>
+                      <td className="p-3">{row.game?.time}</td>
+                      <td className="p-3">{row.game?.league}</td>
+                      <td className="p-3 text-white">{row.game?.match}</td>
+                      <td className="p-3">{row.game?.odds || ''}</td>
+                      <td className="p-3">{row.game?.stake || ''}</td>
+                      <td className="p-3">{row.error ?? (row.duplicate ? t('csv.duplicate') : t('csv.ok'))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.length > MAX_PREVIEW_ROWS && (
+                <p className="text-[10px] font-black text-slate-500 text-center p-3">{t('csv.moreLines', { count: preview.length - MAX_PREVIEW_ROWS })}</p>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-400">
+              <input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} className="accent-sky-500" />
+              {t('csv.includeDuplicates')}
+            </label>
+
+            <div className="flex justify-between">
+              <button onClick={() => setStep('mapping')} className="px-6 py-3 text-slate-400 hover:text-white font-black text-xs uppercase tracking-widest">
+                {t('csv.back')}
+              </button>
+              <button
+                onClick={() => onConfirm(preview, includeDuplicates)}
+                disabled={toImport === 0}
+                className="px-6 py-3 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30"
+              >
+                {t('csv.import', { count: toImport })}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
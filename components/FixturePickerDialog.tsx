@@ -0,0 +1,190 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { CalendarPlus, X, Upload, Plus, Check, Trash2, Search } from 'lucide-react';
+import { AppData, Fixture, TimeSettings } from '../types';
+import { buildNameIndex, fixtureLocalSlot, isFixtureInPlan, mergeFixtures, parseFixtureFile } from '../services/fixtures';
+import { dateLocale, t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+
+interface FixturePickerDialogProps {
+  fixtures: Fixture[];
+  appData: AppData;
+  timeSettings: TimeSettings;
+  selectedDate: string | null;
+  onChangeFixtures: (fixtures: Fixture[]) => void;
+  onPick: (fixture: Fixture) => void;
+  onClose: () => void;
+}
+
+type Scope = 'day' | 'week' | 'all';
+
+const SCOPES: { id: Scope; labelKey: TranslationKey }[] = [
+  { id: 'day', labelKey: 'fixtures.scope.day' },
+  { id: 'week', labelKey: 'fixtures.scope.week' },
+  { id: 'all', labelKey: 'fixtures.scope.all' }
+];
+
+const FixturePickerDialog: React.FC<FixturePickerDialogProps> = ({
+  fixtures,
+  appData,
+  timeSettings,
+  selectedDate,
+  onChangeFixtures,
+  onPick,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scope, setScope] = useState<Scope>(selectedDate ? 'day' : 'week');
+  const [league, setLeague] = useState('');
+  const [query, setQuery] = useState('');
+
+  const slots = useMemo(
+    () => fixtures.map(fixture => ({ fixture, ...fixtureLocalSlot(fixture, timeSettings) })),
+    [fixtures, timeSettings]
+  );
+
+  const leagues = useMemo(() => Array.from(new Set(fixtures.map(f => f.league).filter(Boolean))).sort(), [fixtures]);
+  const sources = useMemo(() => Array.from(new Set(fixtures.map(f => f.source))), [fixtures]);
+
+  const visible = useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const weekEnd = format(addDays(parseISO(selectedDate || today), 7), 'yyyy-MM-dd');
+    const needle = query.trim().toLowerCase();
+    return slots
+      .filter(s => scope !== 'day' || s.date === selectedDate)
+      .filter(s => scope !== 'week' || (s.date >= (selectedDate || today) && s.date < weekEnd))
+      .filter(s => !league || s.fixture.league === league)
+      .filter(s => !needle || `${s.fixture.home} ${s.fixture.away} ${s.fixture.league}`.toLowerCase().includes(needle))
+      .sort((a, b) => (a.date + a.time).localeCompare(b.date + b.time));
+  }, [slots, scope, league, query, selectedDate]);
+
+  const groups = useMemo(() => {
+    const byDate = new Map<string, typeof visible>();
+    visible.forEach(s => byDate.set(s.date, [...(byDate.get(s.date) || []), s]));
+    return Array.from(byDate.entries());
+  }, [visible]);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    const index = buildNameIndex(appData);
+    let next = fixtures;
+    const messages: string[] = [];
+    for (const file of files) {
+      try {
+        const { fixtures: parsed, skipped } = parseFixtureFile(file.name, await file.text(), index);
+        next = mergeFixtures(next, parsed);
+        messages.push(t('fixtures.loaded', { file: file.name, count: parsed.length }) + (skipped ? t('fixtures.skipped', { count: skipped }) : ''));
+      } catch (err) {
+        messages.push(`${file.name}: ${err instanceof Error ? err.message : t('fixtures.invalidFile')}`);
+      }
+    }
+    onChangeFixtures(next);
+    alert(messages.join('\n'));
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-3xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <CalendarPlus size={26} className="text-sky-500" /> {t('day.fixtures')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all"
+          >
+            <Upload size={14} /> {t('fixtures.load')}
+          </button>
+          <input ref={fileInputRef} type="file" multiple accept=".ics,.json,.csv,text/calendar" onChange={handleFiles} className="hidden" />
+          {sources.map(source => (
+            <span key={source} className="flex items-center gap-1.5 text-[10px] font-black bg-slate-800 text-slate-300 px-2 py-1 rounded-lg">
+              {source}
+              <button onClick={() => onChangeFixtures(fixtures.filter(f => f.source !== source))} title={t('fixtures.removeFile')} className="hover:text-red-400">
+                <Trash2 size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+
+        {fixtures.length === 0 ? (
+          <p className="text-sm font-bold text-slate-500">
+            {t('fixtures.empty')}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {SCOPES.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => setScope(s.id)}
+                  disabled={s.id === 'day' && !selectedDate}
+                  className={`px-3 py-1.5 rounded-xl text-xs font-black transition-all disabled:opacity-30 ${scope === s.id ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {t(s.labelKey)}
+                </button>
+              ))}
+              <select value={league} onChange={(e) => setLeague(e.target.value)} className={inputClass}>
+                <option value="">{t('common.allLeagues')}</option>
+                {leagues.map(l => <option key={l} value={l}>{l}</option>)}
+              </select>
+              <div className="relative flex-1 min-w-[10rem]">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                <input
+                  type="text"
+                  placeholder={t('fixtures.searchTeam')}
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className={`w-full pl-8 ${inputClass}`}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-5 max-h-[55vh] overflow-y-auto custom-scrollbar pr-2">
+              {groups.length === 0 && <p className="text-sm font-bold text-slate-500">{t('fixtures.noMatches')}</p>}
+              {groups.map(([date, items]) => (
+                <div key={date} className="space-y-2">
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                    {format(parseISO(date), `EEEE, ${t('date.short')}`, { locale: dateLocale() })}
+                  </span>
+                  {items.map(({ fixture, time }) => {
+                    const added = isFixtureInPlan(fixture, appData, date);
+                    return (
+                      <div key={fixture.id} className="flex items-center gap-3 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5">
+                        <span className="text-xs font-black text-sky-400 w-12 shrink-0">{time || '--:--'}</span>
+                        <div className="min-w-0 flex-1">
+                          <span className="text-sm font-black text-white block truncate">{fixture.home} vs {fixture.away}</span>
+                          {fixture.league && <span className="text-[10px] font-bold text-slate-500">{fixture.league}</span>}
+                        </div>
+                        <button
+                          onClick={() => onPick(fixture)}
+                          disabled={added}
+                          title={added ? t('fixtures.added') : t('fixtures.add')}
+                          className={`p-2 rounded-xl transition-all shrink-0 ${added ? 'text-emerald-400' : 'bg-slate-800 text-slate-300 hover:bg-sky-600 hover:text-white'}`}
+                        >
+                          {added ? <Check size={16} /> : <Plus size={16} />}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FixturePickerDialog;
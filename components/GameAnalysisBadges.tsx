@@ -0,0 +1,45 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { GameAnalysis, RiskRating } from '../types';
+import { formatCurrency } from '../services/bankroll';
+import { t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+
+interface GameAnalysisBadgesProps {
+  analysis: GameAnalysis;
+  bankroll: number;
+  currency: string;
+}
+
+const RISK_STYLES: Record<RiskRating, { labelKey: TranslationKey; className: string }> = {
+  low: { labelKey: 'analysis.risk.low', className: 'bg-emerald-900/40 border-emerald-500/30 text-emerald-400' },
+  medium: { labelKey: 'analysis.risk.medium', className: 'bg-amber-900/40 border-amber-500/30 text-amber-400' },
+  high: { labelKey: 'analysis.risk.high', className: 'bg-red-900/40 border-red-500/30 text-red-400' }
+};
+
+const GameAnalysisBadges: React.FC<GameAnalysisBadgesProps> = ({ analysis, bankroll, currency }) => {
+  const risk = RISK_STYLES[analysis.risk];
+  const suggestedStake = bankroll > 0 ? bankroll * analysis.stakeFraction : null;
+
+  return (
+    <div className="mb-5 space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        <span className={`text-[9px] font-black uppercase tracking-widest border px-2 py-1 rounded-full ${risk.className}`}>
+          {t(risk.labelKey)}
+        </span>
+        <span className="text-[9px] font-black uppercase tracking-widest border px-2 py-1 rounded-full bg-sky-900/40 border-sky-500/30 text-sky-400">
+          {t('analysis.confidence', { percent: Math.round(analysis.confidence) })}
+        </span>
+        <span className="text-[9px] font-black uppercase tracking-widest border px-2 py-1 rounded-full bg-slate-900 border-slate-700 text-slate-300">
+          {t('analysis.stake', { percent: (analysis.stakeFraction * 100).toFixed(1) })}{suggestedStake !== null && ` · ${formatCurrency(suggestedStake, currency)}`}
+        </span>
+      </div>
+      <p className="text-[11px] text-slate-400 leading-relaxed font-medium flex gap-1.5">
+        <Sparkles size={12} className="text-sky-500 shrink-0 mt-0.5" />
+        {analysis.reasoning}
+      </p>
+    </div>
+  );
+};
+
+export default GameAnalysisBadges;
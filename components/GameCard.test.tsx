@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { GameEntry, TimeSettings } from '../types';
+import { createNewGame } from '../services/planner';
+import GameCard from './GameCard';
+
+const SETTINGS: TimeSettings = { timeZone: 'America/Sao_Paulo', leagueTimeZones: {} };
+
+const renderCard = (overrides: Partial<GameEntry> = {}, props: Partial<React.ComponentProps<typeof GameCard>> = {}) => {
+  const handlers = { onUpdate: vi.fn(), onConfirmKickoff: vi.fn(), onRemove: vi.fn(), onToggleSlipLeg: vi.fn() };
+  render(
+    <GameCard
+      game={{ ...createNewGame(), match: 'Flamengo x Vasco', time: '21:30', ...overrides }}
+      index={1}
+      planDate="2026-03-10"
+      timeSettings={SETTINGS}
+      showProbability={false}
+      suggestion={null}
+      warned={false}
+      bankroll={1000}
+      currency="BRL"
+      inSlipDraft={false}
+      tipsterPlaceholder="Eu"
+      tagOptions={[]}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+afterEach(cleanup);
+
+describe('GameCard', () => {
+  it('envia cada campo editado como um patch tipado', () => {
+    const { onUpdate } = renderCard();
+    expect(screen.getByText('JOGO #2')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('Time A vs Time B'), { target: { value: 'Grêmio x Inter' } });
+    expect(onUpdate).toHaveBeenLastCalledWith({ match: 'Grêmio x Inter' });
+
+    fireEvent.change(screen.getByPlaceholderText('1.90'), { target: { value: '1.85' } });
+    expect(onUpdate).toHaveBeenLastCalledWith({ odds: 1.85 });
+
+    fireEvent.click(screen.getByTitle('Confiança 4 de 5'));
+    expect(onUpdate).toHaveBeenLastCalledWith({ confidence: 4 });
+  });
+
+  it('confirma o horário ao sair do campo e ao trocar o fuso', () => {
+    const { onUpdate, onConfirmKickoff } = renderCard();
+    const time = screen.getByPlaceholderText('12:00');
+    fireEvent.change(time, { target: { value: '9h' } });
+    expect(onUpdate).toHaveBeenLastCalledWith({ time: '9h' });
+
+    fireEvent.blur(time);
+    expect(onConfirmKickoff).toHaveBeenLastCalledWith();
+
+    fireEvent.change(screen.getByDisplayValue('Fuso padrão (Sao Paulo)'), { target: { value: 'Europe/London' } });
+    expect(onConfirmKickoff).toHaveBeenLastCalledWith({ timeZone: 'Europe/London' });
+  });
+
+  it('avisa horário inválido e mostra o horário no fuso do usuário', () => {
+    renderCard({ time: '25:99' });
+    expect(screen.getByText('Horário inválido (use 21:45)')).toBeTruthy();
+    cleanup();
+
+    renderCard({ time: '20:00', timeZone: 'Europe/London' });
+    expect(screen.getByText('17:00 no seu fuso')).toBeTruthy();
+  });
+
+  it('alterna status, meia liquidação, bilhete e remoção', () => {
+    const { onUpdate, onToggleSlipLeg, onRemove } = renderCard({ status: 'void' });
+    fireEvent.click(screen.getByTitle('Anulada (devolve a stake)'));
+    expect(onUpdate).toHaveBeenLastCalledWith({ status: 'pending' });
+
+    fireEvent.click(screen.getByTitle('Adicionar ao bilhete múltiplo'));
+    expect(onToggleSlipLeg).toHaveBeenCalled();
+
+    // Lixeira: último botão do cabeçalho (vitória, derrota, anulada, bilhete, remover)
+    fireEvent.click(screen.getAllByRole('button')[4]);
+    expect(onRemove).toHaveBeenCalled();
+    cleanup();
+
+    const settled = renderCard({ status: 'win', stake: 10, odds: 2, profit: 10 });
+    fireEvent.click(screen.getByText('Marcar como meia'));
+    expect(settled.onUpdate).toHaveBeenLastCalledWith({ status: 'half_win' });
+    expect(screen.getByText('Resultado')).toBeTruthy();
+  });
+
+  it('oferece a stake sugerida e o campo de probabilidade quando o plano usa Kelly', () => {
+    const { onUpdate } = renderCard({ stake: 10, odds: 2 }, { showProbability: true, suggestion: { stake: 25, reason: 'Kelly ×0.5: 2.5% da banca' } });
+    expect(screen.getByPlaceholderText('Implícita 50.0%')).toBeTruthy();
+
+    fireEvent.click(screen.getByTitle('Usar a stake sugerida pelo plano'));
+    expect(onUpdate).toHaveBeenLastCalledWith({ stake: 25 });
+    cleanup();
+
+    renderCard({ stake: 10, status: 'win' }, { suggestion: { stake: 25, reason: '1 unidade' } });
+    expect(screen.queryByTitle('Usar a stake sugerida pelo plano')).toBeNull();
+    expect(screen.queryByText('Probabilidade estimada (%)')).toBeNull();
+  });
+});
@@ -0,0 +1,325 @@
+import React from 'react';
+import { Ban, CheckCircle, Layers, Trash2, XCircle } from 'lucide-react';
+import { GameAnalysis, GameEntry, StakeSuggestion, TimeSettings } from '../types';
+import { formatCurrency } from '../services/bankroll';
+import {
+  COMMON_TIME_ZONES,
+  displayKickoff,
+  effectiveTimeZone,
+  localKickoff,
+  parseKickoffTime,
+  timeZoneLabel
+} from '../services/kickoff';
+import { GamePatch, closingLineValue } from '../services/planner';
+import { t } from '../services/i18n';
+import GameAnalysisBadges from './GameAnalysisBadges';
+import TagInput from './TagInput';
+
+interface GameCardProps {
+  game: GameEntry;
+  index: number;
+  planDate: string;
+  timeSettings: TimeSettings;
+  showProbability: boolean;           // só o Kelly usa a probabilidade estimada
+  suggestion: StakeSuggestion | null;
+  warned: boolean;                    // stake acima de algum limite de risco
+  analysis?: GameAnalysis;
+  bankroll: number;
+  currency: string;
+  inSlipDraft: boolean;
+  tipsterPlaceholder: string;
+  tagOptions: string[];
+  onUpdate: (patch: GamePatch) => void;
+  onConfirmKickoff: (patch?: GamePatch) => void;
+  onRemove: () => void;
+  onToggleSlipLeg: () => void;
+}
+
+/** Card de edição de um jogo no painel lateral. */
+const GameCard: React.FC<GameCardProps> = ({
+  game,
+  index,
+  planDate,
+  timeSettings,
+  showProbability,
+  suggestion,
+  warned,
+  analysis,
+  bankroll,
+  currency,
+  inSlipDraft,
+  tipsterPlaceholder,
+  tagOptions,
+  onUpdate,
+  onConfirmKickoff,
+  onRemove,
+  onToggleSlipLeg
+}) => (
+  <div className="p-5 rounded-3xl bg-slate-950 border border-slate-800 shadow-xl group transition-all hover:border-sky-500/30">
+    <div className="flex items-center justify-between mb-5">
+      <span className="text-[10px] font-black text-sky-400 bg-sky-900/40 px-3 py-1 rounded-full">{t('game.badge', { number: index + 1 })}</span>
+      <div className="flex gap-2">
+        <button 
+          onClick={() => onUpdate({ status: game.status === 'win' ? 'pending' : 'win' })}
+          className={`p-1.5 rounded-lg border ${game.status === 'win' ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:text-emerald-500'}`}
+        >
+          <CheckCircle size={18} />
+        </button>
+        <button 
+          onClick={() => onUpdate({ status: game.status === 'loss' ? 'pending' : 'loss' })}
+          className={`p-1.5 rounded-lg border ${game.status === 'loss' ? 'bg-red-600 border-red-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:text-red-500'}`}
+        >
+          <XCircle size={18} />
+        </button>
+        <button 
+          onClick={() => onUpdate({ status: game.status === 'void' ? 'pending' : 'void' })}
+          title={t('game.void')}
+          className={`p-1.5 rounded-lg border ${game.status === 'void' ? 'bg-slate-600 border-slate-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:text-slate-300'}`}
+        >
+          <Ban size={18} />
+        </button>
+        <button 
+          onClick={() => onToggleSlipLeg()}
+          disabled={!game.match}
+          title={t('game.addToSlip')}
+          className={`p-1.5 rounded-lg border disabled:opacity-30 ${inSlipDraft ? 'bg-sky-600 border-sky-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:text-sky-400'}`}
+        >
+          <Layers size={18} />
+        </button>
+        <button onClick={() => onRemove()} className="p-1.5 text-slate-700 hover:text-red-400">
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+
+    {analysis && (
+      <GameAnalysisBadges
+        analysis={analysis}
+        bankroll={bankroll}
+        currency={currency}
+      />
+    )}
+    
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.time')}</label>
+          <input 
+            type="text" 
+            placeholder="12:00"
+            value={game.time}
+            onChange={(e) => onUpdate({ time: e.target.value })}
+            onBlur={() => onConfirmKickoff()}
+            className={`w-full bg-slate-900 border rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold ${game.time.trim() && !parseKickoffTime(game.time) ? 'border-red-500/60' : 'border-slate-800'}`}
+          />
+          <select
+            value={game.timeZone || ''}
+            onChange={(e) => onConfirmKickoff({ timeZone: e.target.value || undefined })}
+            title={t('game.timeZoneTitle')}
+            className="w-full bg-transparent text-[10px] font-black text-slate-500 focus:outline-none cursor-pointer"
+          >
+            <option value="">{t('game.defaultTimeZone', { zone: timeZoneLabel(effectiveTimeZone({ ...game, timeZone: undefined }, timeSettings)) })}</option>
+            {(game.timeZone && !COMMON_TIME_ZONES.includes(game.timeZone) ? [game.timeZone, ...COMMON_TIME_ZONES] : COMMON_TIME_ZONES).map(zone => (
+              <option key={zone} value={zone}>{timeZoneLabel(zone)}</option>
+            ))}
+          </select>
+          {game.time.trim() && !parseKickoffTime(game.time) ? (
+            <span className="text-[9px] font-black text-red-400 ml-1">{t('game.invalidTime')}</span>
+          ) : effectiveTimeZone(game, timeSettings) !== timeSettings.timeZone && localKickoff(game, planDate, timeSettings) && (
+            <span className="text-[9px] font-black text-sky-400 ml-1">
+              {t('game.inYourZone', { time: displayKickoff(game, planDate, timeSettings) })}
+            </span>
+          )}
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.league')}</label>
+          <input 
+            type="text" 
+            placeholder={t('game.leaguePlaceholder')}
+            value={game.league}
+            onChange={(e) => onUpdate({ league: e.target.value })}
+            onBlur={() => onConfirmKickoff()}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.match')}</label>
+        <input 
+          type="text" 
+          placeholder={t('game.matchPlaceholder')}
+          value={game.match}
+          onChange={(e) => onUpdate({ match: e.target.value })}
+          className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.market')}</label>
+          <input 
+            type="text" 
+            placeholder={t('game.marketPlaceholder')}
+            value={game.market}
+            onChange={(e) => onUpdate({ market: e.target.value })}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.selection')}</label>
+          <input 
+            type="text" 
+            placeholder={t('game.selectionPlaceholder')}
+            value={game.selection}
+            onChange={(e) => onUpdate({ selection: e.target.value })}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.stake')}</label>
+          <input 
+            type="number" 
+            min="0"
+            step="0.01"
+            placeholder="0"
+            value={game.stake || ''}
+            onChange={(e) => onUpdate({ stake: parseFloat(e.target.value) || 0 })}
+            className={`w-full bg-slate-900 border rounded-2xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold ${warned ? 'border-amber-500' : 'border-slate-800'}`}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.odds')}</label>
+          <input 
+            type="number" 
+            min="1"
+            step="0.01"
+            placeholder="1.90"
+            value={game.odds || ''}
+            onChange={(e) => onUpdate({ odds: parseFloat(e.target.value) || 0 })}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.bookmaker')}</label>
+          <input 
+            type="text" 
+            placeholder="Bet365"
+            value={game.bookmaker}
+            onChange={(e) => onUpdate({ bookmaker: e.target.value })}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+        </div>
+      </div>
+      {showProbability && (
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.probability')}</label>
+          <input
+            type="number"
+            min="1"
+            max="99"
+            step="0.5"
+            placeholder={game.odds > 1 ? t('game.impliedProbability', { percent: (100 / game.odds).toFixed(1) }) : '55'}
+            value={game.probability || ''}
+            onChange={(e) => onUpdate({ probability: parseFloat(e.target.value) || 0 })}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+          />
+        </div>
+      )}
+      {game.status === 'pending' && suggestion && suggestion.stake !== game.stake && (
+        <button
+          onClick={() => onUpdate({ stake: suggestion.stake })}
+          title={t('game.useSuggestion')}
+          className="w-full flex items-center justify-between gap-3 text-left px-3 py-2 rounded-2xl bg-sky-900/30 border border-sky-500/20 hover:border-sky-500/50 transition-all"
+        >
+          <span className="text-[10px] font-bold text-slate-400 truncate">{suggestion.reason}</span>
+          <span className="text-xs font-black text-sky-300 shrink-0">
+            {t('game.suggested', { value: formatCurrency(suggestion.stake, currency) })}
+          </span>
+        </button>
+      )}
+      <div className="space-y-1">
+        <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.tipster')}</label>
+        <input
+          type="text"
+          list="tipster-options"
+          placeholder={tipsterPlaceholder}
+          value={game.tipster || ''}
+          onChange={(e) => onUpdate({ tipster: e.target.value })}
+          className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+        />
+      </div>
+      <div className="space-y-1">
+        <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.tags')}</label>
+        <TagInput gameId={game.id} tags={game.tags ?? []} suggestions={tagOptions} onChange={(tags) => onUpdate({ tags })} />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.confidence')}</label>
+          <div className="flex gap-1">
+            {[1, 2, 3, 4, 5].map(level => (
+              <button
+                key={level}
+                onClick={() => onUpdate({ confidence: game.confidence === level ? 0 : level })}
+                title={game.confidence === level ? t('game.clearConfidence') : t('game.confidenceLevel', { level })}
+                className={`flex-1 py-2 rounded-xl text-xs font-black transition-all ${game.confidence && level <= game.confidence ? 'bg-amber-500 text-white' : 'bg-slate-900 border border-slate-800 text-slate-500 hover:text-white'}`}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.closingOdds')}</label>
+          <div className="relative">
+            <input
+              type="number"
+              min="1"
+              step="0.01"
+              placeholder="1.85"
+              value={game.closingOdds || ''}
+              onChange={(e) => onUpdate({ closingOdds: parseFloat(e.target.value) || 0 })}
+              className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold"
+            />
+            {closingLineValue(game) !== null && (
+              <span
+                title={t('game.clvTitle')}
+                className={`absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-black ${closingLineValue(game)! >= 0 ? 'text-emerald-400' : 'text-red-400'}`}
+              >
+                CLV {closingLineValue(game)! > 0 ? '+' : ''}{closingLineValue(game)!.toFixed(1)}%
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.notes')}</label>
+        <textarea
+          rows={2}
+          placeholder={t('game.notesPlaceholder')}
+          value={game.notes || ''}
+          onChange={(e) => onUpdate({ notes: e.target.value })}
+          className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-medium resize-none"
+        />
+      </div>
+      {(game.status === 'win' || game.status === 'loss' || game.status === 'half_win' || game.status === 'half_loss') && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => onUpdate({ status: game.status === 'win' || game.status === 'half_win' ? (game.status === 'win' ? 'half_win' : 'win') : (game.status === 'loss' ? 'half_loss' : 'loss') })}
+            className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white bg-slate-900 border border-slate-800 px-3 py-1 rounded-full"
+          >
+            {game.status === 'half_win' || game.status === 'half_loss' ? t('game.halfSettled') : t('game.markHalf')}
+          </button>
+        </div>
+      )}
+      {game.profit !== null && (
+        <div className={`flex items-center justify-between text-xs font-black px-1 ${game.profit > 0 ? 'text-emerald-400' : game.profit < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+          <span className="text-[9px] uppercase text-slate-500">{t('game.result')}</span>
+          <span>{game.profit > 0 ? '+' : ''}{formatCurrency(game.profit, currency)}</span>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default GameCard;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { GameEntry, GameStatus } from '../types';
+import { t } from '../services/i18n';
+
+export const statusCellClass = (status: GameStatus) => {
+  switch (status) {
+    case 'win':
+    case 'half_win':
+      return 'bg-emerald-900/40 border-emerald-500/30 text-emerald-400';
+    case 'loss':
+    case 'half_loss':
+      return 'bg-red-900/40 border-red-500/30 text-red-400';
+    case 'void':
+      return 'bg-slate-800/40 border-slate-700 text-slate-500 line-through';
+    default:
+      return 'bg-slate-800 border-slate-700 text-slate-300';
+  }
+};
+
+export const GAME_STATUSES: GameStatus[] = ['pending', 'win', 'loss', 'void', 'half_win', 'half_loss'];
+
+/** Nome de cada status no idioma ativo. */
+export const statusLabels = () =>
+  Object.fromEntries(GAME_STATUSES.map(status => [status, t(`status.${status}`)])) as Record<GameStatus, string>;
+
+interface GameChipProps {
+  game: GameEntry;
+  time: string; // horário já no fuso do usuário
+  detailed?: boolean; // mostra liga e seleção abaixo do confronto
+}
+
+/** Jogo resumido nas visões do calendário, colorido pelo status. */
+const GameChip: React.FC<GameChipProps> = ({ game, time, detailed = false }) => (
+  <div className={`text-[10px] border px-2 py-1 rounded-md font-bold w-full ${statusCellClass(game.status)}`}>
+    <div className="truncate">
+      {time && <span className="opacity-60 mr-1">{time}</span>}
+      {game.match}
+    </div>
+    {detailed && (game.league || game.selection) && (
+      <div className="truncate opacity-60 font-medium">
+        {[game.league, game.selection && `${game.selection}${game.odds > 0 ? ` @ ${game.odds.toFixed(2)}` : ''}`].filter(Boolean).join(' · ')}
+      </div>
+    )}
+  </div>
+);
+
+export default GameChip;
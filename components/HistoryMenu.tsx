@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Undo2, Redo2, ListRestart } from 'lucide-react';
+import { HistoryEntry } from '../hooks/usePlannerHistory';
+import { t } from '../services/i18n';
+
+interface HistoryMenuProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: (steps?: number) => void;
+  onRedo: (steps?: number) => void;
+}
+
+const VISIBLE_ENTRIES = 8;
+
+const HistoryMenu: React.FC<HistoryMenuProps> = ({ past, future, onUndo, onRedo }) => {
+  const [open, setOpen] = useState(false);
+  const recent = [...past].reverse().slice(0, VISIBLE_ENTRIES);
+  const upcoming = future.slice(0, VISIBLE_ENTRIES);
+
+  const buttonClass = "p-2.5 hover:bg-slate-50 rounded-xl transition-all text-slate-600 active:scale-90 disabled:opacity-30";
+
+  return (
+    <div className="relative flex items-center gap-1 bg-white shadow-sm border border-slate-200 p-1.5 rounded-2xl">
+      <button onClick={() => onUndo()} disabled={past.length === 0} title={past.length ? t('historyMenu.undo', { label: past[past.length - 1].label }) : t('historyMenu.nothingToUndo')} className={buttonClass}>
+        <Undo2 size={20} />
+      </button>
+      <button onClick={() => onRedo()} disabled={future.length === 0} title={future.length ? t('historyMenu.redo', { label: future[0].label }) : t('historyMenu.nothingToRedo')} className={buttonClass}>
+        <Redo2 size={20} />
+      </button>
+      <button onClick={() => setOpen(o => !o)} disabled={past.length + future.length === 0} title={t('historyMenu.recent')} className={buttonClass}>
+        <ListRestart size={20} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-72 bg-white border border-slate-200 rounded-3xl shadow-2xl p-3">
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">{t('historyMenu.recent')}</span>
+          <ul className="mt-2 space-y-0.5">
+            {upcoming.slice().reverse().map((entry, i) => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => { onRedo(upcoming.length - i); setOpen(false); }}
+                  className="w-full flex justify-between gap-3 text-left px-3 py-2 rounded-xl hover:bg-slate-50 text-xs font-bold text-slate-300 line-through"
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="shrink-0">{format(entry.at, 'HH:mm')}</span>
+                </button>
+              </li>
+            ))}
+            {recent.map((entry, i) => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => { onUndo(i + 1); setOpen(false); }}
+                  title={t('historyMenu.undoUntil')}
+                  className={`w-full flex justify-between gap-3 text-left px-3 py-2 rounded-xl hover:bg-slate-50 text-xs font-bold ${i === 0 ? 'text-slate-900' : 'text-slate-500'}`}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="shrink-0 text-slate-400">{format(entry.at, 'HH:mm')}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryMenu;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Upload, X, AlertTriangle, GitMerge, Replace } from 'lucide-react';
+import { ImportMode, ImportReport } from '../types';
+import { t } from '../services/i18n';
+import { SCHEMA_VERSION } from '../services/storage';
+
+interface ImportDialogProps {
+  fileName: string;
+  report: ImportReport;
+  onConfirm: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const MAX_REJECTED_SHOWN = 20;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, report, onConfirm, onCancel }) => {
+  const nothingToImport = report.acceptedGames === 0;
+
+  const handleReplace = () => {
+    if (window.confirm(t('import.replaceConfirm'))) {
+      onConfirm('replace');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-lg rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <Upload size={26} className="text-sky-500" /> {t('import.title')}
+          </h2>
+          <button onClick={onCancel} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 rounded-3xl p-5 space-y-2">
+          <p className="text-xs font-bold text-slate-400 truncate">{fileName}</p>
+          <p className="text-white font-black">
+            {t('import.accepted', { games: report.acceptedGames, days: report.acceptedDays })}
+          </p>
+          {report.sourceVersion < SCHEMA_VERSION && (
+            <p className="text-[11px] font-bold text-sky-400">
+              {t('import.converted', { from: report.sourceVersion, to: SCHEMA_VERSION })}
+            </p>
+          )}
+        </div>
+
+        {report.rejected.length > 0 && (
+          <div className="bg-amber-900/20 border border-amber-500/30 rounded-3xl p-5 space-y-3">
+            <p className="text-amber-400 font-black text-sm flex items-center gap-2">
+              <AlertTriangle size={16} /> {t('import.rejected', { count: report.rejected.length })}
+            </p>
+            <ul className="text-[11px] font-medium text-amber-200/80 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+              {report.rejected.slice(0, MAX_REJECTED_SHOWN).map((r, i) => (
+                <li key={i}>
+                  <span className="font-black">{r.date}</span>
+                  {r.index !== null && t('import.rejectedGame', { number: r.index + 1 })}: {r.reason}
+                </li>
+              ))}
+              {report.rejected.length > MAX_REJECTED_SHOWN && (
+                <li className="font-black">{t('import.more', { count: report.rejected.length - MAX_REJECTED_SHOWN })}</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => onConfirm('merge')}
+            disabled={nothingToImport}
+            className="flex flex-col items-start gap-1 p-4 rounded-3xl border bg-sky-500/10 border-sky-500/40 hover:bg-sky-500/20 transition-all disabled:opacity-20 text-left"
+          >
+            <span className="font-black text-sm text-sky-400 flex items-center gap-2"><GitMerge size={16} /> {t('import.merge')}</span>
+            <span className="text-[11px] text-slate-400 font-medium">{t('import.mergeHint')}</span>
+          </button>
+          <button
+            onClick={handleReplace}
+            disabled={nothingToImport}
+            className="flex flex-col items-start gap-1 p-4 rounded-3xl border bg-slate-900 border-slate-800 hover:border-red-500/40 transition-all disabled:opacity-20 text-left"
+          >
+            <span className="font-black text-sm text-red-400 flex items-center gap-2"><Replace size={16} /> {t('import.replace')}</span>
+            <span className="text-[11px] text-slate-400 font-medium">{t('import.replaceHint')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
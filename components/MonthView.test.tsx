@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { eachDayOfInterval, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
+import { AppData, GameEntry, TimeSettings } from '../types';
+import { selectLanguage, weekStartsOn } from '../services/i18n';
+import { createNewGame } from '../services/planner';
+import MonthView from './MonthView';
+
+const SETTINGS: TimeSettings = { timeZone: 'America/Sao_Paulo', leagueTimeZones: {} };
+const MONTH = new Date(2026, 2, 1);
+
+const game = (match: string, time: string): GameEntry => ({ ...createNewGame(), match, time });
+
+const DATA: AppData = {
+  '2026-03-10': {
+    date: '2026-03-10',
+    games: [game('Jogo das 21h', '21:00'), game('Jogo das 16h', '16:00'), createNewGame(), game('Jogo das 19h', '19:00'), game('Jogo sem horário', '')]
+  },
+  '2026-03-20': { date: '2026-03-20', games: [game('Grêmio x Inter', '18:30')] }
+};
+
+// Semanas completas do mês, como o App calcula
+const monthDays = () => eachDayOfInterval({
+  start: startOfWeek(startOfMonth(MONTH), { weekStartsOn: weekStartsOn() }),
+  end: endOfWeek(endOfMonth(MONTH), { weekStartsOn: weekStartsOn() })
+});
+
+const renderMonth = (onSelectDate = vi.fn()) => {
+  const { container } = render(
+    <MonthView appData={DATA} month={MONTH} days={monthDays()} timeSettings={SETTINGS} selectedDate="2026-03-20" onSelectDate={onSelectDate} />
+  );
+  const [weekdays, , mobileList] = Array.from(container.children);
+  return { onSelectDate, firstWeekday: weekdays.children[0].textContent, mobileDays: mobileList.children };
+};
+
+afterEach(() => {
+  cleanup();
+  selectLanguage('pt-BR');
+});
+
+describe('MonthView', () => {
+  it('começa a semana no domingo em português e na segunda em inglês', () => {
+    expect(renderMonth().firstWeekday).toBe('domingo');
+    cleanup();
+
+    selectLanguage('en');
+    expect(renderMonth().firstWeekday).toBe('Mon');
+  });
+
+  it('mostra até três jogos por dia em ordem de horário e conta o restante', () => {
+    renderMonth();
+    const chips = ['Jogo das 16h', 'Jogo das 19h', 'Jogo das 21h'].map(match => screen.getByText(match));
+    expect(chips[0].textContent).toBe('16:00Jogo das 16h');
+    expect(chips[0].compareDocumentPosition(chips[1]) & Node.DOCUMENT_POSITION_FOLLOWING).toBeTruthy();
+    expect(chips[1].compareDocumentPosition(chips[2]) & Node.DOCUMENT_POSITION_FOLLOWING).toBeTruthy();
+    expect(screen.queryByText('Jogo sem horário')).toBeNull();
+    expect(screen.getByText('+ 1 MAIS')).toBeTruthy();
+  });
+
+  it('seleciona o dia clicado', () => {
+    const { onSelectDate } = renderMonth();
+    fireEvent.click(screen.getByText('Jogo das 16h').closest('button')!);
+    expect(onSelectDate).toHaveBeenCalledWith('2026-03-10');
+  });
+
+  it('lista no celular só os dias do mês, com a contagem de jogos preenchidos', () => {
+    const { onSelectDate, mobileDays } = renderMonth();
+    expect(mobileDays).toHaveLength(31);
+    expect(screen.getByText('4 Jogos')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('1 Jogos'));
+    expect(onSelectDate).toHaveBeenCalledWith('2026-03-20');
+  });
+});
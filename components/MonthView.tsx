@@ -0,0 +1,100 @@
+import React from 'react';
+import { format, isSameDay, isToday as isDateToday } from 'date-fns';
+import { AppData, TimeSettings } from '../types';
+import { displayKickoff, parseKickoffTime, sortByKickoff } from '../services/kickoff';
+import { dateLocale, t } from '../services/i18n';
+import GameChip from './GameChip';
+
+interface MonthViewProps {
+  appData: AppData;
+  month: Date;
+  days: Date[];        // semanas completas que cobrem o mês
+  timeSettings: TimeSettings;
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+}
+
+/** Mês em grade no desktop (até três jogos por dia) e em lista no celular. */
+const MonthView: React.FC<MonthViewProps> = ({ appData, month, days, timeSettings, selectedDate, onSelectDate }) => (
+  <>
+    <div className="hidden md:grid grid-cols-7 border-b border-slate-800 bg-slate-900/50">
+      {days.slice(0, 7).map(day => (
+        <div key={day.getDay()} className="py-4 text-center text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+          {format(day, 'EEE', { locale: dateLocale() })}
+        </div>
+      ))}
+    </div>
+
+    <div className="hidden md:grid grid-cols-7 flex-1 min-h-[650px]">
+      {days.map((day) => {
+        const dayStr = format(day, 'yyyy-MM-dd');
+        const isSelected = selectedDate === dayStr;
+        const isToday = isSameDay(day, new Date());
+        const dayData = appData[dayStr];
+        const games = sortByKickoff(dayData?.games.filter(g => g.match !== '') || [], dayStr, timeSettings);
+        const isOtherMonth = format(day, 'MM') !== format(month, 'MM');
+
+        return (
+          <button
+            key={dayStr}
+            onClick={() => onSelectDate(dayStr)}
+            className={`
+              relative p-5 text-left border-r border-b border-slate-800/50 transition-all flex flex-col group
+              ${isSelected ? 'bg-sky-500/10 ring-2 ring-inset ring-sky-500/40 z-10' : 'hover:bg-white/5'}
+              ${isOtherMonth ? 'opacity-20' : ''}
+            `}
+          >
+            <span className={`text-sm font-black mb-3 ${isToday ? 'text-white bg-sky-600 px-3 py-1 rounded-lg inline-block' : 'text-slate-500'}`}>
+              {format(day, 'd')}
+            </span>
+        
+            {games.length > 0 && (
+              <div className="mt-auto space-y-1.5 w-full">
+                {games.slice(0, 3).map((g, idx) => (
+                  <GameChip key={idx} game={g} time={parseKickoffTime(g.time) ? displayKickoff(g, dayStr, timeSettings) : ''} />
+                ))}
+                {games.length > 3 && (
+                  <div className="text-[9px] text-sky-400 font-black text-center pt-1">{t('calendar.more', { count: games.length - 3 })}</div>
+                )}
+              </div>
+            )}
+            {isSelected && <div className="absolute top-5 right-5 w-2 h-2 bg-sky-500 rounded-full shadow-[0_0_10px_#0ea5e9]" />}
+          </button>
+        );
+      })}
+    </div>
+
+    {/* Mobile View */}
+    <div className="md:hidden flex flex-col divide-y divide-slate-800 max-h-[60vh] overflow-y-auto bg-slate-900">
+      {days.filter(day => format(day, 'MM') === format(month, 'MM')).map((day) => {
+        const dayStr = format(day, 'yyyy-MM-dd');
+        const isSelected = selectedDate === dayStr;
+        const isToday = isDateToday(day);
+        const games = appData[dayStr]?.games.filter(g => g.match) || [];
+
+        return (
+          <div
+            key={dayStr}
+            onClick={() => onSelectDate(dayStr)}
+            className={`p-5 transition-all ${isSelected ? 'bg-sky-500/10' : ''}`}
+          >
+            <div className="flex items-center gap-4">
+              <div className={`w-12 h-12 rounded-2xl flex flex-col items-center justify-center font-black ${isToday ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-500'}`}>
+                <span className="text-[10px] uppercase opacity-60">{format(day, 'EEE', { locale: dateLocale() })}</span>
+                <span className="text-lg">{format(day, 'd')}</span>
+              </div>
+              <div>
+                <span className={`font-bold block ${isSelected ? 'text-sky-400' : 'text-slate-300'}`}>
+                  {format(day, "EEEE", { locale: dateLocale() })}
+                </span>
+                {games.length > 0 && <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{t('calendar.games', { count: games.length })}</span>}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </>
+);
+
+export default MonthView;
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { Trophy, X } from 'lucide-react';
+import { AppData, Bankroll, Profile } from '../types';
+import { BANKROLL_KEY, formatCurrency, loadBankroll } from '../services/bankroll';
+import { t } from '../services/i18n';
+import { readProfileData } from '../services/idbStore';
+import { TranslationKey } from '../services/locales/ptBR';
+import { ComparisonGroup, ComparisonSort, ProfileDataset, compareProfiles, profileKey } from '../services/profiles';
+
+interface ProfileComparisonDialogProps {
+  profiles: Profile[];
+  activeId: string;
+  activeData: AppData;      // o perfil ativo usa o estado em memória, que pode ainda não estar gravado
+  activeBankroll: Bankroll;
+  onClose: () => void;
+}
+
+const GROUPS: { id: ComparisonGroup; labelKey: TranslationKey }[] = [
+  { id: 'profile', labelKey: 'profile.profiles' },
+  { id: 'tipster', labelKey: 'stats.tab.tipster' }
+];
+
+const SORTS: { id: ComparisonSort; labelKey: TranslationKey }[] = [
+  { id: 'profit', labelKey: 'stats.profit' },
+  { id: 'hitRate', labelKey: 'stats.hitRate' }
+];
+
+const signed = (value: number, suffix = '') => `${value > 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+const ProfileComparisonDialog: React.FC<ProfileComparisonDialogProps> = ({ profiles, activeId, activeData, activeBankroll, onClose }) => {
+  const [others, setOthers] = useState<ProfileDataset[] | null>(null);
+  const [from, setFrom] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [group, setGroup] = useState<ComparisonGroup>('profile');
+  const [sort, setSort] = useState<ComparisonSort>('profit');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      profiles
+        .filter(p => p.id !== activeId)
+        .map(async profile => ({
+          profile,
+          data: await readProfileData(profile.id),
+          bankroll: loadBankroll(profileKey(BANKROLL_KEY, profile.id))
+        }))
+    )
+      .then(loaded => !cancelled && setOthers(loaded))
+      .catch(e => {
+        console.error("Erro ao carregar dados dos perfis", e);
+        if (!cancelled) setOthers([]);
+      });
+    return () => { cancelled = true; };
+  }, [profiles, activeId]);
+
+  const rows = useMemo(() => {
+    if (!others) return [];
+    const active = profiles.find(p => p.id === activeId)!;
+    const datasets = [{ profile: active, data: activeData, bankroll: activeBankroll }, ...others];
+    return compareProfiles(datasets, { from: from || undefined, to: to || undefined }, group, sort);
+  }, [others, profiles, activeId, activeData, activeBankroll, from, to, group, sort]);
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-xs font-black transition-all ${active ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-4xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <Trophy size={26} className="text-sky-500" /> {t('profile.compare')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span className="text-slate-500 font-bold text-xs">{t('calendar.until')}</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          <span className="w-px h-6 bg-slate-800 mx-1" />
+          {GROUPS.map(g => <button key={g.id} onClick={() => setGroup(g.id)} className={chipClass(group === g.id)}>{t(g.labelKey)}</button>)}
+          <span className="w-px h-6 bg-slate-800 mx-1" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('profile.sortBy')}</span>
+          {SORTS.map(s => <button key={s.id} onClick={() => setSort(s.id)} className={chipClass(sort === s.id)}>{t(s.labelKey)}</button>)}
+        </div>
+
+        {!others ? (
+          <p className="text-xs font-bold text-slate-500 text-center py-8">{t('profile.loading')}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-xs font-bold text-slate-500 text-center py-8">{t('profile.noBets')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[9px] font-black text-slate-500 uppercase tracking-widest text-right">
+                  <th className="text-left py-2">#</th>
+                  <th className="text-left py-2">{group === 'profile' ? t('profile.profile') : t('game.tipster')}</th>
+                  <th className="py-2">{t('stats.bets')}</th>
+                  <th className="py-2">{t('profile.record')}</th>
+                  <th className="py-2">{t('stats.hitRate')}</th>
+                  <th className="py-2">{t('stats.profit')}</th>
+                  <th className="py-2">{t('stats.yield')}</th>
+                  {group === 'profile' && <th className="py-2">{t('stats.roi')}</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {rows.map((row, i) => (
+                  <tr key={row.key} className={`text-right font-bold ${row.key === activeId ? 'text-sky-300' : 'text-slate-300'}`}>
+                    <td className="text-left py-3 text-slate-500">{i + 1}</td>
+                    <td className="text-left py-3 text-white">{row.label}</td>
+                    <td>{row.bets}</td>
+                    <td>{row.wins}/{row.losses}/{row.voids}</td>
+                    <td>{row.hitRate.toFixed(1)}%</td>
+                    <td className={row.profit >= 0 ? 'text-emerald-400' : 'text-red-400'}>{formatCurrency(row.profit, activeBankroll.currency)}</td>
+                    <td className={row.yield >= 0 ? 'text-emerald-400' : 'text-red-400'}>{signed(row.yield, '%')}</td>
+                    {group === 'profile' && <td className={row.roi >= 0 ? 'text-emerald-400' : 'text-red-400'}>{signed(row.roi, '%')}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-[11px] text-slate-500 font-medium">
+          {t('profile.compareHint')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileComparisonDialog;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Users, Check, Plus, Pencil, Trash2, Trophy } from 'lucide-react';
+import { Profile } from '../types';
+import { t } from '../services/i18n';
+
+interface ProfileMenuProps {
+  profiles: Profile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+  onCompare: () => void;
+}
+
+const ProfileMenu: React.FC<ProfileMenuProps> = ({ profiles, activeId, onSwitch, onAdd, onRename, onRemove, onCompare }) => {
+  const [open, setOpen] = useState(false);
+  const active = profiles.find(p => p.id === activeId);
+
+  const handleAdd = () => {
+    const name = prompt(t('profile.newPrompt'));
+    if (name?.trim()) onAdd(name.trim());
+  };
+
+  const handleRename = (profile: Profile) => {
+    const name = prompt(t('profile.renamePrompt'), profile.name);
+    if (name?.trim()) onRename(profile.id, name.trim());
+  };
+
+  const handleRemove = (profile: Profile) => {
+    if (confirm(t('profile.removeConfirm', { name: profile.name }))) {
+      onRemove(profile.id);
+    }
+  };
+
+  const itemClass = "w-full flex items-center gap-2 text-left px-3 py-2 rounded-xl hover:bg-slate-50 text-xs font-bold";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        title={t('profile.switch')}
+        className="flex items-center gap-2 bg-white shadow-sm border border-slate-200 px-4 py-2.5 rounded-2xl hover:bg-slate-50 transition-all active:scale-95"
+      >
+        <Users size={20} className="text-sky-600" />
+        <span className="font-black text-slate-900 text-sm max-w-[8rem] truncate">{active?.name}</span>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 z-50 w-72 bg-white border border-slate-200 rounded-3xl shadow-2xl p-3">
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">{t('profile.profiles')}</span>
+          <ul className="mt-2 space-y-0.5">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => { setOpen(false); if (profile.id !== activeId) onSwitch(profile.id); }}
+                  className={`${itemClass} ${profile.id === activeId ? 'text-sky-600' : 'text-slate-700'}`}
+                >
+                  {profile.id === activeId ? <Check size={14} /> : <span className="w-3.5" />}
+                  <span className="truncate">{profile.name}</span>
+                </button>
+                <button onClick={() => handleRename(profile)} title={t('profile.rename')} className="p-1.5 text-slate-300 hover:text-slate-600">
+                  <Pencil size={13} />
+                </button>
+                <button
+                  onClick={() => handleRemove(profile)}
+                  disabled={profile.id === activeId}
+                  title={profile.id === activeId ? t('profile.switchBeforeRemove') : t('profile.remove')}
+                  className="p-1.5 text-slate-300 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-300"
+                >
+                  <Trash2 size={13} />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="border-t border-slate-100 mt-2 pt-2 space-y-0.5">
+            <button onClick={handleAdd} className={`${itemClass} text-slate-700`}>
+              <Plus size={14} /> {t('profile.new')}
+            </button>
+            <button
+              onClick={() => { setOpen(false); onCompare(); }}
+              disabled={profiles.length < 2}
+              className={`${itemClass} text-slate-700 disabled:opacity-30`}
+            >
+              <Trophy size={14} /> {t('profile.compare')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileMenu;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ScrollText, X, Trash2, TrendingDown, Repeat, Wrench } from 'lucide-react';
+import { AppData, SavedReview } from '../types';
+import { AIAnalysisError, AnalysisProvider } from '../services/analysisProvider';
+import { isOfflineFailure } from '../services/aiQueue';
+import { formatCurrency } from '../services/bankroll';
+import { dateLocale, t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+import { ReviewScope, createReview, periodLabel, reviewRange } from '../services/reviews';
+
+interface RetrospectiveDialogProps {
+  appData: AppData;
+  provider: AnalysisProvider;
+  date: string;            // dia selecionado; base dos períodos "dia" e "semana"
+  initialBankroll: number;
+  currency: string;
+  reviews: SavedReview[];
+  onSave: (review: SavedReview) => void;
+  onQueue: (from: string, to: string) => void; // sem conexão: gera quando a internet voltar
+  queued: number;                             // revisões aguardando na fila
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const SCOPES: { id: ReviewScope; labelKey: TranslationKey }[] = [
+  { id: 'day', labelKey: 'review.scope.day' },
+  { id: 'week', labelKey: 'view.week' },
+  { id: 'custom', labelKey: 'review.scope.custom' }
+];
+
+const RetrospectiveDialog: React.FC<RetrospectiveDialogProps> = ({
+  appData, provider, date, initialBankroll, currency, reviews, onSave, onQueue, queued, onDelete, onClose
+}) => {
+  const [scope, setScope] = useState<ReviewScope>('week');
+  const [customFrom, setCustomFrom] = useState(() => reviewRange(date, 'week').from);
+  const [customTo, setCustomTo] = useState(date);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(reviews[0]?.id ?? null);
+
+  const range = scope === 'custom' ? { from: customFrom, to: customTo } : reviewRange(date, scope);
+  const open = reviews.find(r => r.id === openId);
+
+  const handleReview = async () => {
+    setIsReviewing(true);
+    setError(null);
+    try {
+      const review = await createReview(provider, appData, range.from, range.to, initialBankroll);
+      onSave(review);
+      setOpenId(review.id);
+    } catch (err) {
+      if (isOfflineFailure(err)) {
+        onQueue(range.from, range.to);
+      } else if (err instanceof AIAnalysisError) {
+        console.warn(`Revisão de IA falhou (${err.code})`, err);
+        setError(err.message);
+      } else {
+        setError(t('review.failed'));
+      }
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-xs font-black transition-all ${active ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-4xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <ScrollText size={26} className="text-sky-500" /> {t('review.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {SCOPES.map(s => <button key={s.id} onClick={() => setScope(s.id)} className={chipClass(scope === s.id)}>{t(s.labelKey)}</button>)}
+          <span className="w-px h-6 bg-slate-800 mx-1" />
+          {scope === 'custom' ? (
+            <>
+              <input type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} className={inputClass} />
+              <span className="text-slate-500 font-bold text-xs">{t('calendar.until')}</span>
+              <input type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} className={inputClass} />
+            </>
+          ) : (
+            <span className="text-sm font-black text-white">{periodLabel(range.from, range.to)}</span>
+          )}
+          <button
+            onClick={handleReview}
+            disabled={isReviewing || !range.from || !range.to || range.from > range.to}
+            className="ml-auto px-4 py-2 rounded-2xl bg-sky-600 hover:bg-sky-500 text-white text-xs font-black disabled:opacity-40 transition-all"
+          >
+            {isReviewing ? t('review.reviewing') : t('review.generate')}
+          </button>
+        </div>
+
+        {queued > 0 && (
+          <div className="bg-amber-500/10 border border-amber-500/30 rounded-3xl p-4 text-xs text-amber-400 font-bold">
+            {t('review.queued', { count: queued })}
+          </div>
+        )}
+
+        {error && <div className="bg-red-500/10 border border-red-500/30 rounded-3xl p-4 text-xs text-red-400 font-bold">{error}</div>}
+
+        {open && (
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-5 space-y-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <span className="font-black text-white">{periodLabel(open.from, open.to)}</span>
+              <span className="text-[11px] font-bold text-slate-500">
+                {t('review.stats', { bets: open.stats.bets, wins: open.stats.wins, losses: open.stats.losses })}
+                <span className={open.stats.profit >= 0 ? 'text-emerald-400' : 'text-red-400'}>{formatCurrency(open.stats.profit, currency)}</span>
+                {t('review.yield', { yield: open.stats.yield.toFixed(1) })}
+              </span>
+            </div>
+            <p className="text-sm text-slate-300 font-medium leading-relaxed">{open.review.summary}</p>
+
+            {open.review.leaks.length > 0 && (
+              <div className="space-y-2">
+                <span className="text-[10px] font-black text-red-400 uppercase tracking-widest flex items-center gap-1.5"><TrendingDown size={12} /> {t('review.leaks')}</span>
+                <ul className="space-y-1">
+                  {open.review.leaks.map((leak, i) => (
+                    <li key={i} className="text-xs text-slate-300 font-medium">
+                      <span className="font-black text-white">{leak.name}</span>
+                      <span className="text-slate-500"> ({leak.dimension === 'league' ? t('review.dimension.league') : t('review.dimension.market')})</span>: {leak.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <span className="text-[10px] font-black text-amber-400 uppercase tracking-widest flex items-center gap-1.5"><Repeat size={12} /> {t('review.patterns')}</span>
+              <ul className="list-disc list-inside space-y-1">
+                {open.review.patterns.map((pattern, i) => <li key={i} className="text-xs text-slate-300 font-medium">{pattern}</li>)}
+              </ul>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-[10px] font-black text-emerald-400 uppercase tracking-widest flex items-center gap-1.5"><Wrench size={12} /> {t('review.adjustments')}</span>
+              <ul className="list-disc list-inside space-y-1">
+                {open.review.adjustments.map((adjustment, i) => <li key={i} className="text-xs text-white font-bold">{adjustment}</li>)}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('review.previous')}</span>
+          {reviews.length === 0 ? (
+            <p className="text-xs font-bold text-slate-500 text-center py-4">{t('review.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-slate-800">
+              {reviews.map(review => (
+                <li key={review.id} className="flex items-center gap-3 py-2">
+                  <button
+                    onClick={() => setOpenId(review.id)}
+                    className={`flex-1 text-left text-xs font-bold ${review.id === openId ? 'text-sky-400' : 'text-slate-300 hover:text-white'}`}
+                  >
+                    {periodLabel(review.from, review.to)}
+                    <span className="text-slate-500 font-medium">{t('review.createdAt', { date: format(parseISO(review.createdAt), `${t('date.short')} HH:mm`, { locale: dateLocale() }) })}</span>
+                  </button>
+                  <span className={`text-xs font-black ${review.stats.profit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {formatCurrency(review.stats.profit, currency)}
+                  </span>
+                  <button onClick={() => onDelete(review.id)} title={t('review.delete')} className="p-1.5 text-slate-500 hover:text-red-400">
+                    <Trash2 size={13} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RetrospectiveDialog;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Search, X, BarChart3, FileSpreadsheet, Bookmark, Trash2 } from 'lucide-react';
+import { AppData, GameStatus, SavedFilter, StatsFilter, TimeSettings } from '../types';
+import { distinctValues } from '../services/stats';
+import { describeFilter, isFilterEmpty, searchPicks } from '../services/search';
+import { displayKickoff, parseKickoffTime } from '../services/kickoff';
+import { dateLocale, t } from '../services/i18n';
+import GameChip, { GAME_STATUSES, statusLabels } from './GameChip';
+
+interface SearchDialogProps {
+  appData: AppData;
+  timeSettings: TimeSettings;
+  savedFilters: SavedFilter[];
+  onSaveFilter: (name: string, filter: StatsFilter) => void;
+  onDeleteFilter: (id: string) => void;
+  onJump: (date: string) => void;
+  onOpenStats: (filter: StatsFilter) => void;
+  onExportCsv: (filter: StatsFilter) => void;
+  onClose: () => void;
+}
+
+const SearchDialog: React.FC<SearchDialogProps> = ({
+  appData,
+  timeSettings,
+  savedFilters,
+  onSaveFilter,
+  onDeleteFilter,
+  onJump,
+  onOpenStats,
+  onExportCsv,
+  onClose
+}) => {
+  const [filter, setFilter] = useState<StatsFilter>({});
+  const leagues = useMemo(() => distinctValues(appData, 'league'), [appData]);
+  const results = useMemo(() => (isFilterEmpty(filter) ? [] : searchPicks(appData, filter)), [appData, filter]);
+
+  const updateFilter = (patch: Partial<StatsFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const toggleStatus = (status: GameStatus) => {
+    const current = filter.statuses || [];
+    const statuses = current.includes(status) ? current.filter(s => s !== status) : [...current, status];
+    updateFilter({ statuses: statuses.length ? statuses : undefined });
+  };
+
+  const handleSave = () => {
+    const name = prompt(t('search.filterName'), describeFilter(filter, statusLabels()));
+    if (name?.trim()) onSaveFilter(name.trim(), filter);
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+  const actionClass = "flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all disabled:opacity-30";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-3xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <Search size={26} className="text-sky-500" /> {t('search.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <input
+          type="search"
+          autoFocus
+          placeholder={t('search.placeholder')}
+          value={filter.query || ''}
+          onChange={(e) => updateFilter({ query: e.target.value || undefined })}
+          className={`w-full text-base ${inputClass}`}
+        />
+
+        <div className="flex flex-wrap gap-1.5">
+          {GAME_STATUSES.map(status => (
+            <button
+              key={status}
+              onClick={() => toggleStatus(status)}
+              className={`px-3 py-1.5 rounded-xl text-xs font-black transition-all ${filter.statuses?.includes(status) ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              {statusLabels()[status]}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <input type="date" value={filter.from || ''} onChange={(e) => updateFilter({ from: e.target.value || undefined })} className={inputClass} />
+          <input type="date" value={filter.to || ''} onChange={(e) => updateFilter({ to: e.target.value || undefined })} className={inputClass} />
+          <select value={filter.league || ''} onChange={(e) => updateFilter({ league: e.target.value || undefined })} className={inputClass}>
+            <option value="">{t('common.allLeagues')}</option>
+            {leagues.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </div>
+
+        {savedFilters.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {savedFilters.map(saved => (
+              <span key={saved.id} className="flex items-center gap-1.5 text-[10px] font-black bg-slate-800 text-slate-300 px-2 py-1 rounded-lg">
+                <button onClick={() => setFilter(saved.filter)} title={describeFilter(saved.filter, statusLabels())} className="hover:text-sky-400">
+                  <Bookmark size={10} className="inline mr-1" />{saved.name}
+                </button>
+                <button onClick={() => onDeleteFilter(saved.id)} title={t('search.deleteFilter')} className="hover:text-red-400">
+                  <Trash2 size={11} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-auto">
+            {isFilterEmpty(filter) ? t('search.hint') : t('search.results', { count: `${results.length}${results.length === 200 ? '+' : ''}` })}
+          </span>
+          <button onClick={handleSave} disabled={isFilterEmpty(filter)} className={actionClass}>
+            <Bookmark size={14} /> {t('search.saveFilter')}
+          </button>
+          <button onClick={() => onOpenStats(filter)} disabled={isFilterEmpty(filter)} className={actionClass}>
+            <BarChart3 size={14} /> {t('app.stats')}
+          </button>
+          <button onClick={() => onExportCsv(filter)} disabled={isFilterEmpty(filter)} className={actionClass}>
+            <FileSpreadsheet size={14} /> {t('app.csv')}
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-2">
+          {results.map(({ date, game }) => (
+            <button key={game.id} onClick={() => onJump(date)} className="w-full text-left flex items-start gap-3 group">
+              <span className="text-[10px] font-black text-slate-500 w-20 shrink-0 pt-1 group-hover:text-sky-400">
+                {format(parseISO(date), `${t('date.short')} EEE`, { locale: dateLocale() })}
+              </span>
+              <div className="flex-1 min-w-0 space-y-1">
+                <GameChip game={game} time={parseKickoffTime(game.time) ? displayKickoff(game, date, timeSettings) : ''} detailed />
+                {game.notes && <p className="text-[10px] text-slate-500 font-medium truncate px-2">{game.notes}</p>}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchDialog;
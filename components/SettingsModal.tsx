@@ -0,0 +1,438 @@
+import React, { useState } from 'react';
+import { Settings, X, Trash2, Plus, Bell, Scale, RefreshCw, Languages } from 'lucide-react';
+import { AISettings, AnalysisProviderId, AppSettings, ReminderSettings, StakingSettings, SyncSettings, TimeSettings } from '../types';
+import { clearAnalysisCache } from '../services/aiService';
+import { LANGUAGES, isLanguage, t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+import { COMMON_TIME_ZONES, localTimeZone, timeZoneLabel } from '../services/kickoff';
+import { STAKING_METHODS } from '../services/staking';
+import { SYNC_INTERVAL_OPTIONS } from '../services/sync';
+import { REMINDER_LEAD_OPTIONS, notificationsSupported, requestNotificationPermission } from '../services/reminders';
+
+interface SettingsModalProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: AnalysisProviderId; labelKey: TranslationKey; descriptionKey: TranslationKey }[] = [
+  { id: 'gemini', labelKey: 'settings.provider.gemini', descriptionKey: 'settings.provider.geminiHint' },
+  { id: 'mock', labelKey: 'settings.provider.mock', descriptionKey: 'settings.provider.mockHint' }
+];
+
+const KELLY_FRACTIONS = [0.1, 0.25, 0.5, 1];
+
+const MODEL_SUGGESTIONS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onChange, onClose }) => {
+  const updateAi = (patch: Partial<AISettings>) => onChange({ ...settings, ai: { ...settings.ai, ...patch } });
+  const updateTime = (patch: Partial<TimeSettings>) => onChange({ ...settings, time: { ...settings.time, ...patch } });
+  const updateReminders = (patch: Partial<ReminderSettings>) => onChange({ ...settings, reminders: { ...settings.reminders, ...patch } });
+  const updateStaking = (patch: Partial<StakingSettings>) => onChange({ ...settings, staking: { ...settings.staking, ...patch } });
+  const updateSync = (patch: Partial<SyncSettings>) => onChange({ ...settings, sync: { ...settings.sync, ...patch } });
+  const [permission, setPermission] = useState<NotificationPermission>(notificationsSupported() ? Notification.permission : 'denied');
+  const [leagueDraft, setLeagueDraft] = useState('');
+  const [leagueZoneDraft, setLeagueZoneDraft] = useState(COMMON_TIME_ZONES[0]);
+
+  const zoneOptions = Array.from(new Set([localTimeZone(), settings.time.timeZone, ...COMMON_TIME_ZONES]));
+
+  const handleAddLeagueZone = () => {
+    const league = leagueDraft.trim();
+    if (!league) return;
+    updateTime({ leagueTimeZones: { ...settings.time.leagueTimeZones, [league]: leagueZoneDraft } });
+    setLeagueDraft('');
+  };
+
+  const handleRemoveLeagueZone = (league: string) => {
+    const { [league]: _, ...rest } = settings.time.leagueTimeZones;
+    updateTime({ leagueTimeZones: rest });
+  };
+
+  // Ligar um lembrete pede a permissão do navegador na mesma hora
+  const handleToggleReminder = async (patch: Partial<ReminderSettings>) => {
+    updateReminders(patch);
+    if (Object.values(patch).some(Boolean)) setPermission(await requestNotificationPermission());
+  };
+
+  const handleClearCache = () => {
+    clearAnalysisCache();
+    alert(t('settings.cacheCleared'));
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold disabled:opacity-30";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-lg rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <Settings size={26} className="text-sky-500" /> {t('app.settings')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <section className="space-y-4">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+            <Languages size={12} /> {t('settings.language')}
+          </span>
+          <select
+            value={settings.language}
+            onChange={(e) => isLanguage(e.target.value) && onChange({ ...settings, language: e.target.value })}
+            className={inputClass}
+          >
+            {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
+          <p className="text-[11px] text-slate-500 font-medium">{t('settings.languageHint')}</p>
+        </section>
+
+        <section className="space-y-4">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('settings.ai')}</span>
+
+          <div className="grid grid-cols-2 gap-3">
+            {PROVIDERS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => updateAi({ provider: p.id })}
+                className={`text-left p-4 rounded-3xl border transition-all ${settings.ai.provider === p.id ? 'bg-sky-500/10 border-sky-500/40' : 'bg-slate-900 border-slate-800 hover:border-slate-700'}`}
+              >
+                <span className={`font-black text-sm block ${settings.ai.provider === p.id ? 'text-sky-400' : 'text-white'}`}>{t(p.labelKey)}</span>
+                <span className="text-[11px] text-slate-500 font-medium">{t(p.descriptionKey)}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.model')}</label>
+            <input
+              type="text"
+              list="gemini-models"
+              value={settings.ai.model}
+              disabled={settings.ai.provider !== 'gemini'}
+              onChange={(e) => updateAi({ model: e.target.value })}
+              className={inputClass}
+            />
+            <datalist id="gemini-models">
+              {MODEL_SUGGESTIONS.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1 flex justify-between">
+              <span>{t('settings.temperature')}</span>
+              <span className="text-sky-400">{settings.ai.temperature.toFixed(1)}</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.1"
+              value={settings.ai.temperature}
+              disabled={settings.ai.provider !== 'gemini'}
+              onChange={(e) => updateAi({ temperature: parseFloat(e.target.value) })}
+              className="w-full accent-sky-500 disabled:opacity-30"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.apiKey')}</label>
+            <input
+              type="password"
+              placeholder={t('settings.apiKeyPlaceholder')}
+              value={settings.ai.apiKey}
+              disabled={settings.ai.provider !== 'gemini'}
+              onChange={(e) => updateAi({ apiKey: e.target.value.trim() })}
+              className={inputClass}
+            />
+          </div>
+
+          <button
+            onClick={handleClearCache}
+            className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-slate-400 hover:text-red-400 transition-all"
+          >
+            <Trash2 size={14} /> {t('settings.clearCache')}
+          </button>
+        </section>
+
+        <section className="space-y-4">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('settings.times')}</span>
+
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.myTimeZone')}</label>
+            <select value={settings.time.timeZone} onChange={(e) => updateTime({ timeZone: e.target.value })} className={inputClass}>
+              {zoneOptions.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.leagueTimeZones')}</label>
+            {Object.entries<string>(settings.time.leagueTimeZones).map(([league, zone]) => (
+              <div key={league} className="flex items-center justify-between gap-3 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2">
+                <span className="text-sm font-black text-white truncate">{league}</span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span className="text-[11px] font-bold text-sky-400">{timeZoneLabel(zone)}</span>
+                  <button onClick={() => handleRemoveLeagueZone(league)} className="text-slate-600 hover:text-red-400"><Trash2 size={14} /></button>
+                </span>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder={t('settings.leaguePlaceholder')}
+                value={leagueDraft}
+                onChange={(e) => setLeagueDraft(e.target.value)}
+                className={inputClass}
+              />
+              <select value={leagueZoneDraft} onChange={(e) => setLeagueZoneDraft(e.target.value)} className={inputClass}>
+                {COMMON_TIME_ZONES.map(zone => <option key={zone} value={zone}>{timeZoneLabel(zone)}</option>)}
+              </select>
+              <button onClick={handleAddLeagueZone} className="p-2.5 bg-slate-800 text-slate-300 hover:text-white rounded-xl shrink-0"><Plus size={18} /></button>
+            </div>
+            <p className="text-[11px] text-slate-500 font-medium">
+              {t('settings.leagueTimeZonesHint')}
+            </p>
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+            <Scale size={12} /> {t('settings.staking')}
+          </span>
+
+          <div className="grid grid-cols-2 gap-3">
+            {STAKING_METHODS.map(m => (
+              <button
+                key={m.id}
+                onClick={() => updateStaking({ method: m.id })}
+                className={`text-left p-4 rounded-3xl border transition-all ${settings.staking.method === m.id ? 'bg-sky-500/10 border-sky-500/40' : 'bg-slate-900 border-slate-800 hover:border-slate-700'}`}
+              >
+                <span className={`font-black text-sm block ${settings.staking.method === m.id ? 'text-sky-400' : 'text-white'}`}>{t(m.labelKey)}</span>
+                <span className="text-[11px] text-slate-500 font-medium">{t(m.descriptionKey)}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.unit')}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={settings.staking.unit || ''}
+                disabled={settings.staking.method !== 'flat' && settings.staking.method !== 'recovery'}
+                onChange={(e) => updateStaking({ unit: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            {settings.staking.method === 'percent' && (
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.percent')}</label>
+                <input
+                  type="number"
+                  min="0.1"
+                  max="100"
+                  step="0.1"
+                  value={settings.staking.percent || ''}
+                  onChange={(e) => updateStaking({ percent: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {settings.staking.method === 'kelly' && (
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.kellyFraction')}</label>
+                <select
+                  value={settings.staking.kellyFraction}
+                  onChange={(e) => updateStaking({ kellyFraction: parseFloat(e.target.value) })}
+                  className={inputClass}
+                >
+                  {KELLY_FRACTIONS.map(f => <option key={f} value={f}>{f === 1 ? t('settings.fullKelly') : `×${f}`}</option>)}
+                </select>
+              </div>
+            )}
+            {settings.staking.method === 'recovery' && (
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.recoveryCap')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={settings.staking.recoveryCap || ''}
+                  onChange={(e) => updateStaking({ recoveryCap: parseFloat(e.target.value) || 1 })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.maxStake')}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={settings.staking.maxStakePercent || ''}
+                placeholder={t('settings.noLimit')}
+                onChange={(e) => updateStaking({ maxStakePercent: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.maxDay')}</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={settings.staking.maxDayExposurePercent || ''}
+                placeholder={t('settings.noLimit')}
+                onChange={(e) => updateStaking({ maxDayExposurePercent: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('settings.lossStreak')}</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={settings.staking.maxLossStreak || ''}
+                placeholder={t('settings.off')}
+                onChange={(e) => updateStaking({ maxLossStreak: parseInt(e.target.value, 10) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-slate-500 font-medium">
+            {t('settings.stakingHint')}
+          </p>
+        </section>
+
+        <section className="space-y-4">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+            <Bell size={12} /> {t('settings.reminders')}
+          </span>
+
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm font-bold text-white cursor-pointer flex-1">
+              <input
+                type="checkbox"
+                checked={settings.reminders.kickoff}
+                onChange={(e) => handleToggleReminder({ kickoff: e.target.checked })}
+                className="accent-sky-500"
+              />
+              {t('settings.kickoffReminder')}
+            </label>
+            <select
+              value={settings.reminders.minutesBefore}
+              disabled={!settings.reminders.kickoff}
+              onChange={(e) => updateReminders({ minutesBefore: parseInt(e.target.value, 10) })}
+              className={`${inputClass} !w-32`}
+            >
+              {REMINDER_LEAD_OPTIONS.map(m => <option key={m} value={m}>{t('settings.minutes', { minutes: m })}</option>)}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm font-bold text-white cursor-pointer flex-1">
+              <input
+                type="checkbox"
+                checked={settings.reminders.settleNag}
+                onChange={(e) => handleToggleReminder({ settleNag: e.target.checked })}
+                className="accent-sky-500"
+              />
+              {t('settings.settleNag')}
+            </label>
+            <input
+              type="time"
+              value={settings.reminders.nagTime}
+              disabled={!settings.reminders.settleNag}
+              onChange={(e) => e.target.value && updateReminders({ nagTime: e.target.value })}
+              className={`${inputClass} !w-32`}
+            />
+          </div>
+
+          <p className="text-[11px] text-slate-500 font-medium">
+            {!notificationsSupported()
+              ? t('settings.notificationsUnsupported')
+              : permission === 'denied'
+                ? t('settings.notificationsBlocked')
+                : t('settings.notificationsHint')}
+          </p>
+        </section>
+
+        <section className="space-y-4">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-1.5">
+            <RefreshCw size={12} /> {t('settings.sync')}
+          </span>
+
+          <label className="flex items-center gap-2 text-sm font-bold text-white cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.sync.enabled}
+              onChange={(e) => updateSync({ enabled: e.target.checked })}
+              className="accent-sky-500"
+            />
+            {t('settings.syncEnabled')}
+          </label>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('settings.syncServer')}</label>
+            <input
+              type="url"
+              value={settings.sync.serverUrl}
+              disabled={!settings.sync.enabled}
+              onChange={(e) => updateSync({ serverUrl: e.target.value })}
+              placeholder="http://192.168.0.10:8787"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('settings.syncSpace')}</label>
+              <input
+                type="text"
+                value={settings.sync.space}
+                disabled={!settings.sync.enabled}
+                onChange={(e) => updateSync({ space: e.target.value.replace(/[^\w-]/g, '') })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('settings.syncAuto')}</label>
+              <select
+                value={settings.sync.intervalMinutes}
+                disabled={!settings.sync.enabled}
+                onChange={(e) => updateSync({ intervalMinutes: parseInt(e.target.value, 10) })}
+                className={inputClass}
+              >
+                {SYNC_INTERVAL_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? t('settings.syncManual') : t('settings.syncEvery', { minutes: m })}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('settings.syncToken')}</label>
+            <input
+              type="password"
+              value={settings.sync.token}
+              disabled={!settings.sync.enabled}
+              onChange={(e) => updateSync({ token: e.target.value })}
+              placeholder={t('settings.syncTokenPlaceholder')}
+              className={inputClass}
+            />
+          </div>
+
+          <p className="text-[11px] text-slate-500 font-medium">
+            {t('settings.syncRun')} <code className="text-slate-300">npm run sync-server</code> {t('settings.syncHint')}
+          </p>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
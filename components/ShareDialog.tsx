@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Share2, X, Copy, Download, Image as ImageIcon } from 'lucide-react';
+import { AppData, Bankroll, ShareOptions, TimeSettings } from '../types';
+import {
+  SHARE_FORMATS,
+  SHARE_OPTIONS_KEY,
+  SHARE_SCOPES,
+  ShareOutcome,
+  buildShareCard,
+  copyImage,
+  formatShareText,
+  loadShareOptions,
+  renderShareImage,
+  shareImage,
+  shareText
+} from '../services/share';
+import { t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+
+interface ShareDialogProps {
+  appData: AppData;
+  bankroll: Bankroll;
+  timeSettings: TimeSettings;
+  date: string;
+  onClose: () => void;
+}
+
+const OUTCOME_MESSAGES: Record<ShareOutcome, TranslationKey | null> = {
+  shared: 'share.shared',
+  copied: 'share.copied',
+  downloaded: 'share.downloaded',
+  cancelled: null
+};
+
+const TOGGLES: { key: 'showOdds' | 'showStakes' | 'showResults'; labelKey: TranslationKey }[] = [
+  { key: 'showOdds', labelKey: 'share.showOdds' },
+  { key: 'showStakes', labelKey: 'share.showStakes' },
+  { key: 'showResults', labelKey: 'share.showResults' }
+];
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ appData, bankroll, timeSettings, date, onClose }) => {
+  const [options, setOptions] = useState<ShareOptions>(loadShareOptions);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageBlob, setImageBlob] = useState<Blob | null>(null);
+  const [notice, setNotice] = useState('');
+
+  const card = useMemo(
+    () => buildShareCard(appData, date, options.scope, bankroll, timeSettings),
+    [appData, date, options.scope, bankroll, timeSettings]
+  );
+  const text = useMemo(() => formatShareText(card, options), [card, options]);
+  const isImage = options.format === 'image';
+  const filename = `betmaster-${options.scope}-${date}.png`;
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SHARE_OPTIONS_KEY, JSON.stringify(options));
+    } catch (e) {
+      console.error("Erro ao salvar preferências de compartilhamento", e);
+    }
+  }, [options]);
+
+  // Gera a prévia do PNG só quando o formato imagem está selecionado
+  useEffect(() => {
+    if (!isImage) return;
+    let url: string | null = null;
+    let cancelled = false;
+    renderShareImage(card, options)
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImageBlob(blob);
+        setImageUrl(url);
+      })
+      .catch(e => setNotice(e instanceof Error ? e.message : t('share.imageFailed')));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isImage, card, options]);
+
+  const updateOptions = (patch: Partial<ShareOptions>) => {
+    setNotice('');
+    setOptions(prev => ({ ...prev, ...patch }));
+  };
+
+  const run = async (action: () => Promise<ShareOutcome | void>) => {
+    try {
+      const outcome = await action();
+      const message = outcome ? OUTCOME_MESSAGES[outcome] : 'share.copied';
+      setNotice(message ? t(message) : '');
+    } catch (e) {
+      console.error("Erro ao compartilhar", e);
+      setNotice(e instanceof Error ? e.message : t('share.failed'));
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-xs font-black transition-all ${active ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+  const actionClass = "flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30";
+  const primaryClass = "flex items-center gap-2 px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-2xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <Share2 size={26} className="text-sky-500" /> {t('share.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1.5">
+            {SHARE_SCOPES.map(s => (
+              <button key={s.id} onClick={() => updateOptions({ scope: s.id })} className={chipClass(options.scope === s.id)}>
+                {t(s.labelKey)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {SHARE_FORMATS.map(f => (
+              <button key={f.id} onClick={() => updateOptions({ format: f.id })} className={chipClass(options.format === f.id)}>
+                {t(f.labelKey)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {TOGGLES.map(toggle => (
+              <label key={toggle.key} className="flex items-center gap-2 text-xs font-bold text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options[toggle.key]}
+                  onChange={(e) => updateOptions({ [toggle.key]: e.target.checked })}
+                  className="accent-sky-500"
+                />
+                {t(toggle.labelKey)}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto custom-scrollbar rounded-2xl bg-slate-950 border border-slate-800 p-4">
+          {isImage ? (
+            imageUrl ? <img src={imageUrl} alt={`${card.title} ${card.period}`} className="w-full rounded-xl" /> : <p className="text-sm font-bold text-slate-500">{t('share.generating')}</p>
+          ) : (
+            <pre className="text-xs text-slate-300 font-medium whitespace-pre-wrap break-words">{text}</pre>
+          )}
+        </div>
+
+        {card.lines.length === 0 && (
+          <p className="text-xs font-bold text-amber-400">{t('share.noGames')}</p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {notice && <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-auto">{notice}</span>}
+          {isImage ? (
+            <>
+              <button onClick={() => run(() => copyImage(imageBlob!))} disabled={!imageBlob} className={actionClass}>
+                <ImageIcon size={14} /> {t('share.copyImage')}
+              </button>
+              <button onClick={() => run(() => shareImage(imageBlob!, filename, card.title))} disabled={!imageBlob} className={primaryClass}>
+                {typeof navigator.share === 'function' ? <Share2 size={14} /> : <Download size={14} />}
+                {typeof navigator.share === 'function' ? t('share.share') : t('share.downloadPng')}
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => run(() => navigator.clipboard.writeText(text))} disabled={card.lines.length === 0} className={actionClass}>
+                <Copy size={14} /> {t('share.copy')}
+              </button>
+              {typeof navigator.share === 'function' && (
+                <button onClick={() => run(() => shareText(text, card.title))} disabled={card.lines.length === 0} className={primaryClass}>
+                  <Share2 size={14} /> {t('share.share')}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
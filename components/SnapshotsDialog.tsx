@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, X, RotateCcw, Trash2, Camera, HardDrive } from 'lucide-react';
+import { AppData, SnapshotMeta, SnapshotReason } from '../types';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  estimateStorageUsage,
+  isIndexedDbAvailable,
+  listSnapshots,
+  loadSnapshot
+} from '../services/idbStore';
+import { dateLocale, t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+
+interface SnapshotsDialogProps {
+  appData: AppData;
+  onRestore: (data: AppData) => void;
+  onClose: () => void;
+}
+
+const REASON_LABEL_KEYS: Record<SnapshotReason, TranslationKey> = {
+  auto: 'snapshots.reason.auto',
+  manual: 'snapshots.reason.manual',
+  migration: 'snapshots.reason.migration',
+  'pre-import': 'snapshots.reason.preImport',
+  'pre-restore': 'snapshots.reason.preRestore'
+};
+
+const formatBytes = (bytes: number) =>
+  bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const SnapshotsDialog: React.FC<SnapshotsDialogProps> = ({ appData, onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = async () => {
+    setSnapshots(await listSnapshots());
+    setUsage(await estimateStorageUsage());
+  };
+
+  useEffect(() => {
+    if (isIndexedDbAvailable()) refresh().catch(e => console.error("Erro ao listar snapshots", e));
+  }, []);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      console.error("Erro ao manipular snapshots", e);
+      alert(e instanceof Error ? e.message : t('snapshots.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    await createSnapshot(appData, 'manual');
+  });
+
+  const handleRestore = (snapshot: SnapshotMeta) => {
+    const when = format(parseISO(snapshot.createdAt), 'Pp', { locale: dateLocale() });
+    if (!window.confirm(t('snapshots.restoreConfirm', { when }))) return;
+    runAction(async () => {
+      await createSnapshot(appData, 'pre-restore');
+      onRestore(await loadSnapshot(snapshot.id));
+    });
+  };
+
+  const handleDelete = (snapshot: SnapshotMeta) => runAction(() => deleteSnapshot(snapshot.id));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-lg rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <History size={26} className="text-sky-500" /> {t('app.snapshots')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        {!isIndexedDbAvailable() ? (
+          <p className="text-xs font-bold text-slate-500">{t('snapshots.unsupported')}</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              {usage && (
+                <span className="text-[11px] font-bold text-slate-500 flex items-center gap-2">
+                  <HardDrive size={14} /> {t('snapshots.usage', { used: formatBytes(usage.usage), quota: formatBytes(usage.quota) })}
+                </span>
+              )}
+              <button
+                onClick={handleCreate}
+                disabled={busy}
+                className="flex items-center gap-2 px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded-xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30"
+              >
+                <Camera size={14} /> {t('snapshots.create')}
+              </button>
+            </div>
+
+            {snapshots.length === 0 ? (
+              <p className="text-xs font-bold text-slate-500 text-center py-8">{t('snapshots.empty')}</p>
+            ) : (
+              <ul className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+                {snapshots.map(s => (
+                  <li key={s.id} className="flex items-center justify-between gap-3 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3">
+                    <div>
+                      <span className="text-white font-black text-sm block">
+                        {format(parseISO(s.createdAt), "dd MMM yyyy, HH:mm", { locale: dateLocale() })}
+                      </span>
+                      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                        {t(REASON_LABEL_KEYS[s.reason])} · {t('snapshots.counts', { days: s.dayCount, games: s.gameCount })}
+                      </span>
+                    </div>
+                    <div className="flex gap-1">
+                      <button onClick={() => handleRestore(s)} disabled={busy} title={t('snapshots.restore')} className="p-2 text-sky-400 hover:bg-white/5 rounded-xl disabled:opacity-30">
+                        <RotateCcw size={16} />
+                      </button>
+                      <button onClick={() => handleDelete(s)} disabled={busy} title={t('common.delete')} className="p-2 text-slate-600 hover:text-red-400 hover:bg-white/5 rounded-xl disabled:opacity-30">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotsDialog;
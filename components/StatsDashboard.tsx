@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, X, TrendingUp, TrendingDown, Flame, FileSpreadsheet, Bookmark } from 'lucide-react';
+import { AppData, Bankroll, ProfitPoint, SavedFilter, StatsBreakdownRow, StatsFilter } from '../types';
+import {
+  breakdownByConfidence,
+  breakdownByLeague,
+  breakdownByMarket,
+  breakdownByMonth,
+  breakdownByTag,
+  breakdownByTipster,
+  breakdownByWeek,
+  buildProfitCurve,
+  clvByLeague,
+  collectSettledPicks,
+  computeStats,
+  distinctValues
+} from '../services/stats';
+import { formatCurrency } from '../services/bankroll';
+import { formatDate, t } from '../services/i18n';
+import { TranslationKey } from '../services/locales/ptBR';
+import { describeFilter, isFilterEmpty } from '../services/search';
+import { statusLabels } from './GameChip';
+
+interface StatsDashboardProps {
+  appData: AppData;
+  bankroll: Bankroll;
+  ownerName: string; // tipster padrão: nome do perfil ativo
+  initialFilter?: StatsFilter;
+  savedFilters: SavedFilter[];
+  onSaveFilter: (name: string, filter: StatsFilter) => void;
+  onExportCsv: (filter: StatsFilter) => void;
+  onClose: () => void;
+}
+
+type BreakdownTab = 'month' | 'week' | 'league' | 'market' | 'tipster' | 'tag' | 'confidence' | 'clv';
+
+const BREAKDOWN_TABS: { id: BreakdownTab; labelKey: TranslationKey; columnKey: TranslationKey }[] = [
+  { id: 'month', labelKey: 'stats.tab.month', columnKey: 'stats.column.month' },
+  { id: 'week', labelKey: 'stats.tab.week', columnKey: 'stats.column.week' },
+  { id: 'league', labelKey: 'stats.tab.league', columnKey: 'game.league' },
+  { id: 'market', labelKey: 'stats.tab.market', columnKey: 'game.market' },
+  { id: 'tipster', labelKey: 'stats.tab.tipster', columnKey: 'game.tipster' },
+  { id: 'tag', labelKey: 'game.tags', columnKey: 'stats.column.tag' },
+  { id: 'confidence', labelKey: 'game.confidence', columnKey: 'game.confidence' },
+  { id: 'clv', labelKey: 'stats.tab.clv', columnKey: 'game.league' }
+];
+
+const signed = (value: number, suffix = '') => `${value > 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+const ProfitCurve: React.FC<{ points: ProfitPoint[]; currency: string }> = ({ points, currency }) => {
+  if (points.length < 2) {
+    return <div className="h-48 flex items-center justify-center text-xs font-bold text-slate-500">{t('stats.curveEmpty')}</div>;
+  }
+
+  const width = 600;
+  const height = 180;
+  const values = points.map(p => p.cumulative);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  const x = (i: number) => (i / (points.length - 1)) * width;
+  const y = (v: number) => height - ((v - min) / range) * height;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.cumulative).toFixed(1)}`).join(' ');
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-48">
+        <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="#334155" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={last.cumulative >= 0 ? '#10b981' : '#ef4444'} strokeWidth={3} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-bold text-slate-500 mt-2">
+        <span>{formatDate(points[0].date)}</span>
+        <span className={last.cumulative >= 0 ? 'text-emerald-400' : 'text-red-400'}>{formatCurrency(last.cumulative, currency)}</span>
+        <span>{formatDate(last.date)}</span>
+      </div>
+    </div>
+  );
+};
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({
+  appData,
+  bankroll,
+  ownerName,
+  initialFilter = {},
+  savedFilters,
+  onSaveFilter,
+  onExportCsv,
+  onClose
+}) => {
+  const [filter, setFilter] = useState<StatsFilter>(initialFilter);
+  const [tab, setTab] = useState<BreakdownTab>('month');
+
+  const leagues = useMemo(() => distinctValues(appData, 'league'), [appData]);
+  const markets = useMemo(() => distinctValues(appData, 'market'), [appData]);
+  const picks = useMemo(() => collectSettledPicks(appData, filter), [appData, filter]);
+  const stats = useMemo(() => computeStats(picks, bankroll.initial), [picks, bankroll.initial]);
+  const curve = useMemo(() => buildProfitCurve(picks), [picks]);
+
+  const rows: StatsBreakdownRow[] = useMemo(() => {
+    switch (tab) {
+      case 'month': return breakdownByMonth(picks, bankroll.initial);
+      case 'week': return breakdownByWeek(picks, bankroll.initial);
+      case 'league': return breakdownByLeague(picks, bankroll.initial);
+      case 'market': return breakdownByMarket(picks, bankroll.initial);
+      case 'tipster': return breakdownByTipster(picks, bankroll.initial, ownerName);
+      case 'tag': return breakdownByTag(picks, bankroll.initial);
+      case 'confidence': return breakdownByConfidence(picks, bankroll.initial);
+      case 'clv': return [];
+    }
+  }, [tab, picks, bankroll.initial, ownerName]);
+  const clvRows = useMemo(() => (tab === 'clv' ? clvByLeague(picks) : []), [tab, picks]);
+
+  const updateFilter = (patch: Partial<StatsFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const handleSaveFilter = () => {
+    const name = prompt(t('stats.filterPrompt'), describeFilter(filter, statusLabels()));
+    if (name?.trim()) onSaveFilter(name.trim(), filter);
+  };
+
+  const kpis = [
+    { label: t('stats.profit'), value: formatCurrency(stats.profit, bankroll.currency), tone: stats.profit >= 0 ? 'text-emerald-400' : 'text-red-400' },
+    { label: t('stats.roi'), value: signed(stats.roi, '%'), tone: stats.roi >= 0 ? 'text-emerald-400' : 'text-red-400' },
+    { label: t('stats.yield'), value: signed(stats.yield, '%'), tone: stats.yield >= 0 ? 'text-emerald-400' : 'text-red-400' },
+    { label: t('stats.hitRate'), value: `${stats.hitRate.toFixed(1)}%`, tone: 'text-sky-400' },
+    { label: t('stats.bets'), value: t('stats.record', { wins: stats.wins, losses: stats.losses, voids: stats.voids }), tone: 'text-white' },
+    { label: t('stats.volume'), value: formatCurrency(stats.staked, bankroll.currency), tone: 'text-white' }
+  ];
+
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-6xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-8">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <BarChart3 size={26} className="text-sky-500" /> {t('app.stats')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onExportCsv(filter)}
+              title={t('stats.exportCsvTitle')}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-black text-xs uppercase tracking-widest transition-all"
+            >
+              <FileSpreadsheet size={16} /> {t('app.csv')}
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+              <X size={22} />
+            </button>
+          </div>
+        </div>
+
+        {/* Filtros */}
+        <div className="flex flex-wrap items-center gap-2">
+          {savedFilters.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const saved = savedFilters.find(f => f.id === e.target.value);
+                if (saved) setFilter(saved.filter);
+              }}
+              className={inputClass}
+            >
+              <option value="">{t('stats.savedFilters')}</option>
+              {savedFilters.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          )}
+          {(filter.query?.trim() || filter.statuses?.length) && (
+            <button
+              onClick={() => updateFilter({ query: undefined, statuses: undefined })}
+              title={t('stats.clearSearch')}
+              className="flex items-center gap-1.5 text-[10px] font-black bg-sky-900/40 text-sky-300 px-3 py-1.5 rounded-lg hover:text-red-400"
+            >
+              {describeFilter({ query: filter.query, statuses: filter.statuses }, statusLabels())} ×
+            </button>
+          )}
+          <button
+            onClick={handleSaveFilter}
+            disabled={isFilterEmpty(filter)}
+            className="ml-auto flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-400 disabled:opacity-30"
+          >
+            <Bookmark size={14} /> {t('stats.saveFilter')}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('stats.from')}</label>
+            <input type="date" value={filter.from || ''} onChange={(e) => updateFilter({ from: e.target.value || undefined })} className={`w-full ${inputClass}`} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('stats.to')}</label>
+            <input type="date" value={filter.to || ''} onChange={(e) => updateFilter({ to: e.target.value || undefined })} className={`w-full ${inputClass}`} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.league')}</label>
+            <select value={filter.league || ''} onChange={(e) => updateFilter({ league: e.target.value || undefined })} className={`w-full ${inputClass}`}>
+              <option value="">{t('stats.allLeagues')}</option>
+              {leagues.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('game.market')}</label>
+            <select value={filter.market || ''} onChange={(e) => updateFilter({ market: e.target.value || undefined })} className={`w-full ${inputClass}`}>
+              <option value="">{t('stats.allMarkets')}</option>
+              {markets.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {/* Indicadores */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          {kpis.map(kpi => (
+            <div key={kpi.label} className="bg-slate-900 border border-slate-800 rounded-3xl p-4">
+              <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{kpi.label}</span>
+              <p className={`font-black text-lg mt-1 ${kpi.tone}`}>{kpi.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 bg-slate-900 border border-slate-800 rounded-3xl p-5">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('stats.curve')}</span>
+            <ProfitCurve points={curve} currency={bankroll.currency} />
+          </div>
+          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-5 flex flex-col gap-4 justify-center">
+            <div className="flex items-center gap-3 text-emerald-400">
+              <TrendingUp size={22} />
+              <div>
+                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest block">{t('stats.longestWinStreak')}</span>
+                <span className="font-black text-2xl">{stats.longestWinStreak}</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 text-red-400">
+              <TrendingDown size={22} />
+              <div>
+                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest block">{t('stats.longestLossStreak')}</span>
+                <span className="font-black text-2xl">{stats.longestLossStreak}</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 text-sky-400">
+              <Flame size={22} />
+              <div>
+                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest block">{t('stats.settledBets')}</span>
+                <span className="font-black text-2xl">{stats.bets}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Detalhamento */}
+        <div className="bg-slate-900 border border-slate-800 rounded-3xl p-5">
+          <div className="flex flex-wrap gap-2 mb-5">
+            {BREAKDOWN_TABS.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setTab(item.id)}
+                className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${tab === item.id ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {t(item.labelKey)}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'clv' ? (
+            clvRows.length === 0 ? (
+              <p className="text-xs font-bold text-slate-500 text-center py-8">{t('stats.clvEmpty')}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-[9px] font-black text-slate-500 uppercase tracking-widest text-right">
+                      <th className="text-left py-2">{t('game.league')}</th>
+                      <th className="py-2">{t('stats.withClosing')}</th>
+                      <th className="py-2">{t('stats.averageClv')}</th>
+                      <th className="py-2">{t('stats.beatClosing')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {clvRows.map(row => (
+                      <tr key={row.key} className="text-right font-bold text-slate-300">
+                        <td className="text-left py-3 text-white">{row.label}</td>
+                        <td>{row.count}</td>
+                        <td className={row.averageClv >= 0 ? 'text-emerald-400' : 'text-red-400'}>{signed(row.averageClv, '%')}</td>
+                        <td>{row.beatRate.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          ) : rows.length === 0 ? (
+            <p className="text-xs font-bold text-slate-500 text-center py-8">{t('stats.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-[9px] font-black text-slate-500 uppercase tracking-widest text-right">
+                    <th className="text-left py-2">{t(BREAKDOWN_TABS.find(item => item.id === tab)!.columnKey)}</th>
+                    <th className="py-2">{t('stats.bets')}</th>
+                    <th className="py-2">{t('stats.hitRate')}</th>
+                    <th className="py-2">{t('stats.volume')}</th>
+                    <th className="py-2">{t('stats.profit')}</th>
+                    <th className="py-2">{t('stats.yield')}</th>
+                    <th className="py-2">{t('stats.streaks')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {rows.map(row => (
+                    <tr key={row.key} className="text-right font-bold text-slate-300">
+                      <td className="text-left py-3 capitalize text-white">{row.label}</td>
+                      <td>{row.bets}</td>
+                      <td>{row.hitRate.toFixed(1)}%</td>
+                      <td>{formatCurrency(row.staked, bankroll.currency)}</td>
+                      <td className={row.profit >= 0 ? 'text-emerald-400' : 'text-red-400'}>{formatCurrency(row.profit, bankroll.currency)}</td>
+                      <td className={row.yield >= 0 ? 'text-emerald-400' : 'text-red-400'}>{signed(row.yield, '%')}</td>
+                      <td>{row.longestWinStreak}/{row.longestLossStreak}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { RefreshCw, X, AlertTriangle } from 'lucide-react';
+import { BetSlip, GameEntry, SyncConflict } from '../types';
+import { formatCurrency } from '../services/bankroll';
+import { dateLocale, t } from '../services/i18n';
+import { SyncStatus } from '../hooks/useSync';
+import { statusLabels } from './GameChip';
+
+interface SyncDialogProps {
+  status: SyncStatus;
+  error: string | null;
+  lastSyncedAt: Date | null;
+  conflicts: SyncConflict[];
+  currency: string;
+  onSyncNow: () => void;
+  onResolve: (conflict: SyncConflict, choice: 'local' | 'remote') => void;
+  onClose: () => void;
+}
+
+const describeEntry = (conflict: SyncConflict, entry: GameEntry | BetSlip | null, currency: string) => {
+  if (!entry) return t('sync.deleted');
+  if (conflict.kind === 'slip') {
+    const slip = entry as BetSlip;
+    return t('sync.slipSummary', { name: slip.name, count: slip.legIds.length, stake: formatCurrency(slip.stake, currency) });
+  }
+  const game = entry as GameEntry;
+  return [
+    game.time,
+    game.match || t('sync.noMatch'),
+    [game.market, game.selection].filter(Boolean).join(' '),
+    game.odds ? `@${game.odds.toFixed(2)}` : '',
+    formatCurrency(game.stake, currency),
+    game.status !== 'pending' ? statusLabels()[game.status] : ''
+  ].filter(Boolean).join(' · ');
+};
+
+const SyncDialog: React.FC<SyncDialogProps> = ({ status, error, lastSyncedAt, conflicts, currency, onSyncNow, onResolve, onClose }) => (
+  <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+    <div className="bg-[#0f172a] w-full max-w-2xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-black text-2xl text-white flex items-center gap-3">
+          <RefreshCw size={26} className="text-sky-500" /> {t('settings.sync')}
+        </h2>
+        <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+          <X size={22} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 bg-slate-900 border border-slate-800 rounded-3xl p-4">
+        <div className="text-xs font-bold">
+          {status === 'error' ? (
+            <span className="text-red-400">{error}</span>
+          ) : status === 'syncing' ? (
+            <span className="text-sky-400">{t('sync.syncing')}</span>
+          ) : (
+            <span className="text-slate-400">
+              {lastSyncedAt ? t('sync.lastSynced', { time: format(lastSyncedAt, 'HH:mm:ss') }) : t('sync.notYet')}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onSyncNow}
+          disabled={status === 'syncing'}
+          className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-sky-600 hover:bg-sky-500 text-white text-xs font-black disabled:opacity-40 transition-all"
+        >
+          <RefreshCw size={14} className={status === 'syncing' ? 'animate-spin' : ''} /> {t('sync.now')}
+        </button>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <p className="text-xs font-bold text-slate-500 text-center py-4">{t('sync.noConflicts')}</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-[11px] text-amber-400 font-bold flex items-center gap-2">
+            <AlertTriangle size={14} /> {t('sync.conflictsHint')}
+          </p>
+          {conflicts.map(conflict => (
+            <div key={`${conflict.date}|${conflict.kind}|${conflict.id}`} className="bg-slate-900 border border-slate-800 rounded-3xl p-4 space-y-3">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                {format(parseISO(conflict.date), t('date.dayMonth'), { locale: dateLocale() })} · {t(conflict.kind === 'game' ? 'sync.kind.game' : 'sync.kind.slip')}
+              </span>
+              <div className="grid md:grid-cols-2 gap-3">
+                {(['local', 'remote'] as const).map(choice => (
+                  <div key={choice} className="flex flex-col gap-2 bg-slate-950/50 rounded-2xl p-3">
+                    <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{t(choice === 'local' ? 'sync.thisDevice' : 'sync.server')}</span>
+                    <span className="text-xs font-bold text-slate-200 flex-1">{describeEntry(conflict, conflict[choice], currency)}</span>
+                    <button
+                      onClick={() => onResolve(conflict, choice)}
+                      className="self-start px-3 py-1.5 rounded-xl bg-slate-800 hover:bg-sky-600 text-white text-[11px] font-black transition-all"
+                    >
+                      {t(choice === 'local' ? 'sync.keepMine' : 'sync.useServer')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default SyncDialog;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { t } from '../services/i18n';
+import { normalizeTags } from '../services/planner';
+
+interface TagInputProps {
+  gameId: string; // identifica a lista de sugestões de cada card
+  tags: string[];
+  suggestions: string[]; // tags já usadas no histórico
+  onChange: (tags: string[]) => void;
+}
+
+// Enter ou vírgula confirmam a tag digitada; Backspace com o campo vazio remove a última
+const TagInput: React.FC<TagInputProps> = ({ gameId, tags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const listId = `tag-options-${gameId}`;
+
+  const commitDraft = () => {
+    if (draft.trim()) onChange(normalizeTags([...tags, draft]));
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-1.5 bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 focus-within:border-sky-500">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-[10px] font-black bg-sky-900/40 text-sky-300 px-2 py-1 rounded-lg">
+          #{tag}
+          <button onClick={() => onChange(tags.filter(other => other !== tag))} title={t('game.removeTag')} className="hover:text-red-400">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        list={listId}
+        value={draft}
+        placeholder={tags.length === 0 ? t('game.tagsPlaceholder') : ''}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commitDraft}
+        className="flex-1 min-w-[6rem] bg-transparent text-sm text-white focus:outline-none font-bold"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(s => !tags.includes(s)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
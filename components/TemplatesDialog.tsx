@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { LayoutTemplate, X, Trash2, Plus, Repeat, Play } from 'lucide-react';
+import { DayPlan, RecurringRule, TemplateLibrary } from '../types';
+import { formatDate, formatDayMonth, t } from '../services/i18n';
+import { WEEKDAY_LABEL_KEYS, templateFromDay } from '../services/templates';
+import { isBlankGame } from '../services/planner';
+
+interface TemplatesDialogProps {
+  library: TemplateLibrary;
+  selectedPlan: DayPlan | null;
+  onChange: (library: TemplateLibrary) => void;
+  onApplyTemplate: (templateId: string) => void;
+  onClose: () => void;
+}
+
+const emptyRule = (templateId: string): RecurringRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  templateId,
+  weekdays: [],
+  dates: [],
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  enabled: true
+});
+
+const TemplatesDialog: React.FC<TemplatesDialogProps> = ({ library, selectedPlan, onChange, onApplyTemplate, onClose }) => {
+  const [templateName, setTemplateName] = useState('');
+  const [draftRule, setDraftRule] = useState<RecurringRule | null>(null);
+  const [extraDate, setExtraDate] = useState('');
+
+  const filledGames = selectedPlan?.games.filter(g => !isBlankGame(g)).length || 0;
+
+  const handleSaveTemplate = () => {
+    if (!selectedPlan || !templateName.trim()) return;
+    onChange({ ...library, templates: [...library.templates, templateFromDay(templateName.trim(), selectedPlan)] });
+    setTemplateName('');
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const usedBy = library.rules.filter(r => r.templateId === id);
+    if (usedBy.length > 0 && !window.confirm(t('templates.deleteConfirm', { count: usedBy.length }))) return;
+    onChange({
+      templates: library.templates.filter(template => template.id !== id),
+      rules: library.rules.filter(r => r.templateId !== id)
+    });
+  };
+
+  const updateRule = (id: string, patch: Partial<RecurringRule>) =>
+    onChange({ ...library, rules: library.rules.map(r => (r.id === id ? { ...r, ...patch } : r)) });
+
+  const toggleDraftWeekday = (day: number) => {
+    if (!draftRule) return;
+    const weekdays = draftRule.weekdays.includes(day)
+      ? draftRule.weekdays.filter(d => d !== day)
+      : [...draftRule.weekdays, day].sort();
+    setDraftRule({ ...draftRule, weekdays });
+  };
+
+  const addDraftDate = () => {
+    if (!draftRule || !extraDate || draftRule.dates.includes(extraDate)) return;
+    setDraftRule({ ...draftRule, dates: [...draftRule.dates, extraDate].sort() });
+    setExtraDate('');
+  };
+
+  const handleSaveRule = () => {
+    if (!draftRule || (!draftRule.weekdays.length && !draftRule.dates.length)) return;
+    const template = library.templates.find(template => template.id === draftRule.templateId);
+    const rule = { ...draftRule, name: draftRule.name.trim() || template?.name || t('templates.ruleFallback') };
+    onChange({ ...library, rules: [...library.rules, rule] });
+    setDraftRule(null);
+  };
+
+  const describeRule = (rule: RecurringRule) => {
+    const parts: string[] = [];
+    if (rule.weekdays.length) parts.push(t('templates.everyWeekday', { days: rule.weekdays.map(d => t(WEEKDAY_LABEL_KEYS[d])).join(', ') }));
+    if (rule.dates.length) parts.push(t('templates.extraDates', { count: rule.dates.length }));
+    return parts.join(' + ');
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-800 rounded-2xl px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 font-bold";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-start justify-center p-4 md:p-8 overflow-y-auto">
+      <div className="bg-[#0f172a] w-full max-w-2xl rounded-[2.5rem] border border-slate-800 shadow-2xl p-6 md:p-10 flex flex-col gap-8">
+        <div className="flex items-center justify-between">
+          <h2 className="font-black text-2xl text-white flex items-center gap-3">
+            <LayoutTemplate size={26} className="text-sky-500" /> {t('day.templates')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-xl text-slate-400 transition-all">
+            <X size={22} />
+          </button>
+        </div>
+
+        {/* Modelos */}
+        <section className="space-y-3">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('templates.dayTemplates')}</span>
+          {library.templates.length === 0 && (
+            <p className="text-xs font-bold text-slate-500">{t('templates.empty')}</p>
+          )}
+          <ul className="space-y-2">
+            {library.templates.map(template => (
+              <li key={template.id} className="flex items-center justify-between gap-3 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3">
+                <div className="min-w-0">
+                  <span className="text-white font-black text-sm block truncate">{template.name}</span>
+                  <span className="text-[10px] font-bold text-slate-500 truncate block">
+                    {template.games.map(g => [g.time, g.league].filter(Boolean).join(' ')).join(' · ') || t('templates.noGames')}
+                  </span>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => onApplyTemplate(template.id)}
+                    disabled={!selectedPlan}
+                    title={selectedPlan ? t('templates.applyTo', { date: formatDayMonth(selectedPlan.date) }) : t('templates.selectDay')}
+                    className="p-2 text-sky-400 hover:bg-white/5 rounded-xl disabled:opacity-30"
+                  >
+                    <Play size={16} />
+                  </button>
+                  <button onClick={() => handleDeleteTemplate(template.id)} title={t('common.delete')} className="p-2 text-slate-600 hover:text-red-400 hover:bg-white/5 rounded-xl">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {selectedPlan && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder={t('templates.namePlaceholder', { count: filledGames, date: formatDayMonth(selectedPlan.date) })}
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                className={`flex-1 ${inputClass}`}
+              />
+              <button
+                onClick={handleSaveTemplate}
+                disabled={!templateName.trim() || filledGames === 0}
+                className="px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30"
+              >
+                {t('templates.saveDay')}
+              </button>
+            </div>
+          )}
+        </section>
+
+        {/* Regras recorrentes */}
+        <section className="space-y-3">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('history.recurring')}</span>
+          <ul className="space-y-2">
+            {library.rules.map(rule => (
+              <li key={rule.id} className="flex items-center justify-between gap-3 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3">
+                <div className="min-w-0">
+                  <span className={`font-black text-sm block truncate ${rule.enabled ? 'text-white' : 'text-slate-500 line-through'}`}>
+                    <Repeat size={12} className="inline mr-1.5" />{rule.name}
+                  </span>
+                  <span className="text-[10px] font-bold text-slate-500">
+                    {t('templates.since', { rule: describeRule(rule), date: formatDate(rule.startDate) })}
+                    {rule.endDate && t('templates.until', { date: formatDate(rule.endDate) })}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    title={t('templates.active')}
+                    className="accent-sky-500"
+                  />
+                  <button
+                    onClick={() => onChange({ ...library, rules: library.rules.filter(r => r.id !== rule.id) })}
+                    title={t('common.delete')}
+                    className="p-2 text-slate-600 hover:text-red-400 hover:bg-white/5 rounded-xl"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {draftRule ? (
+            <div className="bg-slate-900 border border-slate-800 rounded-3xl p-5 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  placeholder={t('templates.ruleNamePlaceholder')}
+                  value={draftRule.name}
+                  onChange={(e) => setDraftRule({ ...draftRule, name: e.target.value })}
+                  className={inputClass}
+                />
+                <select
+                  value={draftRule.templateId}
+                  onChange={(e) => setDraftRule({ ...draftRule, templateId: e.target.value })}
+                  className={inputClass}
+                >
+                  {library.templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {WEEKDAY_LABEL_KEYS.map((labelKey, day) => (
+                  <button
+                    key={labelKey}
+                    onClick={() => toggleDraftWeekday(day)}
+                    className={`px-3 py-1.5 rounded-xl text-xs font-black transition-all ${draftRule.weekdays.includes(day) ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                  >
+                    {t(labelKey)}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('templates.extraDatesLabel')}</label>
+                <div className="flex gap-2">
+                  <input type="date" value={extraDate} onChange={(e) => setExtraDate(e.target.value)} className={`flex-1 ${inputClass}`} />
+                  <button onClick={addDraftDate} className="p-2 bg-slate-800 text-slate-300 hover:text-white rounded-xl"><Plus size={18} /></button>
+                </div>
+                {draftRule.dates.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {draftRule.dates.map(d => (
+                      <button
+                        key={d}
+                        onClick={() => setDraftRule({ ...draftRule, dates: draftRule.dates.filter(x => x !== d) })}
+                        className="text-[10px] font-black bg-slate-800 text-slate-300 px-2 py-1 rounded-lg hover:text-red-400"
+                      >
+                        {formatDate(d)} ×
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('templates.start')}</label>
+                  <input type="date" value={draftRule.startDate} onChange={(e) => setDraftRule({ ...draftRule, startDate: e.target.value })} className={`w-full ${inputClass}`} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-500 uppercase ml-1">{t('templates.end')}</label>
+                  <input type="date" value={draftRule.endDate || ''} onChange={(e) => setDraftRule({ ...draftRule, endDate: e.target.value || undefined })} className={`w-full ${inputClass}`} />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraftRule(null)} className="px-4 py-2 text-slate-400 hover:text-white font-black text-xs uppercase tracking-widest">{t('common.cancel')}</button>
+                <button
+                  onClick={handleSaveRule}
+                  disabled={!draftRule.weekdays.length && !draftRule.dates.length}
+                  className="px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded-2xl font-black text-xs uppercase tracking-widest transition-all disabled:opacity-30"
+                >
+                  {t('templates.saveRule')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setDraftRule(emptyRule(library.templates[0]?.id))}
+              disabled={library.templates.length === 0}
+              className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-sky-400 hover:text-sky-300 disabled:opacity-30"
+            >
+              <Plus size={14} /> {t('templates.newRule')} {library.templates.length === 0 && t('templates.saveTemplateFirst')}
+            </button>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatesDialog;
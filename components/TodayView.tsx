@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { AppData, TimeSettings } from '../types';
+import { AgendaEntry, collectAgenda } from '../services/calendarViews';
+import { t } from '../services/i18n';
+import GameChip from './GameChip';
+
+interface TodayViewProps {
+  appData: AppData;
+  timeSettings: TimeSettings;
+  onSelectDate: (date: string) => void;
+}
+
+// Jogo iniciado há menos que isso ainda é tratado como "em andamento"
+const LIVE_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+const countdown = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return t('today.inMinutes', { minutes });
+  return t('today.inHours', { hours: Math.floor(minutes / 60), minutes: String(minutes % 60).padStart(2, '0') });
+};
+
+/** Hoje (e a madrugada seguinte) com foco nos próximos inícios. */
+const TodayView: React.FC<TodayViewProps> = ({ appData, timeSettings, onSelectDate }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const today = format(now, 'yyyy-MM-dd');
+  const tomorrow = format(addDays(now, 1), 'yyyy-MM-dd');
+
+  const sections = useMemo(() => {
+    const entries = collectAgenda(appData, today, tomorrow, timeSettings);
+    const live: AgendaEntry[] = [];
+    const upcoming: AgendaEntry[] = [];
+    const done: AgendaEntry[] = [];
+    const unscheduled: AgendaEntry[] = [];
+
+    entries.forEach(entry => {
+      const at = entry.kickoff?.getTime();
+      if (at === undefined) {
+        if (entry.date === today) unscheduled.push(entry);
+      } else if (at > now) {
+        // Amanhã só entra até as 06:00, para cobrir jogos de madrugada
+        if (entry.date === today || entry.time < '06:00') upcoming.push(entry);
+      } else if (entry.game.status === 'pending' && now - at < LIVE_WINDOW_MS) {
+        live.push(entry);
+      } else if (entry.date === today) {
+        done.push(entry);
+      }
+    });
+
+    return [
+      { titleKey: 'today.live' as const, entries: live, countdown: false },
+      { titleKey: 'today.upcoming' as const, entries: upcoming, countdown: true },
+      { titleKey: 'today.unscheduled' as const, entries: unscheduled, countdown: false },
+      { titleKey: 'today.done' as const, entries: done, countdown: false }
+    ].filter(s => s.entries.length > 0);
+  }, [appData, timeSettings, today, tomorrow, now]);
+
+  return (
+    <div className="flex-1 min-h-[650px] p-6 flex flex-col gap-6">
+      {sections.length === 0 && <p className="text-sm font-bold text-slate-500">{t('today.empty')}</p>}
+      {sections.map(section => (
+        <div key={section.titleKey} className="space-y-2">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t(section.titleKey)}</span>
+          {section.entries.map(entry => (
+            <button key={entry.game.id} onClick={() => onSelectDate(entry.date)} className="w-full text-left flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <GameChip game={entry.game} time={entry.time} detailed />
+              </div>
+              {section.countdown && entry.kickoff && (
+                <span className="text-[10px] font-black text-sky-400 shrink-0 w-16 text-right">{countdown(entry.kickoff.getTime() - now)}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TodayView;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { format, isToday } from 'date-fns';
+import { AppData, TimeSettings } from '../types';
+import { collectAgenda, weekDays } from '../services/calendarViews';
+import { dateLocale } from '../services/i18n';
+import GameChip from './GameChip';
+
+interface WeekViewProps {
+  appData: AppData;
+  date: string;
+  timeSettings: TimeSettings;
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+}
+
+/** Semana inteira, sem limite de jogos por dia. */
+const WeekView: React.FC<WeekViewProps> = ({ appData, date, timeSettings, selectedDate, onSelectDate }) => (
+  <div className="grid grid-cols-1 md:grid-cols-7 flex-1 min-h-[650px] divide-y md:divide-y-0 md:divide-x divide-slate-800/50">
+    {weekDays(date).map(day => {
+      const dayStr = format(day, 'yyyy-MM-dd');
+      const entries = collectAgenda(appData, dayStr, dayStr, timeSettings);
+      const isSelected = selectedDate === dayStr;
+
+      return (
+        <button
+          key={dayStr}
+          onClick={() => onSelectDate(dayStr)}
+          className={`p-4 text-left flex flex-col gap-3 transition-all ${isSelected ? 'bg-sky-500/10 ring-2 ring-inset ring-sky-500/40' : 'hover:bg-white/5'}`}
+        >
+          <div className="flex items-baseline gap-2">
+            <span className={`text-sm font-black ${isToday(day) ? 'text-white bg-sky-600 px-2.5 py-0.5 rounded-lg' : 'text-slate-400'}`}>
+              {format(day, 'd')}
+            </span>
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+              {format(day, 'EEE', { locale: dateLocale() })}
+            </span>
+          </div>
+          <div className="space-y-1.5 w-full">
+            {entries.map(entry => (
+              <GameChip key={entry.game.id} game={entry.game} time={entry.time} detailed />
+            ))}
+          </div>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default WeekView;
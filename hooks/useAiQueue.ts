@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueuedAIRequest } from '../types';
+import { AI_QUEUE_KEY, QueuedAIRequestInput, enqueueAiRequest, isOfflineFailure, loadAiQueue } from '../services/aiQueue';
+import { profileKey } from '../services/profiles';
+
+/**
+ * Fila de pedidos de IA feitos sem conexão. Ao voltar a internet, executa os
+ * pedidos em ordem com `run`; um pedido que falha por outro motivo é descartado.
+ */
+export const useAiQueue = (profileId: string, isLoaded: boolean, run: (request: QueuedAIRequest) => Promise<void>) => {
+  const key = profileKey(AI_QUEUE_KEY, profileId);
+  const [queue, setQueue] = useState<QueuedAIRequest[]>(() => loadAiQueue(key));
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const latestRun = useRef(run);
+  latestRun.current = run;
+  const running = useRef(false);
+  // Incrementado ao fim de cada rodada para reler a fila: pedidos enfileirados
+  // durante a execução não mudam as dependências quando o tamanho se repete
+  const [drains, setDrains] = useState(0);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(queue));
+    } catch (e) {
+      console.error("Erro ao salvar fila de IA no LocalStorage", e);
+    }
+  }, [queue]);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !online || queue.length === 0 || running.current) return;
+    running.current = true;
+    let offline = false;
+    (async () => {
+      for (const request of queue) {
+        try {
+          await latestRun.current(request);
+        } catch (e) {
+          if (isOfflineFailure(e)) {
+            offline = true;
+            break;
+          }
+          console.warn("Pedido de IA da fila descartado", e);
+        }
+        setQueue(prev => prev.filter(q => q.id !== request.id));
+      }
+    })().finally(() => {
+      running.current = false;
+      if (!offline) setDrains(n => n + 1);
+    });
+  }, [isLoaded, online, queue.length, drains]);
+
+  const enqueue = useCallback((input: QueuedAIRequestInput) => setQueue(prev => enqueueAiRequest(prev, input)), []);
+
+  return { queue, online, enqueue };
+};
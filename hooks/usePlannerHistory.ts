@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppData } from '../types';
+
+const MAX_HISTORY = 100;
+// Edições seguidas do mesmo campo (digitação) viram um único passo de desfazer
+const COALESCE_WINDOW_MS = 1500;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  at: number;
+  data: AppData; // estado ANTES da ação
+  coalesceKey?: string;
+}
+
+interface HistoryState {
+  present: AppData;
+  past: HistoryEntry[];   // mais recente no fim
+  future: HistoryEntry[]; // mais recente no início; `data` = estado DEPOIS da ação
+}
+
+let nextEntryId = 1;
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Estado do planner com histórico de desfazer/refazer. Toda edição passa por
+ * `commit`, que registra um rótulo legível para a lista de ações recentes.
+ */
+export const usePlannerHistory = (initial: AppData = {}) => {
+  const [state, setState] = useState<HistoryState>({ present: initial, past: [], future: [] });
+
+  const commit = useCallback((label: string, updater: (prev: AppData) => AppData, coalesceKey?: string) => {
+    setState(h => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+
+      const last = h.past[h.past.length - 1];
+      if (coalesceKey && last?.coalesceKey === coalesceKey && Date.now() - last.at < COALESCE_WINDOW_MS) {
+        return { present: next, past: [...h.past.slice(0, -1), { ...last, at: Date.now() }], future: [] };
+      }
+
+      const entry: HistoryEntry = { id: nextEntryId++, label, at: Date.now(), data: h.present, coalesceKey };
+      return { present: next, past: [...h.past, entry].slice(-MAX_HISTORY), future: [] };
+    });
+  }, []);
+
+  /** Substitui o estado sem registrar histórico (carga inicial). */
+  const reset = useCallback((data: AppData) => {
+    setState({ present: data, past: [], future: [] });
+  }, []);
+
+  /**
+   * Aplica uma mudança vinda de fora (sincronização) sem registrar passo. O
+   * histórico é descartado quando os dados mudam: desfazer voltaria a dias que
+   * o servidor já substituiu, e a próxima rodada os enviaria como edição local.
+   */
+  const absorb = useCallback((updater: (prev: AppData) => AppData) => {
+    setState(h => {
+      const next = updater(h.present);
+      return next === h.present ? h : { present: next, past: [], future: [] };
+    });
+  }, []);
+
+  /** Desfaz `steps` ações de uma vez. */
+  const undo = useCallback((steps = 1) => {
+    setState(h => {
+      let { present, past, future } = h;
+      for (let i = 0; i < steps && past.length > 0; i++) {
+        const entry = past[past.length - 1];
+        past = past.slice(0, -1);
+        future = [{ ...entry, data: present, coalesceKey: undefined }, ...future];
+        present = entry.data;
+      }
+      return { present, past, future };
+    });
+  }, []);
+
+  const redo = useCallback((steps = 1) => {
+    setState(h => {
+      let { present, past, future } = h;
+      for (let i = 0; i < steps && future.length > 0; i++) {
+        const entry = future[0];
+        future = future.slice(1);
+        past = [...past, { ...entry, data: present }];
+        present = entry.data;
+      }
+      return { present, past, future };
+    });
+  }, []);
+
+  // Ctrl/Cmd+Z desfaz; Ctrl/Cmd+Shift+Z ou Ctrl+Y refaz. Dentro de campos de texto
+  // o atalho fica com o desfazer nativo do navegador.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return {
+    data: state.present,
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    commit,
+    absorb,
+    reset,
+    undo,
+    redo
+  };
+};
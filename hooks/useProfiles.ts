@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { ProfileState } from '../types';
+import { PROFILES_KEY, clearProfileKeys, createProfile, loadProfiles } from '../services/profiles';
+import { deleteProfileDatabase, selectProfileStorage } from '../services/idbStore';
+
+/**
+ * Lista de perfis e perfil ativo. Trocar de perfil só muda para onde o
+ * armazenamento aponta; quem usa o hook remonta o planner com a nova chave.
+ */
+export const useProfiles = () => {
+  const [state, setState] = useState<ProfileState>(() => {
+    const loaded = loadProfiles();
+    selectProfileStorage(loaded.activeId);
+    return loaded;
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(state));
+    } catch (e) {
+      console.error("Erro ao salvar perfis no LocalStorage", e);
+    }
+  }, [state]);
+
+  const switchTo = (id: string) => {
+    selectProfileStorage(id);
+    setState(prev => ({ ...prev, activeId: id }));
+  };
+
+  const add = (name: string) => {
+    const profile = createProfile(name);
+    setState(prev => ({ ...prev, profiles: [...prev.profiles, profile] }));
+    return profile;
+  };
+
+  const rename = (id: string, name: string) =>
+    setState(prev => ({ ...prev, profiles: prev.profiles.map(p => (p.id === id ? { ...p, name: name.trim() } : p)) }));
+
+  // O perfil ativo não pode ser excluído; troque antes
+  const remove = async (id: string) => {
+    if (id === state.activeId) return;
+    await deleteProfileDatabase(id);
+    clearProfileKeys(id);
+    setState(prev => ({ ...prev, profiles: prev.profiles.filter(p => p.id !== id) }));
+  };
+
+  return {
+    profiles: state.profiles,
+    active: state.profiles.find(p => p.id === state.activeId)!,
+    switchTo,
+    add,
+    rename,
+    remove
+  };
+};
+
+export type ProfilesApi = ReturnType<typeof useProfiles>;
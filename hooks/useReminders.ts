@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AppData, AppSettings } from '../types';
+import {
+  dueKickoffReminders,
+  isNagDue,
+  kickoffNotification,
+  loadReminderLog,
+  nagNotification,
+  notificationsSupported,
+  saveReminderLog,
+  showNotification,
+  todayInZone,
+  unsettledPicks,
+  updateAppBadge
+} from '../services/reminders';
+
+// Notificações locais só disparam com o app aberto (aba ou PWA em segundo plano)
+const CHECK_INTERVAL_MS = 30000;
+
+/**
+ * Agenda os lembretes de início de jogo e o aviso diário de palpites sem
+ * resultado, e devolve os pendentes de dias anteriores para o contador do topo.
+ */
+export const useReminders = (appData: AppData, settings: AppSettings, isLoaded: boolean, onOpenDate: (date: string) => void) => {
+  const [today, setToday] = useState(() => todayInZone(new Date(), settings.time));
+  const latest = useRef({ appData, settings, onOpenDate });
+  latest.current = { appData, settings, onOpenDate };
+
+  const unsettled = useMemo(() => unsettledPicks(appData, today), [appData, today]);
+
+  useEffect(() => {
+    if (isLoaded) updateAppBadge(unsettled.length);
+  }, [unsettled.length, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const check = () => {
+      const { appData: data, settings: current } = latest.current;
+      const now = new Date();
+      setToday(todayInZone(now, current.time));
+      if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+      const log = loadReminderLog();
+      const open = (date: string) => latest.current.onOpenDate(date);
+      let changed = false;
+
+      if (current.reminders.kickoff) {
+        dueKickoffReminders(data, current.time, current.reminders.minutesBefore, now, log.kickoffs).forEach(reminder => {
+          showNotification(kickoffNotification(reminder, current.time, now), open).catch(e => console.warn("Falha ao notificar", e));
+          log.kickoffs.push(reminder.key);
+          changed = true;
+        });
+      }
+
+      if (isNagDue(now, current.reminders, current.time, log.lastNag)) {
+        const pending = unsettledPicks(data, todayInZone(now, current.time));
+        if (pending.length > 0) {
+          showNotification(nagNotification(pending), open).catch(e => console.warn("Falha ao notificar", e));
+        }
+        log.lastNag = todayInZone(now, current.time);
+        changed = true;
+      }
+
+      if (changed) saveReminderLog(log);
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoaded]);
+
+  // Cliques em notificações exibidas pelo service worker
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open-date' && event.data.date) latest.current.onOpenDate(event.data.date);
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
+  return unsettled;
+};
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppData, AppSettings, SyncConflict } from '../types';
+import { createHttpSyncTransport } from '../services/httpSyncTransport';
+import { t } from '../services/i18n';
+import { loadSyncState, saveSyncState } from '../services/idbStore';
+import { emptySyncState, rebaseSyncResult, resolveConflict, syncOnce, syncTarget } from '../services/sync';
+import { SyncError } from '../services/syncTransport';
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'error';
+
+type Commit = (label: string, updater: (prev: AppData) => AppData) => void;
+type Absorb = (updater: (prev: AppData) => AppData) => void;
+
+/**
+ * Sincroniza o planner com o servidor configurado: ao abrir, no intervalo
+ * escolhido, ao voltar a conexão e ao retornar para a aba. Conflitos ficam
+ * listados até o usuário escolher a versão de cada entrada.
+ */
+export const useSync = (appData: AppData, settings: AppSettings, isLoaded: boolean, commit: Commit, absorb: Absorb) => {
+  const [status, setStatus] = useState<SyncStatus>(settings.sync.enabled ? 'idle' : 'off');
+  const [error, setError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const latest = useRef({ appData, settings });
+  latest.current = { appData, settings };
+  const running = useRef(false);
+
+  const syncNow = useCallback(async () => {
+    const { appData: snapshot, settings: current } = latest.current;
+    if (!current.sync.enabled || running.current) return;
+    running.current = true;
+    setStatus('syncing');
+    try {
+      const transport = createHttpSyncTransport(current.sync);
+      const target = syncTarget(current.sync);
+      const saved = await loadSyncState();
+      const state = saved?.target === target ? saved : emptySyncState(target);
+      const result = await syncOnce(snapshot, state, transport);
+      await saveSyncState(result.state);
+      if (result.rejected.length > 0) {
+        console.warn("Entradas do servidor descartadas na sincronização", result.rejected);
+      }
+      // Fora do desfazer: `base` já aponta para a versão do servidor
+      absorb(prev => rebaseSyncResult(prev, snapshot, result.data));
+      if (result.conflicts.length > 0) {
+        setConflicts(prev => [
+          ...prev.filter(c => !result.conflicts.some(n => n.date === c.date && n.kind === c.kind && n.id === c.id)),
+          ...result.conflicts
+        ]);
+      }
+      setLastSyncedAt(new Date());
+      setError(null);
+      setStatus('idle');
+    } catch (e) {
+      console.warn("Falha ao sincronizar", e);
+      setError(e instanceof SyncError ? e.message : t('sync.unexpected'));
+      setStatus('error');
+    } finally {
+      running.current = false;
+    }
+  }, [absorb]);
+
+  useEffect(() => {
+    if (!isLoaded || !settings.sync.enabled) {
+      setStatus('off');
+      return;
+    }
+    setStatus('idle');
+    syncNow();
+
+    const onVisible = () => document.visibilityState === 'visible' && syncNow();
+    window.addEventListener('online', syncNow);
+    document.addEventListener('visibilitychange', onVisible);
+    const timer = settings.sync.intervalMinutes > 0 ? setInterval(syncNow, settings.sync.intervalMinutes * 60000) : undefined;
+    return () => {
+      window.removeEventListener('online', syncNow);
+      document.removeEventListener('visibilitychange', onVisible);
+      clearInterval(timer);
+    };
+  }, [isLoaded, settings.sync.enabled, settings.sync.serverUrl, settings.sync.space, settings.sync.token, settings.sync.intervalMinutes, syncNow]);
+
+  /** Fica com a versão escolhida; a escolha sobe para o servidor na próxima rodada. */
+  const resolve = useCallback((conflict: SyncConflict, choice: 'local' | 'remote') => {
+    commit(t('history.resolveConflict'), prev => resolveConflict(prev, conflict, choice));
+    setConflicts(prev => prev.filter(c => c !== conflict));
+  }, [commit]);
+
+  return { status, error, lastSyncedAt, conflicts, syncNow, resolve };
+};
@@ -1,7 +1,14 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { useProfiles } from './hooks/useProfiles';
+import { registerServiceWorker } from './services/serviceWorker';
+
+// Cada perfil monta seu próprio planner (estado, banca e configurações)
+const Root: React.FC = () => {
+  const profiles = useProfiles();
+  return <App key={profiles.active.id} profiles={profiles} />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error("Could not find root element");
@@ -9,6 +16,8 @@ if (!rootElement) throw new Error("Could not find root element");
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
+
+registerServiceWorker();
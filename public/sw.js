@@ -0,0 +1,96 @@
+// Service worker do BetMaster Planner: deixa o app utilizável offline e
+// entrega os cliques nas notificações de lembrete.
+//
+// - Navegação: rede primeiro; sem conexão, a última versão do app guardada.
+// - Arquivos do app, módulos do esm.sh e fontes: cache primeiro, atualizado
+//   em segundo plano (stale-while-revalidate).
+// - Gemini, servidor de sincronização e demais origens: nunca passam pelo cache.
+//
+// O build (vite.config.ts) troca as duas marcações abaixo: o nome do cache ganha
+// o hash do build e a lista recebe os arquivos de dist/assets, guardados já na
+// instalação para o app abrir offline logo na primeira visita.
+const CACHE = 'betmaster-v1' /* @build-cache */;
+const BUILD_ASSETS = [] /* @build-assets */;
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon.svg', ...BUILD_ASSETS];
+const CACHED_ORIGINS = ['https://esm.sh', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    // Um arquivo ausente não pode impedir a instalação (ex.: dev server)
+    await Promise.all(APP_SHELL.map(url => cache.add(url).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// Módulos servidos pelo dev server do Vite mudam a cada edição; só o build vai para o cache
+const isDevModule = (url) => /^\/(@|node_modules\/)/.test(url.pathname) || /\.(tsx?|jsx)$/.test(url.pathname);
+
+const isCacheable = (url) =>
+  (url.origin === self.location.origin && !isDevModule(url)) || CACHED_ORIGINS.includes(url.origin);
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(event.request);
+  const update = fetch(event.request)
+    .then(response => {
+      // Respostas opacas (fontes sem CORS) também servem offline
+      if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(update.catch(() => undefined));
+    return cached;
+  }
+  return update;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  event.respondWith(staleWhileRevalidate(event));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const date = event.notification.data && event.notification.data.date;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      const client = windows[0];
+      await client.focus();
+      client.postMessage({ type: 'open-date', date });
+      return;
+    }
+    await self.clients.openWindow(date ? `/#/month/${date}` : '/');
+  })());
+});
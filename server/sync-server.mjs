@@ -0,0 +1,102 @@
+// Servidor de sincronização do BetMaster Planner, sem dependências.
+//
+//   node server/sync-server.mjs            (ou: npm run sync-server)
+//
+// Variáveis de ambiente:
+//   SYNC_PORT      porta HTTP (padrão 8787)
+//   SYNC_DATA_DIR  pasta dos arquivos JSON, um por espaço (padrão server/data)
+//   SYNC_TOKEN     se definido, exige "Authorization: Bearer <token>"
+//
+// Rotas:
+//   GET /sync/:space/changes?since=N   dias alterados depois do seq N
+//   PUT /sync/:space/days/:date        { baseRev, plan } -> 200 { rev, seq } | 409 { date, rev, plan }
+
+import { createServer } from 'node:http';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createSyncStore, isValidDate, isValidSpace } from './syncStore.mjs';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_DIR = process.env.SYNC_DATA_DIR || join(dirname(fileURLToPath(import.meta.url)), 'data');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+mkdirSync(DATA_DIR, { recursive: true });
+
+const spaceFile = (space) => join(DATA_DIR, `${space}.json`);
+
+const store = createSyncStore({
+  load: (space) => (existsSync(spaceFile(space)) ? JSON.parse(readFileSync(spaceFile(space), 'utf8')) : undefined),
+  // Grava num temporário e renomeia, para não corromper o arquivo se o processo cair no meio
+  save: (space, state) => {
+    const tmp = `${spaceFile(space)}.tmp`;
+    writeFileSync(tmp, JSON.stringify(state));
+    renameSync(tmp, spaceFile(space));
+  }
+});
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('corpo grande demais'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'token inválido' });
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const [, root, space, resource, date] = url.pathname.split('/');
+  if (root !== 'sync' || !isValidSpace(space)) return send(res, 404, { error: 'rota desconhecida' });
+
+  try {
+    if (req.method === 'GET' && resource === 'changes') {
+      return send(res, 200, store.changes(space, Number(url.searchParams.get('since')) || 0));
+    }
+    if (req.method === 'PUT' && resource === 'days' && isValidDate(date)) {
+      const body = await readBody(req);
+      if (!Number.isInteger(body.baseRev) || body.baseRev < 0) return send(res, 400, { error: 'baseRev inválido' });
+      if (body.plan !== null && (typeof body.plan !== 'object' || body.plan.date !== date)) {
+        return send(res, 400, { error: 'plan inválido' });
+      }
+      const result = store.put(space, date, body.baseRev, body.plan);
+      return result.ok ? send(res, 200, { rev: result.rev, seq: result.seq }) : send(res, 409, result.current);
+    }
+    return send(res, 404, { error: 'rota desconhecida' });
+  } catch (error) {
+    console.error('Erro na requisição de sincronização', error);
+    return send(res, 400, { error: 'requisição inválida' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Servidor de sincronização em http://localhost:${PORT} (dados em ${DATA_DIR})`);
+});
@@ -0,0 +1,57 @@
+// Núcleo do servidor de sincronização: guarda cada DayPlan com uma revisão
+// própria e um contador global (seq) por espaço, para puxar só o que mudou.
+// Não mescla nada: um push com revisão base desatualizada é recusado e o
+// cliente mescla por id de jogo antes de tentar de novo.
+//
+// Usado pelo servidor HTTP (sync-server.mjs) e, em memória, pelo servidor
+// substituto dos testes (services/memorySyncServer.ts).
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SPACE_PATTERN = /^[\w-]{1,64}$/;
+
+export const isValidSpace = (space) => typeof space === 'string' && SPACE_PATTERN.test(space);
+export const isValidDate = (date) => typeof date === 'string' && DATE_PATTERN.test(date);
+
+/**
+ * @param {{ load?: (space: string) => any, save?: (space: string, state: any) => void }} [persistence]
+ */
+export const createSyncStore = (persistence = {}) => {
+  const spaces = new Map();
+
+  const spaceState = (space) => {
+    let state = spaces.get(space);
+    if (!state) {
+      state = persistence.load?.(space) ?? { seq: 0, days: {} };
+      spaces.set(space, state);
+    }
+    return state;
+  };
+
+  return {
+    /** Dias alterados depois de `since`, e o seq atual do espaço. */
+    changes(space, since = 0) {
+      const state = spaceState(space);
+      const days = Object.entries(state.days)
+        .filter(([, day]) => day.seq > since)
+        .map(([date, day]) => ({ date, rev: day.rev, plan: day.plan }));
+      return { seq: state.seq, days };
+    },
+
+    /**
+     * Grava o dia se `baseRev` for a revisão atual (0 = dia ainda inexistente).
+     * `plan` null apaga o dia, mantendo a revisão para detectar conflitos.
+     */
+    put(space, date, baseRev, plan) {
+      const state = spaceState(space);
+      const current = state.days[date];
+      const currentRev = current ? current.rev : 0;
+      if (baseRev !== currentRev) {
+        return { ok: false, current: { date, rev: currentRev, plan: current ? current.plan : null } };
+      }
+      state.seq += 1;
+      state.days[date] = { rev: currentRev + 1, seq: state.seq, plan, updatedAt: new Date().toISOString() };
+      persistence.save?.(space, state);
+      return { ok: true, rev: currentRev + 1, seq: state.seq };
+    }
+  };
+};
@@ -0,0 +1,34 @@
+import { QueuedAIRequest } from "../types";
+import { AIAnalysisError } from "./analysisProvider";
+
+export const AI_QUEUE_KEY = 'bet_planner_pro_ai_queue';
+
+export type QueuedAIRequestInput =
+  | { kind: 'day'; date: string }
+  | { kind: 'review'; from: string; to: string };
+
+export const loadAiQueue = (key = AI_QUEUE_KEY): QueuedAIRequest[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Falha ao carregar fila de IA do LocalStorage", e);
+    return [];
+  }
+};
+
+const sameRequest = (a: QueuedAIRequestInput, b: QueuedAIRequestInput) =>
+  a.kind === 'day' && b.kind === 'day'
+    ? a.date === b.date
+    : a.kind === 'review' && b.kind === 'review' && a.from === b.from && a.to === b.to;
+
+/** Enfileira o pedido; repetir o mesmo dia ou período só atualiza a posição. */
+export const enqueueAiRequest = (queue: QueuedAIRequest[], input: QueuedAIRequestInput): QueuedAIRequest[] => [
+  ...queue.filter(q => !sameRequest(q, input)),
+  { ...input, id: crypto.randomUUID(), queuedAt: new Date().toISOString() } as QueuedAIRequest
+];
+
+/** Falha por falta de conexão: o pedido deve esperar a internet voltar. */
+export const isOfflineFailure = (error: unknown) =>
+  !navigator.onLine && (!(error instanceof AIAnalysisError) || error.code === 'request');
@@ -0,0 +1,67 @@
+import { AIAnalysisResponse, AISettings, DayPlan } from "../types";
+import { AnalysisProvider, analyzableGames } from "./analysisProvider";
+import { createGeminiProvider } from "./geminiService";
+import { currentLanguage } from "./i18n";
+import { createMockProvider } from "./mockAnalysisProvider";
+
+const CACHE_KEY = 'bet_planner_pro_ai_cache';
+const CACHE_LIMIT = 50;
+
+interface CacheEntry {
+  key: string;
+  result: AIAnalysisResponse;
+  createdAt: string;
+}
+
+export const createAnalysisProvider = (settings: AISettings): AnalysisProvider =>
+  settings.provider === 'mock' ? createMockProvider() : createGeminiProvider(settings);
+
+/**
+ * Chave do cache: provedor/configuração + idioma + data + apenas os campos dos
+ * jogos que entram na análise. Mudar status ou stake não invalida a análise do dia.
+ */
+export const analysisCacheKey = (provider: AnalysisProvider, dayPlan: DayPlan) =>
+  JSON.stringify([
+    provider.cacheKey,
+    currentLanguage(),
+    dayPlan.date,
+    analyzableGames(dayPlan).map(g => [g.id, g.time, g.league, g.match, g.market, g.selection, g.odds])
+  ]);
+
+const readCache = (): CacheEntry[] => {
+  try {
+    const saved = localStorage.getItem(CACHE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.warn("Falha ao ler cache de análises", e);
+    return [];
+  }
+};
+
+const writeCache = (entries: CacheEntry[]) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(entries.slice(0, CACHE_LIMIT)));
+  } catch (e) {
+    console.warn("Falha ao gravar cache de análises", e);
+  }
+};
+
+export const clearAnalysisCache = () => localStorage.removeItem(CACHE_KEY);
+
+/** Analisa o dia reaproveitando o resultado anterior se os jogos não mudaram. */
+export const analyzeWithCache = async (
+  provider: AnalysisProvider,
+  dayPlan: DayPlan
+): Promise<{ result: AIAnalysisResponse; cached: boolean }> => {
+  const key = analysisCacheKey(provider, dayPlan);
+  const entries = readCache();
+  const hit = entries.find(e => e.key === key);
+  if (hit) {
+    writeCache([hit, ...entries.filter(e => e !== hit)]);
+    return { result: hit.result, cached: true };
+  }
+
+  const result = await provider.analyzeDay(dayPlan);
+  writeCache([{ key, result, createdAt: new Date().toISOString() }, ...entries]);
+  return { result, cached: false };
+};
@@ -0,0 +1,172 @@
+import {
+  AIAnalysisResponse,
+  AISettings,
+  AppData,
+  DayPlan,
+  GameAnalysis,
+  GameEntry,
+  PerformanceStats,
+  RetrospectiveLeak,
+  RetrospectiveReview,
+  RiskRating,
+  StatsBreakdownRow
+} from "../types";
+import { t } from "./i18n";
+import { SettledPick, breakdownByLeague, breakdownByMarket, collectSettledPicks, computeStats } from "./stats";
+
+export type AIAnalysisErrorCode = 'no_games' | 'request' | 'empty_response' | 'parse' | 'validation';
+
+export class AIAnalysisError extends Error {
+  constructor(public readonly code: AIAnalysisErrorCode, message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'AIAnalysisError';
+  }
+}
+
+/** Período liquidado enviado para a revisão retrospectiva. */
+export interface RetrospectiveInput {
+  from: string;
+  to: string;
+  picks: SettledPick[];
+  stats: PerformanceStats;
+  leagues: StatsBreakdownRow[];
+  markets: StatsBreakdownRow[];
+}
+
+/** Fonte de análises. Implementações: Gemini (remota) e mock (local, determinística). */
+export interface AnalysisProvider {
+  /** Identifica provedor + configuração; entra na chave do cache. */
+  readonly cacheKey: string;
+  /** Olha para frente: jogos pendentes de um dia. */
+  analyzeDay(dayPlan: DayPlan): Promise<AIAnalysisResponse>;
+  /** Olha para trás: o que deu errado (e certo) num período já liquidado. */
+  reviewPeriod(input: RetrospectiveInput): Promise<RetrospectiveReview>;
+}
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: 'gemini-3-flash-preview',
+  temperature: 0.7,
+  apiKey: ''
+};
+
+export const RISK_RATINGS: RiskRating[] = ['low', 'medium', 'high'];
+
+/** Jogos com confronto e liga preenchidos; os demais não são enviados para análise. */
+export const analyzableGames = (dayPlan: DayPlan): GameEntry[] => {
+  const games = dayPlan.games.filter(g => g.match && g.league);
+  if (games.length === 0) {
+    throw new AIAnalysisError('no_games', t('ai.noGames'));
+  }
+  return games;
+};
+
+/** Apostas liquidadas do período com os recortes por liga e mercado. */
+export const buildRetrospectiveInput = (data: AppData, from: string, to: string, initialBankroll: number): RetrospectiveInput => {
+  const picks = collectSettledPicks(data, { from, to });
+  if (picks.length === 0) {
+    throw new AIAnalysisError('no_games', t('ai.noSettled'));
+  }
+  return {
+    from,
+    to,
+    picks,
+    stats: computeStats(picks, initialBankroll),
+    leagues: breakdownByLeague(picks, initialBankroll),
+    markets: breakdownByMarket(picks, initialBankroll)
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const validateGame = (raw: unknown, knownIds: Set<string>, index: number): GameAnalysis => {
+  const fail = (reason: string) => {
+    throw new AIAnalysisError('validation', t('ai.invalidGame', { number: index + 1, reason }));
+  };
+
+  if (!isRecord(raw)) return fail(t('ai.invalid.notObject'));
+  if (typeof raw.gameId !== 'string' || !knownIds.has(raw.gameId)) return fail(t('ai.invalid.unknownId', { id: String(raw.gameId) }));
+  if (!RISK_RATINGS.includes(raw.risk as RiskRating)) return fail(t('ai.invalid.risk', { risk: String(raw.risk) }));
+  if (!inRange(raw.confidence, 0, 100)) return fail(t('ai.invalid.confidence'));
+  if (!inRange(raw.stakeFraction, 0, 1)) return fail(t('ai.invalid.stakeFraction'));
+  if (typeof raw.reasoning !== 'string') return fail(t('ai.invalid.reasoning'));
+
+  return {
+    gameId: raw.gameId,
+    risk: raw.risk as RiskRating,
+    confidence: raw.confidence,
+    stakeFraction: raw.stakeFraction,
+    reasoning: raw.reasoning
+  };
+};
+
+/** Valida a resposta JSON do modelo contra o formato esperado. */
+export const parseAnalysisResponse = (text: string | undefined, knownIds: Set<string>): AIAnalysisResponse => {
+  if (!text) throw new AIAnalysisError('empty_response', t('ai.emptyResponse'));
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new AIAnalysisError('parse', t('ai.invalidJson'), error);
+  }
+
+  if (!isRecord(raw)) throw new AIAnalysisError('validation', t('ai.notObject'));
+  if (typeof raw.summary !== 'string' || typeof raw.advice !== 'string') {
+    throw new AIAnalysisError('validation', t('ai.missingSummary'));
+  }
+  if (!inRange(raw.confidence, 0, 100)) {
+    throw new AIAnalysisError('validation', t('ai.invalidConfidence'));
+  }
+  if (!Array.isArray(raw.games)) {
+    throw new AIAnalysisError('validation', t('ai.missingGames'));
+  }
+
+  return {
+    summary: raw.summary,
+    confidence: raw.confidence,
+    advice: raw.advice,
+    games: raw.games.map((g, i) => validateGame(g, knownIds, i))
+  };
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const validateLeak = (raw: unknown, index: number): RetrospectiveLeak => {
+  if (!isRecord(raw) || (raw.dimension !== 'league' && raw.dimension !== 'market') ||
+      typeof raw.name !== 'string' || typeof raw.reason !== 'string') {
+    throw new AIAnalysisError('validation', t('ai.invalidLeak', { number: index + 1 }));
+  }
+  return { dimension: raw.dimension, name: raw.name, reason: raw.reason };
+};
+
+/** Valida a resposta JSON da revisão retrospectiva. */
+export const parseRetrospectiveResponse = (text: string | undefined): RetrospectiveReview => {
+  if (!text) throw new AIAnalysisError('empty_response', t('ai.emptyResponse'));
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new AIAnalysisError('parse', t('ai.invalidJson'), error);
+  }
+
+  if (!isRecord(raw)) throw new AIAnalysisError('validation', t('ai.notObject'));
+  if (typeof raw.summary !== 'string') throw new AIAnalysisError('validation', t('ai.missingReviewSummary'));
+  if (!Array.isArray(raw.leaks)) throw new AIAnalysisError('validation', t('ai.missingLeaks'));
+  if (!isStringList(raw.patterns) || !isStringList(raw.adjustments)) {
+    throw new AIAnalysisError('validation', t('ai.missingPatterns'));
+  }
+
+  return {
+    summary: raw.summary,
+    leaks: raw.leaks.map(validateLeak),
+    patterns: raw.patterns,
+    adjustments: raw.adjustments
+  };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProfit } from './bankroll';
+
+describe('calculateProfit', () => {
+  it('liquida cada resultado pela odd decimal', () => {
+    expect(calculateProfit(100, 1.85, 'win')).toBe(85);
+    expect(calculateProfit(100, 1.85, 'half_win')).toBe(42.5);
+    expect(calculateProfit(100, 1.85, 'loss')).toBe(-100);
+    expect(calculateProfit(100, 1.85, 'half_loss')).toBe(-50);
+    expect(calculateProfit(100, 1.85, 'void')).toBe(0);
+    expect(calculateProfit(100, 1.85, 'pending')).toBeNull();
+    expect(calculateProfit(0, 1.85, 'win')).toBeNull();
+  });
+
+  it('não liquida green sem odd acima de 1', () => {
+    expect(calculateProfit(100, 0, 'win')).toBeNull();
+    expect(calculateProfit(100, 0, 'half_win')).toBeNull();
+    expect(calculateProfit(100, 0.8, 'win')).toBeNull();
+    expect(calculateProfit(100, 1, 'win')).toBeNull();
+    // Red e anulada não dependem da odd
+    expect(calculateProfit(100, 0, 'loss')).toBe(-100);
+    expect(calculateProfit(100, 0, 'void')).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { AppData, Bankroll, BankrollSummary, GameEntry, GameStatus } from "../types";
+import { collectSlips, indexGames, settleSlip } from "./betSlips";
+import { numberLocale } from "./i18n";
+
+export const BANKROLL_KEY = 'bet_planner_pro_bankroll';
+
+export const DEFAULT_BANKROLL: Bankroll = { initial: 0, currency: 'BRL' };
+
+export const loadBankroll = (key = BANKROLL_KEY): Bankroll => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? { ...DEFAULT_BANKROLL, ...JSON.parse(saved) } : DEFAULT_BANKROLL;
+  } catch (e) {
+    console.warn("Falha ao carregar banca do LocalStorage", e);
+    return DEFAULT_BANKROLL;
+  }
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Lucro/prejuízo de uma aposta simples com odd decimal.
+ * Retorna null enquanto a aposta está pendente, sem stake definida ou, num
+ * green, sem odd acima de 1 (0 é o valor de "odd não informada").
+ */
+export const calculateProfit = (stake: number, odds: number, status: GameStatus): number | null => {
+  if (status === 'pending' || !(stake > 0)) return null;
+  if ((status === 'win' || status === 'half_win') && !(odds > 1)) return null;
+
+  switch (status) {
+    case 'win':
+      return roundCents(stake * (odds - 1));
+    case 'half_win':
+      return roundCents((stake / 2) * (odds - 1));
+    case 'loss':
+      return roundCents(-stake);
+    case 'half_loss':
+      return roundCents(-stake / 2);
+    case 'void':
+      return 0; // stake devolvida
+  }
+};
+
+/** Recalcula o P&L do jogo a partir de status, stake e odd. */
+export const settleGame = (game: GameEntry): GameEntry => ({
+  ...game,
+  profit: calculateProfit(game.stake, game.odds, game.status),
+});
+
+export const summarizeBankroll = (data: AppData, bankroll: Bankroll): BankrollSummary => {
+  let profit = 0;
+  let staked = 0;
+  let exposure = 0;
+  let settledCount = 0;
+  let pendingCount = 0;
+
+  Object.values(data).forEach(plan => {
+    plan.games.forEach(game => {
+      if (!(game.stake > 0)) return;
+      if (game.status === 'pending') {
+        exposure += game.stake;
+        pendingCount++;
+      } else if (game.profit !== null) {
+        profit += game.profit;
+        staked += game.stake;
+        settledCount++;
+      }
+    });
+  });
+
+  const games = indexGames(data);
+  collectSlips(data).forEach(({ slip }) => {
+    if (!(slip.stake > 0)) return;
+    const settlement = settleSlip(slip, games);
+    if (settlement.profit === null) {
+      exposure += slip.stake;
+      pendingCount++;
+    } else {
+      profit += settlement.profit;
+      staked += slip.stake;
+      settledCount++;
+    }
+  });
+
+  return {
+    initial: bankroll.initial,
+    current: roundCents(bankroll.initial + profit),
+    profit: roundCents(profit),
+    staked: roundCents(staked),
+    exposure: roundCents(exposure),
+    settledCount,
+    pendingCount,
+  };
+};
+
+/** Valor na moeda da banca, com separadores e símbolo do idioma escolhido. */
+export const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat(numberLocale(), { style: 'currency', currency }).format(value);
@@ -0,0 +1,123 @@
+import { AppData, BetSlip, GameEntry, SlipSettlement } from "../types";
+import { t } from "./i18n";
+import { TranslationKey } from "./locales/ptBR";
+
+export interface SlipPreset {
+  id: string;
+  nameKey: TranslationKey;
+  legs: number | null; // null = qualquer quantidade (acumulada)
+  sizes: (legs: number) => number[];
+}
+
+/** Tipos de bilhete oferecidos no construtor, conforme a quantidade de pernas. */
+export const SLIP_PRESETS: SlipPreset[] = [
+  { id: 'acca', nameKey: 'slip.preset.acca', legs: null, sizes: n => [n] },
+  { id: '2of3', nameKey: 'slip.preset.2of3', legs: 3, sizes: () => [2] },
+  { id: 'trixie', nameKey: 'slip.preset.trixie', legs: 3, sizes: () => [2, 3] },
+  { id: 'patent', nameKey: 'slip.preset.patent', legs: 3, sizes: () => [1, 2, 3] },
+  { id: '2of4', nameKey: 'slip.preset.2of4', legs: 4, sizes: () => [2] },
+  { id: '3of4', nameKey: 'slip.preset.3of4', legs: 4, sizes: () => [3] },
+  { id: 'yankee', nameKey: 'slip.preset.yankee', legs: 4, sizes: () => [2, 3, 4] },
+  { id: 'lucky15', nameKey: 'slip.preset.lucky15', legs: 4, sizes: () => [1, 2, 3, 4] }
+];
+
+export const presetsForLegs = (legs: number) =>
+  SLIP_PRESETS.filter(p => (p.legs === null ? legs >= 2 : p.legs === legs));
+
+const ACCUMULATOR_NAMES: Record<number, TranslationKey> = { 2: 'slip.double', 3: 'slip.treble', 4: 'slip.fourfold' };
+
+/** Nome padrão de uma acumulada pelo número de pernas. */
+export const accumulatorName = (legs: number) =>
+  ACCUMULATOR_NAMES[legs] ? t(ACCUMULATOR_NAMES[legs]) : t('slip.multiple', { legs });
+
+/** Nome do tipo de bilhete no construtor; a acumulada leva o nome pelo número de pernas. */
+export const presetName = (preset: SlipPreset, legs: number) =>
+  preset.id === 'acca' ? accumulatorName(legs) : t(preset.nameKey);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const combinations = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map(combo => [first, ...combo]),
+    ...combinations(rest, size)
+  ];
+};
+
+const legOdds = (game: GameEntry) => (game.odds > 1 ? game.odds : 1);
+
+/**
+ * Fator de retorno de uma perna: green paga a odd, anulada devolve (1),
+ * meio green/red liquidam metade, red zera. Null enquanto pendente.
+ */
+const legFactor = (game: GameEntry): number | null => {
+  switch (game.status) {
+    case 'pending': return null;
+    case 'win': return legOdds(game);
+    case 'half_win': return (1 + legOdds(game)) / 2;
+    case 'void': return 1;
+    case 'half_loss': return 0.5;
+    case 'loss': return 0;
+  }
+};
+
+export const indexGames = (data: AppData) => {
+  const index = new Map<string, { date: string; game: GameEntry }>();
+  Object.values(data).forEach(plan => plan.games.forEach(game => index.set(game.id, { date: plan.date, game })));
+  return index;
+};
+
+export const settleSlip = (slip: BetSlip, games: Map<string, { game: GameEntry }>): SlipSettlement => {
+  const legs = slip.legIds.map(id => games.get(id)?.game).filter((g): g is GameEntry => !!g);
+  const missingLegs = slip.legIds.length - legs.length;
+  const combos = slip.sizes.flatMap(size => combinations(legs, size));
+  const unitStake = combos.length > 0 ? slip.stake / combos.length : 0;
+  const combinedOdds = legs.reduce((product, g) => product * legOdds(g), 1);
+  const potentialReturn = combos.reduce((sum, combo) => sum + unitStake * combo.reduce((p, g) => p * legOdds(g), 1), 0);
+
+  let pending = false;
+  let totalReturn = 0;
+  combos.forEach(combo => {
+    const factors = combo.map(legFactor);
+    // Uma perna perdida já decide a combinação, mesmo com outras pendentes
+    if (factors.some(f => f === 0)) return;
+    if (factors.some(f => f === null)) {
+      pending = true;
+      return;
+    }
+    totalReturn += unitStake * factors.reduce((p: number, f) => p * (f as number), 1);
+  });
+
+  return {
+    status: pending || combos.length === 0 ? 'pending' : 'settled',
+    bets: combos.length,
+    combinedOdds: roundCents(combinedOdds),
+    potentialReturn: roundCents(potentialReturn),
+    profit: pending || combos.length === 0 || !(slip.stake > 0) ? null : roundCents(totalReturn - slip.stake),
+    missingLegs
+  };
+};
+
+/** Todos os bilhetes com a data do dia em que foram criados. */
+export const collectSlips = (data: AppData) =>
+  Object.values(data).flatMap(plan => (plan.slips || []).map(slip => ({ date: plan.date, slip })));
+
+/**
+ * Representa um bilhete liquidado como um jogo sintético, para que entre nas
+ * mesmas estatísticas das apostas simples (liga "Múltiplas", mercado = nome).
+ */
+export const slipAsGame = (slip: BetSlip, settlement: SlipSettlement): GameEntry => ({
+  id: slip.id,
+  time: '',
+  league: t('slip.statsLeague'),
+  match: slip.name,
+  market: slip.name,
+  selection: t('slip.legs', { count: slip.legIds.length }),
+  bookmaker: '',
+  stake: slip.stake,
+  odds: settlement.combinedOdds,
+  status: settlement.profit === null ? 'pending' : settlement.profit > 0 ? 'win' : settlement.profit < 0 ? 'loss' : 'void',
+  profit: settlement.profit
+});
@@ -0,0 +1,114 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, eachDayOfInterval, endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { AppData, CalendarView, GameEntry, TimeSettings, ViewRoute } from "../types";
+import { weekStartsOn } from "./i18n";
+import { TranslationKey } from "./locales/ptBR";
+import { localKickoff, resolveKickoff } from "./kickoff";
+
+export const CALENDAR_VIEWS: { id: CalendarView; labelKey: TranslationKey }[] = [
+  { id: 'month', labelKey: 'view.month' },
+  { id: 'week', labelKey: 'view.week' },
+  { id: 'agenda', labelKey: 'view.agenda' },
+  { id: 'today', labelKey: 'view.today' }
+];
+
+const DEFAULT_AGENDA_DAYS = 14;
+
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+const isDateKey = (value: string | undefined): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseISO(value).getTime());
+
+/**
+ * Lê a visão do hash da URL: "#/month/2025-03-01", "#/week/2025-03-10",
+ * "#/agenda/2025-03-01/2025-03-31" ou "#/today". Hash inválido cai no mês atual.
+ */
+export const parseViewHash = (hash: string): ViewRoute => {
+  const [view, date, to] = hash.replace(/^#\/?/, '').split('/');
+  const anchor = isDateKey(date) ? date : todayKey();
+
+  switch (view) {
+    case 'week':
+    case 'month':
+      return { view, date: anchor };
+    case 'agenda':
+      return {
+        view,
+        date: anchor,
+        to: isDateKey(to) && to >= anchor ? to : format(addDays(parseISO(anchor), DEFAULT_AGENDA_DAYS), 'yyyy-MM-dd')
+      };
+    case 'today':
+      return { view, date: todayKey() };
+    default:
+      return { view: 'month', date: anchor };
+  }
+};
+
+/** Troca de visão mantendo a data de referência (a agenda ganha o intervalo padrão). */
+export const routeForView = (view: CalendarView, anchor: string): ViewRoute => parseViewHash(`#/${view}/${anchor}`);
+
+export const formatViewHash = (route: ViewRoute) => {
+  if (route.view === 'today') return '#/today';
+  if (route.view === 'agenda') return `#/agenda/${route.date}/${route.to}`;
+  return `#/${route.view}/${route.date}`;
+};
+
+/** Avança (+1) ou recua (-1) a visão: um mês, uma semana ou o tamanho do intervalo da agenda. */
+export const shiftRoute = (route: ViewRoute, direction: 1 | -1): ViewRoute => {
+  const anchor = parseISO(route.date);
+  switch (route.view) {
+    case 'month':
+      return { ...route, date: format(addMonths(anchor, direction), 'yyyy-MM-dd') };
+    case 'week':
+      return { ...route, date: format(addWeeks(anchor, direction), 'yyyy-MM-dd') };
+    case 'agenda': {
+      const span = differenceInCalendarDays(parseISO(route.to!), anchor) + 1;
+      return {
+        ...route,
+        date: format(addDays(anchor, direction * span), 'yyyy-MM-dd'),
+        to: format(addDays(parseISO(route.to!), direction * span), 'yyyy-MM-dd')
+      };
+    }
+    case 'today':
+      return route;
+  }
+};
+
+/** Dias da semana que contém a data; o primeiro dia segue o idioma. */
+export const weekDays = (date: string) => {
+  const anchor = parseISO(date);
+  const options = { weekStartsOn: weekStartsOn() };
+  return eachDayOfInterval({ start: startOfWeek(anchor, options), end: endOfWeek(anchor, options) });
+};
+
+export interface AgendaEntry {
+  date: string;
+  game: GameEntry;
+  time: string;          // horário no fuso do usuário; '' se não definido
+  kickoff: Date | null;
+}
+
+/**
+ * Jogos preenchidos entre `from` e `to` (inclusive), em ordem cronológica.
+ * Jogos sem horário ficam no fim do respectivo dia.
+ */
+export const collectAgenda = (
+  data: AppData,
+  from: string,
+  to: string,
+  settings: TimeSettings,
+  pendingOnly = false
+): AgendaEntry[] =>
+  Object.keys(data)
+    .filter(date => date >= from && date <= to)
+    .sort()
+    .flatMap(date =>
+      data[date].games
+        .filter(g => g.match && (!pendingOnly || g.status === 'pending'))
+        .map(game => ({
+          date,
+          game,
+          time: localKickoff(game, date, settings)?.time ?? '',
+          kickoff: resolveKickoff(game, date, settings)
+        }))
+        .sort((a, b) => (a.kickoff?.getTime() ?? Infinity) - (b.kickoff?.getTime() ?? Infinity) || 0)
+    );
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AppData } from '../types';
+import { createNewGame } from './planner';
+import { applyCsvRows, buildCsvPreview, detectDateFormat, detectTimeFormat, guessColumnMapping, parseCsv } from './csv';
+
+const preview = (text: string, existing: AppData = {}) => {
+  const rows = parseCsv(text);
+  const mapping = guessColumnMapping(rows[0]);
+  return buildCsvPreview(rows, mapping, detectDateFormat(rows, mapping), detectTimeFormat(rows, mapping), existing);
+};
+
+describe('parseCsv', () => {
+  it('detecta o separador e respeita aspas, aspas escapadas e quebras de linha', () => {
+    const text = '\uFEFFData;Confronto;Notas\r\n10/03/2026;"Flamengo; Vasco";"linha 1\nlinha ""2"""\r\n\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['Data', 'Confronto', 'Notas'],
+      ['10/03/2026', 'Flamengo; Vasco', 'linha 1\nlinha "2"']
+    ]);
+  });
+});
+
+describe('buildCsvPreview / applyCsvRows', () => {
+  const CSV = [
+    'Fecha,Hora,Liga,Partido,Mercado,Cuota,Stake,Resultado,Tags',
+    '10/03/2026,21:30,Brasileirão,Flamengo x Vasco,1X2,"1,85",10,green,derby|value',
+    '10/03/2026,abc,Brasileirão,Santos x Palmeiras,1X2,2,10,,',
+    '11/03/2026,16:00,Premier League,,Over 2.5,1.9,10,,',
+    '12/03/2026,,Serie A,Roma x Lazio,BTTS,2,5,talvez,'
+  ].join('\n');
+
+  it('mapeia cabeçalhos em outros idiomas e converte números, status e tags', () => {
+    const [first] = preview(CSV);
+    expect(first).toMatchObject({ line: 2, date: '2026-03-10', duplicate: false, error: null });
+    expect(first.game).toMatchObject({
+      time: '21:30',
+      league: 'Brasileirão',
+      match: 'Flamengo x Vasco',
+      odds: 1.85,
+      stake: 10,
+      status: 'win',
+      profit: 8.5,
+      tags: ['derby', 'value']
+    });
+  });
+
+  it('aponta a linha e o motivo de cada erro', () => {
+    expect(preview(CSV).slice(1).map(row => [row.line, row.error])).toEqual([
+      [3, 'horário "abc" não reconhecido'],
+      [4, 'confronto vazio'],
+      [5, 'resultado "talvez" desconhecido']
+    ]);
+  });
+
+  it('marca duplicados e só os importa quando pedido', () => {
+    const existing: AppData = {
+      '2026-03-10': { date: '2026-03-10', games: [{ ...createNewGame(), match: 'flamengo x vasco', market: '1x2' }, createNewGame()] }
+    };
+    const rows = preview(CSV, existing);
+    expect(rows[0].duplicate).toBe(true);
+
+    expect(applyCsvRows(existing, rows, false)).toEqual(existing);
+    const imported = applyCsvRows(existing, rows, true);
+    expect(imported['2026-03-10'].games.map(g => g.match)).toEqual(['flamengo x vasco', 'Flamengo x Vasco']);
+  });
+});
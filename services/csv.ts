@@ -0,0 +1,292 @@
+import { format, isValid, parse } from 'date-fns';
+import { AppData, CsvColumnMapping, CsvField, CsvPreviewRow, GameEntry, GameStatus, StatsFilter } from "../types";
+import { settleGame } from "./bankroll";
+import { t } from "./i18n";
+import { TranslationKey } from "./locales/ptBR";
+import { createNewGame, isBlankGame, normalizeTags } from "./planner";
+import { matchesFilter } from "./stats";
+
+export const CSV_FIELDS: { field: CsvField; labelKey: TranslationKey; required: boolean }[] = [
+  { field: 'date', labelKey: 'csv.field.date', required: true },
+  { field: 'time', labelKey: 'game.time', required: false },
+  { field: 'league', labelKey: 'game.league', required: false },
+  { field: 'match', labelKey: 'game.match', required: true },
+  { field: 'market', labelKey: 'game.market', required: false },
+  { field: 'selection', labelKey: 'game.selection', required: false },
+  { field: 'bookmaker', labelKey: 'game.bookmaker', required: false },
+  { field: 'stake', labelKey: 'game.stake', required: false },
+  { field: 'odds', labelKey: 'game.odds', required: false },
+  { field: 'status', labelKey: 'game.result', required: false },
+  { field: 'notes', labelKey: 'game.notes', required: false },
+  { field: 'tipster', labelKey: 'game.tipster', required: false },
+  { field: 'tags', labelKey: 'game.tags', required: false },
+  { field: 'confidence', labelKey: 'csv.field.confidence', required: false },
+  { field: 'closingOdds', labelKey: 'game.closingOdds', required: false }
+];
+
+// Nomes de coluna comuns em planilhas e exports de casas de aposta (pt/en/es)
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ['date', 'data', 'fecha', 'dia', 'day', 'placed', 'event date'],
+  time: ['time', 'hora', 'horario', 'kickoff', 'inicio'],
+  league: ['league', 'liga', 'campeonato', 'competition', 'competicao', 'competicion', 'torneio', 'tournament'],
+  match: ['match', 'confronto', 'jogo', 'event', 'evento', 'partido', 'fixture', 'game'],
+  market: ['market', 'mercado', 'bet type', 'tipo'],
+  selection: ['selection', 'selecao', 'seleccion', 'pick', 'aposta', 'bet'],
+  bookmaker: ['bookmaker', 'casa', 'bookie', 'casa de apostas', 'site'],
+  stake: ['stake', 'valor', 'amount', 'apostado', 'importe', 'unidades'],
+  odds: ['odds', 'odd', 'cuota', 'cotacao', 'price'],
+  status: ['status', 'resultado', 'result', 'outcome', 'estado'],
+  notes: ['notes', 'notas', 'obs', 'observacoes', 'observaciones', 'comentario', 'comments'],
+  tipster: ['tipster', 'autor', 'author', 'capper', 'analista', 'pronosticador'],
+  tags: ['tags', 'tag', 'etiquetas', 'marcadores', 'labels'],
+  confidence: ['confidence', 'confianca', 'confianza', 'nota', 'rating'],
+  closingOdds: ['closingodds', 'closing odds', 'closing', 'odd de fechamento', 'odd fechamento', 'fechamento', 'cuota de cierre', 'cierre', 'clv odds']
+};
+
+const STATUS_ALIASES: Record<GameStatus, string[]> = {
+  pending: ['', 'pending', 'pendente', 'open', 'aberta', 'pendiente'],
+  win: ['win', 'won', 'green', 'ganhou', 'ganha', 'w', 'ganada', 'vitoria'],
+  loss: ['loss', 'lost', 'lose', 'red', 'perdeu', 'perdida', 'l', 'derrota'],
+  void: ['void', 'anulada', 'refund', 'push', 'devolvida', 'cancelada', 'nula'],
+  half_win: ['half win', 'half_win', 'half-won', 'meio green', 'meia green'],
+  half_loss: ['half loss', 'half_loss', 'half-lost', 'meio red', 'meia red']
+};
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd/MM/yy', 'dd.MM.yyyy', 'dd-MM-yyyy', 'yyyy/MM/dd'];
+export const TIME_FORMATS = ['HH:mm', 'HH:mm:ss', 'h:mm a', 'HH.mm', "HH'h'mm"];
+
+const EXPORT_COLUMNS: CsvField[] = [
+  'date', 'time', 'league', 'match', 'market', 'selection', 'bookmaker', 'stake', 'odds', 'status', 'notes', 'tipster',
+  'tags', 'confidence', 'closingOdds'
+];
+
+const normalizeHeader = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const escapeCell = (value: string, delimiter: string) =>
+  /["\n\r]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Jogos preenchidos que passam no filtro, um por linha, com ';' (padrão do Excel em pt-BR). */
+export const buildGamesCsv = (data: AppData, filter: StatsFilter = {}, delimiter = ';') => {
+  const header = [...EXPORT_COLUMNS, 'profit'].join(delimiter);
+  const lines = Object.keys(data)
+    .sort()
+    .flatMap(date =>
+      data[date].games
+        .filter(g => g.match && matchesFilter(date, g, filter))
+        .map(g =>
+          [date, g.time, g.league, g.match, g.market, g.selection, g.bookmaker,
+            g.stake ? String(g.stake) : '', g.odds ? String(g.odds) : '', g.status, g.notes || '', g.tipster || '',
+            (g.tags ?? []).join(', '), g.confidence ? String(g.confidence) : '', g.closingOdds ? String(g.closingOdds) : '',
+            g.profit === null ? '' : String(g.profit)]
+            .map(cell => escapeCell(cell, delimiter))
+            .join(delimiter)
+        )
+    );
+  return [header, ...lines].join('\r\n');
+};
+
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+};
+
+/** Parser CSV (RFC 4180): aspas, aspas escapadas e quebras de linha dentro de células. */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as CsvColumnMapping;
+
+  CSV_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && HEADER_ALIASES[field].includes(h));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+};
+
+export const parseWith = (value: string, formats: string[]) => {
+  const reference = new Date(2000, 0, 1);
+  for (const f of formats) {
+    const parsed = parse(value.trim(), f, reference);
+    // "04/01/25" também casa com dd/MM/yyyy (ano 25); anos implausíveis são descartados
+    if (isValid(parsed) && parsed.getFullYear() >= 1900) return parsed;
+  }
+  return null;
+};
+
+/** Primeiro formato que interpreta todas as amostras (dd/MM antes de MM/dd). */
+export const detectFormat = (samples: string[], formats: string[]) => {
+  const values = samples.map(s => s.trim()).filter(Boolean);
+  if (values.length === 0) return formats[0];
+  return formats.find(f => values.every(v => parseWith(v, [f]) !== null)) || formats[0];
+};
+
+// Datas com horário embutido ("2025-03-01 15:30") são separadas antes do parse
+export const splitDateTime = (value: string) => {
+  const match = value.trim().match(/^(\S+)[ T](\d{1,2}[:.h]\d{2}(?::\d{2})?(?:\s?[AaPp][Mm])?)$/);
+  return match ? { date: match[1], time: match[2] } : { date: value.trim(), time: '' };
+};
+
+const parseNumber = (value: string) => {
+  const cleaned = value.replace(/[^\d,.-]/g, '');
+  // "1.234,56" → 1234.56 ; "1,85" → 1.85
+  const normalized = cleaned.includes(',') && cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const number = parseFloat(normalized);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const parseStatus = (value: string): GameStatus | null => {
+  const normalized = normalizeHeader(value);
+  const entry = (Object.entries(STATUS_ALIASES) as [GameStatus, string[]][]).find(([, aliases]) => aliases.includes(normalized));
+  return entry ? entry[0] : null;
+};
+
+/** Chave de duplicidade: mesmo dia, confronto, mercado e seleção (sem caixa/acentos). */
+const duplicateKey = (date: string, game: Pick<GameEntry, 'match' | 'market' | 'selection'>) =>
+  [date, game.match, game.market, game.selection].map(normalizeHeader).join('|');
+
+const columnSamples = (rows: string[][], column: number | null, limit = 50) =>
+  column === null ? [] : rows.slice(1, limit + 1).map(r => (r[column] || '').trim());
+
+export const detectDateFormat = (rows: string[][], mapping: CsvColumnMapping) =>
+  detectFormat(columnSamples(rows, mapping.date).map(v => splitDateTime(v).date), DATE_FORMATS);
+
+export const detectTimeFormat = (rows: string[][], mapping: CsvColumnMapping) => {
+  const samples = mapping.time !== null
+    ? columnSamples(rows, mapping.time)
+    : columnSamples(rows, mapping.date).map(v => splitDateTime(v).time);
+  return detectFormat(samples, TIME_FORMATS);
+};
+
+export const buildCsvPreview = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  dateFormat: string,
+  timeFormat: string,
+  existing: AppData
+): CsvPreviewRow[] => {
+  const seen = new Set(
+    Object.values(existing).flatMap(plan => plan.games.filter(g => g.match).map(g => duplicateKey(plan.date, g)))
+  );
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] || '').trim();
+  };
+
+  return rows.slice(1).map((row, i) => {
+    const line = i + 2;
+    const fail = (error: string): CsvPreviewRow => ({ line, date: null, game: null, duplicate: false, error });
+
+    const { date: rawDate, time: embeddedTime } = splitDateTime(cell(row, 'date'));
+    const date = parseWith(rawDate, [dateFormat]);
+    if (!date) return fail(t('csv.reject.date', { value: rawDate }));
+
+    const match = cell(row, 'match');
+    if (!match) return fail(t('csv.reject.emptyMatch'));
+
+    const rawTime = cell(row, 'time') || embeddedTime;
+    const time = rawTime ? parseWith(rawTime, [timeFormat, ...TIME_FORMATS]) : null;
+    if (rawTime && !time) return fail(t('csv.reject.time', { value: rawTime }));
+
+    const stake = cell(row, 'stake') ? parseNumber(cell(row, 'stake')) : 0;
+    if (isNaN(stake) || stake < 0) return fail(t('csv.reject.stake', { value: cell(row, 'stake') }));
+    const odds = cell(row, 'odds') ? parseNumber(cell(row, 'odds')) : 0;
+    if (isNaN(odds) || (odds !== 0 && odds < 1)) return fail(t('csv.reject.odds', { value: cell(row, 'odds') }));
+
+    const status = parseStatus(cell(row, 'status'));
+    if (!status) return fail(t('csv.reject.status', { value: cell(row, 'status') }));
+
+    const confidence = cell(row, 'confidence') ? parseNumber(cell(row, 'confidence')) : 0;
+    if (confidence !== 0 && !(Number.isInteger(confidence) && confidence >= 1 && confidence <= 5)) {
+      return fail(t('csv.reject.confidence', { value: cell(row, 'confidence') }));
+    }
+    const closingOdds = cell(row, 'closingOdds') ? parseNumber(cell(row, 'closingOdds')) : 0;
+    if (isNaN(closingOdds) || (closingOdds !== 0 && closingOdds < 1)) return fail(t('csv.reject.closingOdds', { value: cell(row, 'closingOdds') }));
+    const tags = normalizeTags(cell(row, 'tags').split(/[,|]/));
+
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const game = settleGame({
+      ...createNewGame(),
+      time: time ? format(time, 'HH:mm') : '',
+      league: cell(row, 'league'),
+      match,
+      market: cell(row, 'market'),
+      selection: cell(row, 'selection'),
+      bookmaker: cell(row, 'bookmaker'),
+      stake,
+      odds,
+      status,
+      ...(cell(row, 'notes') ? { notes: cell(row, 'notes') } : {}),
+      ...(cell(row, 'tipster') ? { tipster: cell(row, 'tipster') } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(confidence ? { confidence } : {}),
+      ...(closingOdds > 1 ? { closingOdds } : {})
+    });
+
+    const key = duplicateKey(dateKey, game);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    return { line, date: dateKey, game, duplicate, error: null };
+  });
+};
+
+/** Aplica as linhas válidas da prévia, anexando aos dias existentes. */
+export const applyCsvRows = (data: AppData, rows: CsvPreviewRow[], includeDuplicates: boolean): AppData => {
+  const next: AppData = { ...data };
+
+  rows.forEach(row => {
+    if (!row.game || !row.date || (row.duplicate && !includeDuplicates)) return;
+    const plan = next[row.date];
+    const games = plan ? plan.games.filter(g => !isBlankGame(g)) : [];
+    next[row.date] = { date: row.date, ...plan, games: [...games, row.game] };
+  });
+
+  return next;
+};
@@ -0,0 +1,17 @@
+/** Dispara o download de um arquivo gerado no navegador (Blob API). */
+export const downloadFile = (content: string | Blob, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  // Limpeza necessária para evitar vazamento de memória
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 0);
+};
@@ -0,0 +1,386 @@
+import { format } from 'date-fns';
+import { AppData, Fixture, FixtureImportResult, GameEntry, TimeSettings } from "../types";
+import { DATE_FORMATS, detectFormat, parseCsv, parseWith, splitDateTime } from "./csv";
+import { t } from "./i18n";
+import { formatInZone, isValidTimeZone, localKickoff, normalizeKickoff, parseKickoffTime, sortByKickoff, zonedTimeToUtc } from "./kickoff";
+import { createNewGame } from "./planner";
+import { appendGames } from "./templates";
+
+export const FIXTURES_KEY = 'bet_planner_pro_fixtures';
+
+// Sufixos/prefixos de clube que não distinguem times ("FC Porto" = "Porto")
+const CLUB_TOKENS = new Set(['fc', 'cf', 'afc', 'sc', 'fk', 'sk', 'cd', 'ec', 'club']);
+
+/** Limpa espaços e aspas, mantendo a grafia original. */
+export const cleanName = (raw: string) => raw.replace(/^["']|["']$/g, '').replace(/\s+/g, ' ').trim();
+
+/** Chave de comparação: sem acentos, pontuação, caixa e sufixos de clube. */
+export const nameKey = (name: string) => {
+  const tokens = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const meaningful = tokens.filter(t => !CLUB_TOKENS.has(t));
+  return (meaningful.length > 0 ? meaningful : tokens).join(' ');
+};
+
+const MATCH_SEPARATORS: { pattern: RegExp; swap: boolean }[] = [
+  { pattern: /\s+vs?\.?\s+/i, swap: false },
+  { pattern: /\s+x\s+/i, swap: false },
+  { pattern: /\s+[-–—]\s+/, swap: false },
+  { pattern: /\s+@\s+/, swap: true } // "Visitante @ Mandante"
+];
+
+/** Separa "Mandante vs Visitante" (ou "x", "-", "@") nos dois times. */
+export const splitMatchTitle = (title: string): { home: string; away: string } | null => {
+  for (const { pattern, swap } of MATCH_SEPARATORS) {
+    const parts = title.split(pattern);
+    if (parts.length !== 2) continue;
+    const [first, second] = parts.map(cleanName);
+    if (!first || !second) continue;
+    return swap ? { home: second, away: first } : { home: first, away: second };
+  }
+  return null;
+};
+
+export const formatMatch = (home: string, away: string) => `${home} vs ${away}`;
+
+/** Compara confrontos independentemente do separador e da grafia dos times. */
+export const matchKey = (match: string) => {
+  const teams = splitMatchTitle(match);
+  return teams ? `${nameKey(teams.home)}|${nameKey(teams.away)}` : nameKey(match);
+};
+
+export interface NameIndex {
+  leagues: Map<string, string>;
+  teams: Map<string, string>;
+}
+
+/** Grafias já usadas no planner; a primeira encontrada vira a canônica. */
+export const buildNameIndex = (data: AppData): NameIndex => {
+  const index: NameIndex = { leagues: new Map(), teams: new Map() };
+  Object.values(data).forEach(plan =>
+    plan.games.forEach(game => {
+      if (game.league.trim()) canonicalName(game.league, index.leagues);
+      const teams = splitMatchTitle(game.match);
+      if (teams) {
+        canonicalName(teams.home, index.teams);
+        canonicalName(teams.away, index.teams);
+      }
+    })
+  );
+  return index;
+};
+
+/** Devolve a grafia canônica do nome, registrando-o se for novo. */
+export const canonicalName = (raw: string, names: Map<string, string>) => {
+  const name = cleanName(raw);
+  const key = nameKey(name);
+  if (!key) return name;
+  const existing = names.get(key);
+  if (existing) return existing;
+  names.set(key, name);
+  return name;
+};
+
+const fixtureId = (date: string, home: string, away: string) => `${date}|${nameKey(home)}|${nameKey(away)}`;
+
+const buildFixture = (
+  raw: { date: string; time: string; timeZone?: string; league: string; home: string; away: string },
+  source: string,
+  index: NameIndex
+): Fixture => {
+  const home = canonicalName(raw.home, index.teams);
+  const away = canonicalName(raw.away, index.teams);
+  return {
+    id: fixtureId(raw.date, home, away),
+    date: raw.date,
+    time: raw.time,
+    ...(raw.timeZone ? { timeZone: raw.timeZone } : {}),
+    league: raw.league ? canonicalName(raw.league, index.leagues) : '',
+    home,
+    away,
+    source
+  };
+};
+
+type RawWhen = { date: string; time: string; timeZone?: string };
+
+/** Instante com fuso explícito ("Z" ou "+01:00") vira data/hora em UTC; sem fuso, fica flutuante. */
+const parseDateTimeValue = (value: string): RawWhen | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    const [, date, time, zone] = iso;
+    if (!time) return { date, time: '' };
+    if (!zone) return { date, time };
+    const instant = new Date(text.replace(' ', 'T'));
+    if (isNaN(instant.getTime())) return null;
+    return { ...formatInZone(instant, 'UTC'), timeZone: 'UTC' };
+  }
+
+  const { date: rawDate, time: rawTime } = splitDateTime(text);
+  const parsed = parseWith(rawDate, DATE_FORMATS);
+  if (!parsed) return null;
+  return { date: format(parsed, 'yyyy-MM-dd'), time: (rawTime && parseKickoffTime(rawTime)) || '' };
+};
+
+// ---------- iCalendar (.ics) ----------
+
+const unescapeIcs = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const parseIcsDate = (value: string, params: Record<string, string>): RawWhen | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{0,2}(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, utc] = match;
+  const date = `${y}-${m}-${d}`;
+  if (!hh) return { date, time: '' };
+  const time = `${hh}:${mm}`;
+  if (utc) return { date, time, timeZone: 'UTC' };
+  if (params.TZID && isValidTimeZone(params.TZID)) return { date, time, timeZone: params.TZID };
+  return { date, time };
+};
+
+/**
+ * Lê os VEVENTs de um calendário. O SUMMARY deve conter os dois times;
+ * a liga vem de CATEGORIES, de um prefixo "Liga: A vs B" ou do nome do calendário.
+ */
+export const parseIcs = (text: string, source: string, index: NameIndex): FixtureImportResult => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const fixtures: Fixture[] = [];
+  let calendarName = '';
+  let event: Record<string, { value: string; params: Record<string, string> }> | null = null;
+  let skipped = 0;
+
+  lines.forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const value = line.slice(colon + 1);
+    const key = name.toUpperCase();
+
+    if (key === 'BEGIN' && value.trim() === 'VEVENT') {
+      event = {};
+      return;
+    }
+    if (key === 'END' && value.trim() === 'VEVENT' && event) {
+      const current = event;
+      event = null;
+      const when = current.DTSTART && parseIcsDate(current.DTSTART.value, current.DTSTART.params);
+      let summary = unescapeIcs(current.SUMMARY?.value || '');
+      let league = unescapeIcs(current.CATEGORIES?.value.split(',')[0] || '');
+      const prefixed = summary.match(/^([^:]+):\s+(.+)$/);
+      if (prefixed && splitMatchTitle(prefixed[2])) {
+        league = league || prefixed[1];
+        summary = prefixed[2];
+      }
+      const teams = splitMatchTitle(summary);
+      if (!when || !teams) {
+        skipped++;
+        return;
+      }
+      fixtures.push(buildFixture({ ...when, league: league || calendarName, ...teams }, source, index));
+      return;
+    }
+
+    if (!event && key === 'X-WR-CALNAME') calendarName = unescapeIcs(value);
+    if (event) {
+      const params = Object.fromEntries(paramParts.map(p => {
+        const [k, v = ''] = p.split('=');
+        return [k.toUpperCase(), v.replace(/^"|"$/g, '')];
+      }));
+      event[key] = { value, params };
+    }
+  });
+
+  return { fixtures, skipped };
+};
+
+// ---------- JSON ----------
+
+const JSON_PATHS = {
+  home: ['home', 'homeTeam', 'home_team', 'teams.home', 'strHomeTeam', 'HomeTeam'],
+  away: ['away', 'awayTeam', 'away_team', 'teams.away', 'strAwayTeam', 'AwayTeam'],
+  league: ['league', 'competition', 'tournament', 'strLeague', 'Div'],
+  when: ['kickoff', 'datetime', 'utcDate', 'startTime', 'start', 'fixture.date', 'date', 'dateEvent', 'Date'],
+  time: ['time', 'strTime', 'Time'],
+  title: ['match', 'name', 'title', 'summary', 'strEvent']
+};
+
+const LIST_KEYS = ['fixtures', 'matches', 'events', 'games', 'response', 'data'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Valor de um caminho "a.b"; objetos com `name` (ex.: { name: "Arsenal" }) viram o nome
+const readPath = (item: Record<string, unknown>, paths: string[]): string => {
+  for (const path of paths) {
+    const value = path.split('.').reduce<unknown>((obj, key) => (isRecord(obj) ? obj[key] : undefined), item);
+    const text = isRecord(value) ? value.name ?? value.shortName : value;
+    if ((typeof text === 'string' && text.trim()) || typeof text === 'number') return String(text);
+  }
+  return '';
+};
+
+const findFixtureList = (root: unknown): unknown[] | null => {
+  if (Array.isArray(root)) return root;
+  if (isRecord(root)) {
+    for (const key of LIST_KEYS) {
+      const value = root[key];
+      if (Array.isArray(value)) return value;
+    }
+  }
+  return null;
+};
+
+/**
+ * Aceita uma lista de jogos na raiz ou em `fixtures`/`matches`/`events`/…,
+ * com nomes de campos comuns em APIs e exportações de calendário.
+ */
+export const parseFixtureJson = (text: string, source: string, index: NameIndex): FixtureImportResult => {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new Error(t('fixtures.invalidJson'));
+  }
+  const list = findFixtureList(root);
+  if (!list) throw new Error(t('fixtures.noList'));
+
+  const fixtures: Fixture[] = [];
+  let skipped = 0;
+  list.forEach(item => {
+    if (!isRecord(item)) {
+      skipped++;
+      return;
+    }
+    const teams = readPath(item, JSON_PATHS.home) && readPath(item, JSON_PATHS.away)
+      ? { home: readPath(item, JSON_PATHS.home), away: readPath(item, JSON_PATHS.away) }
+      : splitMatchTitle(readPath(item, JSON_PATHS.title));
+    const when = parseDateTimeValue(readPath(item, JSON_PATHS.when));
+    if (!teams || !when) {
+      skipped++;
+      return;
+    }
+    const time = when.time || parseKickoffTime(readPath(item, JSON_PATHS.time)) || '';
+    fixtures.push(buildFixture({ ...when, time, league: readPath(item, JSON_PATHS.league), ...teams }, source, index));
+  });
+
+  return { fixtures, skipped };
+};
+
+// ---------- CSV ----------
+
+const CSV_HEADERS: Record<'date' | 'time' | 'league' | 'home' | 'away' | 'match', string[]> = {
+  date: ['date', 'data', 'datetime', 'kickoff', 'dia'],
+  time: ['time', 'hora', 'horario'],
+  league: ['league', 'liga', 'competition', 'campeonato', 'competicao', 'div'],
+  home: ['home', 'hometeam', 'home team', 'mandante', 'casa'],
+  away: ['away', 'awayteam', 'away team', 'visitante', 'fora'],
+  match: ['match', 'jogo', 'confronto', 'partida', 'event', 'evento']
+};
+
+export const parseFixtureCsv = (text: string, source: string, index: NameIndex): FixtureImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) throw new Error(t('fixtures.csvEmpty'));
+
+  const normalized = header.map(h => h.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim());
+  const column = (field: keyof typeof CSV_HEADERS) => normalized.findIndex(h => CSV_HEADERS[field].includes(h));
+  const cols = { date: column('date'), time: column('time'), league: column('league'), home: column('home'), away: column('away'), match: column('match') };
+  if (cols.date < 0 || ((cols.home < 0 || cols.away < 0) && cols.match < 0)) {
+    throw new Error(t('fixtures.csvColumns'));
+  }
+
+  const cell = (row: string[], col: number) => (col >= 0 ? (row[col] ?? '').trim() : '');
+  const dateFormat = detectFormat(rows.map(r => splitDateTime(cell(r, cols.date)).date), DATE_FORMATS);
+
+  const fixtures: Fixture[] = [];
+  let skipped = 0;
+  rows.forEach(row => {
+    const { date: rawDate, time: embeddedTime } = splitDateTime(cell(row, cols.date));
+    const parsed = parseWith(rawDate, [dateFormat, ...DATE_FORMATS]);
+    const teams = cols.home >= 0 && cols.away >= 0 && cell(row, cols.home) && cell(row, cols.away)
+      ? { home: cell(row, cols.home), away: cell(row, cols.away) }
+      : splitMatchTitle(cell(row, cols.match));
+    if (!parsed || !teams) {
+      skipped++;
+      return;
+    }
+    const time = parseKickoffTime(cell(row, cols.time) || embeddedTime) || '';
+    fixtures.push(buildFixture({ date: format(parsed, 'yyyy-MM-dd'), time, league: cell(row, cols.league), ...teams }, source, index));
+  });
+
+  return { fixtures, skipped };
+};
+
+/** Escolhe o leitor pela extensão (ou pelo conteúdo, para arquivos sem extensão conhecida). */
+export const parseFixtureFile = (fileName: string, text: string, index: NameIndex): FixtureImportResult => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.ics') || /^\s*BEGIN:VCALENDAR/i.test(text)) return parseIcs(text, fileName, index);
+  if (name.endsWith('.json') || /^\s*[[{]/.test(text)) return parseFixtureJson(text, fileName, index);
+  return parseFixtureCsv(text, fileName, index);
+};
+
+/** Junta fixtures novos aos existentes; o mesmo jogo reimportado substitui o anterior. */
+export const mergeFixtures = (current: Fixture[], incoming: Fixture[]) => {
+  const byId = new Map(current.map(f => [f.id, f]));
+  incoming.forEach(f => byId.set(f.id, f));
+  return Array.from(byId.values()).sort((a, b) => (a.date + a.time).localeCompare(b.date + b.time));
+};
+
+/**
+ * Converte o fixture em jogo do planner. Instantes em UTC são reescritos no
+ * fuso do usuário; os demais mantêm o fuso de origem, como se digitados nele.
+ */
+export const fixtureToGame = (fixture: Fixture, settings: TimeSettings): { date: string; game: GameEntry } => {
+  let { date, time } = fixture;
+  let timeZone = fixture.timeZone;
+  if (time && timeZone === 'UTC') {
+    ({ date, time } = formatInZone(zonedTimeToUtc(date, time, 'UTC'), settings.timeZone));
+    timeZone = settings.timeZone;
+  }
+
+  const game = normalizeKickoff({
+    ...createNewGame(),
+    time,
+    ...(timeZone ? { timeZone } : {}),
+    league: fixture.league,
+    match: formatMatch(fixture.home, fixture.away)
+  }, date, settings);
+
+  return { date: localKickoff(game, date, settings)?.date ?? date, game };
+};
+
+/** Data e horário do fixture no fuso do usuário, para a lista do seletor. */
+export const fixtureLocalSlot = (fixture: Fixture, settings: TimeSettings) => {
+  const { date, game } = fixtureToGame(fixture, settings);
+  return { date, time: localKickoff(game, date, settings)?.time ?? '' };
+};
+
+/** Jogo do fixture já está no dia (mesmo confronto, ignorando grafia)? */
+export const isFixtureInPlan = (fixture: Fixture, data: AppData, date: string) => {
+  const key = matchKey(formatMatch(fixture.home, fixture.away));
+  return (data[date]?.games || []).some(g => matchKey(g.match) === key);
+};
+
+export const addFixtureToPlan = (data: AppData, fixture: Fixture, settings: TimeSettings): AppData => {
+  const { date, game } = fixtureToGame(fixture, settings);
+  const plan = appendGames(data[date], date, [game]);
+  return { ...data, [date]: { ...plan, games: sortByKickoff(plan.games, date, settings) } };
+};
+
+export const loadFixtures = (): Fixture[] => {
+  try {
+    const saved = localStorage.getItem(FIXTURES_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Falha ao carregar jogos importados do LocalStorage", e);
+    return [];
+  }
+};
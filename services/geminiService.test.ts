@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AISettings, DayPlan } from '../types';
+import { AIAnalysisError, buildRetrospectiveInput } from './analysisProvider';
+import { createGeminiProvider } from './geminiService';
+import { selectLanguage } from './i18n';
+import { createNewGame } from './planner';
+
+// Cliente do Gemini substituído: cada teste define a resposta de generateContent
+const client = vi.hoisted(() => ({ options: [] as unknown[], generateContent: vi.fn() }));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent: client.generateContent };
+    constructor(options: unknown) {
+      client.options.push(options);
+    }
+  }
+}));
+
+const SETTINGS: AISettings = { provider: 'gemini', model: 'gemini-test', temperature: 0.4, apiKey: 'chave-teste' };
+
+const PLAN: DayPlan = {
+  date: '2026-03-10',
+  games: [
+    { ...createNewGame(), id: 'g1', time: '21:30', league: 'Brasileirão', match: 'Flamengo x Vasco', market: 'Resultado', selection: 'Casa', odds: 1.85 },
+    createNewGame()
+  ]
+};
+
+const ANALYSIS = {
+  summary: 'Clássico equilibrado.',
+  confidence: 62,
+  advice: 'Stake reduzida.',
+  games: [{ gameId: 'g1', risk: 'medium', confidence: 58, stakeFraction: 0.02, reasoning: 'Mandante em boa fase.' }]
+};
+
+const lastRequest = () => client.generateContent.mock.calls.at(-1)![0];
+
+beforeEach(() => {
+  client.options.length = 0;
+  client.generateContent.mockReset();
+});
+
+afterEach(() => {
+  selectLanguage('pt-BR');
+  vi.restoreAllMocks();
+});
+
+describe('createGeminiProvider', () => {
+  it('envia os jogos do dia com o modelo, a temperatura e o schema configurados', async () => {
+    client.generateContent.mockResolvedValue({ text: JSON.stringify(ANALYSIS) });
+    const result = await createGeminiProvider(SETTINGS).analyzeDay(PLAN);
+
+    expect(result).toEqual(ANALYSIS);
+    expect(client.options).toEqual([{ apiKey: 'chave-teste' }]);
+    const request = lastRequest();
+    expect(request.model).toBe('gemini-test');
+    expect(request.config).toMatchObject({ temperature: 0.4, responseMimeType: 'application/json' });
+    expect(request.config.responseSchema.required).toEqual(['summary', 'confidence', 'advice', 'games']);
+    expect(request.contents).toContain('[id=g1] 21:30: Flamengo x Vasco (Brasileirão) — Resultado: Casa @ 1.85');
+    expect(request.contents).toContain('português do Brasil');
+  });
+
+  it('pede a resposta no idioma da interface', async () => {
+    client.generateContent.mockResolvedValue({ text: JSON.stringify(ANALYSIS) });
+    selectLanguage('es');
+    await createGeminiProvider(SETTINGS).analyzeDay(PLAN);
+    expect(lastRequest().contents).toContain('español');
+  });
+
+  it('converte falhas do cliente em erro de requisição', async () => {
+    const failure = new Error('503');
+    client.generateContent.mockRejectedValue(failure);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const error = await createGeminiProvider(SETTINGS).analyzeDay(PLAN).catch(e => e);
+    expect(error).toBeInstanceOf(AIAnalysisError);
+    expect(error).toMatchObject({ code: 'request', cause: failure });
+  });
+
+  it('rejeita respostas vazias, fora do JSON ou com jogos desconhecidos', async () => {
+    const provider = createGeminiProvider(SETTINGS);
+
+    client.generateContent.mockResolvedValue({ text: '' });
+    await expect(provider.analyzeDay(PLAN)).rejects.toMatchObject({ code: 'empty_response' });
+
+    client.generateContent.mockResolvedValue({ text: 'não é JSON' });
+    await expect(provider.analyzeDay(PLAN)).rejects.toMatchObject({ code: 'parse' });
+
+    client.generateContent.mockResolvedValue({ text: JSON.stringify({ ...ANALYSIS, games: [{ ...ANALYSIS.games[0], gameId: 'outro' }] }) });
+    await expect(provider.analyzeDay(PLAN)).rejects.toMatchObject({ code: 'validation' });
+  });
+
+  it('revisa um período com o schema da retrospectiva', async () => {
+    const review = { summary: 'Semana negativa.', leaks: [{ dimension: 'league', name: 'Brasileirão', reason: 'Odds baixas.' }], patterns: [], adjustments: ['Evitar favoritos.'] };
+    client.generateContent.mockResolvedValue({ text: JSON.stringify(review) });
+    const settled = { ...PLAN, games: [{ ...PLAN.games[0], stake: 10, status: 'loss' as const, profit: -10 }] };
+
+    const result = await createGeminiProvider(SETTINGS).reviewPeriod(buildRetrospectiveInput({ [PLAN.date]: settled }, '2026-03-09', '2026-03-15', 1000));
+    expect(result).toEqual(review);
+    expect(lastRequest().config.responseSchema.required).toEqual(['summary', 'leaks', 'patterns', 'adjustments']);
+    expect(lastRequest().contents).toContain('Flamengo x Vasco');
+  });
+});
@@ -1,29 +1,141 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { DayPlan } from "../types";
-
-export const analyzeDayPicks = async (dayPlan: DayPlan): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || "" });
-  
-  const gamesText = dayPlan.games
-    .filter(g => g.match && g.league)
-    .map(g => `- ${g.time}: ${g.match} (${g.league})`)
-    .join('\n');
+import { AISettings, DayPlan } from "../types";
+import {
+  AIAnalysisError,
+  AnalysisProvider,
+  RISK_RATINGS,
+  RetrospectiveInput,
+  analyzableGames,
+  parseAnalysisResponse,
+  parseRetrospectiveResponse
+} from "./analysisProvider";
+import { aiLanguageName, t } from "./i18n";
 
-  if (!gamesText) return "Adicione jogos para receber uma análise da IA.";
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Resumo curto sobre a dificuldade dos confrontos do dia." },
+    confidence: { type: Type.NUMBER, description: "Confiança geral no dia, de 0 a 100." },
+    advice: { type: Type.STRING, description: "Dica estratégica curta para o dia." },
+    games: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          gameId: { type: Type.STRING, description: "O id exato informado para o jogo." },
+          risk: { type: Type.STRING, enum: RISK_RATINGS },
+          confidence: { type: Type.NUMBER, description: "Confiança na seleção, de 0 a 100." },
+          stakeFraction: { type: Type.NUMBER, description: "Fração da banca sugerida, de 0 a 0.1." },
+          reasoning: { type: Type.STRING, description: "Justificativa em uma ou duas frases." }
+        },
+        required: ['gameId', 'risk', 'confidence', 'stakeFraction', 'reasoning']
+      }
+    }
+  },
+  required: ['summary', 'confidence', 'advice', 'games']
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Analise estes jogos de apostas para o dia ${dayPlan.date}:\n${gamesText}\nForneça um resumo rápido sobre a dificuldade dos confrontos e uma dica estratégica curta.`,
-      config: {
-        temperature: 0.7,
+const retrospectiveSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Balanço curto do período." },
+    leaks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dimension: { type: Type.STRING, enum: ['league', 'market'] },
+          name: { type: Type.STRING, description: "Nome exato da liga ou do mercado." },
+          reason: { type: Type.STRING, description: "Por que está perdendo dinheiro, em uma frase." }
+        },
+        required: ['dimension', 'name', 'reason']
       }
-    });
+    },
+    patterns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Padrões nos palpites perdidos." },
+    adjustments: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ajustes concretos para os próximos dias." }
+  },
+  required: ['summary', 'leaks', 'patterns', 'adjustments']
+};
+
+// Instrução final dos prompts: a resposta vem no idioma escolhido pelo usuário
+const respondIn = () => t('ai.respondIn', { language: aiLanguageName() });
+
+const breakdownText = (rows: RetrospectiveInput['leagues']) =>
+  rows
+    .map(r => t('ai.reviewRow', { label: r.label, bets: r.bets, hitRate: r.hitRate.toFixed(0), profit: r.profit.toFixed(2), yield: r.yield.toFixed(1) }))
+    .join('\n');
+
+const buildRetrospectivePrompt = (input: RetrospectiveInput) => {
+  const picksText = input.picks
+    .map(({ date, game }) => t('ai.reviewPick', {
+      date,
+      match: game.match,
+      league: game.league || t('ai.noLeague'),
+      pick: [game.market, game.selection].filter(Boolean).join(': ') || t('ai.noMarket'),
+      odds: game.odds.toFixed(2),
+      stake: game.stake.toFixed(2),
+      status: t(`status.${game.status}`).toLowerCase(),
+      profit: (game.profit ?? 0).toFixed(2)
+    }))
+    .join('\n');
+
+  const prompt = t('ai.reviewPrompt', {
+    from: input.from,
+    to: input.to,
+    bets: input.stats.bets,
+    wins: input.stats.wins,
+    losses: input.stats.losses,
+    voids: input.stats.voids,
+    profit: input.stats.profit.toFixed(2),
+    yield: input.stats.yield.toFixed(1),
+    leagues: breakdownText(input.leagues),
+    markets: breakdownText(input.markets),
+    picks: picksText
+  });
+  return `${prompt} ${respondIn()}`;
+};
+
+const buildPrompt = (dayPlan: DayPlan) => {
+  const gamesText = analyzableGames(dayPlan)
+    .map(g => {
+      const pick = [g.market, g.selection].filter(Boolean).join(': ');
+      const odds = g.odds > 0 ? ` @ ${g.odds.toFixed(2)}` : '';
+      return `- [id=${g.id}] ${g.time}: ${g.match} (${g.league})${pick ? ` — ${pick}${odds}` : odds}`;
+    })
+    .join('\n');
+
+  return `${t('ai.dayPrompt', { date: dayPlan.date, games: gamesText })} ${respondIn()}`;
+};
+
+export const createGeminiProvider = (settings: AISettings): AnalysisProvider => {
+  const generate = async (contents: string, responseSchema: object) => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY || "" });
+    try {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents,
+        config: {
+          temperature: settings.temperature,
+          responseMimeType: "application/json",
+          responseSchema
+        }
+      });
+      return response.text;
+    } catch (error) {
+      console.error("Gemini Analysis Error:", error);
+      throw new AIAnalysisError('request', t('ai.requestError'), error);
+    }
+  };
+
+  return {
+    cacheKey: `gemini:${settings.model}:${settings.temperature}`,
+
+    analyzeDay: async (dayPlan) => {
+      const knownIds = new Set(analyzableGames(dayPlan).map(g => g.id));
+      return parseAnalysisResponse(await generate(buildPrompt(dayPlan), analysisSchema), knownIds);
+    },
 
-    return response.text || "Não foi possível gerar análise no momento.";
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return "Erro ao conectar com a inteligência artificial.";
-  }
+    reviewPeriod: async (input) =>
+      parseRetrospectiveResponse(await generate(buildRetrospectivePrompt(input), retrospectiveSchema))
+  };
 };
@@ -0,0 +1,41 @@
+import { DayPlan, SyncSettings } from "../types";
+import { t } from "./i18n";
+import { PullResponse, PushResponse, SyncError, SyncTransport } from "./syncTransport";
+
+/** Transporte para o servidor de server/sync-server.mjs. */
+export const createHttpSyncTransport = (settings: SyncSettings): SyncTransport => {
+  const base = settings.serverUrl.trim().replace(/\/+$/, '');
+  if (!/^https?:\/\//.test(base)) throw new SyncError('config', t('sync.invalidUrl'));
+  if (!/^[\w-]{1,64}$/.test(settings.space)) throw new SyncError('config', t('sync.invalidSpace'));
+
+  const root = `${base}/sync/${encodeURIComponent(settings.space)}`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers });
+    } catch (e) {
+      throw new SyncError('network', t('sync.unreachable'), e);
+    }
+    if (response.status === 401) throw new SyncError('auth', t('sync.unauthorized'));
+    if (!response.ok && response.status !== 409) {
+      throw new SyncError('server', t('sync.serverStatus', { status: response.status }));
+    }
+    return response;
+  };
+
+  return {
+    async pull(since: number): Promise<PullResponse> {
+      const response = await request(`${root}/changes?since=${since}`);
+      return response.json();
+    },
+
+    async push(date: string, baseRev: number, plan: DayPlan | null): Promise<PushResponse> {
+      const response = await request(`${root}/days/${date}`, { method: 'PUT', body: JSON.stringify({ baseRev, plan }) });
+      const body = await response.json();
+      return response.status === 409 ? { ok: false, current: body } : { ok: true, rev: body.rev, seq: body.seq };
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import { Locale, format, parseISO } from 'date-fns';
+import { enGB, es as esLocale, ptBR } from 'date-fns/locale';
+import { Language } from "../types";
+import { Catalog, TranslationKey, ptBRCatalog } from "./locales/ptBR";
+import { enCatalog } from "./locales/en";
+import { esCatalog } from "./locales/es";
+
+interface LanguageProfile {
+  label: string;
+  catalog: Catalog;
+  dateLocale: Locale;
+  numberLocale: string;
+  weekStartsOn: 0 | 1;   // domingo no Brasil; segunda na Espanha e no Reino Unido
+  aiLanguage: string;    // nome do idioma usado nas instruções para a IA
+}
+
+const PROFILES: Record<Language, LanguageProfile> = {
+  'pt-BR': { label: 'Português (Brasil)', catalog: ptBRCatalog, dateLocale: ptBR, numberLocale: 'pt-BR', weekStartsOn: 0, aiLanguage: 'português do Brasil' },
+  en: { label: 'English (UK)', catalog: enCatalog, dateLocale: enGB, numberLocale: 'en-GB', weekStartsOn: 1, aiLanguage: 'British English' },
+  es: { label: 'Español', catalog: esCatalog, dateLocale: esLocale, numberLocale: 'es-ES', weekStartsOn: 1, aiLanguage: 'español' }
+};
+
+export const LANGUAGES = (Object.keys(PROFILES) as Language[]).map(id => ({ id, label: PROFILES[id].label }));
+
+export const isLanguage = (value: unknown): value is Language => typeof value === 'string' && value in PROFILES;
+
+/** Idioma inicial pelo navegador: espanhol e inglês quando for o caso, senão português. */
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator !== 'undefined' ? navigator.language.toLowerCase() : '';
+  if (preferred.startsWith('es')) return 'es';
+  if (preferred.startsWith('en')) return 'en';
+  return 'pt-BR';
+};
+
+// Idioma ativo. Como o armazenamento do perfil, é um estado do módulo: o App
+// seleciona o idioma a cada render, antes de qualquer filho formatar texto.
+let active: Language = 'pt-BR';
+
+export const selectLanguage = (language: Language) => {
+  active = language;
+};
+
+export const currentLanguage = () => active;
+
+/** Texto traduzido; `{nome}` no catálogo é trocado pelo parâmetro de mesmo nome. */
+export const t = (key: TranslationKey, params: Record<string, string | number> = {}) => translate(active, key, params);
+
+/** Como `t`, num idioma fixo: para textos criados antes de as configurações carregarem. */
+export const translate = (language: Language, key: TranslationKey, params: Record<string, string | number> = {}) =>
+  PROFILES[language].catalog[key].replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+
+export const dateLocale = () => PROFILES[active].dateLocale;
+
+export const numberLocale = () => PROFILES[active].numberLocale;
+
+export const weekStartsOn = () => PROFILES[active].weekStartsOn;
+
+const toDate = (date: Date | string) => (typeof date === 'string' ? parseISO(date) : date);
+
+/** Dia e mês no formato do idioma (10/03, 10 Mar). */
+export const formatDayMonth = (date: Date | string) => format(toDate(date), t('date.short'), { locale: dateLocale() });
+
+/** Data completa no formato do idioma (token `P` do date-fns). */
+export const formatDate = (date: Date | string) => format(toDate(date), 'P', { locale: dateLocale() });
+
+export const aiLanguageName = () => PROFILES[active].aiLanguage;
@@ -0,0 +1,342 @@
+import { AppData, DayPlan, Snapshot, SnapshotMeta, SnapshotReason } from "../types";
+import { t } from "./i18n";
+import { SyncState } from "./sync";
+import { SCHEMA_VERSION, STORAGE_KEY, loadAppData, parseStoredData, saveAppData } from "./storage";
+import { DEFAULT_PROFILE_ID, profileKey } from "./profiles";
+
+const DB_NAME = 'bet_planner_pro';
+const DB_VERSION = 2;
+const DAYS_STORE = 'days';
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_META_STORE = 'snapshot_meta';
+const META_STORE = 'meta';
+const BY_REASON_INDEX = 'reason_createdAt';
+
+const SYNC_STATE_KEY = 'bet_planner_pro_sync';
+
+// Quantos snapshots de cada motivo são mantidos; os mais antigos saem primeiro
+const SNAPSHOT_LIMITS: Record<SnapshotReason, number> = {
+  auto: 10,
+  manual: 20,
+  migration: 1,
+  'pre-import': 5,
+  'pre-restore': 5
+};
+const SNAPSHOTS_KEPT_ON_QUOTA = 2;
+const AUTO_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000; // no máximo um snapshot automático por hora
+
+export class StorageQuotaError extends Error {
+  constructor(cause?: unknown) {
+    super(t('snapshots.quota'));
+    this.name = 'StorageQuotaError';
+    this.cause = cause;
+  }
+}
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Cada perfil tem seu próprio banco; o perfil padrão mantém o nome original
+const databaseName = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}__${profileId}`;
+
+let activeProfileId = DEFAULT_PROFILE_ID;
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/** Aponta o armazenamento para o perfil; chamar antes de carregar o planner dele. */
+export const selectProfileStorage = (profileId: string) => {
+  activeProfileId = profileId;
+};
+
+const openDatabase = (profileId = activeProfileId) => {
+  const name = databaseName(profileId);
+  let dbPromise = connections.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(DAYS_STORE, { keyPath: 'date' });
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+          db.createObjectStore(META_STORE);
+        }
+        if (event.oldVersion < 2) {
+          // v2: metadados dos snapshots em store próprio, para listar sem ler os dados
+          const metas = db.createObjectStore(SNAPSHOT_META_STORE, { keyPath: 'id' });
+          metas.createIndex(BY_REASON_INDEX, ['reason', 'createdAt']);
+          if (event.oldVersion >= 1) {
+            request.transaction!.objectStore(SNAPSHOTS_STORE).openCursor().onsuccess = e => {
+              const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+              if (!cursor) return;
+              metas.put(snapshotMeta(cursor.value));
+              cursor.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    connections.set(name, dbPromise);
+  }
+  return dbPromise;
+};
+
+/** Executa uma transação e converte erro de cota em StorageQuotaError. */
+const runTransaction = async (
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+) => {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(stores, mode);
+    work(tx);
+    await transactionDone(tx);
+  } catch (error) {
+    throw isQuotaError(error) ? new StorageQuotaError(error) : error;
+  }
+};
+
+const countGames = (data: AppData) =>
+  Object.values(data).reduce((sum, plan) => sum + plan.games.filter(g => g.match).length, 0);
+
+const readAllDays = async (profileId = activeProfileId): Promise<AppData> => {
+  const db = await openDatabase(profileId);
+  const tx = db.transaction([DAYS_STORE, META_STORE], 'readonly');
+  const [plans, version] = await Promise.all([
+    promisify(tx.objectStore(DAYS_STORE).getAll() as IDBRequest<DayPlan[]>),
+    promisify(tx.objectStore(META_STORE).get('schemaVersion') as IDBRequest<number | undefined>)
+  ]);
+
+  const raw = Object.fromEntries(plans.map(plan => [plan.date, plan]));
+  const report = parseStoredData({ version: version ?? SCHEMA_VERSION, data: raw });
+  if (report.rejected.length > 0) {
+    console.warn("Entradas descartadas ao carregar o IndexedDB", report.rejected);
+  }
+  return report.data;
+};
+
+const writeAllDays = (data: AppData) =>
+  runTransaction([DAYS_STORE, META_STORE], 'readwrite', tx => {
+    const days = tx.objectStore(DAYS_STORE);
+    days.clear();
+    Object.values(data).forEach(plan => days.put(plan));
+    tx.objectStore(META_STORE).put(SCHEMA_VERSION, 'schemaVersion');
+  });
+
+const snapshotMeta = ({ id, createdAt, reason, dayCount, gameCount }: SnapshotMeta): SnapshotMeta =>
+  ({ id, createdAt, reason, dayCount, gameCount });
+
+/** Snapshots do mais recente ao mais antigo; lê só os metadados, nunca os dados. */
+export const listSnapshots = async (): Promise<SnapshotMeta[]> => {
+  const db = await openDatabase();
+  const metas = await promisify(
+    db.transaction(SNAPSHOT_META_STORE, 'readonly').objectStore(SNAPSHOT_META_STORE).getAll() as IDBRequest<SnapshotMeta[]>
+  );
+  return metas.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/** Snapshot mais recente de um motivo, pelo índice (motivo, data). */
+const latestSnapshot = async (reason: SnapshotReason): Promise<SnapshotMeta | null> => {
+  const db = await openDatabase();
+  const index = db.transaction(SNAPSHOT_META_STORE, 'readonly').objectStore(SNAPSHOT_META_STORE).index(BY_REASON_INDEX);
+  const cursor = await promisify(index.openCursor(IDBKeyRange.bound([reason, ''], [reason, '\uffff']), 'prev'));
+  return cursor ? (cursor.value as SnapshotMeta) : null;
+};
+
+const deleteSnapshots = (ids: string[]) =>
+  runTransaction([SNAPSHOTS_STORE, SNAPSHOT_META_STORE], 'readwrite', tx => {
+    const snapshots = tx.objectStore(SNAPSHOTS_STORE);
+    const metas = tx.objectStore(SNAPSHOT_META_STORE);
+    ids.forEach(id => {
+      snapshots.delete(id);
+      metas.delete(id);
+    });
+  });
+
+export const deleteSnapshot = (id: string) => deleteSnapshots([id]);
+
+/** Mantém só os snapshots mais recentes do motivo, conforme SNAPSHOT_LIMITS. */
+const pruneSnapshots = async (reason: SnapshotReason) => {
+  const excess = (await listSnapshots()).filter(s => s.reason === reason).slice(SNAPSHOT_LIMITS[reason]).map(s => s.id);
+  if (excess.length > 0) await deleteSnapshots(excess);
+};
+
+/** Sem espaço: descarta os snapshots mais antigos, de qualquer motivo. */
+const pruneOldestSnapshots = async (keep = SNAPSHOTS_KEPT_ON_QUOTA) => {
+  const excess = (await listSnapshots()).slice(keep).map(s => s.id);
+  if (excess.length > 0) await deleteSnapshots(excess);
+};
+
+export const createSnapshot = async (data: AppData, reason: SnapshotReason): Promise<SnapshotMeta> => {
+  const snapshot: Snapshot = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    reason,
+    version: SCHEMA_VERSION,
+    dayCount: Object.keys(data).length,
+    gameCount: countGames(data),
+    data
+  };
+  const meta = snapshotMeta(snapshot);
+  const write = () =>
+    runTransaction([SNAPSHOTS_STORE, SNAPSHOT_META_STORE], 'readwrite', tx => {
+      tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+      tx.objectStore(SNAPSHOT_META_STORE).put(meta);
+    });
+
+  try {
+    await write();
+  } catch (error) {
+    if (!(error instanceof StorageQuotaError)) throw error;
+    await pruneOldestSnapshots();
+    await write();
+  }
+  await pruneSnapshots(reason);
+  return meta;
+};
+
+export const loadSnapshot = async (id: string): Promise<AppData> => {
+  const db = await openDatabase();
+  const snapshot = await promisify(
+    db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).get(id) as IDBRequest<Snapshot | undefined>
+  );
+  if (!snapshot) throw new Error(t('snapshots.notFound'));
+  return parseStoredData({ version: snapshot.version, data: snapshot.data }).data;
+};
+
+/**
+ * Carrega o planner. Na primeira execução com IndexedDB, migra os dados que
+ * estavam no localStorage (guardando um snapshot deles) e libera a chave antiga.
+ */
+export const loadPlannerData = async (): Promise<AppData> => {
+  if (!isIndexedDbAvailable()) return loadAppData(profileKey(STORAGE_KEY, activeProfileId));
+
+  const db = await openDatabase();
+  const migrated = await promisify(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('migratedFromLocalStorage') as IDBRequest<boolean | undefined>
+  );
+
+  if (!migrated) {
+    // Só o perfil padrão herda os dados antigos do localStorage
+    const legacy = activeProfileId === DEFAULT_PROFILE_ID ? loadAppData() : {};
+    if (Object.keys(legacy).length > 0) {
+      await writeAllDays(legacy);
+      await createSnapshot(legacy, 'migration');
+    }
+    await runTransaction([META_STORE], 'readwrite', tx => tx.objectStore(META_STORE).put(true, 'migratedFromLocalStorage'));
+    if (activeProfileId === DEFAULT_PROFILE_ID) localStorage.removeItem(STORAGE_KEY);
+    return legacy;
+  }
+
+  return readAllDays();
+};
+
+/** Dados de outro perfil, somente leitura (comparação entre perfis). */
+export const readProfileData = async (profileId: string): Promise<AppData> => {
+  if (!isIndexedDbAvailable()) return loadAppData(profileKey(STORAGE_KEY, profileId));
+  return readAllDays(profileId);
+};
+
+/** Apaga o banco de um perfil excluído (dias e snapshots). */
+export const deleteProfileDatabase = async (profileId: string) => {
+  if (!isIndexedDbAvailable()) {
+    localStorage.removeItem(profileKey(STORAGE_KEY, profileId));
+    return;
+  }
+  const name = databaseName(profileId);
+  const open = connections.get(name);
+  if (open) {
+    (await open).close();
+    connections.delete(name);
+  }
+  await promisify(indexedDB.deleteDatabase(name));
+};
+
+/**
+ * Grava apenas os dias que mudaram desde `previous` (comparação por referência,
+ * já que o estado é atualizado de forma imutável) e remove os dias excluídos.
+ */
+export const persistChanges = async (previous: AppData, next: AppData) => {
+  if (!isIndexedDbAvailable()) {
+    try {
+      saveAppData(next, profileKey(STORAGE_KEY, activeProfileId));
+    } catch (error) {
+      throw isQuotaError(error) ? new StorageQuotaError(error) : error;
+    }
+    return;
+  }
+
+  const changed = Object.values(next).filter(plan => previous[plan.date] !== plan);
+  const removed = Object.keys(previous).filter(date => !(date in next));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const write = () =>
+    runTransaction([DAYS_STORE, META_STORE], 'readwrite', tx => {
+      const days = tx.objectStore(DAYS_STORE);
+      changed.forEach(plan => days.put(plan));
+      removed.forEach(date => days.delete(date));
+      tx.objectStore(META_STORE).put(SCHEMA_VERSION, 'schemaVersion');
+    });
+
+  try {
+    await write();
+  } catch (error) {
+    if (!(error instanceof StorageQuotaError)) throw error;
+    // Sem espaço: descarta os snapshots mais antigos e tenta uma vez mais
+    await pruneOldestSnapshots();
+    await write();
+  }
+};
+
+/** Cria um snapshot automático se o último tiver mais de uma hora. */
+export const maybeAutoSnapshot = async (data: AppData) => {
+  if (!isIndexedDbAvailable() || Object.keys(data).length === 0) return;
+  const last = await latestSnapshot('auto');
+  if (last && Date.now() - new Date(last.createdAt).getTime() < AUTO_SNAPSHOT_INTERVAL_MS) return;
+  await createSnapshot(data, 'auto');
+};
+
+/** Estado da sincronização do perfil ativo (revisões e cópia base dos dias). */
+export const loadSyncState = async (): Promise<SyncState | null> => {
+  if (!isIndexedDbAvailable()) {
+    const saved = localStorage.getItem(profileKey(SYNC_STATE_KEY, activeProfileId));
+    return saved ? JSON.parse(saved) : null;
+  }
+  const db = await openDatabase();
+  const state = await promisify(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('syncState') as IDBRequest<SyncState | undefined>
+  );
+  return state ?? null;
+};
+
+export const saveSyncState = async (state: SyncState) => {
+  if (!isIndexedDbAvailable()) {
+    localStorage.setItem(profileKey(SYNC_STATE_KEY, activeProfileId), JSON.stringify(state));
+    return;
+  }
+  await runTransaction([META_STORE], 'readwrite', tx => tx.objectStore(META_STORE).put(state, 'syncState'));
+};
+
+export const estimateStorageUsage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,189 @@
+import { AppData, GameEntry, TimeSettings } from "../types";
+
+/** Fusos oferecidos nos seletores; outros podem vir de backups ou importações. */
+export const COMMON_TIME_ZONES = [
+  'America/Sao_Paulo',
+  'America/Argentina/Buenos_Aires',
+  'America/Mexico_City',
+  'America/New_York',
+  'Europe/London',
+  'Europe/Lisbon',
+  'Europe/Madrid',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Istanbul',
+  'Asia/Riyadh',
+  'Asia/Shanghai',
+  'Asia/Seoul',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'UTC'
+];
+
+export const isValidTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_TIME_SETTINGS: TimeSettings = { timeZone: localTimeZone(), leagueTimeZones: {} };
+
+/** "America/Sao_Paulo" -> "Sao Paulo" */
+export const timeZoneLabel = (zone: string) => zone.split('/').pop()!.replace(/_/g, ' ');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Interpreta o horário digitado e devolve "HH:mm", ou null se não for válido.
+ * Aceita "21:45", "21h45", "21h", "21.45", "2145", "9" e "9pm".
+ */
+export const parseKickoffTime = (input: string): string | null => {
+  const value = input.trim().toLowerCase().replace(/\s+/g, '');
+  if (!value) return null;
+
+  const meridiem = value.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)$/);
+  if (meridiem) {
+    const hours = parseInt(meridiem[1], 10);
+    if (hours < 1 || hours > 12) return null;
+    const h24 = (hours % 12) + (meridiem[3] === 'pm' ? 12 : 0);
+    const minutes = meridiem[2] ? parseInt(meridiem[2], 10) : 0;
+    return minutes < 60 ? `${pad(h24)}:${pad(minutes)}` : null;
+  }
+
+  const match = value.match(/^(\d{1,2})(?:[:h.](\d{2})?)?$/) || value.match(/^(\d{1,2})(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const zonedParts = (instant: Date, zone: string) => {
+  let formatter = partsFormatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    partsFormatters.set(zone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(p => [p.type, p.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+/** Data (YYYY-MM-DD) e horário (HH:mm) de um instante no fuso informado. */
+export const formatInZone = (instant: Date, zone: string) => zonedParts(instant, zone);
+
+const offsetMinutes = (instant: Date, zone: string) => {
+  const { date, time } = zonedParts(instant, zone);
+  const asUtc = Date.parse(`${date}T${time}:00Z`);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+};
+
+/** Converte data + horário de parede de um fuso para o instante UTC correspondente. */
+export const zonedTimeToUtc = (date: string, time: string, zone: string): Date => {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  // Duas passadas acertam o deslocamento nos dias de troca de horário de verão
+  let offset = offsetMinutes(new Date(wall), zone);
+  offset = offsetMinutes(new Date(wall - offset * 60000), zone);
+  return new Date(wall - offset * 60000);
+};
+
+/** Fuso em que o horário do jogo foi digitado: o do jogo, o da liga ou o do usuário. */
+export const effectiveTimeZone = (game: GameEntry, settings: TimeSettings) =>
+  game.timeZone || settings.leagueTimeZones[game.league.trim()] || settings.timeZone;
+
+/**
+ * Instante de início do jogo. Jogos antigos, sem `kickoffAt`, têm o horário
+ * interpretado na data do próprio dia.
+ */
+export const resolveKickoff = (game: GameEntry, planDate: string, settings: TimeSettings): Date | null => {
+  if (game.kickoffAt) return new Date(game.kickoffAt);
+  const time = parseKickoffTime(game.time);
+  return time ? zonedTimeToUtc(planDate, time, effectiveTimeZone(game, settings)) : null;
+};
+
+/** Data e horário do jogo no fuso do usuário. */
+export const localKickoff = (game: GameEntry, planDate: string, settings: TimeSettings) => {
+  const instant = resolveKickoff(game, planDate, settings);
+  return instant ? formatInZone(instant, settings.timeZone) : null;
+};
+
+/** Horário a exibir no fuso do usuário; texto livre quando não reconhecido. */
+export const displayKickoff = (game: GameEntry, planDate: string, settings: TimeSettings) =>
+  localKickoff(game, planDate, settings)?.time ?? game.time;
+
+/**
+ * Confirma o horário digitado: normaliza para "HH:mm" e recalcula `kickoffAt`.
+ * A data de origem é a do início anterior no fuso do jogo, para que editar o
+ * horário de um jogo que já cruzou a meia-noite não o empurre mais um dia.
+ * Retorna o mesmo objeto quando nada muda.
+ */
+export const normalizeKickoff = (
+  game: GameEntry,
+  planDate: string,
+  settings: TimeSettings,
+  previous: GameEntry = game
+): GameEntry => {
+  const time = parseKickoffTime(game.time);
+  if (!time) {
+    if (!game.kickoffAt) return game;
+    const { kickoffAt, ...rest } = game;
+    return rest;
+  }
+
+  const sourceDate = previous.kickoffAt
+    ? formatInZone(new Date(previous.kickoffAt), effectiveTimeZone(previous, settings)).date
+    : planDate;
+  const kickoffAt = zonedTimeToUtc(sourceDate, time, effectiveTimeZone(game, settings)).toISOString();
+
+  return time === game.time && kickoffAt === game.kickoffAt ? game : { ...game, time, kickoffAt };
+};
+
+/** Ordena cronologicamente; jogos sem horário válido ficam no fim, na ordem atual. */
+export const sortByKickoff = (games: GameEntry[], planDate: string, settings: TimeSettings): GameEntry[] => {
+  const keyed = games.map((game, index) => ({ game, index, at: resolveKickoff(game, planDate, settings)?.getTime() ?? Infinity }));
+  const sorted = [...keyed].sort((a, b) => a.at - b.at || a.index - b.index);
+  return sorted.every((entry, i) => entry.index === i) ? games : sorted.map(entry => entry.game);
+};
+
+/**
+ * Move para o dia certo (no fuso do usuário) os jogos cujo início cruzou a
+ * meia-noite, reordenando os dias afetados. Retorna `data` se nada mudou.
+ */
+export const placeByKickoff = (data: AppData, settings: TimeSettings): AppData => {
+  const moves: { from: string; to: string; game: GameEntry }[] = [];
+
+  Object.values(data).forEach(plan => {
+    plan.games.forEach(game => {
+      if (!game.kickoffAt) return;
+      const { date } = formatInZone(new Date(game.kickoffAt), settings.timeZone);
+      if (date !== plan.date) moves.push({ from: plan.date, to: date, game });
+    });
+  });
+  if (moves.length === 0) return data;
+
+  const next: AppData = { ...data };
+  moves.forEach(({ from, to, game }) => {
+    next[from] = { ...next[from], games: next[from].games.filter(g => g.id !== game.id) };
+    const target = next[to] || { date: to, games: [] };
+    next[to] = { ...target, games: [...target.games, game] };
+  });
+
+  new Set(moves.flatMap(m => [m.from, m.to])).forEach(date => {
+    next[date] = { ...next[date], games: sortByKickoff(next[date].games, date, settings) };
+  });
+  return next;
+};
@@ -0,0 +1,639 @@
+import { Catalog } from "./ptBR";
+
+export const enCatalog: Catalog = {
+  // Cabeçalho e ações gerais
+  'app.tagline': 'Professional Bankroll Management and Data Intelligence',
+  'app.bankroll': 'Bankroll',
+  'app.bankrollTitle': 'Set starting bankroll',
+  'app.bankrollPrompt': 'Starting bankroll:',
+  'app.bankrollInvalid': 'Invalid bankroll amount.',
+  'app.unsettled': '{count} pick(s) from previous days without a result',
+  'app.offline': 'Offline',
+  'app.offlineQueued': '{count} AI request(s) waiting for a connection',
+  'app.offlineSaved': 'No connection: your changes are kept on this device',
+  'app.install': 'Install',
+  'app.installTitle': 'Install the app on this device',
+  'app.sync': 'Sync',
+  'app.syncFailed': 'Sync failed',
+  'app.search': 'Search',
+  'app.searchTitle': 'Search the whole history (Ctrl+K)',
+  'app.stats': 'Performance',
+  'app.statsTitle': 'Performance statistics',
+  'app.export': 'Export',
+  'app.exportTitle': 'Export JSON backup',
+  'app.csv': 'CSV',
+  'app.csvTitle': 'Export games as CSV',
+  'app.import': 'Import',
+  'app.importTitle': 'Import JSON backup or CSV spreadsheet',
+  'app.snapshots': 'Snapshots',
+  'app.snapshotsTitle': 'Automatic snapshots',
+  'app.settings': 'Settings',
+  'app.save': 'Save Planner',
+  'app.saving': 'Saving...',
+  'app.saved': 'Saved!',
+
+  // Ações comuns
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.allLeagues': 'All leagues',
+
+  // Erros e confirmações
+  'app.saveError': 'Failed to save your data.',
+  'app.saveErrorDetail': 'Failed to save: {message}',
+  'app.switchProfileError': 'Failed to save your data; profile switch cancelled.',
+  'app.removeProfileError': 'Failed to delete the profile.',
+  'app.exportError': 'Failed to generate the export file.',
+  'app.csvExportError': 'Failed to generate the CSV file.',
+  'app.csvEmpty': 'The CSV has no data rows.',
+  'app.backupInvalid': 'Invalid backup file.',
+  'app.snapshotFailedConfirm': 'Could not store a snapshot of the current data. Import anyway?',
+  'app.backupRestored': 'Backup restored successfully!',
+  'app.backupMerged': 'Backup merged successfully!',
+  'app.clearDayConfirm': 'Clear all games on this day?',
+
+  // Rótulos do histórico de alterações
+  'history.recurring': 'Recurring rules',
+  'history.adjustTimeZone': 'Adjust time zone',
+  'history.setStatus': '{game}: {status}',
+  'history.editField': 'Edit {field} — {game}',
+  'history.editTimeZone': 'Edit time zone — {game}',
+  'history.confirmKickoff': 'Confirm kick-off — {game}',
+  'history.addGame': 'Add game on {day}',
+  'history.removeGame': 'Remove {game}',
+  'history.clearDay': 'Clear {day}',
+  'history.createSlip': 'Create slip {name}',
+  'history.removeSlip': 'Remove slip {name}',
+  'history.editSlipStake': 'Edit stake — {name}',
+  'history.applyTemplate': 'Apply template {name} on {day}',
+  'history.copyDay': 'Copy {day} to {count} day(s)',
+  'history.addFixture': 'Add {match}',
+  'history.replaceBackup': 'Replace with backup {file}',
+  'history.mergeBackup': 'Merge backup {file}',
+  'history.importCsv': 'Import CSV {file}',
+  'history.restoreSnapshot': 'Restore snapshot',
+
+  // Campos do jogo (rótulos do histórico)
+  'field.time': 'kick-off',
+  'field.league': 'league',
+  'field.match': 'match',
+  'field.market': 'market',
+  'field.selection': 'selection',
+  'field.bookmaker': 'bookmaker',
+  'field.stake': 'stake',
+  'field.odds': 'odds',
+  'field.notes': 'notes',
+  'field.probability': 'probability',
+  'field.tipster': 'tipster',
+  'field.tags': 'tags',
+  'field.confidence': 'confidence',
+  'field.closingOdds': 'closing odds',
+
+  // Status
+  'status.pending': 'Pending',
+  'status.win': 'Won',
+  'status.loss': 'Lost',
+  'status.void': 'Void',
+  'status.half_win': 'Half won',
+  'status.half_loss': 'Half lost',
+
+  // Calendário
+  'view.month': 'Month',
+  'view.week': 'Week',
+  'view.agenda': 'Agenda',
+  'view.today': 'Today',
+  'calendar.todayLabel': 'Today, {date}',
+  'calendar.more': '+ {count} MORE',
+  'calendar.games': '{count} Games',
+  'calendar.until': 'to',
+  'date.dayMonth': "d MMMM",
+  'date.short': 'd MMM',
+  'agenda.pendingOnly': 'Pending only',
+  'agenda.empty': 'No picks in this range.',
+  'agenda.emptyPending': 'No pending picks in this range.',
+  'agenda.dayHeader': "EEEE dd/MM",
+  'agenda.dayGames': '{count} game(s)',
+  'today.live': 'In play',
+  'today.upcoming': 'Up next',
+  'today.unscheduled': 'No kick-off time',
+  'today.done': 'Finished',
+  'today.empty': 'No games planned for today.',
+  'today.inMinutes': 'in {minutes} min',
+  'today.inHours': 'in {hours}h{minutes}',
+
+  // Painel do dia
+  'day.agenda': 'Slate',
+  'day.planner': 'Daily Planner',
+  'day.fixtures': 'Fixtures',
+  'day.templates': 'Templates and recurrence',
+  'day.copy': 'Copy day to…',
+  'day.share': 'Share',
+  'day.clear': 'Clear day',
+  'day.riskLimits': 'Risk limits',
+  'day.addGame': 'ADD NEW GAME',
+  'game.number': 'Game #{number}',
+  'game.badge': 'GAME #{number}',
+  'game.fallback': 'game',
+  'game.void': 'Void (stake returned)',
+  'game.addToSlip': 'Add to accumulator slip',
+  'game.time': 'Kick-off',
+  'game.timeZoneTitle': 'Time zone of the typed kick-off',
+  'game.defaultTimeZone': 'Default zone ({zone})',
+  'game.invalidTime': 'Invalid time (use 21:45)',
+  'game.inYourZone': '{time} in your time zone',
+  'game.league': 'League',
+  'game.leaguePlaceholder': 'Comp.',
+  'game.match': 'Match',
+  'game.matchPlaceholder': 'Team A vs Team B',
+  'game.tagsPlaceholder': 'derby, value, rotation...',
+  'game.removeTag': 'Remove tag',
+  'game.market': 'Market',
+  'game.marketPlaceholder': 'Match result',
+  'game.selection': 'Selection',
+  'game.selectionPlaceholder': 'Home',
+  'game.stake': 'Stake',
+  'game.odds': 'Odds',
+  'game.bookmaker': 'Bookmaker',
+  'game.probability': 'Estimated probability (%)',
+  'game.impliedProbability': 'Implied {percent}%',
+  'game.useSuggestion': 'Use the stake suggested by your plan',
+  'game.suggested': 'Suggested: {value}',
+  'game.tipster': 'Tipster',
+  'game.tags': 'Tags',
+  'game.confidence': 'Confidence',
+  'game.clearConfidence': 'Clear confidence',
+  'game.confidenceLevel': 'Confidence {level} of 5',
+  'game.closingOdds': 'Closing odds',
+  'game.clvTitle': 'CLV: odds taken over closing odds',
+  'game.notes': 'Notes',
+  'game.notesPlaceholder': 'Line-ups, reason for the bet...',
+  'game.halfSettled': 'Half settled ✓',
+  'game.markHalf': 'Mark as half',
+  'game.result': 'Result',
+  'slip.fallback': 'slip',
+
+  // IA
+  'ai.insights': 'BetMaster AI Insights',
+  'ai.cached': '(cached)',
+  'ai.analyze': 'ANALYSE WITH AI',
+  'ai.review': 'Review results',
+  'ai.queued': 'No connection: this day\'s analysis is queued and will run when you are back online.',
+  'ai.failed': 'Analysis failed. Check your connection.',
+  'ai.requestError': 'Could not connect to the AI service.',
+  'ai.noGames': 'Add games to get an AI analysis.',
+  'ai.noSettled': 'No settled bets in this period to review.',
+  'ai.dayPrompt': 'Analyse these betting picks for {date}:\n{games}\n' +
+    'For each game, assess the risk, your confidence and the recommended bankroll fraction, using the given id. ' +
+    'Also provide a short summary of how difficult the fixtures are and a brief strategic tip.',
+  'ai.reviewPrompt': 'Write a retrospective review of the settled bets from {from} to {to}.\n' +
+    'Result: {bets} bets, {wins} won, {losses} lost, {voids} void, profit {profit}, yield {yield}%.\n' +
+    'By league:\n{leagues}\nBy market:\n{markets}\nBets:\n{picks}\n' +
+    'Point out the leagues and markets that are losing money (use the exact names), patterns in the lost picks ' +
+    '(odds ranges, stakes, kick-off times, selection types) and concrete adjustments for the coming days.',
+  'ai.reviewRow': '- {label}: {bets} bet(s), hit rate {hitRate}%, profit {profit}, yield {yield}%',
+  'ai.reviewPick': '- {date} {match} ({league}) — {pick} @ {odds}, stake {stake}, {status}, profit {profit}',
+  'ai.noLeague': 'no league',
+  'ai.noMarket': 'no market',
+  'ai.respondIn': 'Respond in {language}.',
+  'mock.reasoning': 'Reference odds of {odds} imply a {probability}% probability; {risk} risk.',
+  'mock.risk.low': 'low',
+  'mock.risk.medium': 'medium',
+  'mock.risk.high': 'high',
+  'mock.summary': '{count} game(s) analysed locally, {highRisk} high risk.',
+  'mock.adviceRisky': 'Risky slate: reduce your stakes or drop the highest-odds selections.',
+  'mock.adviceBalanced': 'Balanced slate: stick to your planned bankroll management.',
+  'mock.leakReason': '{bets} bet(s), {hitRate}% hit rate and {yield}% yield.',
+  'mock.patternOdds': 'Losing bets have average odds of {lossOdds}, well above the winners ({winOdds}).',
+  'mock.adjustOdds': 'Avoid selections above {winOdds} until your hit rate on them improves.',
+  'mock.patternStake': 'The average stake on losing bets ({lossStake}) is higher than on winners ({winStake}).',
+  'mock.adjustStake': 'Standardise your stakes: your highest-confidence bets are not paying off more.',
+  'mock.noPattern': 'No clear odds or stake pattern between winners and losers in this period.',
+  'mock.pauseLeague': 'Reduce or pause the league {name}.',
+  'mock.pauseMarket': 'Reduce or pause the market {name}.',
+  'mock.keepGoing': 'Keep your current management and review again next period.',
+  'mock.reviewSummary': '{bets} bet(s) reviewed locally: {wins} won, {losses} lost and {yield}% yield.',
+
+  // Compartilhamento
+  'share.title': 'Share',
+  'share.format.whatsapp': 'WhatsApp',
+  'share.format.telegram': 'Telegram',
+  'share.format.discord': 'Discord',
+  'share.format.plain': 'Plain text',
+  'share.format.image': 'PNG image',
+  'share.scope.picks': 'Today\'s picks',
+  'share.scope.day': 'Day recap',
+  'share.scope.week': 'Week recap',
+  'share.period': '{from} to {to}',
+  'share.toBeDefined': 'TBC',
+  'share.resultLabel': 'Result:',
+  'share.summary': 'Summary',
+  'share.pending': '{count} pending',
+  'share.goodLuck': 'Good luck!',
+  'share.score': '{wins} won · {losses} lost',
+  'share.scoreVoids': ' · {voids} void',
+  'share.rates': 'Hit rate {hitRate}% · Yield {yield}',
+  'share.staked': 'Staked {value} · ',
+  'share.noGamesImage': 'No games in this period.',
+  'share.noGames': 'No games filled in for this period.',
+  'share.canvasUnavailable': 'Canvas is not available in this browser.',
+  'share.imageFailed': 'Failed to generate the image.',
+  'share.copyImageUnsupported': 'This browser cannot copy images; use Download.',
+  'share.shared': 'Shared!',
+  'share.copied': 'Copied to the clipboard.',
+  'share.downloaded': 'Image downloaded.',
+  'share.failed': 'Could not share.',
+  'share.showOdds': 'Odds',
+  'share.showStakes': 'Stakes and amounts',
+  'share.showResults': 'Results',
+  'share.generating': 'Generating image…',
+  'share.copyImage': 'Copy image',
+  'share.share': 'Share',
+  'share.downloadPng': 'Download PNG',
+  'share.copy': 'Copy',
+
+  // Estatísticas
+  'stats.weekOf': 'Week of {date}',
+  'stats.noLeague': 'No league',
+  'stats.noMarket': 'No market',
+  'stats.noTag': 'No tag',
+  'stats.noConfidence': 'Not rated',
+  'stats.tab.month': 'Monthly',
+  'stats.tab.week': 'Weekly',
+  'stats.tab.league': 'Leagues',
+  'stats.tab.market': 'Markets',
+  'stats.tab.tipster': 'Tipsters',
+  'stats.tab.clv': 'CLV',
+  'stats.column.month': 'Month',
+  'stats.column.week': 'Week',
+  'stats.column.tag': 'Tag',
+  'stats.curveEmpty': 'Settle more bets to see the profit curve.',
+  'stats.filterPrompt': 'Filter name:',
+  'stats.profit': 'Profit',
+  'stats.roi': 'ROI',
+  'stats.yield': 'Yield',
+  'stats.hitRate': 'Hit rate',
+  'stats.bets': 'Bets',
+  'stats.record': '{wins}W · {losses}L · {voids}V',
+  'stats.volume': 'Turnover',
+  'stats.exportCsvTitle': 'Export the filtered games to CSV',
+  'stats.savedFilters': 'Saved filters…',
+  'stats.clearSearch': 'Clear search and status',
+  'stats.saveFilter': 'Save filter',
+  'stats.from': 'From',
+  'stats.to': 'To',
+  'stats.allLeagues': 'All',
+  'stats.allMarkets': 'All',
+  'stats.curve': 'Profit curve',
+  'stats.longestWinStreak': 'Longest winning streak',
+  'stats.longestLossStreak': 'Longest losing streak',
+  'stats.settledBets': 'Settled bets',
+  'stats.clvEmpty': 'Enter the closing odds of your games to measure CLV.',
+  'stats.withClosing': 'With closing odds',
+  'stats.averageClv': 'Average CLV',
+  'stats.beatClosing': 'Beat the close',
+  'stats.empty': 'No settled bets for the selected filters.',
+  'stats.streaks': 'Streak W/L',
+
+  // Gestão de stake
+  'staking.flat': 'Fixed unit',
+  'staking.flatDescription': 'Always the same amount per bet.',
+  'staking.percent': '% of bankroll',
+  'staking.percentDescription': 'Share of the current bankroll; grows and shrinks with it.',
+  'staking.kelly': 'Fractional Kelly',
+  'staking.kellyDescription': 'From the odds and your estimated probability.',
+  'staking.recovery': 'Recovery',
+  'staking.recoveryDescription': 'Recovers the losing streak, capped in units.',
+  'staking.oneUnit': '1 unit',
+  'staking.percentReason': '{percent}% of bankroll',
+  'staking.noValue': 'No value: the odds do not cover the estimated probability',
+  'staking.kellyReason': 'Kelly ×{fraction}: {percent}% of bankroll',
+  'staking.nothingToRecover': 'No losses to recover',
+  'staking.unitNeedsOdds': '1 unit (enter the odds to recover)',
+  'staking.recoveryCapped': 'Recovery capped at {units} units',
+  'staking.recoveryReason': 'Recovers {amount} from {count} loss(es)',
+  'staking.capped': '{reason} (capped at {percent}% of bankroll)',
+  'guardrail.stake': '{match}: {stake} exceeds the {percent}% per-bet limit ({limit}).',
+  'guardrail.exposure': 'The day\'s exposure is {exposure}, above the {percent}% bankroll limit ({limit}).',
+  'guardrail.streak': '{count} losses in a row ({lost}). Time to pause or reduce your stakes.',
+
+  // Bilhetes múltiplos
+  'slip.preset.acca': 'Accumulator',
+  'slip.preset.2of3': '2 from 3 system',
+  'slip.preset.trixie': 'Trixie',
+  'slip.preset.patent': 'Patent',
+  'slip.preset.2of4': '2 from 4 system',
+  'slip.preset.3of4': '3 from 4 system',
+  'slip.preset.yankee': 'Yankee',
+  'slip.preset.lucky15': 'Lucky 15',
+  'slip.double': 'Double',
+  'slip.treble': 'Treble',
+  'slip.fourfold': 'Fourfold',
+  'slip.multiple': '{legs}-fold',
+  'slip.statsLeague': 'Multiples',
+  'slip.legs': '{count} legs',
+  'slip.building': 'Building slip · {count} leg(s)',
+  'slip.removedGame': 'Removed game',
+  'slip.totalStake': 'Total stake',
+  'slip.draftSummary': '{bets} bet(s) · total odds {odds}',
+  'slip.draftReturn': ' · max. return {value}',
+  'slip.create': 'Create slip',
+  'slip.needTwoGames': 'Select at least 2 games to build a slip.',
+  'slip.summary': '{bets} bet(s) · odds {odds}',
+  'slip.maxReturn': 'Max. return',
+
+  // Lembretes e modelos
+  'reminder.kickoff': '⚽ {match} in {minutes} min',
+  'reminder.nag': '⏳ {count} pick(s) without a result',
+  'weekday.sun': 'Sun',
+  'weekday.mon': 'Mon',
+  'weekday.tue': 'Tue',
+  'weekday.wed': 'Wed',
+  'weekday.thu': 'Thu',
+  'weekday.fri': 'Fri',
+  'weekday.sat': 'Sat',
+  'search.noFilters': 'No filters',
+
+  // Sincronização
+  'history.resolveConflict': 'Resolve sync conflict',
+  'sync.unexpected': 'Unexpected sync failure.',
+  'sync.invalidUrl': 'Enter the server address (http://...).',
+  'sync.invalidSpace': 'Invalid space name: use letters, numbers, - or _.',
+  'sync.unreachable': 'Sync server unreachable.',
+  'sync.unauthorized': 'Sync token rejected by the server.',
+  'sync.serverStatus': 'Sync server responded {status}.',
+  'sync.deleted': 'Deleted',
+  'sync.slipSummary': '{name} · {count} selections · {stake}',
+  'sync.noMatch': 'No match',
+  'sync.syncing': 'Syncing…',
+  'sync.lastSynced': 'Last synced at {time}',
+  'sync.notYet': 'Not synced yet this session',
+  'sync.now': 'Sync now',
+  'sync.noConflicts': 'No pending conflicts.',
+  'sync.conflictsHint': 'These entries were changed on two devices. This device\'s version was kept until you choose.',
+  'sync.kind.game': 'Game',
+  'sync.kind.slip': 'Slip',
+  'sync.thisDevice': 'This device',
+  'sync.server': 'Server',
+  'sync.keepMine': 'Keep mine',
+  'sync.useServer': 'Use the server\'s',
+
+  // Validação da resposta da IA
+  'ai.invalidGame': 'Game #{number} in the analysis is invalid: {reason}',
+  'ai.invalid.notObject': 'not an object',
+  'ai.invalid.unknownId': 'unknown id "{id}"',
+  'ai.invalid.risk': 'risk "{risk}"',
+  'ai.invalid.confidence': 'confidence outside 0–100',
+  'ai.invalid.stakeFraction': 'stake fraction outside 0–1',
+  'ai.invalid.reasoning': 'missing reasoning',
+  'ai.emptyResponse': 'The AI returned an empty response.',
+  'ai.invalidJson': 'The AI response is not valid JSON.',
+  'ai.notObject': 'The AI response is not an object.',
+  'ai.missingSummary': 'Summary or advice missing from the AI response.',
+  'ai.invalidConfidence': 'Overall confidence outside 0–100.',
+  'ai.missingGames': 'Game list missing from the AI response.',
+  'ai.invalidLeak': 'Leak #{number} in the review is invalid.',
+  'ai.missingReviewSummary': 'Summary missing from the AI review.',
+  'ai.missingLeaks': 'Leak list missing from the AI review.',
+  'ai.missingPatterns': 'Patterns or adjustments missing from the AI review.',
+
+  // Backup e importação
+  'backup.newerVersion': 'Backup created by a newer version of the app (v{version}).',
+  'backup.noPlannerData': 'The file does not contain planner data.',
+  'import.replaceConfirm': 'Replace ALL current data with this backup? You can revert it with Undo.',
+  'import.title': 'Import backup',
+  'import.accepted': '{games} valid game(s) across {days} day(s)',
+  'import.converted': 'Format v{from} converted automatically to v{to}.',
+  'import.rejected': '{count} entry(ies) rejected',
+  'import.rejectedGame': ' · game #{number}',
+  'import.more': '+ {count} more',
+  'import.merge': 'Merge',
+  'import.mergeHint': 'Adds to the current history; games with the same id are updated.',
+  'import.replace': 'Replace',
+  'import.replaceHint': 'Erases the current data and keeps only the backup.',
+  'csv.title': 'Import CSV',
+  'csv.lines': '{file} · {count} line(s)',
+  'csv.field.date': 'Date',
+  'csv.field.confidence': 'Confidence (1–5)',
+  'csv.column': 'Column {number}',
+  'csv.dateFormat': 'Date format',
+  'csv.timeFormat': 'Time format',
+  'csv.mapMissing': 'Map: {fields}',
+  'csv.preview': 'Preview',
+  'csv.new': '{count} new',
+  'csv.duplicates': '{count} duplicate(s)',
+  'csv.errors': '{count} with errors',
+  'csv.line': 'Line',
+  'csv.hour': 'Time',
+  'csv.state': 'Status',
+  'csv.duplicate': 'duplicate',
+  'csv.ok': 'ok',
+  'csv.moreLines': '+ {count} lines',
+  'csv.includeDuplicates': 'Also import duplicates',
+  'csv.back': 'Back',
+  'csv.import': 'Import {count} game(s)',
+  'reject.invalidDate': 'invalid date',
+  'reject.noGameList': 'day without a game list',
+  'reject.duplicateId': 'duplicate id in the day',
+  'reject.gameNotObject': 'game is not an object',
+  'reject.missingId': 'missing id',
+  'reject.invalidField': 'invalid "{field}" field',
+  'reject.unknownStatus': 'unknown status "{status}"',
+  'reject.invalidStake': 'invalid stake',
+  'reject.invalidOdds': 'invalid odds',
+  'reject.unknownTimeZone': 'unknown time zone "{zone}"',
+  'reject.invalidNotes': 'invalid notes',
+  'reject.invalidTipster': 'invalid tipster',
+  'reject.invalidProbability': 'invalid probability',
+  'reject.invalidTags': 'invalid tags',
+  'reject.invalidConfidence': 'invalid confidence',
+  'reject.invalidClosingOdds': 'invalid closing odds',
+  'reject.invalidKickoff': 'invalid kickoff (kickoffAt)',
+  'reject.slipNotObject': 'slip is not an object',
+  'reject.slipMissingId': 'slip without an id',
+  'reject.slipMissingName': 'slip without a name',
+  'reject.slipInvalidLegs': 'slip with invalid legs',
+  'reject.slipInvalidSizes': 'slip with invalid combinations',
+  'reject.slipInvalidStake': 'invalid slip stake',
+  'csv.reject.date': 'unrecognised date "{value}"',
+  'csv.reject.emptyMatch': 'empty fixture',
+  'csv.reject.time': 'unrecognised time "{value}"',
+  'csv.reject.stake': 'invalid stake "{value}"',
+  'csv.reject.odds': 'invalid odds "{value}"',
+  'csv.reject.status': 'unknown result "{value}"',
+  'csv.reject.confidence': 'confidence "{value}" outside 1–5',
+  'csv.reject.closingOdds': 'invalid closing odds "{value}"',
+
+  // Análise por jogo
+  'analysis.risk.low': 'Low risk',
+  'analysis.risk.medium': 'Medium risk',
+  'analysis.risk.high': 'High risk',
+  'analysis.confidence': 'Confidence {percent}%',
+  'analysis.stake': 'Stake {percent}%',
+
+  // Modelos e recorrência
+  'templates.deleteConfirm': 'This template is used by {count} rule(s), which will also be deleted. Continue?',
+  'templates.ruleFallback': 'Rule',
+  'templates.everyWeekday': 'every {days}',
+  'templates.extraDates': '{count} one-off date(s)',
+  'templates.dayTemplates': 'Day templates',
+  'templates.empty': 'No templates saved yet.',
+  'templates.noGames': 'no games',
+  'templates.applyTo': 'Apply to {date}',
+  'templates.selectDay': 'Select a day',
+  'templates.namePlaceholder': 'Template name ({count} game(s) from {date})',
+  'templates.saveDay': 'Save day',
+  'templates.since': '{rule} · from {date}',
+  'templates.until': ' until {date}',
+  'templates.active': 'Active',
+  'templates.ruleNamePlaceholder': 'Name (e.g. PL weekend)',
+  'templates.extraDatesLabel': 'One-off dates (e.g. Champions League matchdays)',
+  'templates.start': 'Start',
+  'templates.end': 'End (optional)',
+  'templates.saveRule': 'Save rule',
+  'templates.newRule': 'New rule',
+  'templates.saveTemplateFirst': '(save a template first)',
+
+  // Revisão do período
+  'review.scope.day': 'Day',
+  'review.scope.custom': 'Period',
+  'review.failed': 'Review failed. Check your connection.',
+  'review.title': 'Period review',
+  'review.reviewing': 'Reviewing…',
+  'review.generate': 'Generate review',
+  'review.queued': 'No connection: {count} review(s) queued, generated when you are back online.',
+  'review.stats': '{bets} bets · {wins}W/{losses}L · ',
+  'review.yield': ' · yield {yield}%',
+  'review.leaks': 'Where you are losing',
+  'review.dimension.league': 'league',
+  'review.dimension.market': 'market',
+  'review.patterns': 'Patterns in losses',
+  'review.adjustments': 'Adjustments',
+  'review.previous': 'Previous reviews',
+  'review.empty': 'No reviews saved yet.',
+  'review.createdAt': ' · generated on {date}',
+  'review.delete': 'Delete review',
+
+  // Perfis e histórico
+  'profile.newPrompt': 'Name of the new profile (tipster or bankroll):',
+  'profile.renamePrompt': 'New profile name:',
+  'profile.removeConfirm': 'Delete the profile "{name}" with all its games, bankroll and settings? This cannot be undone.',
+  'profile.switch': 'Switch profile',
+  'profile.profiles': 'Profiles',
+  'profile.rename': 'Rename',
+  'profile.switchBeforeRemove': 'Switch profile before deleting',
+  'profile.remove': 'Delete profile',
+  'profile.new': 'New profile',
+  'profile.compare': 'Compare profiles',
+  'profile.sortBy': 'Sort by',
+  'profile.loading': 'Loading profiles…',
+  'profile.noBets': 'No settled bets in this period.',
+  'profile.profile': 'Profile',
+  'profile.defaultName': 'Main',
+  'profile.record': 'W/L/V',
+  'profile.compareHint': 'Picks without a tipster count for the profile owner. Amounts are shown in the active profile\'s currency.',
+  'historyMenu.undo': 'Undo: {label} (Ctrl+Z)',
+  'historyMenu.nothingToUndo': 'Nothing to undo',
+  'historyMenu.redo': 'Redo: {label} (Ctrl+Shift+Z)',
+  'historyMenu.nothingToRedo': 'Nothing to redo',
+  'historyMenu.recent': 'Recent actions',
+  'historyMenu.undoUntil': 'Undo back to before this action',
+
+  // Snapshots, busca e cópia de dias
+  'snapshots.reason.auto': 'Automatic',
+  'snapshots.reason.manual': 'Manual',
+  'snapshots.reason.migration': 'Migration',
+  'snapshots.reason.preImport': 'Before import',
+  'snapshots.reason.preRestore': 'Before restore',
+  'snapshots.failed': 'Could not access the snapshots.',
+  'snapshots.restoreConfirm': 'Restore the snapshot from {when}? The current state will be saved first.',
+  'snapshots.unsupported': 'This browser does not support IndexedDB; snapshots are unavailable.',
+  'snapshots.usage': '{used} of {quota}',
+  'snapshots.create': 'Create now',
+  'snapshots.empty': 'No snapshots yet.',
+  'snapshots.counts': '{days} days · {games} games',
+  'snapshots.restore': 'Restore',
+  'snapshots.quota': 'Not enough storage space in the browser.',
+  'snapshots.notFound': 'Snapshot not found.',
+  'search.title': 'Search picks',
+  'search.placeholder': 'Team, league, selection or note',
+  'search.filterName': 'Filter name:',
+  'search.deleteFilter': 'Delete filter',
+  'search.hint': 'Type or pick a filter',
+  'search.results': '{count} result(s)',
+  'search.saveFilter': 'Save filter',
+  'copy.title': 'Copy {date}',
+  'copy.summary': '{count} game(s) will be copied as new pending entries, without results.',
+  'copy.tomorrow': 'Tomorrow',
+  'copy.nextWeek': 'Next week',
+  'copy.nextFourWeeks': 'Next 4 weeks',
+  'copy.confirm': 'Copy to {count} day(s)',
+
+  // Tabela de jogos
+  'fixtures.scope.day': 'Selected day',
+  'fixtures.scope.week': 'Next 7 days',
+  'fixtures.scope.all': 'All',
+  'fixtures.loaded': '{file}: {count} game(s)',
+  'fixtures.skipped': ', {count} skipped',
+  'fixtures.invalidFile': 'invalid file',
+  'fixtures.load': 'Load .ics / .json / .csv',
+  'fixtures.removeFile': 'Remove file',
+  'fixtures.empty': 'Load an .ics calendar published by the league or a list of games in JSON/CSV. Files are read locally, without internet.',
+  'fixtures.searchTeam': 'Search team',
+  'fixtures.noMatches': 'No games match this filter.',
+  'fixtures.added': 'Already in the planner',
+  'fixtures.add': 'Add to day',
+  'fixtures.invalidJson': 'Invalid JSON.',
+  'fixtures.noList': 'JSON does not contain a list of games.',
+  'fixtures.csvEmpty': 'CSV has no data rows.',
+  'fixtures.csvColumns': 'A fixtures CSV needs date and home/away (or match) columns.',
+
+  // Configurações
+  'settings.language': 'Language',
+  'settings.languageHint': 'Applies to the interface, dates, amounts and AI responses. Weeks start on Sunday in Portuguese and on Monday in English and Spanish.',
+  'settings.ai': 'AI analysis',
+  'settings.provider.gemini': 'Google Gemini',
+  'settings.provider.geminiHint': 'Remote analysis with the configured model.',
+  'settings.provider.mock': 'Local (offline)',
+  'settings.provider.mockHint': 'Deterministic analysis based on the odds, without internet.',
+  'settings.model': 'Model',
+  'settings.temperature': 'Temperature',
+  'settings.apiKey': 'API key',
+  'settings.apiKeyPlaceholder': 'Use the environment key',
+  'settings.clearCache': 'Clear analysis cache',
+  'settings.cacheCleared': 'Analysis cache cleared.',
+  'settings.times': 'Times',
+  'settings.myTimeZone': 'My time zone (display)',
+  'settings.leagueTimeZones': 'Default time zone per league',
+  'settings.leaguePlaceholder': 'League (e.g. J-League)',
+  'settings.leagueTimeZonesHint': 'Times typed without their own zone use the league\'s; without a registered league, yours.',
+  'settings.staking': 'Staking',
+  'settings.unit': 'Unit',
+  'settings.percent': '% of bankroll',
+  'settings.kellyFraction': 'Kelly fraction',
+  'settings.fullKelly': 'Full Kelly',
+  'settings.recoveryCap': 'Cap (units)',
+  'settings.maxStake': 'Max per bet %',
+  'settings.maxDay': 'Max per day %',
+  'settings.lossStreak': 'Alert after losses',
+  'settings.noLimit': 'No limit',
+  'settings.off': 'Off',
+  'settings.stakingHint': 'Percentages are based on the current bankroll (initial + settled profit).',
+  'settings.reminders': 'Reminders',
+  'settings.kickoffReminder': 'Notify before kickoff',
+  'settings.minutes': '{minutes} min',
+  'settings.settleNag': 'Remind me of games without results',
+  'settings.notificationsUnsupported': 'This browser does not support notifications.',
+  'settings.notificationsBlocked': 'Notifications are blocked; allow them in the site permissions.',
+  'settings.notificationsHint': 'Notifications fire while the app is open or installed in the background.',
+  'settings.sync': 'Sync',
+  'settings.syncEnabled': 'Sync with your own server',
+  'settings.syncServer': 'Server',
+  'settings.syncSpace': 'Space',
+  'settings.syncAuto': 'Automatic',
+  'settings.syncManual': 'Manual only',
+  'settings.syncEvery': 'Every {minutes} min',
+  'settings.syncToken': 'Token (optional)',
+  'settings.syncTokenPlaceholder': 'Server SYNC_TOKEN',
+  'settings.syncRun': 'Run',
+  'settings.syncHint': 'on a computer on your network and use the same space on every device. Each profile syncs with the space configured in it.'
+};
@@ -0,0 +1,639 @@
+import { Catalog } from "./ptBR";
+
+export const esCatalog: Catalog = {
+  // Cabeçalho e ações gerais
+  'app.tagline': 'Gestión Profesional e Inteligencia de Datos',
+  'app.bankroll': 'Banca',
+  'app.bankrollTitle': 'Definir banca inicial',
+  'app.bankrollPrompt': 'Banca inicial:',
+  'app.bankrollInvalid': 'Importe de banca no válido.',
+  'app.unsettled': '{count} pronóstico(s) de días anteriores sin resultado',
+  'app.offline': 'Sin conexión',
+  'app.offlineQueued': '{count} petición(es) de IA esperando conexión',
+  'app.offlineSaved': 'Sin conexión: los cambios se guardan en este dispositivo',
+  'app.install': 'Instalar',
+  'app.installTitle': 'Instalar la app en este dispositivo',
+  'app.sync': 'Sincronización',
+  'app.syncFailed': 'Error de sincronización',
+  'app.search': 'Buscar',
+  'app.searchTitle': 'Buscar en todo el historial (Ctrl+K)',
+  'app.stats': 'Rendimiento',
+  'app.statsTitle': 'Estadísticas de rendimiento',
+  'app.export': 'Exportar',
+  'app.exportTitle': 'Exportar copia de seguridad JSON',
+  'app.csv': 'CSV',
+  'app.csvTitle': 'Exportar partidos en CSV',
+  'app.import': 'Importar',
+  'app.importTitle': 'Importar copia JSON u hoja CSV',
+  'app.snapshots': 'Instantáneas',
+  'app.snapshotsTitle': 'Instantáneas automáticas',
+  'app.settings': 'Ajustes',
+  'app.save': 'Guardar Planner',
+  'app.saving': 'Guardando...',
+  'app.saved': '¡Guardado!',
+
+  // Ações comuns
+  'common.cancel': 'Cancelar',
+  'common.delete': 'Eliminar',
+  'common.close': 'Cerrar',
+  'common.allLeagues': 'Todas las ligas',
+
+  // Erros e confirmações
+  'app.saveError': 'Error al guardar los datos.',
+  'app.saveErrorDetail': 'Error al guardar: {message}',
+  'app.switchProfileError': 'Error al guardar los datos; cambio de perfil cancelado.',
+  'app.removeProfileError': 'No se pudo eliminar el perfil.',
+  'app.exportError': 'No se pudo generar el archivo de exportación.',
+  'app.csvExportError': 'No se pudo generar el archivo CSV.',
+  'app.csvEmpty': 'El CSV no tiene filas de datos.',
+  'app.backupInvalid': 'Archivo de copia de seguridad no válido.',
+  'app.snapshotFailedConfirm': 'No se pudo guardar una instantánea de los datos actuales. ¿Importar de todos modos?',
+  'app.backupRestored': '¡Copia de seguridad restaurada!',
+  'app.backupMerged': '¡Copia de seguridad combinada!',
+  'app.clearDayConfirm': '¿Borrar todos los partidos de este día?',
+
+  // Rótulos do histórico de alterações
+  'history.recurring': 'Reglas recurrentes',
+  'history.adjustTimeZone': 'Ajustar zona horaria',
+  'history.setStatus': '{game}: {status}',
+  'history.editField': 'Editar {field} — {game}',
+  'history.editTimeZone': 'Editar zona horaria — {game}',
+  'history.confirmKickoff': 'Confirmar hora — {game}',
+  'history.addGame': 'Añadir partido el {day}',
+  'history.removeGame': 'Eliminar {game}',
+  'history.clearDay': 'Borrar {day}',
+  'history.createSlip': 'Crear boleto {name}',
+  'history.removeSlip': 'Eliminar boleto {name}',
+  'history.editSlipStake': 'Editar stake — {name}',
+  'history.applyTemplate': 'Aplicar plantilla {name} el {day}',
+  'history.copyDay': 'Copiar {day} a {count} día(s)',
+  'history.addFixture': 'Añadir {match}',
+  'history.replaceBackup': 'Sustituir por copia {file}',
+  'history.mergeBackup': 'Combinar copia {file}',
+  'history.importCsv': 'Importar CSV {file}',
+  'history.restoreSnapshot': 'Restaurar instantánea',
+
+  // Campos do jogo (rótulos do histórico)
+  'field.time': 'hora',
+  'field.league': 'liga',
+  'field.match': 'partido',
+  'field.market': 'mercado',
+  'field.selection': 'selección',
+  'field.bookmaker': 'casa',
+  'field.stake': 'stake',
+  'field.odds': 'cuota',
+  'field.notes': 'notas',
+  'field.probability': 'probabilidad',
+  'field.tipster': 'tipster',
+  'field.tags': 'etiquetas',
+  'field.confidence': 'confianza',
+  'field.closingOdds': 'cuota de cierre',
+
+  // Status
+  'status.pending': 'Pendiente',
+  'status.win': 'Ganada',
+  'status.loss': 'Perdida',
+  'status.void': 'Nula',
+  'status.half_win': 'Media ganada',
+  'status.half_loss': 'Media perdida',
+
+  // Calendário
+  'view.month': 'Mes',
+  'view.week': 'Semana',
+  'view.agenda': 'Agenda',
+  'view.today': 'Hoy',
+  'calendar.todayLabel': 'Hoy, {date}',
+  'calendar.more': '+ {count} MÁS',
+  'calendar.games': '{count} Partidos',
+  'calendar.until': 'a',
+  'date.dayMonth': "d 'de' MMMM",
+  'date.short': 'dd/MM',
+  'agenda.pendingOnly': 'Solo pendientes',
+  'agenda.empty': 'Ningún pronóstico en este intervalo.',
+  'agenda.emptyPending': 'Ningún pronóstico pendiente en este intervalo.',
+  'agenda.dayHeader': "EEEE, dd/MM",
+  'agenda.dayGames': '{count} partido(s)',
+  'today.live': 'En juego',
+  'today.upcoming': 'Próximos',
+  'today.unscheduled': 'Sin hora',
+  'today.done': 'Terminados',
+  'today.empty': 'Ningún partido planificado para hoy.',
+  'today.inMinutes': 'en {minutes} min',
+  'today.inHours': 'en {hours}h{minutes}',
+
+  // Painel do dia
+  'day.agenda': 'Jornada',
+  'day.planner': 'Planificador Diario',
+  'day.fixtures': 'Calendario de partidos',
+  'day.templates': 'Plantillas y recurrencia',
+  'day.copy': 'Copiar día a…',
+  'day.share': 'Compartir',
+  'day.clear': 'Borrar día',
+  'day.riskLimits': 'Límites de riesgo',
+  'day.addGame': 'AÑADIR PARTIDO',
+  'game.number': 'Partido #{number}',
+  'game.badge': 'PARTIDO #{number}',
+  'game.fallback': 'partido',
+  'game.void': 'Nula (devuelve el stake)',
+  'game.addToSlip': 'Añadir a la combinada',
+  'game.time': 'Hora',
+  'game.timeZoneTitle': 'Zona horaria de la hora introducida',
+  'game.defaultTimeZone': 'Zona por defecto ({zone})',
+  'game.invalidTime': 'Hora no válida (usa 21:45)',
+  'game.inYourZone': '{time} en tu zona horaria',
+  'game.league': 'Liga',
+  'game.leaguePlaceholder': 'Comp.',
+  'game.match': 'Partido',
+  'game.matchPlaceholder': 'Equipo A vs Equipo B',
+  'game.tagsPlaceholder': 'derbi, value, rotación...',
+  'game.removeTag': 'Quitar etiqueta',
+  'game.market': 'Mercado',
+  'game.marketPlaceholder': 'Resultado',
+  'game.selection': 'Selección',
+  'game.selectionPlaceholder': 'Local',
+  'game.stake': 'Stake',
+  'game.odds': 'Cuota',
+  'game.bookmaker': 'Casa',
+  'game.probability': 'Probabilidad estimada (%)',
+  'game.impliedProbability': 'Implícita {percent}%',
+  'game.useSuggestion': 'Usar el stake sugerido por el plan',
+  'game.suggested': 'Sugerido: {value}',
+  'game.tipster': 'Tipster',
+  'game.tags': 'Etiquetas',
+  'game.confidence': 'Confianza',
+  'game.clearConfidence': 'Quitar confianza',
+  'game.confidenceLevel': 'Confianza {level} de 5',
+  'game.closingOdds': 'Cuota de cierre',
+  'game.clvTitle': 'CLV: cuota tomada frente a la cuota de cierre',
+  'game.notes': 'Notas',
+  'game.notesPlaceholder': 'Alineaciones, motivo de la apuesta...',
+  'game.halfSettled': 'Liquidación a medias ✓',
+  'game.markHalf': 'Marcar a medias',
+  'game.result': 'Resultado',
+  'slip.fallback': 'boleto',
+
+  // IA
+  'ai.insights': 'Insights BetMaster AI',
+  'ai.cached': '(caché)',
+  'ai.analyze': 'ANALIZAR CON IA',
+  'ai.review': 'Revisar resultados',
+  'ai.queued': 'Sin conexión: el análisis de este día está en cola y se ejecutará cuando vuelva internet.',
+  'ai.failed': 'Falló el análisis. Comprueba tu conexión.',
+  'ai.requestError': 'Error al conectar con la inteligencia artificial.',
+  'ai.noGames': 'Añade partidos para recibir un análisis de la IA.',
+  'ai.noSettled': 'Ninguna apuesta liquidada en el periodo para revisar.',
+  'ai.dayPrompt': 'Analiza estos pronósticos de apuestas para el día {date}:\n{games}\n' +
+    'Para cada partido, evalúa el riesgo, tu confianza y la fracción de la banca recomendada, usando el id indicado. ' +
+    'Incluye también un resumen breve sobre la dificultad de los partidos y un consejo estratégico corto.',
+  'ai.reviewPrompt': 'Haz una revisión retrospectiva de las apuestas liquidadas del {from} al {to}.\n' +
+    'Resultado: {bets} apuestas, {wins} ganadas, {losses} perdidas, {voids} nulas, beneficio {profit}, yield {yield}%.\n' +
+    'Por liga:\n{leagues}\nPor mercado:\n{markets}\nApuestas:\n{picks}\n' +
+    'Señala las ligas y mercados que están perdiendo dinero (usa los nombres exactos), patrones en los pronósticos perdidos ' +
+    '(rangos de cuota, stakes, horarios, tipos de selección) y ajustes concretos para los próximos días.',
+  'ai.reviewRow': '- {label}: {bets} apuesta(s), acierto {hitRate}%, beneficio {profit}, yield {yield}%',
+  'ai.reviewPick': '- {date} {match} ({league}) — {pick} @ {odds}, stake {stake}, {status}, beneficio {profit}',
+  'ai.noLeague': 'sin liga',
+  'ai.noMarket': 'sin mercado',
+  'ai.respondIn': 'Responde en {language}.',
+  'mock.reasoning': 'Una cuota de referencia de {odds} implica un {probability}% de probabilidad; riesgo {risk}.',
+  'mock.risk.low': 'bajo',
+  'mock.risk.medium': 'medio',
+  'mock.risk.high': 'alto',
+  'mock.summary': '{count} partido(s) analizados localmente, {highRisk} de riesgo alto.',
+  'mock.adviceRisky': 'Jornada arriesgada: reduce los stakes o quita las selecciones de cuota más alta.',
+  'mock.adviceBalanced': 'Jornada equilibrada: mantén la gestión de banca planificada.',
+  'mock.leakReason': '{bets} apuesta(s), {hitRate}% de acierto y yield del {yield}%.',
+  'mock.patternOdds': 'Las perdidas tienen cuota media {lossOdds}, muy por encima de las ganadas ({winOdds}).',
+  'mock.adjustOdds': 'Evita selecciones por encima de {winOdds} hasta que mejore el acierto en ellas.',
+  'mock.patternStake': 'El stake medio en las perdidas ({lossStake}) es mayor que en las ganadas ({winStake}).',
+  'mock.adjustStake': 'Estandariza los stakes: las apuestas de mayor confianza no están rindiendo más.',
+  'mock.noPattern': 'Ningún patrón claro de cuota o stake entre ganadas y perdidas en el periodo.',
+  'mock.pauseLeague': 'Reduce o pausa la liga {name}.',
+  'mock.pauseMarket': 'Reduce o pausa el mercado {name}.',
+  'mock.keepGoing': 'Mantén la gestión actual y vuelve a revisar en el próximo periodo.',
+  'mock.reviewSummary': '{bets} apuesta(s) revisadas localmente: {wins} ganadas, {losses} perdidas y yield del {yield}%.',
+
+  // Compartilhamento
+  'share.title': 'Compartir',
+  'share.format.whatsapp': 'WhatsApp',
+  'share.format.telegram': 'Telegram',
+  'share.format.discord': 'Discord',
+  'share.format.plain': 'Texto simple',
+  'share.format.image': 'Imagen PNG',
+  'share.scope.picks': 'Pronósticos del día',
+  'share.scope.day': 'Resumen del día',
+  'share.scope.week': 'Resumen de la semana',
+  'share.period': '{from} a {to}',
+  'share.toBeDefined': 'Por def.',
+  'share.resultLabel': 'Resultado:',
+  'share.summary': 'Resumen',
+  'share.pending': '{count} pendiente(s)',
+  'share.goodLuck': '¡Buena suerte!',
+  'share.score': '{wins} ganada(s) · {losses} perdida(s)',
+  'share.scoreVoids': ' · {voids} nula(s)',
+  'share.rates': 'Acierto {hitRate}% · Yield {yield}',
+  'share.staked': 'Apostado {value} · ',
+  'share.noGamesImage': 'Ningún partido en el periodo.',
+  'share.noGames': 'Ningún partido completado en este periodo.',
+  'share.canvasUnavailable': 'Canvas no disponible en este navegador.',
+  'share.imageFailed': 'No se pudo generar la imagen.',
+  'share.copyImageUnsupported': 'Este navegador no copia imágenes; usa Descargar.',
+  'share.shared': '¡Compartido!',
+  'share.copied': 'Copiado al portapapeles.',
+  'share.downloaded': 'Imagen descargada.',
+  'share.failed': 'No se pudo compartir.',
+  'share.showOdds': 'Cuotas',
+  'share.showStakes': 'Stakes e importes',
+  'share.showResults': 'Resultados',
+  'share.generating': 'Generando imagen…',
+  'share.copyImage': 'Copiar imagen',
+  'share.share': 'Compartir',
+  'share.downloadPng': 'Descargar PNG',
+  'share.copy': 'Copiar',
+
+  // Estatísticas
+  'stats.weekOf': 'Semana del {date}',
+  'stats.noLeague': 'Sin liga',
+  'stats.noMarket': 'Sin mercado',
+  'stats.noTag': 'Sin etiqueta',
+  'stats.noConfidence': 'Sin nota',
+  'stats.tab.month': 'Mensual',
+  'stats.tab.week': 'Semanal',
+  'stats.tab.league': 'Ligas',
+  'stats.tab.market': 'Mercados',
+  'stats.tab.tipster': 'Tipsters',
+  'stats.tab.clv': 'CLV',
+  'stats.column.month': 'Mes',
+  'stats.column.week': 'Semana',
+  'stats.column.tag': 'Etiqueta',
+  'stats.curveEmpty': 'Liquida más apuestas para ver la curva de beneficio.',
+  'stats.filterPrompt': 'Nombre del filtro:',
+  'stats.profit': 'Beneficio',
+  'stats.roi': 'ROI',
+  'stats.yield': 'Yield',
+  'stats.hitRate': 'Acierto',
+  'stats.bets': 'Apuestas',
+  'stats.record': '{wins}G · {losses}P · {voids}N',
+  'stats.volume': 'Volumen',
+  'stats.exportCsvTitle': 'Exportar los partidos filtrados a CSV',
+  'stats.savedFilters': 'Filtros guardados…',
+  'stats.clearSearch': 'Quitar búsqueda y estado',
+  'stats.saveFilter': 'Guardar filtro',
+  'stats.from': 'Desde',
+  'stats.to': 'Hasta',
+  'stats.allLeagues': 'Todas',
+  'stats.allMarkets': 'Todos',
+  'stats.curve': 'Curva de beneficio',
+  'stats.longestWinStreak': 'Racha ganadora más larga',
+  'stats.longestLossStreak': 'Racha perdedora más larga',
+  'stats.settledBets': 'Apuestas liquidadas',
+  'stats.clvEmpty': 'Indica la cuota de cierre de los partidos para medir el CLV.',
+  'stats.withClosing': 'Con cierre',
+  'stats.averageClv': 'CLV medio',
+  'stats.beatClosing': 'Superó el cierre',
+  'stats.empty': 'Ninguna apuesta liquidada para los filtros seleccionados.',
+  'stats.streaks': 'Racha G/P',
+
+  // Gestão de stake
+  'staking.flat': 'Unidad fija',
+  'staking.flatDescription': 'Siempre el mismo importe por apuesta.',
+  'staking.percent': '% de la banca',
+  'staking.percentDescription': 'Porcentaje de la banca actual; crece y se reduce con ella.',
+  'staking.kelly': 'Kelly fraccionado',
+  'staking.kellyDescription': 'Según la cuota y tu probabilidad estimada.',
+  'staking.recovery': 'Recuperación',
+  'staking.recoveryDescription': 'Recupera la racha de pérdidas, con tope en unidades.',
+  'staking.oneUnit': '1 unidad',
+  'staking.percentReason': '{percent}% de la banca',
+  'staking.noValue': 'Sin valor: la cuota no paga la probabilidad estimada',
+  'staking.kellyReason': 'Kelly ×{fraction}: {percent}% de la banca',
+  'staking.nothingToRecover': 'Sin pérdidas que recuperar',
+  'staking.unitNeedsOdds': '1 unidad (indica la cuota para recuperar)',
+  'staking.recoveryCapped': 'Recuperación limitada a {units} unidades',
+  'staking.recoveryReason': 'Recupera {amount} de {count} pérdida(s)',
+  'staking.capped': '{reason} (limitada al {percent}% de la banca)',
+  'guardrail.stake': '{match}: {stake} supera el límite del {percent}% por apuesta ({limit}).',
+  'guardrail.exposure': 'Exposición del día en {exposure}, por encima del límite del {percent}% de la banca ({limit}).',
+  'guardrail.streak': '{count} pérdidas seguidas ({lost}). Es hora de parar o reducir los stakes.',
+
+  // Bilhetes múltiplos
+  'slip.preset.acca': 'Combinada',
+  'slip.preset.2of3': 'Sistema 2/3',
+  'slip.preset.trixie': 'Trixie',
+  'slip.preset.patent': 'Patent',
+  'slip.preset.2of4': 'Sistema 2/4',
+  'slip.preset.3of4': 'Sistema 3/4',
+  'slip.preset.yankee': 'Yankee',
+  'slip.preset.lucky15': 'Lucky 15',
+  'slip.double': 'Doble',
+  'slip.treble': 'Triple',
+  'slip.fourfold': 'Cuádruple',
+  'slip.multiple': 'Múltiple {legs}x',
+  'slip.statsLeague': 'Múltiples',
+  'slip.legs': '{count} selecciones',
+  'slip.building': 'Armando boleto · {count} selección(es)',
+  'slip.removedGame': 'Partido eliminado',
+  'slip.totalStake': 'Stake total',
+  'slip.draftSummary': '{bets} apuesta(s) · cuota total {odds}',
+  'slip.draftReturn': ' · retorno máx. {value}',
+  'slip.create': 'Crear boleto',
+  'slip.needTwoGames': 'Selecciona al menos 2 partidos para armar un boleto.',
+  'slip.summary': '{bets} apuesta(s) · cuota {odds}',
+  'slip.maxReturn': 'Retorno máx.',
+
+  // Lembretes e modelos
+  'reminder.kickoff': '⚽ {match} en {minutes} min',
+  'reminder.nag': '⏳ {count} pronóstico(s) sin resultado',
+  'weekday.sun': 'Dom',
+  'weekday.mon': 'Lun',
+  'weekday.tue': 'Mar',
+  'weekday.wed': 'Mié',
+  'weekday.thu': 'Jue',
+  'weekday.fri': 'Vie',
+  'weekday.sat': 'Sáb',
+  'search.noFilters': 'Sin filtros',
+
+  // Sincronização
+  'history.resolveConflict': 'Resolver conflicto de sincronización',
+  'sync.unexpected': 'Fallo inesperado en la sincronización.',
+  'sync.invalidUrl': 'Indica la dirección del servidor (http://...).',
+  'sync.invalidSpace': 'Nombre de espacio no válido: usa letras, números, - o _.',
+  'sync.unreachable': 'Servidor de sincronización inaccesible.',
+  'sync.unauthorized': 'El servidor rechazó el token de sincronización.',
+  'sync.serverStatus': 'El servidor de sincronización respondió {status}.',
+  'sync.deleted': 'Eliminado',
+  'sync.slipSummary': '{name} · {count} selecciones · {stake}',
+  'sync.noMatch': 'Sin partido',
+  'sync.syncing': 'Sincronizando…',
+  'sync.lastSynced': 'Última sincronización a las {time}',
+  'sync.notYet': 'Aún no sincronizado en esta sesión',
+  'sync.now': 'Sincronizar ahora',
+  'sync.noConflicts': 'Ningún conflicto pendiente.',
+  'sync.conflictsHint': 'Estas entradas se modificaron en dos dispositivos. Se mantuvo la versión de este dispositivo hasta que elijas.',
+  'sync.kind.game': 'Partido',
+  'sync.kind.slip': 'Boleto',
+  'sync.thisDevice': 'Este dispositivo',
+  'sync.server': 'Servidor',
+  'sync.keepMine': 'Mantener el mío',
+  'sync.useServer': 'Usar el del servidor',
+
+  // Validação da resposta da IA
+  'ai.invalidGame': 'Partido #{number} del análisis no válido: {reason}',
+  'ai.invalid.notObject': 'no es un objeto',
+  'ai.invalid.unknownId': 'id desconocido "{id}"',
+  'ai.invalid.risk': 'riesgo "{risk}"',
+  'ai.invalid.confidence': 'confianza fuera de 0–100',
+  'ai.invalid.stakeFraction': 'fracción de stake fuera de 0–1',
+  'ai.invalid.reasoning': 'falta la justificación',
+  'ai.emptyResponse': 'La IA devolvió una respuesta vacía.',
+  'ai.invalidJson': 'La respuesta de la IA no es un JSON válido.',
+  'ai.notObject': 'La respuesta de la IA no es un objeto.',
+  'ai.missingSummary': 'Falta el resumen o el consejo en la respuesta de la IA.',
+  'ai.invalidConfidence': 'Confianza general fuera de 0–100.',
+  'ai.missingGames': 'Falta la lista de partidos en la respuesta de la IA.',
+  'ai.invalidLeak': 'Punto de pérdida #{number} de la revisión no válido.',
+  'ai.missingReviewSummary': 'Falta el resumen en la revisión de la IA.',
+  'ai.missingLeaks': 'Falta la lista de puntos de pérdida en la revisión de la IA.',
+  'ai.missingPatterns': 'Faltan patrones o ajustes en la revisión de la IA.',
+
+  // Backup e importação
+  'backup.newerVersion': 'Copia de seguridad creada por una versión más nueva de la app (v{version}).',
+  'backup.noPlannerData': 'El archivo no contiene datos del planner.',
+  'import.replaceConfirm': '¿Sustituir TODOS los datos actuales por esta copia? Puedes revertirlo con Deshacer.',
+  'import.title': 'Importar copia de seguridad',
+  'import.accepted': '{games} partido(s) válidos en {days} día(s)',
+  'import.converted': 'Formato v{from} convertido automáticamente a v{to}.',
+  'import.rejected': '{count} entrada(s) rechazada(s)',
+  'import.rejectedGame': ' · partido #{number}',
+  'import.more': '+ {count} más',
+  'import.merge': 'Combinar',
+  'import.mergeHint': 'Se añade al historial actual; los partidos con el mismo id se actualizan.',
+  'import.replace': 'Sustituir',
+  'import.replaceHint': 'Borra los datos actuales y usa solo la copia.',
+  'csv.title': 'Importar CSV',
+  'csv.lines': '{file} · {count} línea(s)',
+  'csv.field.date': 'Fecha',
+  'csv.field.confidence': 'Confianza (1–5)',
+  'csv.column': 'Columna {number}',
+  'csv.dateFormat': 'Formato de fecha',
+  'csv.timeFormat': 'Formato de hora',
+  'csv.mapMissing': 'Asigna: {fields}',
+  'csv.preview': 'Vista previa',
+  'csv.new': '{count} nuevo(s)',
+  'csv.duplicates': '{count} duplicado(s)',
+  'csv.errors': '{count} con error',
+  'csv.line': 'Línea',
+  'csv.hour': 'Hora',
+  'csv.state': 'Estado',
+  'csv.duplicate': 'duplicado',
+  'csv.ok': 'ok',
+  'csv.moreLines': '+ {count} líneas',
+  'csv.includeDuplicates': 'Importar también los duplicados',
+  'csv.back': 'Volver',
+  'csv.import': 'Importar {count} partido(s)',
+  'reject.invalidDate': 'fecha no válida',
+  'reject.noGameList': 'día sin lista de partidos',
+  'reject.duplicateId': 'id duplicado en el día',
+  'reject.gameNotObject': 'el partido no es un objeto',
+  'reject.missingId': 'falta el id',
+  'reject.invalidField': 'campo "{field}" no válido',
+  'reject.unknownStatus': 'estado "{status}" desconocido',
+  'reject.invalidStake': 'stake no válido',
+  'reject.invalidOdds': 'cuota no válida',
+  'reject.unknownTimeZone': 'zona horaria "{zone}" desconocida',
+  'reject.invalidNotes': 'notas no válidas',
+  'reject.invalidTipster': 'tipster no válido',
+  'reject.invalidProbability': 'probabilidad no válida',
+  'reject.invalidTags': 'etiquetas no válidas',
+  'reject.invalidConfidence': 'confianza no válida',
+  'reject.invalidClosingOdds': 'cuota de cierre no válida',
+  'reject.invalidKickoff': 'inicio (kickoffAt) no válido',
+  'reject.slipNotObject': 'el boleto no es un objeto',
+  'reject.slipMissingId': 'boleto sin id',
+  'reject.slipMissingName': 'boleto sin nombre',
+  'reject.slipInvalidLegs': 'boleto con selecciones no válidas',
+  'reject.slipInvalidSizes': 'boleto con combinaciones no válidas',
+  'reject.slipInvalidStake': 'stake del boleto no válido',
+  'csv.reject.date': 'fecha "{value}" no reconocida',
+  'csv.reject.emptyMatch': 'partido vacío',
+  'csv.reject.time': 'hora "{value}" no reconocida',
+  'csv.reject.stake': 'stake "{value}" no válido',
+  'csv.reject.odds': 'cuota "{value}" no válida',
+  'csv.reject.status': 'resultado "{value}" desconocido',
+  'csv.reject.confidence': 'confianza "{value}" fuera de 1–5',
+  'csv.reject.closingOdds': 'cuota de cierre "{value}" no válida',
+
+  // Análise por jogo
+  'analysis.risk.low': 'Riesgo bajo',
+  'analysis.risk.medium': 'Riesgo medio',
+  'analysis.risk.high': 'Riesgo alto',
+  'analysis.confidence': 'Confianza {percent}%',
+  'analysis.stake': 'Stake {percent}%',
+
+  // Modelos e recorrência
+  'templates.deleteConfirm': 'Esta plantilla la usan {count} regla(s), que también se eliminarán. ¿Continuar?',
+  'templates.ruleFallback': 'Regla',
+  'templates.everyWeekday': 'cada {days}',
+  'templates.extraDates': '{count} fecha(s) suelta(s)',
+  'templates.dayTemplates': 'Plantillas de día',
+  'templates.empty': 'Todavía no hay plantillas guardadas.',
+  'templates.noGames': 'sin partidos',
+  'templates.applyTo': 'Aplicar en {date}',
+  'templates.selectDay': 'Selecciona un día',
+  'templates.namePlaceholder': 'Nombre de la plantilla ({count} partido(s) del {date})',
+  'templates.saveDay': 'Guardar día',
+  'templates.since': '{rule} · desde {date}',
+  'templates.until': ' hasta {date}',
+  'templates.active': 'Activa',
+  'templates.ruleNamePlaceholder': 'Nombre (ej.: Fin de semana PL)',
+  'templates.extraDatesLabel': 'Fechas sueltas (ej.: jornadas de la Champions)',
+  'templates.start': 'Inicio',
+  'templates.end': 'Fin (opcional)',
+  'templates.saveRule': 'Guardar regla',
+  'templates.newRule': 'Nueva regla',
+  'templates.saveTemplateFirst': '(guarda una plantilla antes)',
+
+  // Revisão do período
+  'review.scope.day': 'Día',
+  'review.scope.custom': 'Período',
+  'review.failed': 'Fallo en la revisión. Comprueba tu conexión.',
+  'review.title': 'Revisión del período',
+  'review.reviewing': 'Revisando…',
+  'review.generate': 'Generar revisión',
+  'review.queued': 'Sin conexión: {count} revisión(es) en cola, se generarán cuando vuelva internet.',
+  'review.stats': '{bets} apuestas · {wins}G/{losses}P · ',
+  'review.yield': ' · yield {yield}%',
+  'review.leaks': 'Dónde estás perdiendo',
+  'review.dimension.league': 'liga',
+  'review.dimension.market': 'mercado',
+  'review.patterns': 'Patrones en las pérdidas',
+  'review.adjustments': 'Ajustes',
+  'review.previous': 'Revisiones anteriores',
+  'review.empty': 'Todavía no hay revisiones guardadas.',
+  'review.createdAt': ' · generada el {date}',
+  'review.delete': 'Eliminar revisión',
+
+  // Perfis e histórico
+  'profile.newPrompt': 'Nombre del nuevo perfil (tipster o banca):',
+  'profile.renamePrompt': 'Nuevo nombre del perfil:',
+  'profile.removeConfirm': '¿Eliminar el perfil "{name}" con todos sus partidos, banca y ajustes? No se puede deshacer.',
+  'profile.switch': 'Cambiar de perfil',
+  'profile.profiles': 'Perfiles',
+  'profile.rename': 'Renombrar',
+  'profile.switchBeforeRemove': 'Cambia de perfil antes de eliminar',
+  'profile.remove': 'Eliminar perfil',
+  'profile.new': 'Nuevo perfil',
+  'profile.compare': 'Comparar perfiles',
+  'profile.sortBy': 'Ordenar',
+  'profile.loading': 'Cargando perfiles…',
+  'profile.noBets': 'Ninguna apuesta liquidada en el período.',
+  'profile.profile': 'Perfil',
+  'profile.defaultName': 'Principal',
+  'profile.record': 'G/P/N',
+  'profile.compareHint': 'Los pronósticos sin tipster cuentan para el dueño del perfil. Importes en la moneda del perfil activo.',
+  'historyMenu.undo': 'Deshacer: {label} (Ctrl+Z)',
+  'historyMenu.nothingToUndo': 'Nada que deshacer',
+  'historyMenu.redo': 'Rehacer: {label} (Ctrl+Shift+Z)',
+  'historyMenu.nothingToRedo': 'Nada que rehacer',
+  'historyMenu.recent': 'Acciones recientes',
+  'historyMenu.undoUntil': 'Deshacer hasta antes de esta acción',
+
+  // Snapshots, busca e cópia de dias
+  'snapshots.reason.auto': 'Automático',
+  'snapshots.reason.manual': 'Manual',
+  'snapshots.reason.migration': 'Migración',
+  'snapshots.reason.preImport': 'Antes de importar',
+  'snapshots.reason.preRestore': 'Antes de restaurar',
+  'snapshots.failed': 'No se pudo acceder a los snapshots.',
+  'snapshots.restoreConfirm': '¿Restaurar el snapshot del {when}? El estado actual se guardará antes.',
+  'snapshots.unsupported': 'Este navegador no admite IndexedDB; snapshots no disponibles.',
+  'snapshots.usage': '{used} de {quota}',
+  'snapshots.create': 'Crear ahora',
+  'snapshots.empty': 'Todavía no hay snapshots.',
+  'snapshots.counts': '{days} días · {games} partidos',
+  'snapshots.restore': 'Restaurar',
+  'snapshots.quota': 'Espacio de almacenamiento insuficiente en el navegador.',
+  'snapshots.notFound': 'Snapshot no encontrado.',
+  'search.title': 'Buscar pronósticos',
+  'search.placeholder': 'Equipo, liga, selección o nota',
+  'search.filterName': 'Nombre del filtro:',
+  'search.deleteFilter': 'Eliminar filtro',
+  'search.hint': 'Escribe o elige un filtro',
+  'search.results': '{count} resultado(s)',
+  'search.saveFilter': 'Guardar filtro',
+  'copy.title': 'Copiar {date}',
+  'copy.summary': '{count} partido(s) se copiarán como nuevas entradas pendientes, sin resultado.',
+  'copy.tomorrow': 'Mañana',
+  'copy.nextWeek': 'Próxima semana',
+  'copy.nextFourWeeks': 'Próximas 4 semanas',
+  'copy.confirm': 'Copiar a {count} día(s)',
+
+  // Tabela de jogos
+  'fixtures.scope.day': 'Día seleccionado',
+  'fixtures.scope.week': 'Próximos 7 días',
+  'fixtures.scope.all': 'Todos',
+  'fixtures.loaded': '{file}: {count} partido(s)',
+  'fixtures.skipped': ', {count} omitido(s)',
+  'fixtures.invalidFile': 'archivo no válido',
+  'fixtures.load': 'Cargar .ics / .json / .csv',
+  'fixtures.removeFile': 'Quitar archivo',
+  'fixtures.empty': 'Carga un calendario .ics publicado por la liga o una lista de partidos en JSON/CSV. Los archivos se leen localmente, sin internet.',
+  'fixtures.searchTeam': 'Buscar equipo',
+  'fixtures.noMatches': 'Ningún partido con este filtro.',
+  'fixtures.added': 'Ya está en el planner',
+  'fixtures.add': 'Añadir al día',
+  'fixtures.invalidJson': 'JSON no válido.',
+  'fixtures.noList': 'El JSON no contiene una lista de partidos.',
+  'fixtures.csvEmpty': 'CSV sin filas de datos.',
+  'fixtures.csvColumns': 'El CSV de partidos necesita columnas de fecha y local/visitante (o partido).',
+
+  // Configurações
+  'settings.language': 'Idioma',
+  'settings.languageHint': 'Se aplica a la interfaz, las fechas, los importes y las respuestas de la IA. La semana empieza el domingo en portugués y el lunes en inglés y español.',
+  'settings.ai': 'Análisis de IA',
+  'settings.provider.gemini': 'Google Gemini',
+  'settings.provider.geminiHint': 'Análisis remoto con el modelo configurado.',
+  'settings.provider.mock': 'Local (sin conexión)',
+  'settings.provider.mockHint': 'Análisis determinista basado en las cuotas, sin internet.',
+  'settings.model': 'Modelo',
+  'settings.temperature': 'Temperatura',
+  'settings.apiKey': 'Clave de la API',
+  'settings.apiKeyPlaceholder': 'Usar la clave del entorno',
+  'settings.clearCache': 'Borrar caché de análisis',
+  'settings.cacheCleared': 'Caché de análisis borrada.',
+  'settings.times': 'Horarios',
+  'settings.myTimeZone': 'Mi zona horaria (visualización)',
+  'settings.leagueTimeZones': 'Zona horaria por liga',
+  'settings.leaguePlaceholder': 'Liga (p. ej.: J-League)',
+  'settings.leagueTimeZonesHint': 'Las horas escritas sin zona propia usan la de la liga; sin liga registrada, la tuya.',
+  'settings.staking': 'Gestión de stake',
+  'settings.unit': 'Unidad',
+  'settings.percent': '% de la banca',
+  'settings.kellyFraction': 'Fracción de Kelly',
+  'settings.fullKelly': 'Kelly completo',
+  'settings.recoveryCap': 'Tope (unidades)',
+  'settings.maxStake': 'Máx. por apuesta %',
+  'settings.maxDay': 'Máx. por día %',
+  'settings.lossStreak': 'Aviso tras fallos',
+  'settings.noLimit': 'Sin límite',
+  'settings.off': 'Desactivado',
+  'settings.stakingHint': 'Porcentajes calculados sobre la banca actual (inicial + beneficio liquidado).',
+  'settings.reminders': 'Recordatorios',
+  'settings.kickoffReminder': 'Avisar antes del inicio',
+  'settings.minutes': '{minutes} min',
+  'settings.settleNag': 'Recordar partidos sin resultado',
+  'settings.notificationsUnsupported': 'Este navegador no admite notificaciones.',
+  'settings.notificationsBlocked': 'Notificaciones bloqueadas; permítelas en los permisos del sitio.',
+  'settings.notificationsHint': 'Los avisos salen mientras la app esté abierta o instalada en segundo plano.',
+  'settings.sync': 'Sincronización',
+  'settings.syncEnabled': 'Sincronizar con servidor propio',
+  'settings.syncServer': 'Servidor',
+  'settings.syncSpace': 'Espacio',
+  'settings.syncAuto': 'Automática',
+  'settings.syncManual': 'Solo manual',
+  'settings.syncEvery': 'Cada {minutes} min',
+  'settings.syncToken': 'Token (opcional)',
+  'settings.syncTokenPlaceholder': 'SYNC_TOKEN del servidor',
+  'settings.syncRun': 'Ejecuta',
+  'settings.syncHint': 'en un ordenador de la red y usa el mismo espacio en todos los dispositivos. Cada perfil se sincroniza con el espacio configurado en él.'
+};
@@ -0,0 +1,642 @@
+// Catálogo de referência: as chaves daqui tipam os demais idiomas
+export const ptBRCatalog = {
+  // Cabeçalho e ações gerais
+  'app.tagline': 'Gestão Profissional e Inteligência de Dados',
+  'app.bankroll': 'Banca',
+  'app.bankrollTitle': 'Definir banca inicial',
+  'app.bankrollPrompt': 'Banca inicial:',
+  'app.bankrollInvalid': 'Valor de banca inválido.',
+  'app.unsettled': '{count} palpite(s) de dias anteriores sem resultado',
+  'app.offline': 'Offline',
+  'app.offlineQueued': '{count} pedido(s) de IA aguardando conexão',
+  'app.offlineSaved': 'Sem conexão: as alterações ficam salvas neste aparelho',
+  'app.install': 'Instalar',
+  'app.installTitle': 'Instalar o app neste aparelho',
+  'app.sync': 'Sincronização',
+  'app.syncFailed': 'Falha na sincronização',
+  'app.search': 'Buscar',
+  'app.searchTitle': 'Buscar em todo o histórico (Ctrl+K)',
+  'app.stats': 'Desempenho',
+  'app.statsTitle': 'Estatísticas de desempenho',
+  'app.export': 'Exportar',
+  'app.exportTitle': 'Exportar Backup JSON',
+  'app.csv': 'CSV',
+  'app.csvTitle': 'Exportar jogos em CSV',
+  'app.import': 'Importar',
+  'app.importTitle': 'Importar Backup JSON ou planilha CSV',
+  'app.snapshots': 'Snapshots',
+  'app.snapshotsTitle': 'Snapshots automáticos',
+  'app.settings': 'Configurações',
+  'app.save': 'Salvar Planner',
+  'app.saving': 'Sincronizando...',
+  'app.saved': 'Salvo!',
+
+  // Ações comuns
+  'common.cancel': 'Cancelar',
+  'common.delete': 'Excluir',
+  'common.close': 'Fechar',
+  'common.allLeagues': 'Todas as ligas',
+
+  // Erros e confirmações
+  'app.saveError': 'Erro ao salvar os dados.',
+  'app.saveErrorDetail': 'Erro ao salvar: {message}',
+  'app.switchProfileError': 'Erro ao salvar os dados; troca de perfil cancelada.',
+  'app.removeProfileError': 'Falha ao excluir o perfil.',
+  'app.exportError': 'Falha ao gerar arquivo de exportação.',
+  'app.csvExportError': 'Falha ao gerar arquivo CSV.',
+  'app.csvEmpty': 'CSV sem linhas de dados.',
+  'app.backupInvalid': 'Arquivo de backup inválido.',
+  'app.snapshotFailedConfirm': 'Não foi possível guardar um snapshot dos dados atuais. Importar mesmo assim?',
+  'app.backupRestored': 'Backup restaurado com sucesso!',
+  'app.backupMerged': 'Backup mesclado com sucesso!',
+  'app.clearDayConfirm': 'Limpar todos os jogos deste dia?',
+
+  // Rótulos do histórico de alterações
+  'history.recurring': 'Regras recorrentes',
+  'history.adjustTimeZone': 'Ajustar fuso horário',
+  'history.setStatus': '{game}: {status}',
+  'history.editField': 'Editar {field} — {game}',
+  'history.editTimeZone': 'Editar fuso — {game}',
+  'history.confirmKickoff': 'Confirmar horário — {game}',
+  'history.addGame': 'Adicionar jogo em {day}',
+  'history.removeGame': 'Remover {game}',
+  'history.clearDay': 'Limpar {day}',
+  'history.createSlip': 'Criar bilhete {name}',
+  'history.removeSlip': 'Remover bilhete {name}',
+  'history.editSlipStake': 'Editar stake — {name}',
+  'history.applyTemplate': 'Aplicar modelo {name} em {day}',
+  'history.copyDay': 'Copiar {day} para {count} dia(s)',
+  'history.addFixture': 'Adicionar {match}',
+  'history.replaceBackup': 'Substituir por backup {file}',
+  'history.mergeBackup': 'Mesclar backup {file}',
+  'history.importCsv': 'Importar CSV {file}',
+  'history.restoreSnapshot': 'Restaurar snapshot',
+
+  // Campos do jogo (rótulos do histórico)
+  'field.time': 'horário',
+  'field.league': 'liga',
+  'field.match': 'confronto',
+  'field.market': 'mercado',
+  'field.selection': 'seleção',
+  'field.bookmaker': 'casa',
+  'field.stake': 'stake',
+  'field.odds': 'odd',
+  'field.notes': 'notas',
+  'field.probability': 'probabilidade',
+  'field.tipster': 'tipster',
+  'field.tags': 'tags',
+  'field.confidence': 'confiança',
+  'field.closingOdds': 'odd de fechamento',
+
+  // Status
+  'status.pending': 'Pendente',
+  'status.win': 'Green',
+  'status.loss': 'Red',
+  'status.void': 'Anulada',
+  'status.half_win': 'Meio green',
+  'status.half_loss': 'Meio red',
+
+  // Calendário
+  'view.month': 'Mês',
+  'view.week': 'Semana',
+  'view.agenda': 'Agenda',
+  'view.today': 'Hoje',
+  'calendar.todayLabel': 'Hoje, {date}',
+  'calendar.more': '+ {count} MAIS',
+  'calendar.games': '{count} Jogos',
+  'calendar.until': 'até',
+  'date.dayMonth': "dd 'de' MMMM",
+  'date.short': 'dd/MM',
+  'agenda.pendingOnly': 'Só pendentes',
+  'agenda.empty': 'Nenhum palpite neste intervalo.',
+  'agenda.emptyPending': 'Nenhum palpite pendente neste intervalo.',
+  'agenda.dayHeader': "EEEE, dd/MM",
+  'agenda.dayGames': '{count} jogo(s)',
+  'today.live': 'Em andamento',
+  'today.upcoming': 'Próximos',
+  'today.unscheduled': 'Sem horário',
+  'today.done': 'Encerrados',
+  'today.empty': 'Nenhum jogo planejado para hoje.',
+  'today.inMinutes': 'em {minutes} min',
+  'today.inHours': 'em {hours}h{minutes}',
+
+  // Painel do dia
+  'day.agenda': 'Pauta',
+  'day.planner': 'Planejador Diário',
+  'day.fixtures': 'Tabela de jogos',
+  'day.templates': 'Modelos e recorrência',
+  'day.copy': 'Copiar dia para…',
+  'day.share': 'Compartilhar',
+  'day.clear': 'Limpar dia',
+  'day.riskLimits': 'Limites de risco',
+  'day.addGame': 'ADICIONAR NOVO JOGO',
+  'game.number': 'Jogo #{number}',
+  'game.badge': 'JOGO #{number}',
+  'game.fallback': 'jogo',
+  'game.void': 'Anulada (devolve a stake)',
+  'game.addToSlip': 'Adicionar ao bilhete múltiplo',
+  'game.time': 'Horário',
+  'game.timeZoneTitle': 'Fuso do horário digitado',
+  'game.defaultTimeZone': 'Fuso padrão ({zone})',
+  'game.invalidTime': 'Horário inválido (use 21:45)',
+  'game.inYourZone': '{time} no seu fuso',
+  'game.league': 'Liga',
+  'game.leaguePlaceholder': 'Camp.',
+  'game.match': 'Confronto',
+  'game.matchPlaceholder': 'Time A vs Time B',
+  'game.tagsPlaceholder': 'derby, value, rotação...',
+  'game.removeTag': 'Remover tag',
+  'game.market': 'Mercado',
+  'game.marketPlaceholder': 'Resultado',
+  'game.selection': 'Seleção',
+  'game.selectionPlaceholder': 'Casa',
+  'game.stake': 'Stake',
+  'game.odds': 'Odd',
+  'game.bookmaker': 'Casa',
+  'game.probability': 'Probabilidade estimada (%)',
+  'game.impliedProbability': 'Implícita {percent}%',
+  'game.useSuggestion': 'Usar a stake sugerida pelo plano',
+  'game.suggested': 'Sugerido: {value}',
+  'game.tipster': 'Tipster',
+  'game.tags': 'Tags',
+  'game.confidence': 'Confiança',
+  'game.clearConfidence': 'Limpar confiança',
+  'game.confidenceLevel': 'Confiança {level} de 5',
+  'game.closingOdds': 'Odd de fechamento',
+  'game.clvTitle': 'CLV: odd tomada sobre a odd de fechamento',
+  'game.notes': 'Notas',
+  'game.notesPlaceholder': 'Escalação, motivo da entrada...',
+  'game.halfSettled': 'Meia liquidação ✓',
+  'game.markHalf': 'Marcar como meia',
+  'game.result': 'Resultado',
+  'slip.fallback': 'bilhete',
+
+  // IA
+  'ai.insights': 'Insights BetMaster AI',
+  'ai.cached': '(cache)',
+  'ai.analyze': 'ANALISAR COM IA',
+  'ai.review': 'Revisar resultados',
+  'ai.queued': 'Sem conexão: a análise deste dia está na fila e roda quando a internet voltar.',
+  'ai.failed': 'Falha na análise. Verifique sua conexão.',
+  'ai.requestError': 'Erro ao conectar com a inteligência artificial.',
+  'ai.noGames': 'Adicione jogos para receber uma análise da IA.',
+  'ai.noSettled': 'Nenhuma aposta liquidada no período para revisar.',
+  'ai.dayPrompt': 'Analise estes jogos de apostas para o dia {date}:\n{games}\n' +
+    'Para cada jogo, avalie o risco, sua confiança e a fração da banca recomendada, usando o id informado. ' +
+    'Forneça também um resumo rápido sobre a dificuldade dos confrontos e uma dica estratégica curta.',
+  'ai.reviewPrompt': 'Faça uma revisão retrospectiva das apostas liquidadas de {from} a {to}.\n' +
+    'Resultado: {bets} apostas, {wins} greens, {losses} reds, {voids} anuladas, lucro {profit}, yield {yield}%.\n' +
+    'Por liga:\n{leagues}\nPor mercado:\n{markets}\nApostas:\n{picks}\n' +
+    'Aponte as ligas e mercados que estão perdendo dinheiro (use os nomes exatos), padrões nos palpites perdidos ' +
+    '(faixas de odd, stakes, horários, tipos de seleção) e ajustes concretos para os próximos dias.',
+  'ai.reviewRow': '- {label}: {bets} aposta(s), acerto {hitRate}%, lucro {profit}, yield {yield}%',
+  'ai.reviewPick': '- {date} {match} ({league}) — {pick} @ {odds}, stake {stake}, {status}, lucro {profit}',
+  'ai.noLeague': 'sem liga',
+  'ai.noMarket': 'sem mercado',
+  'ai.respondIn': 'Responda em {language}.',
+  'mock.reasoning': 'Odd de referência {odds} implica {probability}% de probabilidade; risco {risk}.',
+  'mock.risk.low': 'baixo',
+  'mock.risk.medium': 'médio',
+  'mock.risk.high': 'alto',
+  'mock.summary': '{count} jogo(s) analisados localmente, {highRisk} de risco alto.',
+  'mock.adviceRisky': 'Pauta arriscada: reduza as stakes ou corte as seleções de odd mais alta.',
+  'mock.adviceBalanced': 'Pauta equilibrada: mantenha a gestão de banca planejada.',
+  'mock.leakReason': '{bets} aposta(s), {hitRate}% de acerto e yield de {yield}%.',
+  'mock.patternOdds': 'Os reds têm odd média {lossOdds}, bem acima dos greens ({winOdds}).',
+  'mock.adjustOdds': 'Evite seleções acima de {winOdds} até o acerto nelas melhorar.',
+  'mock.patternStake': 'A stake média nos reds ({lossStake}) é maior que nos greens ({winStake}).',
+  'mock.adjustStake': 'Padronize as stakes: as apostas de maior confiança não estão rendendo mais.',
+  'mock.noPattern': 'Nenhum padrão claro de odd ou stake entre greens e reds no período.',
+  'mock.pauseLeague': 'Reduza ou pause a liga {name}.',
+  'mock.pauseMarket': 'Reduza ou pause o mercado {name}.',
+  'mock.keepGoing': 'Mantenha a gestão atual e revise de novo no próximo período.',
+  'mock.reviewSummary': '{bets} aposta(s) revisadas localmente: {wins} greens, {losses} reds e yield de {yield}%.',
+
+  // Compartilhamento
+  'share.title': 'Compartilhar',
+  'share.format.whatsapp': 'WhatsApp',
+  'share.format.telegram': 'Telegram',
+  'share.format.discord': 'Discord',
+  'share.format.plain': 'Texto simples',
+  'share.format.image': 'Imagem PNG',
+  'share.scope.picks': 'Palpites do dia',
+  'share.scope.day': 'Resumo do dia',
+  'share.scope.week': 'Resumo da semana',
+  'share.period': '{from} a {to}',
+  'share.toBeDefined': 'A def.',
+  'share.resultLabel': 'Resultado:',
+  'share.summary': 'Resumo',
+  'share.pending': '{count} pendente(s)',
+  'share.goodLuck': 'Boa sorte!',
+  'share.score': '{wins} green · {losses} red',
+  'share.scoreVoids': ' · {voids} anulada(s)',
+  'share.rates': 'Acerto {hitRate}% · Yield {yield}',
+  'share.staked': 'Apostado {value} · ',
+  'share.noGamesImage': 'Nenhum jogo no período.',
+  'share.noGames': 'Nenhum jogo preenchido neste período.',
+  'share.canvasUnavailable': 'Canvas indisponível neste navegador.',
+  'share.imageFailed': 'Falha ao gerar a imagem.',
+  'share.copyImageUnsupported': 'Este navegador não copia imagens; use Baixar.',
+  'share.shared': 'Compartilhado!',
+  'share.copied': 'Copiado para a área de transferência.',
+  'share.downloaded': 'Imagem baixada.',
+  'share.failed': 'Não foi possível compartilhar.',
+  'share.showOdds': 'Odds',
+  'share.showStakes': 'Stakes e valores',
+  'share.showResults': 'Resultados',
+  'share.generating': 'Gerando imagem…',
+  'share.copyImage': 'Copiar imagem',
+  'share.share': 'Compartilhar',
+  'share.downloadPng': 'Baixar PNG',
+  'share.copy': 'Copiar',
+
+  // Estatísticas
+  'stats.weekOf': 'Semana de {date}',
+  'stats.noLeague': 'Sem liga',
+  'stats.noMarket': 'Sem mercado',
+  'stats.noTag': 'Sem tag',
+  'stats.noConfidence': 'Sem nota',
+  'stats.tab.month': 'Mensal',
+  'stats.tab.week': 'Semanal',
+  'stats.tab.league': 'Ligas',
+  'stats.tab.market': 'Mercados',
+  'stats.tab.tipster': 'Tipsters',
+  'stats.tab.clv': 'CLV',
+  'stats.column.month': 'Mês',
+  'stats.column.week': 'Semana',
+  'stats.column.tag': 'Tag',
+  'stats.curveEmpty': 'Liquide mais apostas para ver a curva de lucro.',
+  'stats.filterPrompt': 'Nome do filtro:',
+  'stats.profit': 'Lucro',
+  'stats.roi': 'ROI',
+  'stats.yield': 'Yield',
+  'stats.hitRate': 'Acerto',
+  'stats.bets': 'Apostas',
+  'stats.record': '{wins}G · {losses}R · {voids}A',
+  'stats.volume': 'Volume',
+  'stats.exportCsvTitle': 'Exportar jogos filtrados em CSV',
+  'stats.savedFilters': 'Filtros salvos…',
+  'stats.clearSearch': 'Remover busca e status',
+  'stats.saveFilter': 'Salvar filtro',
+  'stats.from': 'De',
+  'stats.to': 'Até',
+  'stats.allLeagues': 'Todas',
+  'stats.allMarkets': 'Todos',
+  'stats.curve': 'Curva de lucro',
+  'stats.longestWinStreak': 'Maior sequência de greens',
+  'stats.longestLossStreak': 'Maior sequência de reds',
+  'stats.settledBets': 'Apostas liquidadas',
+  'stats.clvEmpty': 'Informe a odd de fechamento dos jogos para medir o CLV.',
+  'stats.withClosing': 'Com fechamento',
+  'stats.averageClv': 'CLV médio',
+  'stats.beatClosing': 'Bateu o fechamento',
+  'stats.empty': 'Nenhuma aposta liquidada para os filtros selecionados.',
+  'stats.streaks': 'Seq. G/R',
+
+  // Gestão de stake
+  'staking.flat': 'Unidade fixa',
+  'staking.flatDescription': 'Sempre o mesmo valor por aposta.',
+  'staking.percent': '% da banca',
+  'staking.percentDescription': 'Percentual da banca atual; cresce e encolhe com ela.',
+  'staking.kelly': 'Kelly fracionado',
+  'staking.kellyDescription': 'Pela odd e pela sua probabilidade estimada.',
+  'staking.recovery': 'Recuperação',
+  'staking.recoveryDescription': 'Recupera a sequência de reds, com teto em unidades.',
+  'staking.oneUnit': '1 unidade',
+  'staking.percentReason': '{percent}% da banca',
+  'staking.noValue': 'Sem valor: a odd não paga a probabilidade estimada',
+  'staking.kellyReason': 'Kelly ×{fraction}: {percent}% da banca',
+  'staking.nothingToRecover': 'Sem perdas a recuperar',
+  'staking.unitNeedsOdds': '1 unidade (informe a odd para recuperar)',
+  'staking.recoveryCapped': 'Recuperação limitada a {units} unidades',
+  'staking.recoveryReason': 'Recupera {amount} de {count} red(s)',
+  'staking.capped': '{reason} (limitada a {percent}% da banca)',
+  'guardrail.stake': '{match}: {stake} passa do limite de {percent}% por aposta ({limit}).',
+  'guardrail.exposure': 'Exposição do dia em {exposure}, acima do limite de {percent}% da banca ({limit}).',
+  'guardrail.streak': '{count} reds seguidos ({lost}). Hora de pausar ou reduzir as stakes.',
+
+  // Bilhetes múltiplos
+  'slip.preset.acca': 'Acumulada',
+  'slip.preset.2of3': 'Sistema 2/3',
+  'slip.preset.trixie': 'Trixie',
+  'slip.preset.patent': 'Patent',
+  'slip.preset.2of4': 'Sistema 2/4',
+  'slip.preset.3of4': 'Sistema 3/4',
+  'slip.preset.yankee': 'Yankee',
+  'slip.preset.lucky15': 'Lucky 15',
+  'slip.double': 'Dupla',
+  'slip.treble': 'Tripla',
+  'slip.fourfold': 'Quádrupla',
+  'slip.multiple': 'Múltipla {legs}x',
+  'slip.statsLeague': 'Múltiplas',
+  'slip.legs': '{count} pernas',
+  'slip.building': 'Montando bilhete · {count} perna(s)',
+  'slip.removedGame': 'Jogo removido',
+  'slip.totalStake': 'Stake total',
+  'slip.draftSummary': '{bets} aposta(s) · odd total {odds}',
+  'slip.draftReturn': ' · retorno máx. {value}',
+  'slip.create': 'Criar bilhete',
+  'slip.needTwoGames': 'Selecione ao menos 2 jogos para montar um bilhete.',
+  'slip.summary': '{bets} aposta(s) · odd {odds}',
+  'slip.maxReturn': 'Retorno máx.',
+
+  // Lembretes e modelos
+  'reminder.kickoff': '⚽ {match} em {minutes} min',
+  'reminder.nag': '⏳ {count} palpite(s) sem resultado',
+  'weekday.sun': 'Dom',
+  'weekday.mon': 'Seg',
+  'weekday.tue': 'Ter',
+  'weekday.wed': 'Qua',
+  'weekday.thu': 'Qui',
+  'weekday.fri': 'Sex',
+  'weekday.sat': 'Sáb',
+  'search.noFilters': 'Sem filtros',
+
+  // Sincronização
+  'history.resolveConflict': 'Resolver conflito de sincronização',
+  'sync.unexpected': 'Falha inesperada na sincronização.',
+  'sync.invalidUrl': 'Informe o endereço do servidor (http://...).',
+  'sync.invalidSpace': 'Nome do espaço inválido: use letras, números, - ou _.',
+  'sync.unreachable': 'Servidor de sincronização inacessível.',
+  'sync.unauthorized': 'Token de sincronização recusado pelo servidor.',
+  'sync.serverStatus': 'Servidor de sincronização respondeu {status}.',
+  'sync.deleted': 'Apagado',
+  'sync.slipSummary': '{name} · {count} seleções · {stake}',
+  'sync.noMatch': 'Sem confronto',
+  'sync.syncing': 'Sincronizando…',
+  'sync.lastSynced': 'Última sincronização às {time}',
+  'sync.notYet': 'Ainda não sincronizado nesta sessão',
+  'sync.now': 'Sincronizar agora',
+  'sync.noConflicts': 'Nenhum conflito pendente.',
+  'sync.conflictsHint': 'Estas entradas foram alteradas em dois aparelhos. A versão deste aparelho foi mantida até você escolher.',
+  'sync.kind.game': 'Jogo',
+  'sync.kind.slip': 'Bilhete',
+  'sync.thisDevice': 'Este aparelho',
+  'sync.server': 'Servidor',
+  'sync.keepMine': 'Manter meu',
+  'sync.useServer': 'Usar do servidor',
+
+  // Validação da resposta da IA
+  'ai.invalidGame': 'Jogo #{number} da análise inválido: {reason}',
+  'ai.invalid.notObject': 'não é um objeto',
+  'ai.invalid.unknownId': 'id desconhecido "{id}"',
+  'ai.invalid.risk': 'risco "{risk}"',
+  'ai.invalid.confidence': 'confiança fora de 0–100',
+  'ai.invalid.stakeFraction': 'fração de stake fora de 0–1',
+  'ai.invalid.reasoning': 'justificativa ausente',
+  'ai.emptyResponse': 'A IA retornou uma resposta vazia.',
+  'ai.invalidJson': 'A resposta da IA não é um JSON válido.',
+  'ai.notObject': 'A resposta da IA não é um objeto.',
+  'ai.missingSummary': 'Resumo ou dica ausente na resposta da IA.',
+  'ai.invalidConfidence': 'Confiança geral fora de 0–100.',
+  'ai.missingGames': 'Lista de jogos ausente na resposta da IA.',
+  'ai.invalidLeak': 'Ponto de perda #{number} da revisão inválido.',
+  'ai.missingReviewSummary': 'Resumo ausente na revisão da IA.',
+  'ai.missingLeaks': 'Lista de pontos de perda ausente na revisão da IA.',
+  'ai.missingPatterns': 'Padrões ou ajustes ausentes na revisão da IA.',
+
+  // Backup e importação
+  'backup.newerVersion': 'Backup gerado por uma versão mais nova do app (v{version}).',
+  'backup.noPlannerData': 'Arquivo não contém dados do planner.',
+  'import.replaceConfirm': 'Substituir TODOS os dados atuais por este backup? A troca pode ser revertida com Desfazer.',
+  'import.title': 'Importar backup',
+  'import.accepted': '{games} jogo(s) válidos em {days} dia(s)',
+  'import.converted': 'Formato v{from} convertido automaticamente para v{to}.',
+  'import.rejected': '{count} entrada(s) rejeitada(s)',
+  'import.rejectedGame': ' · jogo #{number}',
+  'import.more': '+ {count} outras',
+  'import.merge': 'Mesclar',
+  'import.mergeHint': 'Adiciona ao histórico atual; jogos com o mesmo id são atualizados.',
+  'import.replace': 'Substituir',
+  'import.replaceHint': 'Apaga os dados atuais e usa apenas o backup.',
+  'csv.title': 'Importar CSV',
+  'csv.lines': '{file} · {count} linha(s)',
+  'csv.field.date': 'Data',
+  'csv.field.confidence': 'Confiança (1–5)',
+  'csv.column': 'Coluna {number}',
+  'csv.dateFormat': 'Formato da data',
+  'csv.timeFormat': 'Formato do horário',
+  'csv.mapMissing': 'Mapeie: {fields}',
+  'csv.preview': 'Pré-visualizar',
+  'csv.new': '{count} novo(s)',
+  'csv.duplicates': '{count} duplicado(s)',
+  'csv.errors': '{count} com erro',
+  'csv.line': 'Linha',
+  'csv.hour': 'Hora',
+  'csv.state': 'Situação',
+  'csv.duplicate': 'duplicado',
+  'csv.ok': 'ok',
+  'csv.moreLines': '+ {count} linhas',
+  'csv.includeDuplicates': 'Importar também os duplicados',
+  'csv.back': 'Voltar',
+  'csv.import': 'Importar {count} jogo(s)',
+  'reject.invalidDate': 'data inválida',
+  'reject.noGameList': 'dia sem lista de jogos',
+  'reject.duplicateId': 'id duplicado no dia',
+  'reject.gameNotObject': 'jogo não é um objeto',
+  'reject.missingId': 'id ausente',
+  'reject.invalidField': 'campo "{field}" inválido',
+  'reject.unknownStatus': 'status "{status}" desconhecido',
+  'reject.invalidStake': 'stake inválida',
+  'reject.invalidOdds': 'odd inválida',
+  'reject.unknownTimeZone': 'fuso "{zone}" desconhecido',
+  'reject.invalidNotes': 'notas inválidas',
+  'reject.invalidTipster': 'tipster inválido',
+  'reject.invalidProbability': 'probabilidade inválida',
+  'reject.invalidTags': 'tags inválidas',
+  'reject.invalidConfidence': 'confiança inválida',
+  'reject.invalidClosingOdds': 'odd de fechamento inválida',
+  'reject.invalidKickoff': 'início (kickoffAt) inválido',
+  'reject.slipNotObject': 'bilhete não é um objeto',
+  'reject.slipMissingId': 'bilhete sem id',
+  'reject.slipMissingName': 'bilhete sem nome',
+  'reject.slipInvalidLegs': 'bilhete com pernas inválidas',
+  'reject.slipInvalidSizes': 'bilhete com combinações inválidas',
+  'reject.slipInvalidStake': 'stake do bilhete inválida',
+  'csv.reject.date': 'data "{value}" não reconhecida',
+  'csv.reject.emptyMatch': 'confronto vazio',
+  'csv.reject.time': 'horário "{value}" não reconhecido',
+  'csv.reject.stake': 'stake "{value}" inválida',
+  'csv.reject.odds': 'odd "{value}" inválida',
+  'csv.reject.status': 'resultado "{value}" desconhecido',
+  'csv.reject.confidence': 'confiança "{value}" fora de 1–5',
+  'csv.reject.closingOdds': 'odd de fechamento "{value}" inválida',
+
+  // Análise por jogo
+  'analysis.risk.low': 'Risco baixo',
+  'analysis.risk.medium': 'Risco médio',
+  'analysis.risk.high': 'Risco alto',
+  'analysis.confidence': 'Confiança {percent}%',
+  'analysis.stake': 'Stake {percent}%',
+
+  // Modelos e recorrência
+  'templates.deleteConfirm': 'Este modelo é usado por {count} regra(s), que também serão excluídas. Continuar?',
+  'templates.ruleFallback': 'Regra',
+  'templates.everyWeekday': 'toda {days}',
+  'templates.extraDates': '{count} data(s) avulsa(s)',
+  'templates.dayTemplates': 'Modelos de dia',
+  'templates.empty': 'Nenhum modelo salvo ainda.',
+  'templates.noGames': 'sem jogos',
+  'templates.applyTo': 'Aplicar em {date}',
+  'templates.selectDay': 'Selecione um dia',
+  'templates.namePlaceholder': 'Nome do modelo ({count} jogo(s) de {date})',
+  'templates.saveDay': 'Salvar dia',
+  'templates.since': '{rule} · desde {date}',
+  'templates.until': ' até {date}',
+  'templates.active': 'Ativa',
+  'templates.ruleNamePlaceholder': 'Nome (ex.: Fim de semana PL)',
+  'templates.extraDatesLabel': 'Datas avulsas (ex.: rodadas da Champions)',
+  'templates.start': 'Início',
+  'templates.end': 'Fim (opcional)',
+  'templates.saveRule': 'Salvar regra',
+  'templates.newRule': 'Nova regra',
+  'templates.saveTemplateFirst': '(salve um modelo antes)',
+
+  // Revisão do período
+  'review.scope.day': 'Dia',
+  'review.scope.custom': 'Período',
+  'review.failed': 'Falha na revisão. Verifique sua conexão.',
+  'review.title': 'Revisão do período',
+  'review.reviewing': 'Revisando…',
+  'review.generate': 'Gerar revisão',
+  'review.queued': 'Sem conexão: {count} revisão(ões) na fila, geradas quando a internet voltar.',
+  'review.stats': '{bets} apostas · {wins}G/{losses}R · ',
+  'review.yield': ' · yield {yield}%',
+  'review.leaks': 'Onde está perdendo',
+  'review.dimension.league': 'liga',
+  'review.dimension.market': 'mercado',
+  'review.patterns': 'Padrões nos reds',
+  'review.adjustments': 'Ajustes',
+  'review.previous': 'Revisões anteriores',
+  'review.empty': 'Nenhuma revisão salva ainda.',
+  'review.createdAt': ' · gerada em {date}',
+  'review.delete': 'Excluir revisão',
+
+  // Perfis e histórico
+  'profile.newPrompt': 'Nome do novo perfil (tipster ou banca):',
+  'profile.renamePrompt': 'Novo nome do perfil:',
+  'profile.removeConfirm': 'Excluir o perfil "{name}" com todos os jogos, banca e configurações? Não há como desfazer.',
+  'profile.switch': 'Trocar de perfil',
+  'profile.profiles': 'Perfis',
+  'profile.rename': 'Renomear',
+  'profile.switchBeforeRemove': 'Troque de perfil antes de excluir',
+  'profile.remove': 'Excluir perfil',
+  'profile.new': 'Novo perfil',
+  'profile.compare': 'Comparar perfis',
+  'profile.sortBy': 'Ordenar',
+  'profile.loading': 'Carregando perfis…',
+  'profile.noBets': 'Nenhuma aposta liquidada no período.',
+  'profile.profile': 'Perfil',
+  'profile.defaultName': 'Principal',
+  'profile.record': 'G/R/A',
+  'profile.compareHint': 'Palpites sem tipster marcado contam para o dono do perfil. Valores exibidos na moeda do perfil ativo.',
+  'historyMenu.undo': 'Desfazer: {label} (Ctrl+Z)',
+  'historyMenu.nothingToUndo': 'Nada para desfazer',
+  'historyMenu.redo': 'Refazer: {label} (Ctrl+Shift+Z)',
+  'historyMenu.nothingToRedo': 'Nada para refazer',
+  'historyMenu.recent': 'Ações recentes',
+  'historyMenu.undoUntil': 'Desfazer até antes desta ação',
+
+  // Snapshots, busca e cópia de dias
+  'snapshots.reason.auto': 'Automático',
+  'snapshots.reason.manual': 'Manual',
+  'snapshots.reason.migration': 'Migração',
+  'snapshots.reason.preImport': 'Antes de importar',
+  'snapshots.reason.preRestore': 'Antes de restaurar',
+  'snapshots.failed': 'Falha ao acessar os snapshots.',
+  'snapshots.restoreConfirm': 'Restaurar o snapshot de {when}? O estado atual será guardado antes.',
+  'snapshots.unsupported': 'Este navegador não suporta IndexedDB; snapshots indisponíveis.',
+  'snapshots.usage': '{used} de {quota}',
+  'snapshots.create': 'Criar agora',
+  'snapshots.empty': 'Nenhum snapshot ainda.',
+  'snapshots.counts': '{days} dias · {games} jogos',
+  'snapshots.restore': 'Restaurar',
+  'snapshots.quota': 'Espaço de armazenamento insuficiente no navegador.',
+  'snapshots.notFound': 'Snapshot não encontrado.',
+  'search.title': 'Buscar palpites',
+  'search.placeholder': 'Time, liga, seleção ou anotação',
+  'search.filterName': 'Nome do filtro:',
+  'search.deleteFilter': 'Excluir filtro',
+  'search.hint': 'Digite ou escolha um filtro',
+  'search.results': '{count} resultado(s)',
+  'search.saveFilter': 'Salvar filtro',
+  'copy.title': 'Copiar {date}',
+  'copy.summary': '{count} jogo(s) serão copiados como novas entradas pendentes, sem resultado.',
+  'copy.tomorrow': 'Amanhã',
+  'copy.nextWeek': 'Próxima semana',
+  'copy.nextFourWeeks': 'Próximas 4 semanas',
+  'copy.confirm': 'Copiar para {count} dia(s)',
+
+  // Tabela de jogos
+  'fixtures.scope.day': 'Dia selecionado',
+  'fixtures.scope.week': 'Próximos 7 dias',
+  'fixtures.scope.all': 'Todos',
+  'fixtures.loaded': '{file}: {count} jogo(s)',
+  'fixtures.skipped': ', {count} ignorado(s)',
+  'fixtures.invalidFile': 'arquivo inválido',
+  'fixtures.load': 'Carregar .ics / .json / .csv',
+  'fixtures.removeFile': 'Remover arquivo',
+  'fixtures.empty': 'Carregue um calendário .ics publicado pela liga ou uma lista de jogos em JSON/CSV. Os arquivos são lidos localmente, sem internet.',
+  'fixtures.searchTeam': 'Buscar time',
+  'fixtures.noMatches': 'Nenhum jogo neste filtro.',
+  'fixtures.added': 'Já está no planner',
+  'fixtures.add': 'Adicionar ao dia',
+  'fixtures.invalidJson': 'JSON inválido.',
+  'fixtures.noList': 'JSON não contém uma lista de jogos.',
+  'fixtures.csvEmpty': 'CSV sem linhas de dados.',
+  'fixtures.csvColumns': 'CSV de jogos precisa das colunas de data e de mandante/visitante (ou confronto).',
+
+  // Configurações
+  'settings.language': 'Idioma',
+  'settings.languageHint': 'Vale para a interface, datas, valores e as respostas da IA. A semana começa no domingo em português e na segunda em inglês e espanhol.',
+  'settings.ai': 'Análise de IA',
+  'settings.provider.gemini': 'Google Gemini',
+  'settings.provider.geminiHint': 'Análise remota com o modelo configurado.',
+  'settings.provider.mock': 'Local (offline)',
+  'settings.provider.mockHint': 'Análise determinística baseada nas odds, sem internet.',
+  'settings.model': 'Modelo',
+  'settings.temperature': 'Temperatura',
+  'settings.apiKey': 'Chave da API',
+  'settings.apiKeyPlaceholder': 'Usar chave do ambiente',
+  'settings.clearCache': 'Limpar cache de análises',
+  'settings.cacheCleared': 'Cache de análises limpo.',
+  'settings.times': 'Horários',
+  'settings.myTimeZone': 'Meu fuso (exibição)',
+  'settings.leagueTimeZones': 'Fuso padrão por liga',
+  'settings.leaguePlaceholder': 'Liga (ex.: J-League)',
+  'settings.leagueTimeZonesHint': 'Horários digitados sem fuso próprio usam o da liga; sem liga cadastrada, o seu.',
+  'settings.staking': 'Gestão de stake',
+  'settings.unit': 'Unidade',
+  'settings.percent': '% da banca',
+  'settings.kellyFraction': 'Fração do Kelly',
+  'settings.fullKelly': 'Kelly completo',
+  'settings.recoveryCap': 'Teto (unidades)',
+  'settings.maxStake': 'Máx. por aposta %',
+  'settings.maxDay': 'Máx. no dia %',
+  'settings.lossStreak': 'Alerta após reds',
+  'settings.noLimit': 'Sem limite',
+  'settings.off': 'Desligado',
+  'settings.stakingHint': 'Percentuais calculados sobre a banca atual (inicial + lucro liquidado).',
+  'settings.reminders': 'Lembretes',
+  'settings.kickoffReminder': 'Avisar antes do início',
+  'settings.minutes': '{minutes} min',
+  'settings.settleNag': 'Lembrar jogos sem resultado',
+  'settings.notificationsUnsupported': 'Este navegador não suporta notificações.',
+  'settings.notificationsBlocked': 'Notificações bloqueadas; libere nas permissões do site.',
+  'settings.notificationsHint': 'Os avisos saem enquanto o app estiver aberto ou instalado em segundo plano.',
+  'settings.sync': 'Sincronização',
+  'settings.syncEnabled': 'Sincronizar com servidor próprio',
+  'settings.syncServer': 'Servidor',
+  'settings.syncSpace': 'Espaço',
+  'settings.syncAuto': 'Automática',
+  'settings.syncManual': 'Só manual',
+  'settings.syncEvery': 'A cada {minutes} min',
+  'settings.syncToken': 'Token (opcional)',
+  'settings.syncTokenPlaceholder': 'SYNC_TOKEN do servidor',
+  'settings.syncRun': 'Rode',
+  'settings.syncHint': 'em um computador da rede e use o mesmo espaço em todos os aparelhos. Cada perfil sincroniza com o espaço configurado nele.'
+};
+
+export type TranslationKey = keyof typeof ptBRCatalog;
+
+export type Catalog = Record<TranslationKey, string>;
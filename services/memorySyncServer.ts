@@ -0,0 +1,26 @@
+import { DayPlan } from "../types";
+import { createSyncStore } from "../server/syncStore.mjs";
+import { PullResponse, PushResponse, SyncTransport } from "./syncTransport";
+
+/**
+ * Servidor substituto em memória, com as mesmas regras do servidor HTTP.
+ * Cada `transport()` simula um aparelho falando com o mesmo espaço.
+ * Os planos são copiados na ida e na volta, como aconteceria pela rede.
+ */
+export const createMemorySyncServer = () => {
+  const store = createSyncStore();
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    transport(space = 'default'): SyncTransport {
+      return {
+        async pull(since: number): Promise<PullResponse> {
+          return clone(store.changes(space, since));
+        },
+        async push(date: string, baseRev: number, plan: DayPlan | null): Promise<PushResponse> {
+          return clone(store.put(space, date, baseRev, clone(plan)) as PushResponse);
+        }
+      };
+    }
+  };
+};
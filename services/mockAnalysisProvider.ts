@@ -0,0 +1,94 @@
+import { AIAnalysisResponse, GameAnalysis, GameEntry, RetrospectiveLeak, RetrospectiveReview, RiskRating } from "../types";
+import { AnalysisProvider, RetrospectiveInput, analyzableGames } from "./analysisProvider";
+import { t } from "./i18n";
+
+const STAKE_BY_RISK: Record<RiskRating, number> = { low: 0.03, medium: 0.02, high: 0.01 };
+
+// Hash estável (djb2) para jogos sem odd: mesma entrada, mesma análise
+const hashString = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+const analyzeGame = (game: GameEntry): GameAnalysis => {
+  const odds = game.odds > 1 ? game.odds : 1.5 + (hashString(`${game.match}|${game.league}`) % 200) / 100;
+  const risk: RiskRating = odds < 1.6 ? 'low' : odds < 2.5 ? 'medium' : 'high';
+  const confidence = Math.min(95, Math.max(5, Math.round(100 / odds)));
+
+  return {
+    gameId: game.id,
+    risk,
+    confidence,
+    stakeFraction: STAKE_BY_RISK[risk],
+    reasoning: t('mock.reasoning', { odds: odds.toFixed(2), probability: Math.round(100 / odds), risk: t(`mock.risk.${risk}`) })
+  };
+};
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+/** Revisão local: perdas por liga/mercado e comparação entre greens e reds. */
+const reviewLocally = ({ stats, leagues, markets, picks }: RetrospectiveInput): RetrospectiveReview => {
+  const leaks: RetrospectiveLeak[] = [
+    ...leagues.filter(r => r.profit < 0).map(r => ({ dimension: 'league' as const, row: r })),
+    ...markets.filter(r => r.profit < 0).map(r => ({ dimension: 'market' as const, row: r }))
+  ]
+    .sort((a, b) => a.row.profit - b.row.profit)
+    .slice(0, 5)
+    .map(({ dimension, row }) => ({
+      dimension,
+      name: row.label,
+      reason: t('mock.leakReason', { bets: row.bets, hitRate: row.hitRate.toFixed(0), yield: row.yield.toFixed(1) })
+    }));
+
+  const wins = picks.filter(p => p.game.status === 'win' || p.game.status === 'half_win').map(p => p.game);
+  const losses = picks.filter(p => p.game.status === 'loss' || p.game.status === 'half_loss').map(p => p.game);
+  const patterns: string[] = [];
+  const adjustments: string[] = [];
+
+  if (losses.length > 0 && wins.length > 0) {
+    const [lossOdds, winOdds] = [average(losses.map(g => g.odds)), average(wins.map(g => g.odds))];
+    if (lossOdds > winOdds * 1.15) {
+      patterns.push(t('mock.patternOdds', { lossOdds: lossOdds.toFixed(2), winOdds: winOdds.toFixed(2) }));
+      adjustments.push(t('mock.adjustOdds', { winOdds: winOdds.toFixed(2) }));
+    }
+    const [lossStake, winStake] = [average(losses.map(g => g.stake)), average(wins.map(g => g.stake))];
+    if (lossStake > winStake * 1.15) {
+      patterns.push(t('mock.patternStake', { lossStake: lossStake.toFixed(2), winStake: winStake.toFixed(2) }));
+      adjustments.push(t('mock.adjustStake'));
+    }
+  }
+  if (patterns.length === 0) patterns.push(t('mock.noPattern'));
+
+  leaks.slice(0, 2).forEach(leak =>
+    adjustments.push(t(leak.dimension === 'league' ? 'mock.pauseLeague' : 'mock.pauseMarket', { name: leak.name }))
+  );
+  if (adjustments.length === 0) adjustments.push(t('mock.keepGoing'));
+
+  return {
+    summary: t('mock.reviewSummary', { bets: stats.bets, wins: stats.wins, losses: stats.losses, yield: stats.yield.toFixed(1) }),
+    leaks,
+    patterns,
+    adjustments
+  };
+};
+
+/** Provedor offline: deriva risco e confiança apenas das odds, sem chamadas externas. */
+export const createMockProvider = (): AnalysisProvider => ({
+  cacheKey: 'mock',
+
+  analyzeDay: async (dayPlan): Promise<AIAnalysisResponse> => {
+    const games = analyzableGames(dayPlan).map(analyzeGame);
+    const highRisk = games.filter(g => g.risk === 'high').length;
+    const confidence = Math.round(games.reduce((sum, g) => sum + g.confidence, 0) / games.length);
+
+    return {
+      summary: t('mock.summary', { count: games.length, highRisk }),
+      confidence,
+      advice: t(highRisk > games.length / 2 ? 'mock.adviceRisky' : 'mock.adviceBalanced'),
+      games
+    };
+  },
+
+  reviewPeriod: async (input) => reviewLocally(input)
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, BetSlip, GameEntry, TimeSettings } from '../types';
+import { createNewGame, emptyDayPlan, findGameDate, isBlankGame, plannerReducer } from './planner';
+
+const DATE = '2026-03-10';
+const LONDON: TimeSettings = { timeZone: 'Europe/London', leagueTimeZones: {} };
+
+const game = (overrides: Partial<GameEntry> = {}): GameEntry => ({ ...createNewGame(), ...overrides });
+
+const dayWith = (...games: GameEntry[]): AppData => ({ [DATE]: { date: DATE, games } });
+
+const slip = (overrides: Partial<BetSlip> = {}): BetSlip => ({ id: 's1', name: 'Dupla', legIds: [], sizes: [2], stake: 10, ...overrides });
+
+describe('plannerReducer', () => {
+  it('adiciona um jogo em branco ao dia', () => {
+    const first = game({ match: 'Flamengo x Vasco' });
+    const next = plannerReducer(dayWith(first), { type: 'addGame', date: DATE });
+    expect(next[DATE].games).toHaveLength(2);
+    expect(next[DATE].games[0]).toBe(first);
+    expect(isBlankGame(next[DATE].games[1])).toBe(true);
+  });
+
+  it('cria o dia a partir do jogo em branco exibido, mantendo o id', () => {
+    const placeholder = emptyDayPlan(DATE).games[0];
+    const next = plannerReducer({}, { type: 'updateGame', date: DATE, gameId: placeholder.id, patch: { match: 'Grêmio x Inter' } });
+    expect(next[DATE].games).toHaveLength(1);
+    expect(next[DATE].games[0]).toMatchObject({ id: placeholder.id, match: 'Grêmio x Inter' });
+  });
+
+  it('reliquida o P&L ao alterar status, stake ou odd', () => {
+    const pick = game({ match: 'Santos x Palmeiras', stake: 100, odds: 2 });
+    let data = plannerReducer(dayWith(pick), { type: 'updateGame', date: DATE, gameId: pick.id, patch: { status: 'win' } });
+    expect(data[DATE].games[0].profit).toBe(100);
+
+    data = plannerReducer(data, { type: 'updateGame', date: DATE, gameId: pick.id, patch: { odds: 2.5 } });
+    expect(data[DATE].games[0].profit).toBe(150);
+
+    data = plannerReducer(data, { type: 'updateGame', date: DATE, gameId: pick.id, patch: { status: 'half_loss' } });
+    expect(data[DATE].games[0].profit).toBe(-50);
+
+    data = plannerReducer(data, { type: 'updateGame', date: DATE, gameId: pick.id, patch: { status: 'pending' } });
+    expect(data[DATE].games[0].profit).toBeNull();
+  });
+
+  it('ignora edição de jogo inexistente', () => {
+    const data = dayWith(game());
+    expect(plannerReducer(data, { type: 'updateGame', date: DATE, gameId: 'outro', patch: { match: 'x' } })).toBe(data);
+  });
+
+  it('remove o jogo e sempre mantém ao menos um jogo em branco', () => {
+    const a = game({ match: 'A x B' });
+    const b = game({ match: 'C x D' });
+    let data = plannerReducer(dayWith(a, b), { type: 'removeGame', date: DATE, gameId: a.id });
+    expect(data[DATE].games).toEqual([b]);
+
+    data = plannerReducer(data, { type: 'removeGame', date: DATE, gameId: b.id });
+    expect(data[DATE].games).toHaveLength(1);
+    expect(data[DATE].games[0].id).not.toBe(b.id);
+    expect(isBlankGame(data[DATE].games[0])).toBe(true);
+  });
+
+  it('limpa o dia, incluindo bilhetes', () => {
+    const data: AppData = { [DATE]: { date: DATE, games: [game({ match: 'A x B' })], slips: [slip()] } };
+    const next = plannerReducer(data, { type: 'clearDay', date: DATE });
+    expect(next[DATE].slips).toBeUndefined();
+    expect(next[DATE].games).toHaveLength(1);
+    expect(isBlankGame(next[DATE].games[0])).toBe(true);
+  });
+
+  it('cria, edita e remove bilhetes', () => {
+    let data = plannerReducer(dayWith(game()), { type: 'addSlip', date: DATE, slip: slip() });
+    expect(data[DATE].slips).toEqual([slip()]);
+
+    data = plannerReducer(data, { type: 'updateSlipStake', date: DATE, slipId: 's1', stake: 25 });
+    expect(data[DATE].slips?.[0].stake).toBe(25);
+
+    data = plannerReducer(data, { type: 'removeSlip', date: DATE, slipId: 's1' });
+    expect(data[DATE].slips).toEqual([]);
+  });
+
+  it('normaliza o horário e ordena o dia ao confirmar', () => {
+    const late = game({ match: 'Tarde', time: '20:00' });
+    const early = game({ match: 'Cedo', time: '9h' });
+    const next = plannerReducer(dayWith(late, early), { type: 'confirmKickoff', date: DATE, gameId: early.id, settings: LONDON });
+    expect(next[DATE].games.map(g => g.match)).toEqual(['Cedo', 'Tarde']);
+    expect(next[DATE].games[0]).toMatchObject({ time: '09:00', kickoffAt: '2026-03-10T09:00:00.000Z' });
+  });
+
+  it('move para o dia seguinte o jogo que cruza a meia-noite no fuso do usuário', () => {
+    const pick = game({ match: 'Flamengo x Vasco', time: '23:30' });
+    const action = { type: 'confirmKickoff', date: DATE, gameId: pick.id, settings: LONDON, patch: { timeZone: 'America/Sao_Paulo' } } as const;
+    const next = plannerReducer(dayWith(pick), action);
+    expect(findGameDate(next, pick.id)).toBe('2026-03-11');
+    expect(next['2026-03-11'].games[0].kickoffAt).toBe('2026-03-11T02:30:00.000Z');
+  });
+
+  it('não altera nada quando o horário já está confirmado', () => {
+    const data = plannerReducer(dayWith(game({ time: '15:00' })), { type: 'addGame', date: DATE });
+    const [confirmed] = data[DATE].games;
+    const once = plannerReducer(data, { type: 'confirmKickoff', date: DATE, gameId: confirmed.id, settings: LONDON });
+    expect(plannerReducer(once, { type: 'confirmKickoff', date: DATE, gameId: confirmed.id, settings: LONDON })).toBe(once);
+  });
+});
@@ -0,0 +1,118 @@
+import { AppData, BetSlip, DayPlan, GameEntry, TimeSettings } from "../types";
+import { settleGame } from "./bankroll";
+import { normalizeKickoff, placeByKickoff, sortByKickoff } from "./kickoff";
+
+export const createNewGame = (): GameEntry => ({
+  id: crypto.randomUUID(),
+  time: '',
+  league: '',
+  match: '',
+  status: 'pending',
+  market: '',
+  selection: '',
+  bookmaker: '',
+  stake: 0,
+  odds: 0,
+  profit: null
+});
+
+/** Jogo sem nenhum campo preenchido, como o criado automaticamente no painel lateral. */
+export const isBlankGame = (game: GameEntry) => !game.match && !game.league && !game.time;
+
+/** Tags sem espaços sobrando, vazias ou repetidas (ignorando maiúsculas). */
+export const normalizeTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/** CLV em %: quanto a odd tomada supera a de fechamento; null sem as duas odds. */
+export const closingLineValue = (game: GameEntry) =>
+  game.odds > 1 && game.closingOdds && game.closingOdds > 1 ? (game.odds / game.closingOdds - 1) * 100 : null;
+
+/** Dia ainda não gravado: o painel lateral começa com um jogo em branco. */
+export const emptyDayPlan = (date: string): DayPlan => ({ date, games: [createNewGame()] });
+
+/** Campos que o usuário edita; id, P&L e início em UTC são derivados deles. */
+export type EditableGameField = Exclude<keyof GameEntry, 'id' | 'profit' | 'kickoffAt'>;
+
+export type GamePatch = Partial<Pick<GameEntry, EditableGameField>>;
+
+/** Edições do painel lateral sobre um dia do planner. */
+export type PlannerAction =
+  | { type: 'addGame'; date: string }
+  | { type: 'updateGame'; date: string; gameId: string; patch: GamePatch }
+  | { type: 'confirmKickoff'; date: string; gameId: string; settings: TimeSettings; patch?: GamePatch }
+  | { type: 'removeGame'; date: string; gameId: string }
+  | { type: 'clearDay'; date: string }
+  | { type: 'addSlip'; date: string; slip: BetSlip }
+  | { type: 'removeSlip'; date: string; slipId: string }
+  | { type: 'updateSlipStake'; date: string; slipId: string; stake: number };
+
+// Dia ainda não gravado parte do jogo em branco exibido no painel, com o mesmo
+// id, para que a primeira edição não recrie o card (e o campo perca o foco)
+const planFor = (data: AppData, date: string, gameId?: string): DayPlan =>
+  data[date] ?? { date, games: [{ ...createNewGame(), ...(gameId ? { id: gameId } : {}) }] };
+
+const withPlan = (data: AppData, plan: DayPlan): AppData => ({ ...data, [plan.date]: plan });
+
+const updateSlips = (data: AppData, date: string, update: (slips: BetSlip[]) => BetSlip[]) => {
+  const plan = planFor(data, date);
+  return withPlan(data, { ...plan, slips: update(plan.slips ?? []) });
+};
+
+/**
+ * Aplica uma ação ao planner sem efeitos colaterais. Retorna `data` quando a
+ * ação não muda nada (o histórico ignora commits sem alteração).
+ */
+export const plannerReducer = (data: AppData, action: PlannerAction): AppData => {
+  switch (action.type) {
+    case 'addGame': {
+      const plan = planFor(data, action.date);
+      return withPlan(data, { ...plan, games: [...plan.games, createNewGame()] });
+    }
+    case 'updateGame': {
+      const plan = planFor(data, action.date, action.gameId);
+      if (!plan.games.some(g => g.id === action.gameId)) return data;
+      // Toda alteração de status, stake ou odd reliquida o P&L do jogo
+      const games = plan.games.map(g => (g.id === action.gameId ? settleGame({ ...g, ...action.patch }) : g));
+      return withPlan(data, { ...plan, games });
+    }
+    case 'confirmKickoff': {
+      // Normaliza o horário, reordena o dia e move o jogo que cruzou a meia-noite
+      const plan = planFor(data, action.date, action.gameId);
+      const game = plan.games.find(g => g.id === action.gameId);
+      if (!game) return data;
+      const edited = action.patch ? { ...game, ...action.patch } : game;
+      const normalized = normalizeKickoff(edited, action.date, action.settings, game);
+      const updated = normalized === game ? plan.games : plan.games.map(g => (g === game ? normalized : g));
+      const games = sortByKickoff(updated, action.date, action.settings);
+      if (normalized === game && games === plan.games) return data;
+      return placeByKickoff(withPlan(data, { ...plan, games }), action.settings);
+    }
+    case 'removeGame': {
+      const plan = planFor(data, action.date);
+      const games = plan.games.filter(g => g.id !== action.gameId);
+      // O dia sempre mantém ao menos um jogo para edição
+      return withPlan(data, { ...plan, games: games.length > 0 ? games : [createNewGame()] });
+    }
+    case 'clearDay':
+      return withPlan(data, emptyDayPlan(action.date));
+    case 'addSlip':
+      return updateSlips(data, action.date, slips => [...slips, action.slip]);
+    case 'removeSlip':
+      return updateSlips(data, action.date, slips => slips.filter(s => s.id !== action.slipId));
+    case 'updateSlipStake':
+      return updateSlips(data, action.date, slips => slips.map(s => (s.id === action.slipId ? { ...s, stake: action.stake } : s)));
+  }
+};
+
+/** Dia em que o jogo está gravado; acompanha jogos movidos pelo fuso. */
+export const findGameDate = (data: AppData, gameId: string) =>
+  Object.values(data).find(plan => plan.games.some(g => g.id === gameId))?.date ?? null;
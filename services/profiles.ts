@@ -0,0 +1,87 @@
+import { AppData, Bankroll, Profile, ProfileState, StatsBreakdownRow, StatsFilter } from "../types";
+import { detectLanguage, translate } from "./i18n";
+import { SettledPick, collectSettledPicks, computeStats } from "./stats";
+
+export const PROFILES_KEY = 'bet_planner_pro_profiles';
+
+// Perfil criado implicitamente para quem já usava o app antes dos perfis
+export const DEFAULT_PROFILE_ID = 'default';
+
+// As configurações (e o idioma escolhido) são por perfil: o nome segue o navegador
+const defaultState = (): ProfileState => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: translate(detectLanguage(), 'profile.defaultName') }],
+  activeId: DEFAULT_PROFILE_ID
+});
+
+/**
+ * Chave de armazenamento do perfil. O perfil padrão usa a chave original,
+ * de modo que os dados anteriores aos perfis continuam no mesmo lugar.
+ */
+export const profileKey = (baseKey: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}__${profileId}`;
+
+export const loadProfiles = (): ProfileState => {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    const profiles: Profile[] = Array.isArray(parsed?.profiles)
+      ? parsed.profiles.filter((p: Profile) => typeof p?.id === 'string' && typeof p?.name === 'string')
+      : [];
+    if (profiles.length === 0) return defaultState();
+    const activeId = profiles.some(p => p.id === parsed.activeId) ? parsed.activeId : profiles[0].id;
+    return { profiles, activeId };
+  } catch (e) {
+    console.warn("Falha ao carregar perfis do LocalStorage", e);
+    return defaultState();
+  }
+};
+
+export const createProfile = (name: string): Profile => ({ id: crypto.randomUUID(), name: name.trim() });
+
+/** Nome de quem sugeriu o palpite: a marcação do jogo ou, sem ela, o dono do perfil. */
+export const tipsterOf = (tipster: string | undefined, profile: Profile) => tipster?.trim() || profile.name;
+
+export interface ProfileDataset {
+  profile: Profile;
+  data: AppData;
+  bankroll: Bankroll;
+}
+
+export type ComparisonGroup = 'profile' | 'tipster';
+export type ComparisonSort = 'profit' | 'hitRate';
+
+/**
+ * Desempenho no período agrupado por perfil ou por tipster (somando todos os
+ * perfis), do melhor para o pior no critério escolhido. Tipsters não têm banca
+ * própria, então o ROI deles fica zerado; o yield é a métrica comparável.
+ */
+export const compareProfiles = (
+  datasets: ProfileDataset[],
+  filter: StatsFilter,
+  group: ComparisonGroup,
+  sort: ComparisonSort
+): StatsBreakdownRow[] => {
+  const groups = new Map<string, { label: string; picks: SettledPick[]; initial: number }>();
+
+  datasets.forEach(({ profile, data, bankroll }) => {
+    // Perfis sem apostas no período também aparecem no ranking
+    if (group === 'profile') groups.set(profile.id, { label: profile.name, picks: [], initial: bankroll.initial });
+    collectSettledPicks(data, filter).forEach(pick => {
+      const key = group === 'profile' ? profile.id : tipsterOf(pick.game.tipster, profile);
+      if (!groups.has(key)) groups.set(key, { label: key, picks: [], initial: 0 });
+      groups.get(key)!.picks.push(pick);
+    });
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, { label, picks, initial }]) => ({ key, label, ...computeStats(picks, initial) }))
+    .sort((a, b) => (sort === 'profit' ? b.profit - a.profit : b.hitRate - a.hitRate) || b.bets - a.bets);
+};
+
+/** Remove as chaves de localStorage de um perfil excluído (banca, configurações, modelos...). */
+export const clearProfileKeys = (profileId: string) => {
+  const suffix = `__${profileId}`;
+  Object.keys(localStorage)
+    .filter(key => key.endsWith(suffix))
+    .forEach(key => localStorage.removeItem(key));
+};
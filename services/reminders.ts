@@ -0,0 +1,157 @@
+import { AppData, GameEntry, ReminderSettings, TimeSettings } from "../types";
+import { t } from "./i18n";
+import { displayKickoff, formatInZone, resolveKickoff } from "./kickoff";
+
+export const REMINDER_LOG_KEY = 'bet_planner_pro_reminders';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  kickoff: false,
+  minutesBefore: 15,
+  settleNag: false,
+  nagTime: '10:00'
+};
+
+export const REMINDER_LEAD_OPTIONS = [5, 10, 15, 30, 60, 120];
+
+// Limite de chaves guardadas; as mais antigas saem primeiro
+const MAX_LOGGED_KICKOFFS = 300;
+
+/** O que já foi notificado, para não repetir após recarregar a página. */
+export interface ReminderLog {
+  kickoffs: string[]; // `${gameId}@${kickoffAt}`
+  lastNag: string;    // YYYY-MM-DD do último lembrete de pendentes
+}
+
+export const loadReminderLog = (): ReminderLog => {
+  try {
+    const saved = localStorage.getItem(REMINDER_LOG_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return {
+      kickoffs: Array.isArray(parsed.kickoffs) ? parsed.kickoffs : [],
+      lastNag: typeof parsed.lastNag === 'string' ? parsed.lastNag : ''
+    };
+  } catch (e) {
+    console.warn("Falha ao carregar registro de lembretes", e);
+    return { kickoffs: [], lastNag: '' };
+  }
+};
+
+export const saveReminderLog = (log: ReminderLog) => {
+  try {
+    localStorage.setItem(REMINDER_LOG_KEY, JSON.stringify({ ...log, kickoffs: log.kickoffs.slice(-MAX_LOGGED_KICKOFFS) }));
+  } catch (e) {
+    console.error("Erro ao salvar registro de lembretes", e);
+  }
+};
+
+export interface PendingPick {
+  date: string;
+  game: GameEntry;
+}
+
+export interface KickoffReminder extends PendingPick {
+  key: string;
+  kickoff: Date;
+}
+
+/**
+ * Jogos pendentes cuja janela de aviso já abriu (início - N minutos) e que
+ * ainda não começaram. Jogos já avisados (`notified`) ficam de fora.
+ */
+export const dueKickoffReminders = (
+  data: AppData,
+  settings: TimeSettings,
+  minutesBefore: number,
+  now: Date,
+  notified: string[]
+): KickoffReminder[] => {
+  const sent = new Set(notified);
+  const lead = minutesBefore * 60000;
+  return Object.keys(data).flatMap(date =>
+    data[date].games
+      .filter(game => game.match && game.status === 'pending')
+      .flatMap(game => {
+        const kickoff = resolveKickoff(game, date, settings);
+        if (!kickoff) return [];
+        const key = `${game.id}@${kickoff.toISOString()}`;
+        const due = kickoff.getTime() - lead <= now.getTime() && now.getTime() < kickoff.getTime();
+        return due && !sent.has(key) ? [{ date, game, key, kickoff }] : [];
+      })
+  );
+};
+
+/** Data de hoje (YYYY-MM-DD) no fuso do usuário. */
+export const todayInZone = (now: Date, settings: TimeSettings) => formatInZone(now, settings.timeZone).date;
+
+/** Jogos de dias anteriores a `today` ainda sem resultado, do mais antigo ao mais recente. */
+export const unsettledPicks = (data: AppData, today: string): PendingPick[] =>
+  Object.keys(data)
+    .filter(date => date < today)
+    .sort()
+    .flatMap(date => data[date].games.filter(g => g.match && g.status === 'pending').map(game => ({ date, game })));
+
+/** O lembrete diário sai uma vez por dia, a partir do horário configurado. */
+export const isNagDue = (now: Date, reminders: ReminderSettings, settings: TimeSettings, lastNag: string) => {
+  const { date, time } = formatInZone(now, settings.timeZone);
+  return reminders.settleNag && lastNag !== date && time >= reminders.nagTime;
+};
+
+export const kickoffNotification = (reminder: KickoffReminder, settings: TimeSettings, now: Date) => {
+  const minutes = Math.max(0, Math.round((reminder.kickoff.getTime() - now.getTime()) / 60000));
+  const { game } = reminder;
+  return {
+    title: t('reminder.kickoff', { match: game.match, minutes }),
+    body: [
+      `${displayKickoff(game, reminder.date, settings)}${game.league ? ` · ${game.league}` : ''}`,
+      [game.market, game.selection].filter(Boolean).join(': ')
+    ].filter(Boolean).join('\n'),
+    tag: reminder.key,
+    date: reminder.date
+  };
+};
+
+export const nagNotification = (pending: PendingPick[]) => ({
+  title: t('reminder.nag', { count: pending.length }),
+  body: pending.slice(0, 3).map(p => p.game.match).join(', ') + (pending.length > 3 ? '…' : ''),
+  tag: 'settle-nag',
+  date: pending[0].date
+});
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Exibe a notificação pelo service worker quando houver um registrado —
+ * obrigatório no app instalado (PWA) e no Android — ou pela API direta.
+ */
+export const showNotification = async (
+  { title, body, tag, date }: { title: string; body: string; tag: string; date: string },
+  onClick?: (date: string) => void
+) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, tag, data: { date }, icon: '/icon.svg' };
+
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+    return;
+  }
+  // Sem service worker o clique chega direto aqui (com worker, via postMessage)
+  const notification = new Notification(title, options);
+  notification.onclick = () => {
+    window.focus();
+    onClick?.(date);
+  };
+};
+
+/** Contador no ícone do app instalado (Badging API), quando suportado. */
+export const updateAppBadge = (count: number) => {
+  const nav = navigator as Navigator & { setAppBadge?: (n: number) => Promise<void>; clearAppBadge?: () => Promise<void> };
+  const request = count > 0 ? nav.setAppBadge?.(count) : nav.clearAppBadge?.();
+  request?.catch(e => console.warn("Falha ao atualizar o contador do ícone", e));
+};
@@ -0,0 +1,63 @@
+import { endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { AppData, SavedReview } from "../types";
+import { AnalysisProvider, buildRetrospectiveInput } from "./analysisProvider";
+import { formatDate, formatDayMonth, t, weekStartsOn } from "./i18n";
+
+export const REVIEWS_KEY = 'bet_planner_pro_reviews';
+const REVIEWS_LIMIT = 100;
+
+export type ReviewScope = 'day' | 'week' | 'custom';
+
+export const loadReviews = (key = REVIEWS_KEY): SavedReview[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Falha ao carregar revisões do LocalStorage", e);
+    return [];
+  }
+};
+
+/** Inclui a revisão no topo do histórico, respeitando o limite. */
+export const addReview = (reviews: SavedReview[], review: SavedReview) => [review, ...reviews].slice(0, REVIEWS_LIMIT);
+
+// Mesma semana das estatísticas: começa no primeiro dia da semana do idioma
+export const reviewRange = (date: string, scope: Exclude<ReviewScope, 'custom'>) => {
+  if (scope === 'day') return { from: date, to: date };
+  const day = parseISO(date);
+  return {
+    from: format(startOfWeek(day, { weekStartsOn: weekStartsOn() }), 'yyyy-MM-dd'),
+    to: format(endOfWeek(day, { weekStartsOn: weekStartsOn() }), 'yyyy-MM-dd')
+  };
+};
+
+export const periodLabel = (from: string, to: string) =>
+  from === to
+    ? formatDate(from)
+    : t('share.period', { from: formatDayMonth(from), to: formatDate(to) });
+
+/** Revisões que cobrem a data, da mais recente para a mais antiga. */
+export const reviewsCovering = (reviews: SavedReview[], date: string) =>
+  reviews.filter(r => r.from <= date && date <= r.to);
+
+/** Gera a revisão retrospectiva do período com o provedor configurado. */
+export const createReview = async (
+  provider: AnalysisProvider,
+  data: AppData,
+  from: string,
+  to: string,
+  initialBankroll: number
+): Promise<SavedReview> => {
+  const input = buildRetrospectiveInput(data, from, to, initialBankroll);
+  const review = await provider.reviewPeriod(input);
+  return {
+    id: crypto.randomUUID(),
+    from,
+    to,
+    createdAt: new Date().toISOString(),
+    provider: provider.cacheKey,
+    stats: input.stats,
+    review
+  };
+};
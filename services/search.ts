@@ -0,0 +1,45 @@
+import { AppData, GameEntry, SavedFilter, StatsFilter } from "../types";
+import { formatDate, t } from "./i18n";
+import { matchesFilter } from "./stats";
+
+export const SAVED_FILTERS_KEY = 'bet_planner_pro_filters';
+
+export interface SearchResult {
+  date: string;
+  game: GameEntry;
+}
+
+export const isFilterEmpty = (filter: StatsFilter) =>
+  !filter.from && !filter.to && !filter.league && !filter.market && !filter.query?.trim() && !filter.statuses?.length;
+
+/** Jogos preenchidos de todo o histórico que passam no filtro, do mais recente ao mais antigo. */
+export const searchPicks = (data: AppData, filter: StatsFilter, limit = 200): SearchResult[] =>
+  Object.keys(data)
+    .sort((a, b) => b.localeCompare(a))
+    .flatMap(date => data[date].games.filter(g => g.match && matchesFilter(date, g, filter)).map(game => ({ date, game })))
+    .slice(0, limit);
+
+/** Resumo legível do filtro, ex.: "“gol” · Premier League · 01/03 – 31/03". */
+export const describeFilter = (filter: StatsFilter, statusLabels: Record<string, string>) => {
+  const period = filter.from || filter.to
+    ? `${filter.from ? formatDate(filter.from) : '…'} – ${filter.to ? formatDate(filter.to) : '…'}`
+    : '';
+  return [
+    filter.query?.trim() && `“${filter.query.trim()}”`,
+    filter.league,
+    filter.market,
+    filter.statuses?.length ? filter.statuses.map(s => statusLabels[s]).join('/') : '',
+    period
+  ].filter(Boolean).join(' · ') || t('search.noFilters');
+};
+
+export const loadSavedFilters = (): SavedFilter[] => {
+  try {
+    const saved = localStorage.getItem(SAVED_FILTERS_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Falha ao carregar filtros salvos do LocalStorage", e);
+    return [];
+  }
+};
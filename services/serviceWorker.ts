@@ -0,0 +1,10 @@
+/**
+ * Registra o service worker (public/sw.js). Sem ele o app não abre offline,
+ * não pode ser instalado e as notificações não funcionam no Android.
+ */
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.warn("Falha ao registrar o service worker", e));
+  });
+};
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AppData, Bankroll, GameEntry, ShareOptions, TimeSettings } from '../types';
+import { settleGame } from './bankroll';
+import { selectLanguage } from './i18n';
+import { createNewGame } from './planner';
+import { DEFAULT_SHARE_OPTIONS, buildShareCard, formatShareText, shareRange } from './share';
+
+const SETTINGS: TimeSettings = { timeZone: 'America/Sao_Paulo', leagueTimeZones: {} };
+const BANKROLL: Bankroll = { initial: 1000, currency: 'BRL' };
+
+const pick = (overrides: Partial<GameEntry>): GameEntry => settleGame({ ...createNewGame(), stake: 50, odds: 2, ...overrides });
+
+const DATA: AppData = {
+  '2026-03-10': {
+    date: '2026-03-10',
+    games: [
+      pick({ time: '21:30', league: 'Brasileirão', match: 'Flamengo x Vasco', market: 'Resultado', selection: 'Casa', status: 'win' }),
+      pick({ time: '16:00', league: 'Premier League', match: 'Arsenal x Chelsea', market: 'Over 2.5', selection: 'Sim', odds: 1.8 }),
+      createNewGame()
+    ]
+  },
+  '2026-03-12': {
+    date: '2026-03-12',
+    games: [pick({ time: '19:00', league: 'Libertadores', match: 'Palmeiras x Boca', status: 'loss' })]
+  }
+};
+
+const text = (options: Partial<ShareOptions>) => {
+  const merged = { ...DEFAULT_SHARE_OPTIONS, ...options };
+  return formatShareText(buildShareCard(DATA, '2026-03-10', merged.scope, BANKROLL, SETTINGS), merged);
+};
+
+afterEach(() => selectLanguage('pt-BR'));
+
+describe('buildShareCard / formatShareText', () => {
+  it('monta os palpites do dia em ordem de horário, sem jogos em branco', () => {
+    expect(text({ format: 'whatsapp', scope: 'picks' })).toBe([
+      '*🏆 BetMaster Planner - Palpites do dia*\n_10/03/2026_',
+      '⏰ 16:00 | Premier League\n⚽ *Arsenal x Chelsea*\n🎯 Over 2.5: Sim @ 1.80',
+      '⏰ 21:30 | Brasileirão\n⚽ *Flamengo x Vasco*\n🎯 Resultado: Casa @ 2.00\n✅ Green',
+      '🚀 Boa sorte!'
+    ].join('\n\n'));
+  });
+
+  it('usa a marcação de cada rede e omite odds quando pedido', () => {
+    const discord = text({ format: 'discord', showOdds: false });
+    expect(discord.startsWith('### 🏆 BetMaster Planner - Palpites do dia\n*10/03/2026*')).toBe(true);
+    expect(discord).toContain('⚽ **Arsenal x Chelsea**\n🎯 Over 2.5: Sim\n');
+    expect(discord).not.toContain('@');
+
+    const plain = text({ format: 'plain' });
+    expect(plain.startsWith('BETMASTER PLANNER - PALPITES DO DIA\n10/03/2026')).toBe(true);
+    expect(plain).not.toMatch(/[⏰⚽🎯✅]/u);
+  });
+
+  it('resume a semana agrupando por dia, com placar e pendentes', () => {
+    const week = text({ format: 'whatsapp', scope: 'week' });
+    expect(week).toContain('_08/03 a 14/03/2026_\n\n*10/03*\n⏰ 16:00');
+    expect(week).toContain('*12/03*\n⏰ 19:00 | Libertadores');
+    expect(week).toContain('📊 *Resumo*\n1 green · 1 red');
+    expect(week).toContain('1 pendente(s)');
+  });
+
+  it('traduz o texto e segue o início da semana do idioma', () => {
+    expect(shareRange('2026-03-10', 'week')).toEqual({ from: '2026-03-08', to: '2026-03-14' });
+    expect(shareRange('2026-03-10', 'day')).toEqual({ from: '2026-03-10', to: '2026-03-10' });
+
+    selectLanguage('en');
+    expect(shareRange('2026-03-10', 'week')).toEqual({ from: '2026-03-09', to: '2026-03-15' });
+    expect(text({ format: 'plain' }).startsWith('BETMASTER PLANNER - ')).toBe(true);
+    expect(text({ format: 'plain' })).not.toContain('Boa sorte');
+    expect(text({ format: 'plain', scope: 'week' })).toContain('9 Mar to 15/03/2026');
+  });
+});
@@ -0,0 +1,382 @@
+import { endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { AppData, Bankroll, GameEntry, GameStatus, PerformanceStats, ShareFormat, ShareOptions, ShareScope, TimeSettings } from "../types";
+import { formatCurrency } from "./bankroll";
+import { indexGames, settleSlip, slipAsGame } from "./betSlips";
+import { downloadFile } from "./download";
+import { formatDate, formatDayMonth, t, weekStartsOn } from "./i18n";
+import { displayKickoff, sortByKickoff } from "./kickoff";
+import { TranslationKey } from "./locales/ptBR";
+import { collectSettledPicks, computeStats } from "./stats";
+
+export const SHARE_OPTIONS_KEY = 'bet_planner_pro_share';
+
+export const SHARE_FORMATS: { id: ShareFormat; labelKey: TranslationKey }[] = [
+  { id: 'whatsapp', labelKey: 'share.format.whatsapp' },
+  { id: 'telegram', labelKey: 'share.format.telegram' },
+  { id: 'discord', labelKey: 'share.format.discord' },
+  { id: 'plain', labelKey: 'share.format.plain' },
+  { id: 'image', labelKey: 'share.format.image' }
+];
+
+export const SHARE_SCOPES: { id: ShareScope; labelKey: TranslationKey }[] = [
+  { id: 'picks', labelKey: 'share.scope.picks' },
+  { id: 'day', labelKey: 'share.scope.day' },
+  { id: 'week', labelKey: 'share.scope.week' }
+];
+
+export const DEFAULT_SHARE_OPTIONS: ShareOptions = {
+  format: 'whatsapp',
+  scope: 'picks',
+  showOdds: true,
+  showStakes: false,
+  showResults: true
+};
+
+export const loadShareOptions = (): ShareOptions => {
+  try {
+    const saved = localStorage.getItem(SHARE_OPTIONS_KEY);
+    return saved ? { ...DEFAULT_SHARE_OPTIONS, ...JSON.parse(saved) } : DEFAULT_SHARE_OPTIONS;
+  } catch (e) {
+    console.warn("Falha ao carregar preferências de compartilhamento", e);
+    return DEFAULT_SHARE_OPTIONS;
+  }
+};
+
+export interface ShareLine {
+  date: string;
+  time: string; // horário no fuso do usuário; '' se não definido
+  game: GameEntry;
+}
+
+/** Conteúdo neutro de formato; cada formato de texto e a imagem partem dele. */
+export interface ShareCard {
+  scope: ShareScope;
+  title: string;
+  period: string;
+  lines: ShareLine[];
+  summary: PerformanceStats | null; // só nos resumos
+  pending: number;
+  currency: string;
+}
+
+const RESULT_ICONS: Record<GameStatus, string> = {
+  pending: '⏳',
+  win: '✅',
+  half_win: '✅½',
+  loss: '❌',
+  half_loss: '❌½',
+  void: '↩️'
+};
+
+/** Intervalo coberto pelo escopo: o próprio dia ou a semana que o contém (o início da semana segue o idioma). */
+export const shareRange = (date: string, scope: ShareScope) => {
+  if (scope !== 'week') return { from: date, to: date };
+  const anchor = parseISO(date);
+  const options = { weekStartsOn: weekStartsOn() };
+  return {
+    from: format(startOfWeek(anchor, options), 'yyyy-MM-dd'),
+    to: format(endOfWeek(anchor, options), 'yyyy-MM-dd')
+  };
+};
+
+export const buildShareCard = (
+  data: AppData,
+  date: string,
+  scope: ShareScope,
+  bankroll: Bankroll,
+  settings: TimeSettings
+): ShareCard => {
+  const { from, to } = shareRange(date, scope);
+  const games = indexGames(data);
+
+  const lines = Object.keys(data)
+    .filter(d => d >= from && d <= to)
+    .sort()
+    .flatMap(d => {
+      const singles = sortByKickoff(data[d].games.filter(g => g.match), d, settings)
+        .map(game => ({ date: d, time: displayKickoff(game, d, settings), game }));
+      // Nos resumos, bilhetes múltiplos entram como linhas próprias
+      const slips = scope === 'picks'
+        ? []
+        : (data[d].slips || []).map(slip => ({ date: d, time: '', game: slipAsGame(slip, settleSlip(slip, games)) }));
+      return [...singles, ...slips];
+    });
+
+  const isRecap = scope !== 'picks';
+  return {
+    scope,
+    title: t(`share.scope.${scope}`),
+    period: from === to ? formatDate(from) : t('share.period', { from: formatDayMonth(from), to: formatDate(to) }),
+    lines,
+    summary: isRecap ? computeStats(collectSettledPicks(data, { from, to }), bankroll.initial) : null,
+    pending: lines.filter(l => l.game.status === 'pending').length,
+    currency: bankroll.currency
+  };
+};
+
+/** Marcação de cada rede; o texto simples não usa marcação nem emojis de status. */
+interface Markup {
+  heading: (s: string) => string;
+  bold: (s: string) => string;
+  italic: (s: string) => string;
+  result: (status: GameStatus) => string;
+  icons: boolean;
+}
+
+const MARKUPS: Record<Exclude<ShareFormat, 'image'>, Markup> = {
+  whatsapp: {
+    heading: s => `*${s}*`,
+    bold: s => `*${s}*`,
+    italic: s => `_${s}_`,
+    result: status => RESULT_ICONS[status],
+    icons: true
+  },
+  // Markdown aceito pelo editor do Telegram ao colar/enviar
+  telegram: {
+    heading: s => `**${s}**`,
+    bold: s => `**${s}**`,
+    italic: s => `__${s}__`,
+    result: status => RESULT_ICONS[status],
+    icons: true
+  },
+  discord: {
+    heading: s => `### ${s}`,
+    bold: s => `**${s}**`,
+    italic: s => `*${s}*`,
+    result: status => RESULT_ICONS[status],
+    icons: true
+  },
+  plain: {
+    heading: s => s.toUpperCase(),
+    bold: s => s,
+    italic: s => s,
+    result: () => t('share.resultLabel'),
+    icons: false
+  }
+};
+
+const signedMoney = (value: number, currency: string) =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatCurrency(Math.abs(value), currency)}`;
+
+const signedPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/** Trecho "mercado: seleção @ odd · stake" de um palpite, conforme as opções. */
+export const describePick = (game: GameEntry, options: ShareOptions, currency: string) => {
+  const pick = [game.market, game.selection].filter(Boolean).join(': ');
+  const odds = options.showOdds && game.odds > 0 ? `@ ${game.odds.toFixed(2)}` : '';
+  const stake = options.showStakes && game.stake > 0 ? formatCurrency(game.stake, currency) : '';
+  return [[pick, odds].filter(Boolean).join(' '), stake].filter(Boolean).join(' · ');
+};
+
+/** Resultado do palpite ("Green +R$ 42,50"), ou '' se ainda pendente ou oculto. */
+export const describeResult = (game: GameEntry, options: ShareOptions, currency: string) => {
+  if (!options.showResults || game.status === 'pending') return '';
+  const profit = options.showStakes && game.profit !== null && game.status !== 'void' ? ` ${signedMoney(game.profit, currency)}` : '';
+  return `${t(`status.${game.status}`)}${profit}`;
+};
+
+/** Linhas do quadro de resumo: placar de acertos, acerto, P&L e yield. */
+export const summaryLines = (summary: PerformanceStats, options: ShareOptions, currency: string) => [
+  `${t('share.score', { wins: summary.wins, losses: summary.losses })}${summary.voids ? t('share.scoreVoids', { voids: summary.voids }) : ''}`,
+  t('share.rates', { hitRate: summary.hitRate.toFixed(1), yield: signedPercent(summary.yield) }),
+  // O valor apostado só aparece quando as stakes estão visíveis; o P&L, sempre
+  `${options.showStakes ? t('share.staked', { value: formatCurrency(summary.staked, currency) }) : ''}P&L ${signedMoney(summary.profit, currency)}`
+];
+
+const formatLine = (line: ShareLine, card: ShareCard, options: ShareOptions, markup: Markup) => {
+  const { game } = line;
+  const pick = describePick(game, options, card.currency);
+  const result = describeResult(game, options, card.currency);
+  const header = [line.time || t('share.toBeDefined'), game.league].filter(Boolean).join(' | ');
+
+  return [
+    markup.icons ? `⏰ ${header}` : header,
+    markup.icons ? `⚽ ${markup.bold(game.match)}` : game.match,
+    pick && (markup.icons ? `🎯 ${pick}` : pick),
+    result && `${markup.result(game.status)} ${result}`
+  ].filter(Boolean).join('\n');
+};
+
+/** Texto pronto para colar na rede escolhida. */
+export const formatShareText = (card: ShareCard, options: ShareOptions) => {
+  const markup = MARKUPS[options.format === 'image' ? 'plain' : options.format];
+  const title = `${markup.icons ? '🏆 ' : ''}BetMaster Planner - ${card.title}`;
+  const blocks: string[] = [`${markup.heading(title)}\n${markup.italic(card.period)}`];
+
+  if (card.scope === 'week') {
+    // Semana: agrupa por dia
+    const byDate = new Map<string, ShareLine[]>();
+    card.lines.forEach(line => byDate.set(line.date, [...(byDate.get(line.date) || []), line]));
+    byDate.forEach((lines, date) => {
+      blocks.push(`${markup.bold(formatDayMonth(date))}\n${lines.map(l => formatLine(l, card, options, markup)).join('\n\n')}`);
+    });
+  } else {
+    card.lines.forEach(line => blocks.push(formatLine(line, card, options, markup)));
+  }
+
+  if (card.summary) {
+    const heading = markup.icons ? `📊 ${markup.bold(t('share.summary'))}` : markup.bold(t('share.summary'));
+    const pending = card.pending ? [t('share.pending', { count: card.pending })] : [];
+    blocks.push([heading, ...summaryLines(card.summary, options, card.currency), ...pending].join('\n'));
+  } else {
+    blocks.push(markup.icons ? `🚀 ${t('share.goodLuck')}` : t('share.goodLuck'));
+  }
+
+  return blocks.join('\n\n');
+};
+
+// --- Imagem --------------------------------------------------------------
+
+const CARD_WIDTH = 1080;
+const PADDING = 64;
+const ROW_HEIGHT = 132;
+
+const resultColor = (status: GameStatus) =>
+  status === 'win' || status === 'half_win' ? '#34d399' : status === 'loss' || status === 'half_loss' ? '#f87171' : '#94a3b8';
+
+/** Corta o texto com reticências até caber na largura. */
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && ctx.measureText(`${cut}…`).width > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}…`;
+};
+
+/** Desenha o cartão do dia/resumo num canvas e devolve o PNG. */
+export const renderShareImage = (card: ShareCard, options: ShareOptions): Promise<Blob> => {
+  const summary = card.summary ? summaryLines(card.summary, options, card.currency) : [];
+  const height = PADDING * 2 + 150 + Math.max(card.lines.length, 1) * ROW_HEIGHT + (summary.length ? 70 + summary.length * 44 : 0) + 50;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error(t('share.canvasUnavailable')));
+
+  const font = (weight: number, size: number) => `${weight} ${size}px Inter, system-ui, sans-serif`;
+  const contentWidth = CARD_WIDTH - PADDING * 2;
+
+  ctx.fillStyle = '#020617';
+  ctx.fillRect(0, 0, CARD_WIDTH, height);
+  ctx.fillStyle = '#0ea5e9';
+  ctx.fillRect(0, 0, CARD_WIDTH, 10);
+
+  let y = PADDING + 40;
+  ctx.fillStyle = '#38bdf8';
+  ctx.font = font(900, 26);
+  ctx.fillText('BETMASTER PLANNER', PADDING, y);
+  y += 56;
+  ctx.fillStyle = '#ffffff';
+  ctx.font = font(900, 48);
+  ctx.fillText(card.title, PADDING, y);
+  ctx.fillStyle = '#64748b';
+  ctx.font = font(700, 28);
+  ctx.textAlign = 'right';
+  ctx.fillText(card.period, CARD_WIDTH - PADDING, y);
+  ctx.textAlign = 'left';
+  y += 54;
+
+  if (card.lines.length === 0) {
+    ctx.fillStyle = '#64748b';
+    ctx.font = font(700, 30);
+    ctx.fillText(t('share.noGamesImage'), PADDING, y + 60);
+  }
+
+  card.lines.forEach(({ date, time, game }) => {
+    ctx.fillStyle = '#0f172a';
+    ctx.beginPath();
+    ctx.roundRect(PADDING, y, contentWidth, ROW_HEIGHT - 16, 28);
+    ctx.fill();
+
+    const prefix = card.scope === 'week' ? `${formatDayMonth(date)} ` : '';
+    ctx.fillStyle = '#38bdf8';
+    ctx.font = font(900, 24);
+    ctx.fillText(`${prefix}${time || '--:--'}`, PADDING + 28, y + 44);
+    ctx.fillStyle = '#64748b';
+    ctx.font = font(700, 22);
+    ctx.fillText(fitText(ctx, game.league, 360), PADDING + 200, y + 44);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = font(900, 32);
+    ctx.fillText(fitText(ctx, game.match, contentWidth - 300), PADDING + 28, y + 88);
+
+    const pick = describePick(game, options, card.currency);
+    const result = describeResult(game, options, card.currency);
+    ctx.textAlign = 'right';
+    if (result) {
+      ctx.fillStyle = resultColor(game.status);
+      ctx.font = font(900, 28);
+      ctx.fillText(result, CARD_WIDTH - PADDING - 28, y + 44);
+    }
+    if (pick) {
+      ctx.fillStyle = '#cbd5e1';
+      ctx.font = font(700, 24);
+      ctx.fillText(fitText(ctx, pick, 260), CARD_WIDTH - PADDING - 28, y + 88);
+    }
+    ctx.textAlign = 'left';
+    y += ROW_HEIGHT;
+  });
+
+  if (summary.length) {
+    y += 40;
+    ctx.fillStyle = '#ffffff';
+    ctx.font = font(900, 32);
+    ctx.fillText(t('share.summary'), PADDING, y);
+    ctx.font = font(700, 28);
+    summary.forEach(line => {
+      y += 44;
+      ctx.fillStyle = card.summary!.profit >= 0 ? '#34d399' : '#f87171';
+      ctx.fillText(line, PADDING, y);
+    });
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(t('share.imageFailed')))), 'image/png')
+  );
+};
+
+// --- Envio ---------------------------------------------------------------
+
+export type ShareOutcome = 'shared' | 'copied' | 'downloaded' | 'cancelled';
+
+const isAbort = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * Usa a Web Share API quando disponível (menu nativo do celular);
+ * caso contrário copia o texto para a área de transferência.
+ */
+export const shareText = async (text: string, title: string): Promise<ShareOutcome> => {
+  if (typeof navigator.share === 'function') {
+    try {
+      await navigator.share({ title, text });
+      return 'shared';
+    } catch (e) {
+      if (isAbort(e)) return 'cancelled';
+      console.warn("Web Share falhou; copiando o texto", e);
+    }
+  }
+  await navigator.clipboard.writeText(text);
+  return 'copied';
+};
+
+/** Compartilha o PNG como arquivo quando o navegador permite; senão, baixa. */
+export const shareImage = async (blob: Blob, filename: string, title: string): Promise<ShareOutcome> => {
+  const file = new File([blob], filename, { type: 'image/png' });
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ title, files: [file] });
+      return 'shared';
+    } catch (e) {
+      if (isAbort(e)) return 'cancelled';
+      console.warn("Web Share de imagem falhou; baixando o arquivo", e);
+    }
+  }
+  downloadFile(blob, filename, 'image/png');
+  return 'downloaded';
+};
+
+/** Copia o PNG para a área de transferência (Chrome/Edge/Safari recentes). */
+export const copyImage = async (blob: Blob) => {
+  if (typeof ClipboardItem === 'undefined') throw new Error(t('share.copyImageUnsupported'));
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+};
@@ -0,0 +1,147 @@
+import { AppData, DayPlan, GameEntry, GuardrailWarning, StakeSuggestion, StakingMethod, StakingSettings } from "../types";
+import { formatCurrency } from "./bankroll";
+import { t } from "./i18n";
+import { TranslationKey } from "./locales/ptBR";
+import { collectSettledPicks } from "./stats";
+
+export const DEFAULT_STAKING_SETTINGS: StakingSettings = {
+  method: 'flat',
+  unit: 10,
+  percent: 2,
+  kellyFraction: 0.25,
+  recoveryCap: 3,
+  maxStakePercent: 5,
+  maxDayExposurePercent: 20,
+  maxLossStreak: 4
+};
+
+export const STAKING_METHODS: { id: StakingMethod; labelKey: TranslationKey; descriptionKey: TranslationKey }[] = [
+  { id: 'flat', labelKey: 'staking.flat', descriptionKey: 'staking.flatDescription' },
+  { id: 'percent', labelKey: 'staking.percent', descriptionKey: 'staking.percentDescription' },
+  { id: 'kelly', labelKey: 'staking.kelly', descriptionKey: 'staking.kellyDescription' },
+  { id: 'recovery', labelKey: 'staking.recovery', descriptionKey: 'staking.recoveryDescription' }
+];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export interface LossStreak {
+  count: number;
+  lost: number; // soma das perdas da sequência, na moeda da banca
+}
+
+/**
+ * Sequência de reds no fim do histórico liquidado. Anuladas não interrompem
+ * nem estendem a sequência, como nas estatísticas.
+ */
+export const currentLossStreak = (data: AppData): LossStreak => {
+  const picks = collectSettledPicks(data);
+  let count = 0;
+  let lost = 0;
+  for (let i = picks.length - 1; i >= 0; i--) {
+    const { game } = picks[i];
+    if (game.status === 'void') continue;
+    if (game.status !== 'loss' && game.status !== 'half_loss') break;
+    count++;
+    lost += -(game.profit ?? 0);
+  }
+  return { count, lost: roundCents(lost) };
+};
+
+/** Fração da banca pelo critério de Kelly: (b·p − q) / b, com b = odd − 1. */
+export const kellyFraction = (odds: number, probabilityPercent: number) => {
+  const b = odds - 1;
+  const p = probabilityPercent / 100;
+  return (b * p - (1 - p)) / b;
+};
+
+/**
+ * Stake sugerida para o jogo conforme o plano. Retorna null quando faltam
+ * dados (banca, odd ou probabilidade). A sugestão nunca passa do limite por aposta.
+ */
+export const suggestStake = (
+  game: GameEntry,
+  settings: StakingSettings,
+  bankroll: number,
+  streak: LossStreak,
+  currency: string
+): StakeSuggestion | null => {
+  let suggestion: StakeSuggestion | null;
+
+  switch (settings.method) {
+    case 'flat':
+      suggestion = settings.unit > 0 ? { stake: settings.unit, reason: t('staking.oneUnit') } : null;
+      break;
+    case 'percent':
+      suggestion = bankroll > 0 ? { stake: (bankroll * settings.percent) / 100, reason: t('staking.percentReason', { percent: settings.percent }) } : null;
+      break;
+    case 'kelly': {
+      if (!(bankroll > 0) || !(game.odds > 1) || !game.probability) return null;
+      const fraction = kellyFraction(game.odds, game.probability);
+      suggestion = fraction <= 0
+        ? { stake: 0, reason: t('staking.noValue') }
+        : { stake: bankroll * fraction * settings.kellyFraction, reason: t('staking.kellyReason', { fraction: settings.kellyFraction, percent: (fraction * settings.kellyFraction * 100).toFixed(1) }) };
+      break;
+    }
+    case 'recovery': {
+      if (!(settings.unit > 0)) return null;
+      if (streak.count === 0 || !(game.odds > 1)) {
+        suggestion = { stake: settings.unit, reason: streak.count === 0 ? t('staking.nothingToRecover') : t('staking.unitNeedsOdds') };
+        break;
+      }
+      const needed = settings.unit + streak.lost / (game.odds - 1);
+      const cap = settings.unit * settings.recoveryCap;
+      suggestion = needed > cap
+        ? { stake: cap, reason: t('staking.recoveryCapped', { units: settings.recoveryCap }) }
+        : { stake: needed, reason: t('staking.recoveryReason', { amount: formatCurrency(streak.lost, currency), count: streak.count }) };
+      break;
+    }
+  }
+
+  if (!suggestion) return null;
+  const limit = settings.maxStakePercent > 0 && bankroll > 0 ? (bankroll * settings.maxStakePercent) / 100 : Infinity;
+  if (suggestion.stake > limit) {
+    return { stake: roundCents(limit), reason: t('staking.capped', { reason: suggestion.reason, percent: settings.maxStakePercent }) };
+  }
+  return { ...suggestion, stake: roundCents(suggestion.stake) };
+};
+
+/** Alertas de disciplina para o dia: stake acima do limite, exposição do dia e sequência de reds. */
+export const checkGuardrails = (
+  plan: DayPlan | undefined,
+  settings: StakingSettings,
+  bankroll: number,
+  streak: LossStreak,
+  currency: string
+): GuardrailWarning[] => {
+  const warnings: GuardrailWarning[] = [];
+  const games = plan?.games.filter(g => g.match && g.stake > 0) ?? [];
+
+  if (settings.maxStakePercent > 0 && bankroll > 0) {
+    const limit = (bankroll * settings.maxStakePercent) / 100;
+    games.filter(g => g.stake > limit).forEach(g => warnings.push({
+      kind: 'stake',
+      gameId: g.id,
+      message: t('guardrail.stake', { match: g.match, stake: formatCurrency(g.stake, currency), percent: settings.maxStakePercent, limit: formatCurrency(limit, currency) })
+    }));
+  }
+
+  if (settings.maxDayExposurePercent > 0 && bankroll > 0) {
+    const limit = (bankroll * settings.maxDayExposurePercent) / 100;
+    const exposure = games.reduce((sum, g) => sum + g.stake, 0) + (plan?.slips ?? []).reduce((sum, s) => sum + s.stake, 0);
+    if (exposure > limit) {
+      warnings.push({
+        kind: 'exposure',
+        message: t('guardrail.exposure', { exposure: formatCurrency(exposure, currency), percent: settings.maxDayExposurePercent, limit: formatCurrency(limit, currency) })
+      });
+    }
+  }
+
+  if (settings.maxLossStreak > 0 && streak.count >= settings.maxLossStreak) {
+    warnings.push({
+      kind: 'streak',
+      message: t('guardrail.streak', { count: streak.count, lost: formatCurrency(streak.lost, currency) })
+    });
+  }
+
+  return warnings;
+};
@@ -0,0 +1,212 @@
+import { format, parseISO, startOfWeek } from 'date-fns';
+import { AppData, ClvRow, GameEntry, PerformanceStats, ProfitPoint, StatsBreakdownRow, StatsFilter } from "../types";
+import { collectSlips, indexGames, settleSlip, slipAsGame } from "./betSlips";
+import { dateLocale, t, weekStartsOn } from "./i18n";
+import { closingLineValue } from "./planner";
+
+export interface SettledPick {
+  date: string;
+  game: GameEntry;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const percent = (part: number, total: number) => (total > 0 ? roundCents((part / total) * 100) : 0);
+
+const isWin = (game: GameEntry) => game.status === 'win' || game.status === 'half_win';
+const isLoss = (game: GameEntry) => game.status === 'loss' || game.status === 'half_loss';
+
+/** Minúsculas e sem acentos, para busca textual tolerante. */
+export const foldText = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const matchesQuery = (game: GameEntry, query: string) => {
+  const haystack = foldText([game.match, game.league, game.selection, game.market, game.notes || '', game.tipster || '', ...(game.tags ?? [])].join(' '));
+  return foldText(query).split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+};
+
+export const matchesFilter = (date: string, game: GameEntry, filter: StatsFilter) => {
+  if (filter.from && date < filter.from) return false;
+  if (filter.to && date > filter.to) return false;
+  if (filter.league && game.league.trim() !== filter.league) return false;
+  if (filter.market && game.market.trim() !== filter.market) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(game.status)) return false;
+  if (filter.query?.trim() && !matchesQuery(game, filter.query)) return false;
+  return true;
+};
+
+/**
+ * Todos os jogos liquidados que passam no filtro, em ordem cronológica.
+ * Bilhetes múltiplos liquidados entram como jogos da liga "Múltiplas".
+ */
+export const collectSettledPicks = (data: AppData, filter: StatsFilter = {}): SettledPick[] => {
+  const games = indexGames(data);
+  const slips = collectSlips(data)
+    .map(({ date, slip }) => ({ date, game: slipAsGame(slip, settleSlip(slip, games)) }))
+    .filter(({ date, game }) => game.status !== 'pending' && matchesFilter(date, game, filter));
+
+  const singles = Object.keys(data).flatMap(date =>
+    data[date].games
+      .filter(game => game.match && game.status !== 'pending' && matchesFilter(date, game, filter))
+      .map(game => ({ date, game }))
+  );
+
+  // sort estável: dentro do mesmo dia, mantém a ordem de inserção
+  return [...singles, ...slips].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const computeStats = (picks: SettledPick[], initialBankroll: number): PerformanceStats => {
+  let wins = 0;
+  let losses = 0;
+  let voids = 0;
+  let staked = 0;
+  let profit = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let winRun = 0;
+  let lossRun = 0;
+
+  picks.forEach(({ game }) => {
+    if (game.profit !== null) {
+      staked += game.stake;
+      profit += game.profit;
+    }
+
+    // Anuladas não quebram nem estendem sequências
+    if (isWin(game)) {
+      wins++;
+      winRun++;
+      lossRun = 0;
+    } else if (isLoss(game)) {
+      losses++;
+      lossRun++;
+      winRun = 0;
+    } else {
+      voids++;
+    }
+    longestWinStreak = Math.max(longestWinStreak, winRun);
+    longestLossStreak = Math.max(longestLossStreak, lossRun);
+  });
+
+  return {
+    bets: picks.length,
+    wins,
+    losses,
+    voids,
+    hitRate: percent(wins, wins + losses),
+    staked: roundCents(staked),
+    profit: roundCents(profit),
+    roi: percent(profit, initialBankroll),
+    yield: percent(profit, staked),
+    longestWinStreak,
+    longestLossStreak,
+  };
+};
+
+export const buildProfitCurve = (picks: SettledPick[]): ProfitPoint[] => {
+  const points: ProfitPoint[] = [];
+  let cumulative = 0;
+
+  picks.forEach(({ date, game }) => {
+    cumulative += game.profit ?? 0;
+    const last = points[points.length - 1];
+    if (last && last.date === date) {
+      last.cumulative = roundCents(cumulative);
+    } else {
+      points.push({ date, cumulative: roundCents(cumulative) });
+    }
+  });
+
+  return points;
+};
+
+const breakdownBy = (
+  picks: SettledPick[],
+  initialBankroll: number,
+  keyOf: (pick: SettledPick) => string | string[], // várias chaves: o palpite conta em cada grupo
+  labelOf: (key: string) => string
+): StatsBreakdownRow[] => {
+  const groups = new Map<string, SettledPick[]>();
+  picks.forEach(pick => {
+    const keys = keyOf(pick);
+    (Array.isArray(keys) ? keys : [keys]).forEach(key => groups.set(key, [...(groups.get(key) || []), pick]));
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    label: labelOf(key),
+    ...computeStats(group, initialBankroll),
+  }));
+};
+
+export const breakdownByMonth = (picks: SettledPick[], initialBankroll: number) =>
+  breakdownBy(
+    picks,
+    initialBankroll,
+    ({ date }) => date.slice(0, 7),
+    key => format(parseISO(`${key}-01`), 'MMM yyyy', { locale: dateLocale() })
+  ).sort((a, b) => b.key.localeCompare(a.key));
+
+// Semanas começam no primeiro dia da semana do idioma ativo
+export const breakdownByWeek = (picks: SettledPick[], initialBankroll: number) =>
+  breakdownBy(
+    picks,
+    initialBankroll,
+    ({ date }) => format(startOfWeek(parseISO(date), { weekStartsOn: weekStartsOn() }), 'yyyy-MM-dd'),
+    key => t('stats.weekOf', { date: format(parseISO(key), 'P', { locale: dateLocale() }) })
+  ).sort((a, b) => b.key.localeCompare(a.key));
+
+export const breakdownByLeague = (picks: SettledPick[], initialBankroll: number) =>
+  breakdownBy(picks, initialBankroll, ({ game }) => game.league.trim(), key => key || t('stats.noLeague'))
+    .sort((a, b) => b.profit - a.profit);
+
+export const breakdownByMarket = (picks: SettledPick[], initialBankroll: number) =>
+  breakdownBy(picks, initialBankroll, ({ game }) => game.market.trim(), key => key || t('stats.noMarket'))
+    .sort((a, b) => b.profit - a.profit);
+
+// Palpites sem tipster marcado contam para o dono do perfil
+export const breakdownByTipster = (picks: SettledPick[], initialBankroll: number, owner: string) =>
+  breakdownBy(picks, initialBankroll, ({ game }) => game.tipster?.trim() || owner, key => key)
+    .sort((a, b) => b.profit - a.profit);
+
+// Um palpite com várias tags entra na linha de cada uma
+export const breakdownByTag = (picks: SettledPick[], initialBankroll: number) =>
+  breakdownBy(picks, initialBankroll, ({ game }) => (game.tags?.length ? game.tags : ['']), key => key || t('stats.noTag'))
+    .sort((a, b) => b.profit - a.profit);
+
+export const breakdownByConfidence = (picks: SettledPick[], initialBankroll: number) =>
+  breakdownBy(
+    picks,
+    initialBankroll,
+    ({ game }) => (game.confidence ? String(game.confidence) : '0'),
+    key => (key === '0' ? t('stats.noConfidence') : `${'★'.repeat(Number(key))} (${key})`)
+  ).sort((a, b) => b.key.localeCompare(a.key));
+
+/** CLV médio por liga, só com as apostas que têm odd de fechamento. */
+export const clvByLeague = (picks: SettledPick[]): ClvRow[] => {
+  const groups = new Map<string, number[]>();
+  picks.forEach(({ game }) => {
+    const clv = closingLineValue(game);
+    if (clv === null) return;
+    const league = game.league.trim() || t('stats.noLeague');
+    groups.set(league, [...(groups.get(league) || []), clv]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, values]) => ({
+      key,
+      label: key,
+      count: values.length,
+      averageClv: roundCents(values.reduce((sum, v) => sum + v, 0) / values.length),
+      beatRate: percent(values.filter(v => v > 0).length, values.length)
+    }))
+    .sort((a, b) => b.averageClv - a.averageClv);
+};
+
+/** Valores distintos de um campo em todo o histórico, para popular os filtros. */
+export const distinctValues = (data: AppData, field: 'league' | 'market' | 'tipster' | 'tags') =>
+  Array.from(
+    new Set(
+      Object.values(data).flatMap(plan =>
+        plan.games.flatMap(g => (field === 'tags' ? g.tags ?? [] : [g[field] || ''])).map(v => v.trim()).filter(Boolean)
+      )
+    )
+  ).sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AppData, GameEntry } from '../types';
+import { selectLanguage } from './i18n';
+import { createNewGame } from './planner';
+import { SCHEMA_VERSION, mergeAppData, parseBackupFile, serializeAppData } from './storage';
+
+const game = (overrides: Partial<GameEntry> = {}): GameEntry => ({ ...createNewGame(), ...overrides });
+
+afterEach(() => selectLanguage('pt-BR'));
+
+describe('parseBackupFile', () => {
+  it('lê de volta um backup serializado, reliquidando o P&L', () => {
+    const pick = game({ match: 'Flamengo x Vasco', stake: 10, odds: 1.5, status: 'win', profit: 999 });
+    const report = parseBackupFile(serializeAppData({ '2026-03-10': { date: '2026-03-10', games: [pick] } }));
+    expect(report.sourceVersion).toBe(SCHEMA_VERSION);
+    expect(report.acceptedGames).toBe(1);
+    expect(report.data['2026-03-10'].games[0]).toEqual({ ...pick, profit: 5 });
+  });
+
+  it('migra arquivos v1 sem envelope', () => {
+    const v1 = { '2026-03-10': { date: '2026-03-10', games: [{ id: 'a', time: '16:00', league: 'Serie A', match: 'Roma x Lazio', status: 'pending' }] } };
+    const report = parseBackupFile(JSON.stringify(v1));
+    expect(report.sourceVersion).toBe(1);
+    expect(report.data['2026-03-10'].games[0]).toMatchObject({ id: 'a', market: '', stake: 0, odds: 0, profit: null });
+  });
+
+  it('descarta entradas inválidas e informa o motivo', () => {
+    const raw = {
+      version: SCHEMA_VERSION,
+      data: {
+        'ontem': { date: 'ontem', games: [] },
+        '2026-03-10': { date: '2026-03-10', games: [game({ id: 'ok' }), game({ id: 'ok' }), { ...game(), status: 'ganhou' }, { ...game(), stake: -1 }] }
+      }
+    };
+    const report = parseBackupFile(JSON.stringify(raw));
+    expect(report.acceptedGames).toBe(1);
+    expect(report.rejected.map(r => r.reason)).toEqual(['data inválida', 'id duplicado no dia', 'status "ganhou" desconhecido', 'stake inválida']);
+  });
+
+  it('recusa JSON inválido e backups de versão mais nova', () => {
+    expect(() => parseBackupFile('{')).toThrow('Arquivo de backup inválido.');
+    expect(() => parseBackupFile(JSON.stringify({ version: SCHEMA_VERSION + 1, data: {} }))).toThrow(/versão mais nova/);
+  });
+
+  it('informa motivos e erros no idioma da interface', () => {
+    selectLanguage('en');
+    const raw = { version: SCHEMA_VERSION, data: { '2026-03-10': { date: '2026-03-10', games: [{ ...game(), odds: -1 }] } } };
+    expect(parseBackupFile(JSON.stringify(raw)).rejected.map(r => r.reason)).toEqual(['invalid odds']);
+    expect(() => parseBackupFile('{')).toThrow('Invalid backup file.');
+  });
+});
+
+describe('mergeAppData', () => {
+  it('substitui jogos de mesmo id, anexa os novos e descarta o jogo em branco', () => {
+    const kept = game({ id: 'a', match: 'Antigo' });
+    const current: AppData = { '2026-03-10': { date: '2026-03-10', games: [kept, game({ id: 'b', match: 'B' }), createNewGame()] } };
+    const incoming: AppData = {
+      '2026-03-10': { date: '2026-03-10', games: [game({ id: 'b', match: 'B editado' }), game({ id: 'c', match: 'C' })] },
+      '2026-03-11': { date: '2026-03-11', games: [game({ id: 'd', match: 'D' })] }
+    };
+    const merged = mergeAppData(current, incoming);
+    expect(merged['2026-03-10'].games.map(g => g.match)).toEqual(['Antigo', 'B editado', 'C']);
+    expect(merged['2026-03-11']).toBe(incoming['2026-03-11']);
+  });
+});
@@ -0,0 +1,299 @@
+import { AppData, BetSlip, DayPlan, GameEntry, GameStatus, ImportReport, RejectedEntry } from "../types";
+import { settleGame } from "./bankroll";
+import { t } from "./i18n";
+import { isBlankGame, normalizeTags } from "./planner";
+import { isValidTimeZone } from "./kickoff";
+
+export const STORAGE_KEY = 'bet_planner_pro_data';
+
+/**
+ * Versão atual do formato salvo. Ao adicionar campos obrigatórios em GameEntry
+ * (ou mudar o formato de um existente), incremente a versão e registre em
+ * MIGRATIONS a função que leva a versão anterior à nova. Campos opcionais não
+ * exigem versão nova: validateGame aceita a ausência e descarta valores inválidos.
+ *
+ * v1: AppData cru, sem envelope (time/league/match/status)
+ * v2: envelope versionado; jogos com mercado, seleção, casa, stake, odd e P&L.
+ *     Opcionais acrescentados depois, ainda na v2: fuso, início (kickoffAt),
+ *     notas, tipster, probabilidade, tags, confiança, odd de fechamento e bilhetes.
+ */
+export const SCHEMA_VERSION = 2;
+
+export interface StoredEnvelope {
+  version: number;
+  savedAt: string;
+  data: AppData;
+}
+
+const GAME_STATUSES: GameStatus[] = ['pending', 'win', 'loss', 'void', 'half_win', 'half_loss'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapGames = (data: Record<string, unknown>, fn: (game: Record<string, unknown>) => Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(data).map(([date, plan]) => [
+      date,
+      isRecord(plan) && Array.isArray(plan.games) ? { ...plan, games: plan.games.map((g: unknown) => (isRecord(g) ? fn(g) : g)) } : plan
+    ])
+  );
+
+/** MIGRATIONS[n] converte os dados da versão n para a versão n + 1. */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  1: data => mapGames(data, game => ({
+    market: '',
+    selection: '',
+    bookmaker: '',
+    stake: 0,
+    odds: 0,
+    profit: null,
+    ...game
+  }))
+};
+
+/** Separa envelope e versão; arquivos sem envelope são tratados como v1. */
+const unwrap = (raw: unknown): { version: number; data: unknown } => {
+  if (isRecord(raw) && typeof raw.version === 'number' && 'data' in raw) {
+    return { version: raw.version, data: raw.data };
+  }
+  return { version: 1, data: raw };
+};
+
+const migrate = (version: number, data: Record<string, unknown>) => {
+  let current = data;
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    current = MIGRATIONS[v](current);
+  }
+  return current;
+};
+
+const isValidDateKey = (date: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(`${date}T00:00:00`).getTime());
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isGameStatus = (value: unknown): value is GameStatus =>
+  GAME_STATUSES.some(status => status === value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+// Campo opcional: ausente ou do tipo esperado
+const isOptional = <T>(value: unknown, guard: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || guard(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const GAME_TEXT_FIELDS = ['time', 'league', 'match', 'market', 'selection', 'bookmaker'] as const;
+
+const hasTextFields = <K extends string>(raw: Record<string, unknown>, fields: readonly K[]): raw is Record<string, unknown> & Record<K, string> =>
+  fields.every(field => typeof raw[field] === 'string');
+
+/** Valida um jogo já migrado; retorna o motivo da rejeição ou o jogo normalizado. */
+const validateGame = (raw: unknown): GameEntry | string => {
+  if (!isRecord(raw)) return t('reject.gameNotObject');
+  if (typeof raw.id !== 'string' || !raw.id) return t('reject.missingId');
+  if (!hasTextFields(raw, GAME_TEXT_FIELDS)) {
+    return t('reject.invalidField', { field: GAME_TEXT_FIELDS.find(field => typeof raw[field] !== 'string') ?? '' });
+  }
+  if (!isGameStatus(raw.status)) return t('reject.unknownStatus', { status: String(raw.status) });
+  if (!isNonNegative(raw.stake)) return t('reject.invalidStake');
+  if (!isNonNegative(raw.odds)) return t('reject.invalidOdds');
+  const { timeZone, kickoffAt, notes, tipster, probability, tags, confidence, closingOdds } = raw;
+  if (!isOptional(timeZone, isString) || (timeZone !== undefined && !isValidTimeZone(timeZone))) {
+    return t('reject.unknownTimeZone', { zone: String(timeZone) });
+  }
+  if (!isOptional(notes, isString)) return t('reject.invalidNotes');
+  if (!isOptional(tipster, isString)) return t('reject.invalidTipster');
+  if (!isOptional(probability, isNumber)) return t('reject.invalidProbability');
+  if (!isOptional(tags, isStringList)) return t('reject.invalidTags');
+  if (!isOptional(confidence, isNumber)) return t('reject.invalidConfidence');
+  if (!isOptional(closingOdds, isNumber)) return t('reject.invalidClosingOdds');
+  if (!isOptional(kickoffAt, isString) || (kickoffAt !== undefined && isNaN(Date.parse(kickoffAt)))) {
+    return t('reject.invalidKickoff');
+  }
+
+  return settleGame({
+    id: raw.id,
+    time: raw.time,
+    league: raw.league,
+    match: raw.match,
+    status: raw.status,
+    market: raw.market,
+    selection: raw.selection,
+    bookmaker: raw.bookmaker,
+    stake: raw.stake,
+    odds: raw.odds,
+    profit: null,
+    ...(timeZone ? { timeZone } : {}),
+    ...(kickoffAt ? { kickoffAt } : {}),
+    ...(notes ? { notes } : {}),
+    ...(tipster ? { tipster } : {}),
+    // 0 = campo limpo no formulário; só guarda probabilidades utilizáveis
+    ...(probability !== undefined && probability > 0 && probability < 100 ? { probability } : {}),
+    ...(tags && tags.length > 0 ? { tags: normalizeTags(tags) } : {}),
+    ...(confidence !== undefined && Number.isInteger(confidence) && confidence >= 1 && confidence <= 5 ? { confidence } : {}),
+    ...(closingOdds !== undefined && closingOdds > 1 ? { closingOdds } : {})
+  });
+};
+
+const validateSlip = (raw: unknown): BetSlip | string => {
+  if (!isRecord(raw)) return t('reject.slipNotObject');
+  if (typeof raw.id !== 'string' || !raw.id) return t('reject.slipMissingId');
+  if (typeof raw.name !== 'string') return t('reject.slipMissingName');
+  const { legIds, sizes } = raw;
+  if (!isStringList(legIds) || legIds.length < 2) return t('reject.slipInvalidLegs');
+  if (!Array.isArray(sizes) || sizes.length === 0 ||
+    !sizes.every((n: unknown): n is number => typeof n === 'number' && Number.isInteger(n) && n >= 1 && n <= legIds.length)) {
+    return t('reject.slipInvalidSizes');
+  }
+  if (!isNonNegative(raw.stake)) return t('reject.slipInvalidStake');
+
+  return { id: raw.id, name: raw.name, legIds, sizes, stake: raw.stake };
+};
+
+/**
+ * Valida um dia já migrado, jogo a jogo e bilhete a bilhete; `plan` fica null
+ * quando o dia inteiro é ilegível. Também usado nos dias vindos da sincronização.
+ */
+export const validateDayPlan = (date: string, raw: unknown): { plan: DayPlan | null; rejected: RejectedEntry[] } => {
+  if (!isValidDateKey(date)) {
+    return { plan: null, rejected: [{ date, index: null, reason: t('reject.invalidDate') }] };
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.games)) {
+    return { plan: null, rejected: [{ date, index: null, reason: t('reject.noGameList') }] };
+  }
+
+  const rejected: RejectedEntry[] = [];
+  const seen = new Set<string>();
+  const games: GameEntry[] = [];
+  raw.games.forEach((rawGame: unknown, index: number) => {
+    const game = validateGame(rawGame);
+    if (typeof game === 'string') {
+      rejected.push({ date, index, reason: game });
+    } else if (seen.has(game.id)) {
+      rejected.push({ date, index, reason: t('reject.duplicateId') });
+    } else {
+      seen.add(game.id);
+      games.push(game);
+    }
+  });
+
+  const slips: BetSlip[] = [];
+  (Array.isArray(raw.slips) ? raw.slips : []).forEach((rawSlip: unknown, index: number) => {
+    const slip = validateSlip(rawSlip);
+    if (typeof slip === 'string') {
+      rejected.push({ date, index, reason: slip });
+    } else {
+      slips.push(slip);
+    }
+  });
+
+  return { plan: slips.length > 0 ? { date, games, slips } : { date, games }, rejected };
+};
+
+/**
+ * Migra e valida dados de qualquer versão conhecida, jogo a jogo.
+ * Entradas inválidas são descartadas e listadas em `rejected`.
+ */
+export const parseStoredData = (raw: unknown): ImportReport => {
+  const { version, data } = unwrap(raw);
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(t('backup.newerVersion', { version }));
+  }
+  if (!isRecord(data)) {
+    throw new Error(t('backup.noPlannerData'));
+  }
+
+  const migrated = migrate(version, data);
+  const rejected: RejectedEntry[] = [];
+  const result: AppData = {};
+  let acceptedGames = 0;
+
+  Object.entries(migrated).forEach(([date, rawPlan]) => {
+    const { plan, rejected: dayRejected } = validateDayPlan(date, rawPlan);
+    rejected.push(...dayRejected);
+    if (plan && (plan.games.length > 0 || plan.slips)) {
+      result[date] = plan;
+      acceptedGames += plan.games.length;
+    }
+  });
+
+  return {
+    data: result,
+    sourceVersion: version,
+    acceptedGames,
+    acceptedDays: Object.keys(result).length,
+    rejected
+  };
+};
+
+/** Lê e valida um arquivo de backup (JSON). Lança Error com mensagem amigável. */
+export const parseBackupFile = (text: string): ImportReport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(t('app.backupInvalid'));
+  }
+  return parseStoredData(raw);
+};
+
+export const serializeAppData = (data: AppData, pretty = false) => {
+  const envelope: StoredEnvelope = { version: SCHEMA_VERSION, savedAt: new Date().toISOString(), data };
+  return pretty ? JSON.stringify(envelope, null, 2) : JSON.stringify(envelope);
+};
+
+export const loadAppData = (key = STORAGE_KEY): AppData => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return {};
+
+  const report = parseStoredData(JSON.parse(saved));
+  if (report.rejected.length > 0) {
+    console.warn("Entradas descartadas ao carregar dados salvos", report.rejected);
+  }
+  return report.data;
+};
+
+/** Lança em caso de cota excedida; quem chama decide como avisar o usuário. */
+export const saveAppData = (data: AppData, key = STORAGE_KEY) => {
+  localStorage.setItem(key, serializeAppData(data));
+};
+
+/**
+ * Mescla um import nos dados existentes: dias novos são adicionados e, em dias
+ * já existentes, jogos com o mesmo id são substituídos e os demais anexados.
+ */
+export const mergeAppData = (current: AppData, incoming: AppData): AppData => {
+  const merged: AppData = { ...current };
+
+  Object.values(incoming).forEach((plan: DayPlan) => {
+    const existing = merged[plan.date];
+    if (!existing) {
+      merged[plan.date] = plan;
+      return;
+    }
+
+    const incomingById = new Map(plan.games.map(g => [g.id, g]));
+    // Descarta o jogo vazio criado automaticamente pelo painel lateral
+    const kept = existing.games
+      .filter(g => !isBlankGame(g))
+      .map(g => incomingById.get(g.id) || g);
+    const keptIds = new Set(kept.map(g => g.id));
+
+    const incomingSlipIds = new Set((plan.slips || []).map(s => s.id));
+    const slips = [...(existing.slips || []).filter(s => !incomingSlipIds.has(s.id)), ...(plan.slips || [])];
+
+    merged[plan.date] = {
+      ...existing,
+      games: [...kept, ...plan.games.filter(g => !keptIds.has(g.id))],
+      ...(slips.length > 0 && { slips })
+    };
+  });
+
+  return merged;
+};
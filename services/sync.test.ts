@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, DayPlan, GameEntry } from '../types';
+import { createMemorySyncServer } from './memorySyncServer';
+import { createNewGame } from './planner';
+import { SyncState, emptySyncState, mergeDayPlans, rebaseSyncResult, resolveConflict, syncOnce } from './sync';
+import { SyncTransport } from './syncTransport';
+
+const DATE = '2026-03-10';
+
+const game = (id: string, match: string, overrides: Partial<GameEntry> = {}): GameEntry =>
+  ({ ...createNewGame(), id, match, ...overrides });
+
+/** Um aparelho: dados locais e estado de sincronização falando com o servidor. */
+const device = (transport: SyncTransport, data: AppData = {}) => {
+  const self = {
+    data,
+    state: emptySyncState('memoria|planner') as SyncState,
+    async sync() {
+      const result = await syncOnce(self.data, self.state, transport);
+      self.data = result.data;
+      self.state = result.state;
+      return result.conflicts;
+    },
+    edit(update: (games: GameEntry[]) => GameEntry[]) {
+      const plan = self.data[DATE];
+      self.data = { ...self.data, [DATE]: { ...plan, games: update(plan.games) } };
+    }
+  };
+  return self;
+};
+
+/** Dois aparelhos já sincronizados com o mesmo dia de dois jogos. */
+const pairedDevices = async () => {
+  const server = createMemorySyncServer();
+  const a = device(server.transport(), { [DATE]: { date: DATE, games: [game('g1', 'Flamengo x Vasco'), game('g2', 'Santos x Palmeiras')] } });
+  const b = device(server.transport());
+  await a.sync();
+  await b.sync();
+  return { server, a, b };
+};
+
+const matches = (data: AppData) => data[DATE].games.map(g => g.match);
+
+describe('syncOnce', () => {
+  it('leva os dias de um aparelho para o outro', async () => {
+    const { a, b } = await pairedDevices();
+    expect(b.data).toEqual(a.data);
+    expect(b.state.revs[DATE]).toBe(a.state.revs[DATE]);
+  });
+
+  it('mescla edições simultâneas em jogos diferentes do mesmo dia', async () => {
+    const { a, b } = await pairedDevices();
+    a.edit(games => games.map(g => (g.id === 'g1' ? { ...g, odds: 1.9 } : g)));
+    b.edit(games => [...games.map(g => (g.id === 'g2' ? { ...g, status: 'win' as const } : g)), game('g3', 'Grêmio x Inter')]);
+
+    expect(await a.sync()).toEqual([]);
+    expect(await b.sync()).toEqual([]);
+    expect(await a.sync()).toEqual([]);
+
+    for (const data of [a.data, b.data]) {
+      expect(matches(data)).toEqual(['Flamengo x Vasco', 'Santos x Palmeiras', 'Grêmio x Inter']);
+      expect(data[DATE].games[0].odds).toBe(1.9);
+      expect(data[DATE].games[1].status).toBe('win');
+    }
+  });
+
+  it('gera conflito quando o mesmo jogo muda nos dois lados e mantém a versão local', async () => {
+    const { a, b } = await pairedDevices();
+    a.edit(games => games.map(g => (g.id === 'g1' ? { ...g, odds: 1.9 } : g)));
+    b.edit(games => games.map(g => (g.id === 'g1' ? { ...g, odds: 2.1 } : g)));
+
+    await a.sync();
+    const conflicts = await b.sync();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ date: DATE, kind: 'game', id: 'g1', local: { odds: 2.1 }, remote: { odds: 1.9 } });
+    expect(b.data[DATE].games[0].odds).toBe(2.1);
+
+    // A versão local sobe e chega ao outro aparelho
+    await a.sync();
+    expect(a.data[DATE].games[0].odds).toBe(2.1);
+  });
+
+  it('mantém a edição quando um lado apaga e o outro edita o jogo', async () => {
+    const { a, b } = await pairedDevices();
+    a.edit(games => games.filter(g => g.id !== 'g1'));
+    b.edit(games => games.map(g => (g.id === 'g1' ? { ...g, notes: 'escalação confirmada' } : g)));
+
+    await a.sync();
+    const conflicts = await b.sync();
+    expect(conflicts).toEqual([expect.objectContaining({ id: 'g1', local: expect.objectContaining({ notes: 'escalação confirmada' }), remote: null })]);
+    expect(matches(b.data)).toEqual(['Flamengo x Vasco', 'Santos x Palmeiras']);
+
+    await a.sync();
+    expect(matches(a.data)).toEqual(['Flamengo x Vasco', 'Santos x Palmeiras']);
+  });
+
+  it('descarta entradas inválidas enviadas por outro cliente', async () => {
+    const { server, a, b } = await pairedDevices();
+    const [g1, g2] = a.data[DATE].games;
+    const broken = { date: DATE, games: [g1, { ...g2, id: '' }, { ...g2, id: 'g3', stake: '10' }, { ...g2, id: 'g4', status: 'ganhou' }] };
+    await server.transport().push(DATE, a.state.revs[DATE], broken as unknown as DayPlan);
+
+    await b.sync();
+    expect(b.data[DATE].games.map(g => g.id)).toEqual(['g1']);
+    expect(b.state.base[DATE].games.map(g => g.id)).toEqual(['g1']);
+
+    // Dia ilegível não apaga os dados locais
+    await server.transport().push(DATE, b.state.revs[DATE], { date: DATE } as unknown as DayPlan);
+    await b.sync();
+    expect(matches(b.data)).toEqual(['Flamengo x Vasco']);
+  });
+
+  it('mescla e reenvia quando o envio parte de uma revisão desatualizada', async () => {
+    const { server, a, b } = await pairedDevices();
+    let pushes = 0;
+    // Entre o pull e o envio de B, A grava o mesmo dia no servidor
+    const racing: SyncTransport = {
+      pull: async since => {
+        const response = await server.transport().pull(since);
+        a.edit(games => games.map(g => (g.id === 'g1' ? { ...g, odds: 1.9 } : g)));
+        await a.sync();
+        return response;
+      },
+      push: async (date, baseRev, plan) => {
+        pushes++;
+        return server.transport().push(date, baseRev, plan);
+      }
+    };
+    const racer = device(racing, b.data);
+    racer.state = b.state;
+    racer.edit(games => games.map(g => (g.id === 'g2' ? { ...g, stake: 50 } : g)));
+
+    expect(await racer.sync()).toEqual([]);
+    expect(pushes).toBe(2);
+    expect(racer.data[DATE].games.map(g => [g.odds, g.stake])).toEqual([[1.9, 0], [0, 50]]);
+
+    await a.sync();
+    expect(a.data).toEqual(racer.data);
+  });
+});
+
+describe('mergeDayPlans', () => {
+  it('apaga o jogo removido de um lado sem edição do outro', () => {
+    const base = { date: DATE, games: [game('g1', 'A'), game('g2', 'B')] };
+    const local = { date: DATE, games: [base.games[0]] };
+    const remote = { date: DATE, games: [...base.games, game('g3', 'C')] };
+    const { plan, conflicts } = mergeDayPlans(DATE, base, local, remote);
+    expect(plan!.games.map(g => g.id)).toEqual(['g1', 'g3']);
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe('rebaseSyncResult', () => {
+  it('preserva dias editados enquanto a rodada rodava', () => {
+    const snapshot: AppData = { [DATE]: { date: DATE, games: [game('g1', 'A')] } };
+    const current: AppData = { [DATE]: { date: DATE, games: [{ ...snapshot[DATE].games[0], odds: 1.5 }] } };
+    const synced: AppData = {
+      [DATE]: { date: DATE, games: [snapshot[DATE].games[0], game('g2', 'B')] },
+      '2026-03-11': { date: '2026-03-11', games: [game('g3', 'C')] }
+    };
+    const next = rebaseSyncResult(current, snapshot, synced);
+    expect(next[DATE].games.map(g => [g.id, g.odds])).toEqual([['g1', 1.5], ['g2', 0]]);
+    expect(next['2026-03-11']).toBe(synced['2026-03-11']);
+  });
+});
+
+describe('resolveConflict', () => {
+  const local = game('g1', 'A', { odds: 2.1 });
+  const remote = game('g1', 'A', { odds: 1.9 });
+  const data: AppData = { [DATE]: { date: DATE, games: [local, game('g2', 'B')] } };
+
+  it('aplica a versão escolhida no lugar da entrada', () => {
+    const conflict = { date: DATE, kind: 'game' as const, id: 'g1', local, remote };
+    expect(resolveConflict(data, conflict, 'remote')[DATE].games).toEqual([remote, data[DATE].games[1]]);
+    expect(resolveConflict(data, conflict, 'local')[DATE].games).toEqual(data[DATE].games);
+  });
+
+  it('remove a entrada quando a versão escolhida é a apagada', () => {
+    const next = resolveConflict(data, { date: DATE, kind: 'game', id: 'g1', local, remote: null }, 'remote');
+    expect(next[DATE].games.map(g => g.id)).toEqual(['g2']);
+  });
+});
@@ -0,0 +1,219 @@
+import { AppData, BetSlip, DayPlan, GameEntry, RejectedEntry, SyncConflict, SyncSettings } from "../types";
+import { validateDayPlan } from "./storage";
+import { SyncTransport } from "./syncTransport";
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  serverUrl: '',
+  space: 'planner',
+  token: '',
+  intervalMinutes: 5
+};
+
+export const SYNC_INTERVAL_OPTIONS = [0, 1, 5, 15, 30];
+
+/**
+ * Estado local da sincronização. `base` guarda cada dia como estava na última
+ * troca com o servidor: é o ancestral comum da mescla de três vias.
+ */
+export interface SyncState {
+  target: string;              // servidor + espaço; trocar qualquer um recomeça do zero
+  seq: number;                 // último seq do servidor já puxado
+  revs: Record<string, number>;
+  base: AppData;
+}
+
+export const syncTarget = (settings: SyncSettings) => `${settings.serverUrl.trim().replace(/\/+$/, '')}|${settings.space}`;
+
+export const emptySyncState = (target: string): SyncState => ({ target, seq: 0, revs: {}, base: {} });
+
+export interface SyncResult {
+  data: AppData;
+  state: SyncState;
+  conflicts: SyncConflict[];
+  rejected: RejectedEntry[]; // entradas do servidor descartadas pela validação
+}
+
+// JSON com chaves ordenadas: igualdade de conteúdo sem depender da ordem dos campos
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const sameContent = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+/** Dia sem jogos preenchidos nem bilhetes conta como inexistente (não vai para o servidor). */
+const dayOf = (data: AppData, date: string): DayPlan | null => {
+  const plan = data[date];
+  if (!plan || (!plan.games.some(g => g.match) && !plan.slips?.length)) return null;
+  return plan;
+};
+
+const setDay = (data: AppData, date: string, plan: DayPlan | null): AppData => {
+  if (plan) return { ...data, [date]: plan };
+  if (!(date in data)) return data;
+  const { [date]: _, ...rest } = data;
+  return rest;
+};
+
+/**
+ * Mescla de três vias de uma lista por id. Entrada alterada só de um lado fica
+ * com a alteração; alterada dos dois lados vira conflito e mantém a versão
+ * local, exceto quando o local apagou e o outro lado editou (edição vence).
+ */
+const mergeById = <T extends GameEntry | BetSlip>(
+  date: string,
+  kind: SyncConflict['kind'],
+  base: T[],
+  local: T[],
+  remote: T[]
+): { items: T[]; conflicts: SyncConflict[] } => {
+  const byId = (list: T[]) => new Map(list.map(item => [item.id, item]));
+  const [baseMap, localMap, remoteMap] = [byId(base), byId(local), byId(remote)];
+  const ids = Array.from(new Set([...local.map(i => i.id), ...remote.map(i => i.id)]));
+  const items: T[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  ids.forEach(id => {
+    const b = baseMap.get(id) ?? null;
+    const l = localMap.get(id) ?? null;
+    const r = remoteMap.get(id) ?? null;
+    let chosen: T | null;
+    if (sameContent(l, r) || sameContent(r, b)) chosen = l;
+    else if (sameContent(l, b)) chosen = r;
+    else {
+      chosen = l ?? r;
+      conflicts.push({ date, kind, id, local: l, remote: r });
+    }
+    if (chosen) items.push(chosen);
+  });
+
+  return { items, conflicts };
+};
+
+/** Mescla um dia editado localmente e no servidor a partir da versão comum `base`. */
+export const mergeDayPlans = (
+  date: string,
+  base: DayPlan | null,
+  local: DayPlan | null,
+  remote: DayPlan | null
+): { plan: DayPlan | null; conflicts: SyncConflict[] } => {
+  if (!local && !remote) return { plan: null, conflicts: [] };
+  const games = mergeById<GameEntry>(date, 'game', base?.games ?? [], local?.games ?? [], remote?.games ?? []);
+  const slips = mergeById<BetSlip>(date, 'slip', base?.slips ?? [], local?.slips ?? [], remote?.slips ?? []);
+  const plan: DayPlan = { date, games: games.items };
+  if (slips.items.length > 0) plan.slips = slips.items;
+  return {
+    plan: plan.games.length > 0 || plan.slips ? plan : null,
+    conflicts: [...games.conflicts, ...slips.conflicts]
+  };
+};
+
+// Um conflito por entrada: o mais recente substitui o anterior
+const dedupeConflicts = (conflicts: SyncConflict[]) =>
+  Array.from(new Map(conflicts.map(c => [`${c.date}|${c.kind}|${c.id}`, c])).values());
+
+/**
+ * Uma rodada de sincronização: puxa o que mudou no servidor desde o último seq,
+ * mescla com as edições locais e envia os dias alterados desde a última troca.
+ * Um envio recusado por revisão desatualizada é mesclado e reenviado. Dias
+ * vindos do servidor passam pela mesma validação dos backups.
+ */
+export const syncOnce = async (data: AppData, state: SyncState, transport: SyncTransport): Promise<SyncResult> => {
+  let local = data;
+  let base = state.base;
+  const revs = { ...state.revs };
+  const conflicts: SyncConflict[] = [];
+  const rejected: RejectedEntry[] = [];
+
+  const absorb = (date: string, rev: number, raw: DayPlan | null) => {
+    const checked = raw ? validateDayPlan(date, raw) : { plan: null, rejected: [] };
+    rejected.push(...checked.rejected);
+    if (raw && !checked.plan) {
+      // Dia ilegível: só registra a revisão; uma edição local o sobrescreve no servidor
+      revs[date] = rev;
+      return;
+    }
+    const remote = checked.plan;
+    const mine = dayOf(local, date);
+    const previous = dayOf(base, date);
+    if (sameContent(mine, previous)) {
+      if (!sameContent(mine, remote)) local = setDay(local, date, remote);
+    } else {
+      const merged = mergeDayPlans(date, previous, mine, remote);
+      local = setDay(local, date, merged.plan);
+      conflicts.push(...merged.conflicts);
+    }
+    base = setDay(base, date, remote);
+    revs[date] = rev;
+  };
+
+  const pulled = await transport.pull(state.seq);
+  // Revisão já conhecida: é o eco de um envio deste aparelho
+  pulled.days.filter(day => revs[day.date] !== day.rev).forEach(day => absorb(day.date, day.rev, day.plan));
+
+  const dirty = Array.from(new Set([...Object.keys(local), ...Object.keys(base)]))
+    .filter(date => !sameContent(dayOf(local, date), dayOf(base, date)))
+    .sort();
+
+  for (const date of dirty) {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const plan = dayOf(local, date);
+      const response = await transport.push(date, revs[date] ?? 0, plan);
+      if (!('current' in response)) {
+        revs[date] = response.rev;
+        base = setDay(base, date, plan);
+        break;
+      }
+      absorb(date, response.current.rev, response.current.plan);
+      if (sameContent(dayOf(local, date), dayOf(base, date))) break;
+    }
+  }
+
+  // O seq só avança pelo pull: envios de outros aparelhos entre o pull e os
+  // nossos envios ainda precisam ser puxados na próxima rodada
+  return { data: local, state: { target: state.target, seq: pulled.seq, revs, base }, conflicts: dedupeConflicts(conflicts), rejected };
+};
+
+/**
+ * Aplica o resultado da sincronização sobre o estado atual. Dias editados
+ * enquanto a rodada rodava (diferentes de `snapshot`) são mesclados com o
+ * resultado, prevalecendo a edição recente; ela sobe na próxima rodada.
+ */
+export const rebaseSyncResult = (current: AppData, snapshot: AppData, synced: AppData): AppData => {
+  let next = current;
+  const dates = new Set([...Object.keys(current), ...Object.keys(snapshot), ...Object.keys(synced)]);
+  dates.forEach(date => {
+    if (current[date] === snapshot[date]) {
+      if (current[date] !== synced[date]) next = setDay(next, date, synced[date] ?? null);
+      return;
+    }
+    const merged = mergeDayPlans(date, snapshot[date] ?? null, current[date] ?? null, synced[date] ?? null);
+    if (!sameContent(merged.plan, current[date] ?? null)) next = setDay(next, date, merged.plan);
+  });
+  return next;
+};
+
+/** Aplica a escolha de um conflito: a versão escolhida substitui a entrada (null a remove). */
+export const resolveConflict = (data: AppData, conflict: SyncConflict, choice: 'local' | 'remote'): AppData => {
+  const value = conflict[choice];
+  const plan = data[conflict.date] ?? { date: conflict.date, games: [] };
+  const replace = <T extends { id: string }>(list: T[]) => {
+    const rest = list.filter(item => item.id !== conflict.id);
+    if (!value) return rest;
+    const index = list.findIndex(item => item.id === conflict.id);
+    return index === -1 ? [...rest, value as unknown as T] : list.map(item => (item.id === conflict.id ? (value as unknown as T) : item));
+  };
+  const next: DayPlan = conflict.kind === 'game'
+    ? { ...plan, games: replace(plan.games) }
+    : { ...plan, slips: replace(plan.slips ?? []) };
+  if (next.slips?.length === 0) delete next.slips;
+  return setDay(data, conflict.date, next.games.length > 0 || next.slips ? next : null);
+};
@@ -0,0 +1,25 @@
+import { DayPlan, RemoteDay } from "../types";
+
+export type SyncErrorCode = 'config' | 'network' | 'auth' | 'server';
+
+export class SyncError extends Error {
+  constructor(public readonly code: SyncErrorCode, message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+export interface PullResponse {
+  seq: number;       // contador do espaço; o próximo pull pede `since = seq`
+  days: RemoteDay[];
+}
+
+export type PushResponse =
+  | { ok: true; rev: number; seq: number }
+  | { ok: false; current: RemoteDay }; // revisão base desatualizada: mesclar e tentar de novo
+
+/** Canal com o servidor de sincronização. Implementações: HTTP e em memória (testes). */
+export interface SyncTransport {
+  pull(since: number): Promise<PullResponse>;
+  push(date: string, baseRev: number, plan: DayPlan | null): Promise<PushResponse>;
+}
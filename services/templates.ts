@@ -0,0 +1,90 @@
+import { getDay, parseISO } from 'date-fns';
+import { AppData, DayPlan, DayTemplate, GameEntry, RecurringRule, TemplateGame, TemplateLibrary } from "../types";
+import { TranslationKey } from "./locales/ptBR";
+import { createNewGame, isBlankGame } from "./planner";
+
+export const TEMPLATES_KEY = 'bet_planner_pro_templates';
+
+export const EMPTY_LIBRARY: TemplateLibrary = { templates: [], rules: [] };
+
+// Índice = getDay(): 0 é domingo
+export const WEEKDAY_LABEL_KEYS: TranslationKey[] = ['weekday.sun', 'weekday.mon', 'weekday.tue', 'weekday.wed', 'weekday.thu', 'weekday.fri', 'weekday.sat'];
+
+export const toTemplateGame = ({ time, timeZone, league, match, market, selection, bookmaker, stake, odds }: TemplateGame): TemplateGame =>
+  ({ time, ...(timeZone ? { timeZone } : {}), league, match, market, selection, bookmaker, stake, odds });
+
+/** Cria um jogo novo (id próprio, pendente) a partir de um modelo ou de outro jogo. */
+export const instantiateGame = (source: TemplateGame): GameEntry => ({
+  ...createNewGame(),
+  ...toTemplateGame(source)
+});
+
+export const templateFromDay = (name: string, plan: DayPlan): DayTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  games: plan.games.filter(g => !isBlankGame(g)).map(toTemplateGame)
+});
+
+/** Anexa jogos a um dia, descartando o jogo vazio automático se houver. */
+export const appendGames = (plan: DayPlan | undefined, date: string, games: GameEntry[]): DayPlan => ({
+  date,
+  ...plan,
+  games: [...(plan?.games.filter(g => !isBlankGame(g)) || []), ...games]
+});
+
+export const applyTemplate = (data: AppData, date: string, template: DayTemplate): AppData => ({
+  ...data,
+  [date]: appendGames(data[date], date, template.games.map(instantiateGame))
+});
+
+/** Copia os jogos preenchidos de um dia para outras datas, como novos jogos pendentes. */
+export const copyDayTo = (data: AppData, sourceDate: string, targetDates: string[]): AppData => {
+  const source = data[sourceDate];
+  if (!source) return data;
+  const games = source.games.filter(g => !isBlankGame(g));
+
+  return targetDates
+    .filter(date => date !== sourceDate)
+    .reduce((next, date) => ({ ...next, [date]: appendGames(next[date], date, games.map(instantiateGame)) }), data);
+};
+
+export const ruleMatches = (rule: RecurringRule, date: string) => {
+  if (!rule.enabled || date < rule.startDate || (rule.endDate && date > rule.endDate)) return false;
+  return rule.dates.includes(date) || rule.weekdays.includes(getDay(parseISO(date)));
+};
+
+/**
+ * Pré-popula com as regras recorrentes os dias ainda sem plano, a partir de `fromDate`.
+ * Dias que já existem (mesmo limpos pelo usuário) não são tocados.
+ */
+export const applyRecurringRules = (
+  data: AppData,
+  library: TemplateLibrary,
+  dates: string[],
+  fromDate: string
+): AppData => {
+  let next = data;
+
+  dates
+    .filter(date => date >= fromDate && !data[date])
+    .forEach(date => {
+      library.rules
+        .filter(rule => ruleMatches(rule, date))
+        .forEach(rule => {
+          const template = library.templates.find(t => t.id === rule.templateId);
+          if (template && template.games.length > 0) next = applyTemplate(next, date, template);
+        });
+    });
+
+  return next;
+};
+
+export const loadTemplateLibrary = (key = TEMPLATES_KEY): TemplateLibrary => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? { ...EMPTY_LIBRARY, ...JSON.parse(saved) } : EMPTY_LIBRARY;
+  } catch (e) {
+    console.warn("Falha ao carregar modelos do LocalStorage", e);
+    return EMPTY_LIBRARY;
+  }
+};
@@ -1,21 +1,356 @@
+export type GameStatus = 'pending' | 'win' | 'loss' | 'void' | 'half_win' | 'half_loss';
 
 export interface GameEntry {
   id: string;
   time: string;
   league: string;
   match: string;
-  status: 'pending' | 'win' | 'loss' | 'void';
+  status: GameStatus;
+  market: string;     // ex.: "Resultado Final", "Over/Under 2.5"
+  selection: string;  // ex.: "Casa", "Over 2.5"
+  bookmaker: string;
+  stake: number;      // valor apostado na moeda da banca (0 = não definido)
+  odds: number;       // odd decimal (0 = não definida)
+  profit: number | null; // P&L liquidado; null enquanto pendente
+  timeZone?: string;  // fuso IANA em que `time` foi digitado; ausente = fuso da liga ou do usuário
+  kickoffAt?: string; // início em UTC (ISO), calculado ao confirmar o horário
+  notes?: string;     // anotações livres do palpite (entram na busca)
+  tipster?: string;   // quem sugeriu o palpite; ausente = dono do perfil
+  probability?: number; // probabilidade estimada pelo apostador, em % (usada no Kelly)
+  tags?: string[];      // marcações livres, ex.: "derby", "rotação", "value"
+  confidence?: number;  // confiança do apostador, de 1 a 5
+  closingOdds?: number; // odd de fechamento, para medir o CLV
+}
+
+export interface BetSlip {
+  id: string;
+  name: string;      // ex.: "Dupla", "Trixie", "Sistema 2/3"
+  legIds: string[];  // ids de GameEntry, podem ser de outros dias
+  sizes: number[];   // tamanhos das combinações: acumulada = [n], 2/3 = [2], Trixie = [2, 3]
+  stake: number;     // stake total do bilhete, dividida igualmente entre as combinações
 }
 
 export interface DayPlan {
   date: string; // ISO format YYYY-MM-DD
   games: GameEntry[];
+  slips?: BetSlip[]; // bilhetes múltiplos criados neste dia
 }
 
 export type AppData = Record<string, DayPlan>;
 
+export interface Bankroll {
+  initial: number;
+  currency: string; // código ISO 4217, ex.: "BRL"
+}
+
+export interface SlipSettlement {
+  status: 'pending' | 'settled';
+  bets: number;            // quantidade de combinações
+  combinedOdds: number;    // produto das odds de todas as pernas
+  potentialReturn: number; // retorno se todas as pernas vencerem
+  profit: number | null;   // null enquanto houver perna pendente
+  missingLegs: number;     // pernas cujo jogo foi removido (tratadas como anuladas)
+}
+
+export interface BankrollSummary {
+  initial: number;
+  current: number;
+  profit: number;
+  staked: number;   // total apostado em jogos já liquidados
+  exposure: number; // total em jogo em apostas pendentes
+  settledCount: number;
+  pendingCount: number;
+}
+
+export type RiskRating = 'low' | 'medium' | 'high';
+
+export interface GameAnalysis {
+  gameId: string;
+  risk: RiskRating;
+  confidence: number;    // 0–100
+  stakeFraction: number; // fração da banca sugerida, 0–1
+  reasoning: string;
+}
+
 export interface AIAnalysisResponse {
   summary: string;
-  confidence: string;
+  confidence: number; // confiança geral no dia, 0–100
   advice: string;
+  games: GameAnalysis[];
+}
+
+// Pedido de IA feito sem conexão; roda quando a internet voltar
+export type QueuedAIRequest =
+  | { id: string; queuedAt: string; kind: 'day'; date: string }
+  | { id: string; queuedAt: string; kind: 'review'; from: string; to: string };
+
+// Revisão retrospectiva de um período já liquidado
+export interface RetrospectiveLeak {
+  dimension: 'league' | 'market';
+  name: string;
+  reason: string;
+}
+
+export interface RetrospectiveReview {
+  summary: string;
+  leaks: RetrospectiveLeak[]; // ligas e mercados que estão custando dinheiro
+  patterns: string[];         // padrões nos palpites perdidos
+  adjustments: string[];      // mudanças concretas para os próximos dias
+}
+
+export interface SavedReview {
+  id: string;
+  from: string; // YYYY-MM-DD inclusivo
+  to: string;   // YYYY-MM-DD inclusivo
+  createdAt: string;
+  provider: string; // cacheKey do provedor que gerou a revisão
+  stats: PerformanceStats; // desempenho do período no momento da revisão
+  review: RetrospectiveReview;
+}
+
+export interface StatsFilter {
+  from?: string; // YYYY-MM-DD inclusivo
+  to?: string;   // YYYY-MM-DD inclusivo
+  league?: string;
+  market?: string;
+  query?: string;          // texto buscado em confronto, liga, seleção e notas
+  statuses?: GameStatus[]; // vazio/ausente = todos
+}
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filter: StatsFilter;
+}
+
+export interface PerformanceStats {
+  bets: number;       // apostas liquidadas (inclui anuladas)
+  wins: number;       // green + meio green
+  losses: number;     // red + meio red
+  voids: number;
+  hitRate: number;    // % de acertos, sem contar anuladas
+  staked: number;
+  profit: number;
+  roi: number;        // % de lucro sobre a banca inicial
+  yield: number;      // % de lucro sobre o total apostado
+  longestWinStreak: number;
+  longestLossStreak: number;
+}
+
+export interface StatsBreakdownRow extends PerformanceStats {
+  key: string;   // ex.: "2025-03", "2025-03-10", "Premier League"
+  label: string;
+}
+
+// Valor contra a linha de fechamento (CLV) de um grupo de apostas
+export interface ClvRow {
+  key: string;
+  label: string;
+  count: number;       // apostas com odd de fechamento informada
+  averageClv: number;  // % médio da odd tomada sobre a de fechamento
+  beatRate: number;    // % das apostas que pegaram odd melhor que a de fechamento
+}
+
+export interface ProfitPoint {
+  date: string;
+  cumulative: number;
+}
+
+export type AnalysisProviderId = 'gemini' | 'mock';
+
+export interface AISettings {
+  provider: AnalysisProviderId;
+  model: string;
+  temperature: number;
+  apiKey: string; // vazio = usa a chave do ambiente (GEMINI_API_KEY)
+}
+
+export interface TimeSettings {
+  timeZone: string; // fuso de exibição do usuário
+  leagueTimeZones: Record<string, string>; // liga -> fuso padrão dos horários digitados
+}
+
+export interface ReminderSettings {
+  kickoff: boolean;       // notificar antes do início de cada jogo pendente
+  minutesBefore: number;
+  settleNag: boolean;     // lembrete diário de jogos de dias anteriores ainda pendentes
+  nagTime: string;        // "HH:mm" no fuso do usuário
+}
+
+export type StakingMethod = 'flat' | 'percent' | 'kelly' | 'recovery';
+
+export interface StakingSettings {
+  method: StakingMethod;
+  unit: number;                  // valor de uma unidade (flat e base da recuperação)
+  percent: number;               // % da banca atual por aposta
+  kellyFraction: number;         // fração do Kelly, ex.: 0.25 = quarto de Kelly
+  recoveryCap: number;           // stake máxima da recuperação, em unidades
+  maxStakePercent: number;       // limite por aposta, % da banca atual (0 = sem limite)
+  maxDayExposurePercent: number; // limite somado do dia, % da banca atual (0 = sem limite)
+  maxLossStreak: number;         // alerta após N reds seguidos (0 = desligado)
+}
+
+export interface StakeSuggestion {
+  stake: number;
+  reason: string; // explicação curta exibida ao lado da sugestão
+}
+
+export type GuardrailKind = 'stake' | 'exposure' | 'streak';
+
+export interface GuardrailWarning {
+  kind: GuardrailKind;
+  message: string;
+  gameId?: string;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;       // ex.: "http://192.168.0.10:8787"
+  space: string;           // espaço compartilhado pelos aparelhos (letras, números, - e _)
+  token: string;           // SYNC_TOKEN do servidor, se houver
+  intervalMinutes: number; // sincronização automática; 0 = só manual
+}
+
+export interface RemoteDay {
+  date: string;
+  rev: number;
+  plan: DayPlan | null; // null = dia apagado
+}
+
+// Edição concorrente da mesma entrada (jogo ou bilhete) em dois aparelhos
+export interface SyncConflict {
+  date: string;
+  kind: 'game' | 'slip';
+  id: string;
+  local: GameEntry | BetSlip | null;  // null = apagado localmente
+  remote: GameEntry | BetSlip | null; // null = apagado no servidor
+}
+
+// Idioma da interface, das datas, dos valores e das respostas da IA
+export type Language = 'pt-BR' | 'en' | 'es';
+
+export interface AppSettings {
+  language: Language;
+  ai: AISettings;
+  time: TimeSettings;
+  reminders: ReminderSettings;
+  staking: StakingSettings;
+  sync: SyncSettings;
+}
+
+export interface RejectedEntry {
+  date: string;
+  index: number | null; // posição do jogo no dia; null quando o dia inteiro foi rejeitado
+  reason: string;
+}
+
+export interface ImportReport {
+  data: AppData;
+  sourceVersion: number;
+  acceptedGames: number;
+  acceptedDays: number;
+  rejected: RejectedEntry[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type SnapshotReason = 'auto' | 'manual' | 'migration' | 'pre-import' | 'pre-restore';
+
+export interface SnapshotMeta {
+  id: string;
+  createdAt: string; // ISO
+  reason: SnapshotReason;
+  dayCount: number;
+  gameCount: number;
+}
+
+export interface Snapshot extends SnapshotMeta {
+  version: number;
+  data: AppData;
+}
+
+export type CsvField =
+  | 'date' | 'time' | 'league' | 'match' | 'market' | 'selection' | 'bookmaker' | 'stake' | 'odds' | 'status' | 'notes' | 'tipster'
+  | 'tags' | 'confidence' | 'closingOdds';
+
+// Índice da coluna do CSV para cada campo; null = não importar
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export interface CsvPreviewRow {
+  line: number; // linha no arquivo (1 = cabeçalho)
+  date: string | null;
+  game: GameEntry | null;
+  duplicate: boolean;
+  error: string | null;
+}
+
+export type TemplateGame = Pick<GameEntry, 'time' | 'timeZone' | 'league' | 'match' | 'market' | 'selection' | 'bookmaker' | 'stake' | 'odds'>;
+
+export interface DayTemplate {
+  id: string;
+  name: string; // ex.: "Sábado Premier League"
+  games: TemplateGame[];
+}
+
+export interface RecurringRule {
+  id: string;
+  name: string;
+  templateId: string;
+  weekdays: number[]; // 0 = domingo … 6 = sábado
+  dates: string[];    // datas avulsas (YYYY-MM-DD), ex.: rodadas da Champions
+  startDate: string;
+  endDate?: string;
+  enabled: boolean;
+}
+
+export interface TemplateLibrary {
+  templates: DayTemplate[];
+  rules: RecurringRule[];
+}
+
+export interface Fixture {
+  id: string;        // data + times normalizados; reimportar o mesmo jogo não duplica
+  date: string;      // YYYY-MM-DD no fuso de origem
+  time: string;      // HH:mm no fuso de origem; '' quando o arquivo só traz a data
+  timeZone?: string; // fuso de origem; ausente = horário "flutuante" (fuso da liga ou do usuário)
+  league: string;
+  home: string;
+  away: string;
+  source: string;    // nome do arquivo de origem
+}
+
+export interface FixtureImportResult {
+  fixtures: Fixture[];
+  skipped: number; // eventos sem data ou sem dois times reconhecíveis
+}
+
+export type CalendarView = 'month' | 'week' | 'agenda' | 'today';
+
+export interface ViewRoute {
+  view: CalendarView;
+  date: string; // âncora (YYYY-MM-DD): mês/semana exibidos ou início da agenda
+  to?: string;  // fim da agenda (inclusivo)
+}
+
+export type ShareFormat = 'whatsapp' | 'telegram' | 'discord' | 'plain' | 'image';
+
+// picks = palpites do dia; day/week = resumo com resultados e P&L
+export type ShareScope = 'picks' | 'day' | 'week';
+
+export interface ShareOptions {
+  format: ShareFormat;
+  scope: ShareScope;
+  showOdds: boolean;
+  showStakes: boolean;
+  showResults: boolean;
+}
+
+export interface Profile {
+  id: string;
+  name: string; // também é o tipster padrão dos palpites do perfil
+}
+
+export interface ProfileState {
+  profiles: Profile[];
+  activeId: string;
 }
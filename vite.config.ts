@@ -1,7 +1,29 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Preenche as marcações do service worker copiado para o build: a lista de
+ * arquivos gerados (pré-cache) e um nome de cache por build, para que a
+ * ativação de uma versão nova descarte os arquivos da anterior.
+ */
+const precacheBuildAssets = (): Plugin => ({
+  name: 'precache-build-assets',
+  apply: 'build',
+  async writeBundle(options, bundle) {
+    const dir = options.dir ?? 'dist';
+    const assets = Object.keys(bundle).filter(file => file.startsWith('assets/')).sort().map(file => `/${file}`);
+    const hash = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 10);
+    const swPath = path.join(dir, 'sw.js');
+    const source = await readFile(swPath, 'utf8');
+    await writeFile(swPath, source
+      .replace("'betmaster-v1' /* @build-cache */", JSON.stringify(`betmaster-${hash}`))
+      .replace('[] /* @build-assets */', JSON.stringify(assets)));
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +31,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuildAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)